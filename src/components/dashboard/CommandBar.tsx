@@ -1,10 +1,14 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { useAppDispatch } from '../../hooks/useAppDispatch';
-import { useExpressionEngine } from '../../hooks/useExpressionEngine';
+import { useAppSelector } from '../../hooks/useAppSelector';
+import { useExpressionEngine, SerializationFormat } from '../../hooks/useExpressionEngine';
 import { useComputation } from '../../hooks/useComputation';
 import { TaskStatus } from '../../core/computation';
-import { ExpressionSuggestion } from '../../core/expression-engine/types';
+import { ExpressionSuggestion, ExpressionValue, NodeType, ProgressUpdate, QuickFix } from '../../core/expression-engine/types';
+import { toNumericList, toMathML, applyQuickFix } from '../../core/expression-engine';
+import { useVisualization } from '../../core/visualization';
 import { addResult } from '../../store/slices/resultsSlice';
+import { addResult as addToHistory } from '../../store/slices/expressionSlice';
 import { 
   Box, 
   TextField, 
@@ -15,7 +19,8 @@ import {
   InputAdornment,
   Popper,
   ClickAwayListener,
-  Fade
+  Fade,
+  Button
 } from '@mui/material';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import StopIcon from '@mui/icons-material/Stop';
@@ -23,6 +28,7 @@ import HistoryIcon from '@mui/icons-material/History';
 import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
 import SearchIcon from '@mui/icons-material/Search';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 
 interface CommandBarProps {
   compact?: boolean;
@@ -37,41 +43,80 @@ const CommandBar: React.FC<CommandBarProps> = ({
   onExecute
 }) => {
   const dispatch = useAppDispatch();
+  const { setVisualizationData } = useVisualization();
   const [expression, setExpression] = useState('');
   const [isFocused, setIsFocused] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [history, setHistory] = useState<string[]>([]);
+  const [executedExpression, setExecutedExpression] = useState('');
+  // Progress reported by the methods of plugins while an expression is evaluated on the main thread
+  const [methodProgress, setMethodProgress] = useState<ProgressUpdate | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const historyButtonRef = useRef<HTMLButtonElement>(null);
   
+  // Numeric precision from the calculation settings
+  const precision = useAppSelector(state => state.settings.calculation.precision);
+  const display = useAppSelector(state => state.settings.display);
+  
   // Get expression engine hooks for syntax highlighting, parsing, etc.
   const { 
     highlightedExpression, 
     suggestions, 
+    signatureHelp,
+    acceptSuggestion,
     parsedExpression,
     errors,
-    parseExpression
-  } = useExpressionEngine();
+    parseExpression,
+    evaluateExpression,
+    scope,
+    extensions,
+    serializeExpression,
+    formatValue,
+    storeValue,
+    refreshUserDefinitions,
+    usesExtensions
+  } = useExpressionEngine(precision);
   
   // Get computation hook for evaluating expressions
   const {
     result,
     status,
     progress,
+    eta,
+    progressMessage,
     error,
     execute,
+    runScript,
     cancel,
     isRunning
-  } = useComputation();
+  } = useComputation(null, { scope, precision, extensions });
+  
+  // Progress of the computation running in a worker or of the methods of plugins
+  const shownProgress: ProgressUpdate | null = methodProgress ?? (status === TaskStatus.RUNNING
+    ? { progress, eta: eta ?? undefined, message: progressMessage ?? undefined }
+    : null);
   
   // Parse expression when it changes
   useEffect(() => {
     parseExpression(expression);
   }, [expression, parseExpression]);
   
+  // Typeset preview of the expression being entered; scripts are not typeset
+  const previewMarkup = useMemo(() => {
+    if (!parsedExpression?.ast || parsedExpression.ast.type === NodeType.Block || errors.length > 0 || !expression.trim()) {
+      return null;
+    }
+    
+    try {
+      return toMathML(parsedExpression.ast, 'block');
+    } catch {
+      return null;
+    }
+  }, [parsedExpression, errors, expression]);
+  
   // Handle expression change
   const handleExpressionChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setExpression(event.target.value);
@@ -156,10 +201,25 @@ const CommandBar: React.FC<CommandBarProps> = ({
       return;
     }
     
-    execute(parsedExpression.ast)
+    // Assignments and function definitions update the session scope on the main thread, and
+    // the operators, literals and methods of plugins are only defined there. Scripts run in a
+    // worker, which hands back the variables and functions they define.
+    const { ast } = parsedExpression;
+    const onMainThread = ast.type === NodeType.Assignment || ast.type === NodeType.FunctionDefinition
+      || usesExtensions(parsedExpression);
+    const computation = onMainThread
+      ? evaluateExpression(expression, setMethodProgress)
+        .then(value => ({ value, duration: 0 }))
+        .finally(() => setMethodProgress(null))
+      : ast.type === NodeType.Block
+        ? runScript(expression).finally(refreshUserDefinitions)
+        : execute(ast);
+    
+    computation
       .then(computationResult => {
         // Add result to the store
-        const resultValue = String(computationResult.value);
+        const value = computationResult.value as ExpressionValue;
+        const resultValue = formatValue(value);
         dispatch(addResult({
           value: resultValue,
           timestamp: new Date().toISOString(),
@@ -167,6 +227,21 @@ const CommandBar: React.FC<CommandBarProps> = ({
           metadata: { expression }
         }));
         
+        // The results area formats the value itself, so that it follows the display settings
+        dispatch(addToHistory({
+          expression,
+          result: resultValue,
+          value: storeValue(value)
+        }));
+        
+        // Numeric lists can be charted directly
+        const chartData = toNumericList(value);
+        if (chartData) {
+          setVisualizationData(chartData);
+        }
+        
+        setExecutedExpression(expression);
+        
         // Add to history
         if (expression.trim() && !history.includes(expression)) {
           setHistory(prev => [expression, ...prev.slice(0, 49)]); // Keep last 50 expressions
@@ -186,7 +261,42 @@ const CommandBar: React.FC<CommandBarProps> = ({
       .catch(err => {
         console.error('Computation error:', err);
       });
-  }, [parsedExpression, errors, execute, dispatch, expression, onExecute, compact, history]);
+  }, [
+    parsedExpression,
+    errors,
+    execute,
+    runScript,
+    refreshUserDefinitions,
+    evaluateExpression,
+    usesExtensions,
+    formatValue,
+    storeValue,
+    dispatch,
+    setVisualizationData,
+    expression,
+    onExecute,
+    compact,
+    history
+  ]);
+  
+  // Copy the expression being entered as LaTeX or MathML
+  const handleCopyExpression = (format: SerializationFormat) => {
+    const markup = serializeExpression(expression, format);
+    if (markup) {
+      void navigator.clipboard.writeText(markup);
+    }
+  };
+  
+  // Copy the last computation as an equation, falling back to plain text when the result does not parse
+  const handleCopyResult = (format: SerializationFormat) => {
+    if (!result) {
+      return;
+    }
+    
+    const resultText = formatValue(result.value as ExpressionValue, display);
+    const markup = serializeExpression(executedExpression, format, resultText);
+    void navigator.clipboard.writeText(markup ?? `${executedExpression} = ${resultText}`);
+  };
   
   // Handle cancel button click
   const handleCancel = () => {
@@ -195,6 +305,7 @@ const CommandBar: React.FC<CommandBarProps> = ({
   
   // Handle suggestion click
   const handleSuggestionClick = (suggestion: ExpressionSuggestion) => {
+    acceptSuggestion(suggestion);
     setExpression(prev => {
       // If it's a function, add after the cursor position
       if (suggestion.type === 'function' && inputRef.current) {
@@ -209,6 +320,31 @@ const CommandBar: React.FC<CommandBarProps> = ({
     setShowSuggestions(false);
   };
   
+  // Handle quick fix click
+  const handleQuickFix = (fix: QuickFix) => {
+    setExpression(prev => applyQuickFix(prev, fix));
+    inputRef.current?.focus();
+  };
+  
+  // Signature of the function call being typed, with the current argument in bold
+  const signatureHint = signatureHelp && (
+    <Typography variant="body2" sx={{ px: 1, py: 0.5, fontFamily: 'monospace', color: 'text.secondary' }}>
+      {signatureHelp.name}(
+      {signatureHelp.parameters.map((parameter, index) => (
+        <React.Fragment key={parameter}>
+          {index > 0 && ', '}
+          <Box
+            component="span"
+            sx={index === signatureHelp.argumentIndex ? { fontWeight: 'bold', color: 'text.primary' } : undefined}
+          >
+            {parameter}
+          </Box>
+        </React.Fragment>
+      ))}
+      )
+    </Typography>
+  );
+  
   // Toggle history panel
   const toggleHistory = useCallback(() => {
     setShowHistory(prev => !prev);
@@ -309,6 +445,7 @@ const CommandBar: React.FC<CommandBarProps> = ({
               >
                 <ClickAwayListener onClickAway={() => setShowSuggestions(false)}>
                   <Box>
+                    {signatureHint}
                     {suggestions.map((suggestion: ExpressionSuggestion, index: number) => (
                       <Typography 
                         key={index} 
@@ -328,7 +465,8 @@ const CommandBar: React.FC<CommandBarProps> = ({
                           <Box component="span" sx={{ 
                             color: suggestion.type === 'function' ? 'primary.main' : 
                                   suggestion.type === 'variable' ? 'success.main' : 
-                                  suggestion.type === 'operator' ? 'warning.main' : 'info.main',
+                                  suggestion.type === 'operator' ? 'warning.main' :
+                                  suggestion.type === 'unit' ? 'secondary.main' : 'info.main',
                             fontWeight: 'bold',
                             mr: 1
                           }}>
@@ -442,7 +580,9 @@ const CommandBar: React.FC<CommandBarProps> = ({
           <TextField
             fullWidth
             variant="outlined"
-            placeholder="Enter a mathematical expression..."
+            placeholder="Enter a mathematical expression, paste LaTeX, or write a script (Shift+Enter for a new line)..."
+            multiline
+            maxRows={8}
             value={expression}
             onChange={handleExpressionChange}
             onKeyDown={handleKeyDown}
@@ -492,7 +632,7 @@ const CommandBar: React.FC<CommandBarProps> = ({
             }}
           />
           
-          {/* Syntax highlighting overlay (hidden but used for accessible screen readers) */}
+          {/* Syntax highlighting overlay, transparent except for the underlines of syntax errors */}
           <Box
             sx={{
               position: 'absolute',
@@ -506,33 +646,66 @@ const CommandBar: React.FC<CommandBarProps> = ({
               pl: 2,
               fontFamily: 'monospace',
               overflow: 'hidden',
+              whiteSpace: 'pre',
+              color: 'transparent',
               '& span': {
                 display: 'inline-block',
               },
+              '& .expression-error': {
+                textDecoration: 'underline wavy',
+                textDecorationColor: theme => theme.palette.error.main,
+              },
             }}
             aria-hidden="true"
             dangerouslySetInnerHTML={{ __html: highlightedExpression }}
           />
         </Box>
         
-        {/* Error messages */}
+        {/* Typeset preview */}
+        {previewMarkup && (
+          <Box sx={{ mt: 1, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Box
+              sx={{ flexGrow: 1, overflowX: 'auto', '& math': { fontSize: '1.2rem', my: 0.5 } }}
+              dangerouslySetInnerHTML={{ __html: previewMarkup }}
+            />
+            <Button size="small" startIcon={<ContentCopyIcon fontSize="small" />} aria-label="copy expression as LaTeX" onClick={() => handleCopyExpression('latex')}>
+              LaTeX
+            </Button>
+            <Button size="small" startIcon={<ContentCopyIcon fontSize="small" />} aria-label="copy expression as MathML" onClick={() => handleCopyExpression('mathml')}>
+              MathML
+            </Button>
+          </Box>
+        )}
+        
+        {/* Error messages, each marking its range and offering its quick fixes */}
         {errors.length > 0 && (
           <Paper elevation={1} sx={{ mt: 1, p: 1, bgcolor: 'error.light', color: 'error.contrastText' }}>
-            <Typography variant="caption" sx={{ display: 'block', fontWeight: 'bold' }}>
-              Error: {errors[0].message}
-            </Typography>
-            {errors.length > 1 && (
-              <Typography variant="caption" sx={{ display: 'block', mt: 0.5 }}>
-                {errors.length - 1} more {errors.length - 1 === 1 ? 'error' : 'errors'}
-              </Typography>
-            )}
-            {errors[0].position >= 0 && (
-              <Box sx={{ mt: 0.5, fontFamily: 'monospace', fontSize: '0.75rem' }}>
-                {expression}
-                <br />
-                {' '.repeat(errors[0].position)}^{'~'.repeat(Math.min(10, expression.length - errors[0].position))}
+            {errors.map((syntaxError, index) => (
+              <Box key={index} sx={{ mt: index > 0 ? 1 : 0 }}>
+                <Typography variant="caption" sx={{ display: 'block', fontWeight: 'bold' }}>
+                  Error: {syntaxError.message}
+                </Typography>
+                {syntaxError.position >= 0 && (
+                  <Box sx={{ mt: 0.5, fontFamily: 'monospace', fontSize: '0.75rem', whiteSpace: 'pre' }}>
+                    {expression}
+                    <br />
+                    {' '.repeat(syntaxError.position)}^{'~'.repeat(Math.max(0, syntaxError.end - syntaxError.position - 1))}
+                  </Box>
+                )}
+                {syntaxError.fixes?.map(fix => (
+                  <Button key={fix.title} size="small" color="inherit" onClick={() => handleQuickFix(fix)}>
+                    {fix.title}
+                  </Button>
+                ))}
               </Box>
-            )}
+            ))}
+          </Paper>
+        )}
+        
+        {/* Signature of the function call being typed */}
+        {isFocused && signatureHint && (
+          <Paper elevation={2} sx={{ mt: 1 }}>
+            {signatureHint}
           </Paper>
         )}
         
@@ -560,7 +733,8 @@ const CommandBar: React.FC<CommandBarProps> = ({
                       <Box component="span" sx={{ 
                         color: suggestion.type === 'function' ? 'primary.main' : 
                               suggestion.type === 'variable' ? 'success.main' : 
-                              suggestion.type === 'operator' ? 'warning.main' : 'info.main',
+                              suggestion.type === 'operator' ? 'warning.main' :
+                              suggestion.type === 'unit' ? 'secondary.main' : 'info.main',
                         fontWeight: 'bold',
                         mr: 1
                       }}>
@@ -646,11 +820,15 @@ const CommandBar: React.FC<CommandBarProps> = ({
         )}
         
         {/* Computation progress */}
-        {status === TaskStatus.RUNNING && (
+        {shownProgress && (
           <Box sx={{ mt: 1 }}>
-            <LinearProgress variant="determinate" value={progress * 100} />
-            <Typography variant="caption" sx={{ display: 'block', textAlign: 'right' }}>
-              {Math.round(progress * 100)}%
+            <LinearProgress variant="determinate" value={shownProgress.progress * 100} />
+            <Typography variant="caption" sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <span>{shownProgress.message}</span>
+              <span>
+                {Math.round(shownProgress.progress * 100)}%
+                {shownProgress.eta !== undefined && shownProgress.eta > 0 && ` · about ${Math.ceil(shownProgress.eta / 1000)}s left`}
+              </span>
             </Typography>
           </Box>
         )}
@@ -658,10 +836,16 @@ const CommandBar: React.FC<CommandBarProps> = ({
         {/* Computation result */}
         {result && status === TaskStatus.COMPLETED && (
           <Typography variant="body1" sx={{ mt: 2 }}>
-            = {String(result.value)}
+            = {formatValue(result.value as ExpressionValue, display)}
             <Typography variant="caption" sx={{ ml: 1 }}>
               ({result.duration}ms)
             </Typography>
+            <Button sx={{ ml: 1 }} size="small" startIcon={<ContentCopyIcon fontSize="small" />} aria-label="copy result as LaTeX" onClick={() => handleCopyResult('latex')}>
+              LaTeX
+            </Button>
+            <Button size="small" startIcon={<ContentCopyIcon fontSize="small" />} aria-label="copy result as MathML" onClick={() => handleCopyResult('mathml')}>
+              MathML
+            </Button>
           </Typography>
         )}
         
@@ -43,6 +43,7 @@ import ResultsArea from './ResultsArea';
 import { Workspace } from '../../store/slices/workspaceSlice';
 import { useAppDispatch } from '../../hooks/useAppDispatch';
 import { createWorkspace, setWorkspaceLayout } from '../../store/slices/workspaceSlice';
+import { StoredValue } from '../../core/expression-engine/types';
 
 interface DashboardLayoutProps {
   onCommandExecute?: (command: string, result: string) => void;
@@ -52,6 +53,7 @@ interface DashboardLayoutProps {
     id: string;
     expression: string;
     result: string;
+    value?: StoredValue;
     timestamp: number;
   }>;
   panels?: Panel[];
@@ -1,16 +1,24 @@
 import { FC } from 'react';
 import { Paper, Typography, Box } from '@mui/material';
+import { useAppSelector } from '../../hooks/useAppSelector';
+import { formatStoredValue } from '../../core/expression-engine';
+import { StoredValue } from '../../core/expression-engine/types';
 
 interface ResultsAreaProps {
   results?: Array<{
     id: string;
     expression: string;
     result: string;
+    value?: StoredValue;
     timestamp: number;
   }>;
 }
 
 const ResultsArea: FC<ResultsAreaProps> = ({ results = [] }) => {
+  // Results are shown in the number format chosen in the display settings; results kept
+  // without their value are shown as they were stored
+  const display = useAppSelector(state => state.settings.display);
+  
   return (
     <Paper 
       elevation={3} 
@@ -54,7 +62,7 @@ const ResultsArea: FC<ResultsAreaProps> = ({ results = [] }) => {
               variant="h6" 
               sx={{ mt: 1, fontFamily: 'monospace' }}
             >
-              = {item.result}
+              = {item.value ? formatStoredValue(item.value, display) : item.result}
             </Typography>
           </Box>
         ))
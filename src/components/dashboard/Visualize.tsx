@@ -1,7 +1,13 @@
 import { FC, useState } from 'react';
-import { Typography, Box, Button, Card, CardContent } from '@mui/material';
+import { Typography, Box, Button, Card, CardContent, TextField, LinearProgress } from '@mui/material';
 import VisualizationContainer from '../visualization/VisualizationContainer';
 import { useVisualization } from '@/core/visualization';
+import { Parser } from '@/core/expression-engine';
+import { ExpressionValue } from '@/core/expression-engine/types';
+import { useComputation } from '../../hooks/useComputation';
+
+// Points an expression is plotted at, evenly spaced over the range of x
+const PLOT_POINTS = 200;
 
 const Visualize: FC = () => {
   const { setVisualizationData } = useVisualization();
@@ -14,11 +20,46 @@ const Visualize: FC = () => {
   ];
   
   const [currentDataIndex, setCurrentDataIndex] = useState(0);
+  const [data, setData] = useState<number[]>(sampleData[0]);
+  
+  // Expression plotted over a range of x, sampled in a worker
+  const [expression, setExpression] = useState('sin(x) * x');
+  const [from, setFrom] = useState('-10');
+  const [to, setTo] = useState('10');
+  const [plotError, setPlotError] = useState<string | null>(null);
+  const { sample, isRunning, progress } = useComputation<ExpressionValue[]>();
+  
+  // Plot the expression, leaving gaps where it has no numeric value
+  const handlePlot = async () => {
+    const { ast, errors } = new Parser().parse(expression);
+    const start = Number(from);
+    const end = Number(to);
+    
+    if (!ast || errors.length > 0) {
+      setPlotError(errors[0]?.message ?? 'Invalid expression');
+      return;
+    }
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start >= end) {
+      setPlotError('The range of x must go from a smaller to a larger number');
+      return;
+    }
+    
+    const xs = Array.from({ length: PLOT_POINTS }, (_, i) => start + ((end - start) * i) / (PLOT_POINTS - 1));
+    
+    try {
+      setPlotError(null);
+      const { value } = await sample(ast, 'x', xs);
+      setData(value.map(y => (typeof y === 'number' ? y : NaN)));
+    } catch (err) {
+      setPlotError(err instanceof Error ? err.message : 'Plotting failed');
+    }
+  };
   
   // Load a different sample dataset
   const handleChangeData = () => {
     const nextIndex = (currentDataIndex + 1) % sampleData.length;
     setCurrentDataIndex(nextIndex);
+    setData(sampleData[nextIndex]);
     setVisualizationData(sampleData[nextIndex]);
   };
 
@@ -44,9 +85,34 @@ const Visualize: FC = () => {
         </CardContent>
       </Card>
       
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            Plot an Expression
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+            <TextField
+              label="f(x)"
+              size="small"
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              error={plotError !== null}
+              helperText={plotError}
+              sx={{ flexGrow: 1 }}
+            />
+            <TextField label="From" size="small" value={from} onChange={(e) => setFrom(e.target.value)} sx={{ width: 100 }} />
+            <TextField label="To" size="small" value={to} onChange={(e) => setTo(e.target.value)} sx={{ width: 100 }} />
+            <Button variant="contained" onClick={handlePlot} disabled={isRunning}>
+              Plot
+            </Button>
+          </Box>
+          {isRunning && <LinearProgress variant="determinate" value={progress * 100} sx={{ mt: 1 }} />}
+        </CardContent>
+      </Card>
+      
       <Box sx={{ flexGrow: 1 }}>
         <VisualizationContainer 
-          data={sampleData[currentDataIndex]} 
+          data={data} 
           width={800}
           height={400}
         />
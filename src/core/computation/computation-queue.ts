@@ -6,54 +6,16 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-
-export enum TaskPriority {
-  LOW = 0,
-  NORMAL = 1,
-  HIGH = 2,
-  CRITICAL = 3
-}
-
-export enum TaskStatus {
-  PENDING = 'pending',
-  RUNNING = 'running',
-  COMPLETED = 'completed',
-  CANCELLED = 'cancelled',
-  FAILED = 'failed'
-}
-
-export interface ComputationTask<T = unknown> {
-  id: string;
-  type: string;
-  payload: unknown;
-  priority: TaskPriority;
-  status: TaskStatus;
-  progress: number;
-  result?: T;
-  error?: string;
-  startTime?: number;
-  endTime?: number;
-  cancelToken: CancelToken;
-  onProgress?: (progress: number) => void;
-}
-
-export class CancelToken {
-  private _isCancelled = false;
-  private _cancelReason?: string;
-
-  public cancel(reason?: string): void {
-    this._isCancelled = true;
-    this._cancelReason = reason;
-  }
-
-  public get isCancelled(): boolean {
-    return this._isCancelled;
-  }
-
-  public get cancelReason(): string | undefined {
-    return this._cancelReason;
-  }
-}
+import {
+  ComputationTask,
+  TaskType,
+  TaskPriority,
+  TaskStatus,
+  TaskTransitionError,
+  CancelToken,
+  canTransition,
+  isFinished
+} from './types';
 
 /**
  * Manages computation tasks in a prioritized queue
@@ -66,32 +28,38 @@ export class ComputationQueue {
    * Create a new computation task
    * @param type - The task type
    * @param payload - The task data
-   * @param priority - Task priority (default: NORMAL)
-   * @param onProgress - Optional progress callback
+   * @param options - Priority (default: NORMAL) and source of the task, an optional progress
+   * callback, and an optional callback for the status the task is created with and each
+   * status it moves to
    * @returns The created task
    */
   public createTask<T>(
-    type: string,
+    type: TaskType,
     payload: unknown,
-    priority: TaskPriority = TaskPriority.NORMAL,
-    onProgress?: (progress: number) => void
+    options: Partial<Pick<ComputationTask<T>, 'priority' | 'source' | 'onProgress' | 'onStatusChange'>> = {}
   ): ComputationTask<T> {
     const id = uuidv4();
     const cancelToken = new CancelToken();
+    const { priority = TaskPriority.NORMAL, source, onProgress, onStatusChange } = options;
     
     const task: ComputationTask<T> = {
       id,
       type,
       payload,
       priority,
+      effectivePriority: priority,
+      source,
+      preemptions: 0,
       status: TaskStatus.PENDING,
       progress: 0,
       cancelToken,
       onProgress,
+      onStatusChange,
     };
     
     this.tasks.set(id, task);
     this.notifyListeners('taskCreated', task);
+    task.onStatusChange?.(task);
     
     return task;
   }
@@ -106,10 +74,12 @@ export class ComputationQueue {
   }
 
   /**
-   * Update a task's status and other properties
+   * Update a task's status and other properties. The status may only change as the task
+   * lifecycle allows, so a task that has ended keeps the status it ended with.
    * @param id - The task ID
    * @param updates - Object with properties to update
    * @returns The updated task or undefined if not found
+   * @throws TaskTransitionError if the lifecycle does not allow the new status
    */
   public updateTask<T>(
     id: string,
@@ -121,12 +91,17 @@ export class ComputationQueue {
       return undefined;
     }
     
+    const statusChanged = updates.status !== undefined && updates.status !== task.status;
+    if (statusChanged && !canTransition(task.status, updates.status!)) {
+      throw new TaskTransitionError(id, task.status, updates.status!);
+    }
+    
     // Update task properties
     Object.assign(task, updates);
     
     // If progress was updated, call the onProgress callback
     if (updates.progress !== undefined && task.onProgress) {
-      task.onProgress(task.progress);
+      task.onProgress({ progress: task.progress, eta: task.eta, message: task.progressMessage });
     }
     
     // If status changed to RUNNING, set start time
@@ -134,18 +109,17 @@ export class ComputationQueue {
       task.startTime = Date.now();
     }
     
-    // If status changed to COMPLETED or FAILED, set end time
-    if (
-      (updates.status === TaskStatus.COMPLETED || 
-       updates.status === TaskStatus.FAILED ||
-       updates.status === TaskStatus.CANCELLED) && 
-      !task.endTime
-    ) {
+    // If the task ended, set end time
+    if (statusChanged && isFinished(task.status) && !task.endTime) {
       task.endTime = Date.now();
     }
     
     this.notifyListeners('taskUpdated', task);
     
+    if (statusChanged) {
+      task.onStatusChange?.(task);
+    }
+    
     return task;
   }
 
@@ -153,12 +127,12 @@ export class ComputationQueue {
    * Cancel a task
    * @param id - The task ID
    * @param reason - Optional reason for cancellation
-   * @returns The cancelled task or undefined if not found
+   * @returns The cancelled task, or undefined if not found or already ended
    */
   public cancelTask<T>(id: string, reason?: string): ComputationTask<T> | undefined {
     const task = this.tasks.get(id) as ComputationTask<T> | undefined;
     
-    if (!task) {
+    if (!task || isFinished(task.status)) {
       return undefined;
     }
     
@@ -201,13 +175,13 @@ export class ComputationQueue {
   }
 
   /**
-   * Get pending tasks sorted by priority
+   * Get pending tasks sorted by effective priority
    * @returns Array of pending tasks
    */
   public getPendingTasks(): ComputationTask[] {
     return Array.from(this.tasks.values())
       .filter(task => task.status === TaskStatus.PENDING)
-      .sort((a, b) => b.priority - a.priority);
+      .sort((a, b) => b.effectivePriority - a.effectivePriority);
   }
 
   /**
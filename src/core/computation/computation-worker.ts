@@ -6,26 +6,48 @@
  */
 
 import { Evaluator } from '../expression-engine/evaluator';
+import { formatScriptError } from '../expression-engine/script-parser';
+import { withProgress, trackStep } from '../expression-engine/progress';
+import { ASTNode, EvaluationScope, ExpressionValue, NumericPrecision, ProgressUpdate } from '../expression-engine/types';
+import { CancelToken, WorkerRequest, WorkerResponse } from './types';
 
-// Task types
-const TASK_TYPES = {
-  EXECUTE: 'execute',
-  EVALUATE: 'evaluate',
-  CANCEL: 'cancel'
-};
+/**
+ * Cancel token of a task in this worker. A synchronous evaluation keeps the worker from
+ * handling cancel messages, so the token is also cancelled once the main thread raises the
+ * task's flag in shared memory.
+ */
+class TaskCancelToken extends CancelToken {
+  constructor(private flag?: Int32Array) {
+    super();
+  }
 
-// Active tasks
-const activeTasks = new Map<string, { cancelled: boolean }>();
+  public get isCancelled(): boolean {
+    return super.isCancelled || (this.flag !== undefined && Atomics.load(this.flag, 0) === 1);
+  }
+}
+
+// Cancel tokens of the active tasks
+const activeTasks = new Map<string, TaskCancelToken>();
+
+/**
+ * Send a message to the main thread
+ * @param message - The message
+ */
+function post(message: WorkerResponse): void {
+  self.postMessage(message);
+}
 
 /**
  * Send a progress update to the main thread
  * @param id - Task ID
- * @param progress - Progress value (0-1)
+ * @param update - Progress value (0-1), with the estimated time left and a status message
+ * when the computation reports them
  */
-function sendProgress(id: string, progress: number): void {
-  self.postMessage({
+function sendProgress(id: string, update: ProgressUpdate): void {
+  post({
+    type: 'progress',
     id,
-    progress
+    ...update
   });
 }
 
@@ -35,19 +57,32 @@ function sendProgress(id: string, progress: number): void {
  * @param result - Result value
  */
 function sendResult(id: string, result: unknown): void {
-  self.postMessage({
+  post({
+    type: 'result',
     id,
     result
   });
 }
 
+/**
+ * Report to the main thread that a task stopped because it was cancelled
+ * @param id - Task ID
+ */
+function sendCancelled(id: string): void {
+  post({
+    type: 'cancelled',
+    id
+  });
+}
+
 /**
  * Send an error to the main thread
  * @param id - Task ID
  * @param error - Error message
  */
 function sendError(id: string, error: string): void {
-  self.postMessage({
+  post({
+    type: 'error',
     id,
     error
   });
@@ -56,85 +91,211 @@ function sendError(id: string, error: string): void {
 /**
  * Execute an AST using the evaluator
  * @param id - Task ID
+ * @param cancelToken - Cancel token of the task
  * @param ast - Abstract Syntax Tree to evaluate
  * @param context - Evaluation context
+ * @param scope - Session scope with user-defined variables and functions
+ * @param precision - Numeric precision mode
  */
-function executeAst(id: string, ast: unknown, context: Record<string, unknown> = {}): void {
+function executeAst(
+  id: string,
+  cancelToken: TaskCancelToken,
+  ast: ASTNode,
+  context: Record<string, unknown> = {},
+  scope?: EvaluationScope,
+  precision?: NumericPrecision
+): void {
   try {
-    // Create task record
-    activeTasks.set(id, { cancelled: false });
-    
     // Send initial progress
-    sendProgress(id, 0);
+    sendProgress(id, { progress: 0 });
     
     // Create evaluator with custom context
-    const evaluator = new Evaluator(context);
+    const evaluator = new Evaluator(context, scope, precision);
     
-    // Check if task was cancelled
-    if (activeTasks.get(id)?.cancelled) {
-      sendError(id, 'Task cancelled');
-      activeTasks.delete(id);
+    // Evaluate the AST, stopping at the next loop iteration or call once cancelled and
+    // forwarding the progress its loops and functions report
+    const result = evaluator.evaluate(ast, {
+      cancelToken,
+      onProgress: update => sendProgress(id, update)
+    });
+    
+    if (cancelToken.isCancelled) {
+      sendCancelled(id);
       return;
     }
     
-    // Evaluate the AST - need to cast since we know the internal implementation
-    // Using unknown cast instead of any
-    const result = evaluator.evaluate(ast as unknown as import('../expression-engine/types').ASTNode);
-    
-    // Send mid-progress
-    sendProgress(id, 0.5);
-    
-    // Check if task was cancelled
-    if (activeTasks.get(id)?.cancelled) {
-      sendError(id, 'Task cancelled');
-      activeTasks.delete(id);
+    // Evaluation errors are reported like any other task failure
+    if (result.error) {
+      sendError(id, result.error);
       return;
     }
     
     // Send final progress
-    sendProgress(id, 1);
+    sendProgress(id, { progress: 1, eta: 0 });
     
     // Send result
-    sendResult(id, result);
-    
-    // Clean up task record
-    activeTasks.delete(id);
+    sendResult(id, result.value);
   } catch (error) {
     // Send error
     sendError(
       id,
       error instanceof Error ? error.message : 'Unknown error in worker'
     );
+  }
+}
+
+/**
+ * Run a parsed script using the evaluator. The result carries the session scope along with
+ * the value, so that the functions and variables the script defines reach the main thread.
+ * @param id - Task ID
+ * @param cancelToken - Cancel token of the task
+ * @param ast - The block of statements parsed from the script
+ * @param context - Evaluation context
+ * @param scope - Session scope with user-defined variables and functions
+ * @param precision - Numeric precision mode
+ */
+function runScript(
+  id: string,
+  cancelToken: TaskCancelToken,
+  ast: ASTNode,
+  context: Record<string, unknown> = {},
+  scope?: EvaluationScope,
+  precision?: NumericPrecision
+): void {
+  try {
+    sendProgress(id, { progress: 0 });
+    
+    const evaluator = new Evaluator(context, scope, precision);
+    const result = evaluator.evaluate(ast, {
+      cancelToken,
+      onProgress: update => sendProgress(id, update)
+    });
     
-    // Clean up task record
-    activeTasks.delete(id);
+    if (cancelToken.isCancelled) {
+      sendCancelled(id);
+      return;
+    }
+    
+    if (result.error) {
+      sendError(id, formatScriptError(result.error, result.location));
+      return;
+    }
+    
+    sendProgress(id, { progress: 1, eta: 0 });
+    sendResult(id, { value: result.value, scope: evaluator.getScope() });
+  } catch (error) {
+    sendError(
+      id,
+      error instanceof Error ? error.message : 'Unknown error in worker'
+    );
+  }
+}
+
+/**
+ * Evaluate a tree at many values of one of its variables, compiling it once so that each
+ * value is evaluated without walking the tree
+ * @param id - Task ID
+ * @param cancelToken - Cancel token of the task, checked before each value
+ * @param ast - The tree to evaluate
+ * @param variable - The variable bound to each value
+ * @param values - The values to evaluate the tree at
+ * @param context - Evaluation context
+ * @param scope - Session scope with user-defined variables and functions
+ * @param precision - Numeric precision mode
+ */
+function sampleAst(
+  id: string,
+  cancelToken: TaskCancelToken,
+  ast: ASTNode,
+  variable: string,
+  values: ExpressionValue[],
+  context: Record<string, unknown> = {},
+  scope?: EvaluationScope,
+  precision?: NumericPrecision
+): void {
+  try {
+    sendProgress(id, { progress: 0 });
+    
+    const compiled = new Evaluator(context, scope, precision).compile(ast, [variable]);
+    const results: ExpressionValue[] = [];
+    
+    const completed = withProgress(update => sendProgress(id, update), () => {
+      for (const [index, value] of values.entries()) {
+        if (cancelToken.isCancelled) {
+          return false;
+        }
+        
+        // Values where the evaluation fails, such as the poles of a plotted function, are null
+        try {
+          results.push(trackStep(index, values.length, () => compiled.evaluate(value)));
+        } catch {
+          results.push(null);
+        }
+      }
+      return true;
+    });
+    
+    if (!completed) {
+      sendCancelled(id);
+      return;
+    }
+    
+    sendProgress(id, { progress: 1, eta: 0 });
+    sendResult(id, results);
+  } catch (error) {
+    sendError(
+      id,
+      error instanceof Error ? error.message : 'Unknown error in worker'
+    );
   }
 }
 
 /**
  * Handle messages from the main thread
  */
-self.onmessage = function(event: MessageEvent) {
-  const { id, type, payload } = event.data;
+self.onmessage = function(event: MessageEvent<WorkerRequest>) {
+  const request = event.data;
+  
+  if (request.type === 'cancel') {
+    activeTasks.get(request.id)?.cancel();
+    return;
+  }
+  
+  const cancelToken = new TaskCancelToken(request.cancelFlag && new Int32Array(request.cancelFlag));
+  activeTasks.set(request.id, cancelToken);
   
-  switch (type) {
-    case TASK_TYPES.EXECUTE:
-      executeAst(id, payload.ast, payload.context);
-      break;
-      
-    case TASK_TYPES.CANCEL: {      
-      // Mark task as cancelled
-      const task = activeTasks.get(id);
-      if (task) {
-        task.cancelled = true;
+  try {
+    switch (request.type) {
+      case 'execute': {
+        const { ast, context, scope, precision } = request.payload;
+        executeAst(request.id, cancelToken, ast, context, scope, precision);
+        break;
+      }
+        
+      case 'script': {
+        const { ast, context, scope, precision } = request.payload;
+        runScript(request.id, cancelToken, ast, context, scope, precision);
+        break;
       }
-      break;
+        
+      case 'sample': {
+        const { ast, sample, context, scope, precision } = request.payload;
+        sampleAst(request.id, cancelToken, ast, sample.variable, sample.values, context, scope, precision);
+        break;
+      }
+        
+      default:
+        sendError(request.id, `Unknown task type: ${request.type}`);
     }
-      
-    default:
-      sendError(id, `Unknown task type: ${type}`);
+  } finally {
+    activeTasks.delete(request.id);
   }
 };
 
 // Report that the worker is ready
-self.postMessage({ type: 'ready' });
\ No newline at end of file
+post({
+  type: 'ready',
+  capabilities: {
+    hasMemoryMonitoring: 'memory' in self.performance
+  }
+});
\ No newline at end of file
@@ -6,16 +6,18 @@
  */
 
 import { WorkerManager, Task } from './worker-manager';
-import { ComputationQueue, ComputationTask, TaskStatus, TaskPriority, CancelToken } from './computation-queue';
-import { ASTNode } from '../expression-engine/types';
+import { ComputationQueue } from './computation-queue';
+import { ComputationTask, ExecutionPlan, TaskStatus, TaskPriority, CancelToken } from './types';
+import { EvaluationScope, NumericPrecision, ProgressUpdate } from '../expression-engine/types';
+import { ExtensionRegistry } from '../expression-engine/extensions';
 // Import necessary dependencies
 
 /**
- * Execution plan for a computation
+ * Value of a script run in a worker, with the session scope as the script left it
  */
-export interface ExecutionPlan {
-  ast: ASTNode;
-  context?: Record<string, unknown>;
+export interface ScriptOutcome<T = unknown> {
+  value: T;
+  scope: EvaluationScope;
 }
 
 /**
@@ -32,9 +34,18 @@ export interface ComputationResult<T = unknown> {
  */
 export interface ExecutionOptions {
   priority?: TaskPriority;
-  onProgress?: (progress: number) => void;
+  // Who submits the computation, such as a plugin, for the per-source quota of the pool
+  source?: string;
+  // Called with the progress the computation reports, throttled by the worker
+  onProgress?: (update: ProgressUpdate) => void;
+  // Called with the task when it is created and each time its status changes
+  onStatusChange?: (task: ComputationTask) => void;
   cancelToken?: CancelToken;
   timeout?: number;
+  scope?: EvaluationScope;
+  precision?: NumericPrecision;
+  // Operators and literals of plugins, which scripts are parsed with before they are sent
+  extensions?: ExtensionRegistry;
 }
 
 /**
@@ -53,6 +64,11 @@ export class ComputationExecutor {
     // Worker path is passed directly to the worker manager
     this.workerManager = new WorkerManager(workerPath, workerCount);
     this.queue = new ComputationQueue();
+    
+    // Stop the worker of a cancelled task, which may be stuck in a long iteration
+    this.queue.subscribe('taskCancelled', task => {
+      this.workerManager.cancel(task.id, task.cancelToken.cancelReason || 'Task cancelled');
+    });
   }
 
   /**
@@ -74,23 +90,26 @@ export class ComputationExecutor {
   ): Promise<ComputationResult<T>> {
     const { 
       priority = TaskPriority.NORMAL,
+      source,
       onProgress,
+      onStatusChange,
       cancelToken = new CancelToken(),
       timeout
     } = options;
     
     // Create a task in the queue
-    const task = this.queue.createTask<T>(
-      'execute',
-      plan,
+    const type = plan.sample ? 'sample' : plan.script ? 'script' : 'execute';
+    const task = this.queue.createTask<T>(type, plan, {
       priority,
-      onProgress
-    );
+      source,
+      onProgress,
+      onStatusChange
+    });
     
-    // If a cancel token was provided, link it to the task's cancel token
-    if (cancelToken !== task.cancelToken) {
-      this.monitorExternalCancelToken(cancelToken, task.id);
-    }
+    // Cancel the task when the cancel token provided is cancelled
+    const unlinkCancelToken = cancelToken.onCancel(() => {
+      this.queue.cancelTask(task.id, cancelToken.cancelReason);
+    });
     
     // Set up timeout if specified
     let timeoutId: number | undefined;
@@ -101,20 +120,35 @@ export class ComputationExecutor {
     }
     
     try {
-      // Update task status
-      this.queue.updateTask(task.id, {
-        status: TaskStatus.RUNNING
-      });
+      if (task.status === TaskStatus.CANCELLED) {
+        throw new Error(task.cancelToken.cancelReason || 'Task cancelled');
+      }
       
-      // Create worker task
+      // Create worker task, which runs once a worker takes it
       const workerTask: Task<T> = {
         id: task.id,
-        type: 'execute',
+        type,
         payload: plan,
-        onProgress: progress => {
-          this.queue.updateTask(task.id, { progress });
+        onProgress: ({ progress, eta, message }) => {
+          this.queue.updateTask(task.id, { progress, eta, progressMessage: message });
+        },
+        onStart: () => {
+          this.queue.updateTask(task.id, { status: TaskStatus.RUNNING, waitingFor: undefined });
+        },
+        onPreempt: () => {
+          this.queue.updateTask(task.id, {
+            status: TaskStatus.PENDING,
+            progress: 0,
+            eta: undefined,
+            progressMessage: undefined,
+            preemptions: task.preemptions + 1
+          });
         },
-        priority
+        onSchedule: scheduling => {
+          this.queue.updateTask(task.id, scheduling);
+        },
+        priority,
+        source
       };
       
       // Execute in worker
@@ -124,7 +158,9 @@ export class ComputationExecutor {
       this.queue.updateTask(task.id, {
         status: TaskStatus.COMPLETED,
         result,
-        progress: 1
+        progress: 1,
+        eta: 0,
+        progressMessage: undefined
       });
       
       const computationTask = this.queue.getTask<T>(task.id);
@@ -141,12 +177,8 @@ export class ComputationExecutor {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
-      // Check if the task was cancelled
-      if (task.cancelToken.isCancelled) {
-        this.queue.updateTask(task.id, {
-          status: TaskStatus.CANCELLED,
-          error: task.cancelToken.cancelReason || 'Task cancelled'
-        });
+      // A cancelled task already ended when it was cancelled
+      if (task.status === TaskStatus.CANCELLED) {
         throw new Error(task.cancelToken.cancelReason || 'Task cancelled');
       }
       
@@ -158,6 +190,8 @@ export class ComputationExecutor {
       
       throw error;
     } finally {
+      unlinkCancelToken();
+      
       // Clear timeout if it was set
       if (timeoutId !== undefined) {
         clearTimeout(timeoutId);
@@ -205,22 +239,4 @@ export class ComputationExecutor {
   public getTask<T>(taskId: string): ComputationTask<T> | undefined {
     return this.queue.getTask<T>(taskId);
   }
-
-  /**
-   * Monitor an external cancel token and cancel the task if it's cancelled
-   * @param externalToken - The external cancel token
-   * @param taskId - The task ID
-   * @returns Unsubscribe function
-   */
-  private monitorExternalCancelToken(externalToken: CancelToken, taskId: string): () => void {
-    // Create a polling interval to check the external token
-    const intervalId = setInterval(() => {
-      if (externalToken.isCancelled) {
-        this.queue.cancelTask(taskId, externalToken.cancelReason);
-        clearInterval(intervalId);
-      }
-    }, 100);
-    
-    return () => clearInterval(intervalId);
-  }
 }
\ No newline at end of file
@@ -5,9 +5,27 @@
  * including worker management, task queuing, and execution.
  */
 
-import { ComputationExecutor, ExecutionPlan, ComputationResult, ExecutionOptions } from './executor';
-import { ComputationTask, TaskPriority, TaskStatus, CancelToken } from './computation-queue';
-import { ASTNode } from '../expression-engine/types';
+import { ComputationExecutor, ComputationResult, ExecutionOptions, ScriptOutcome } from './executor';
+import {
+  ComputationTask,
+  ExecutionPlan,
+  SampleExecutionPlan,
+  SamplePlan,
+  TaskType,
+  TaskScheduling,
+  SchedulingPolicy,
+  WaitReason,
+  TaskPriority,
+  TaskStatus,
+  TaskTransitionError,
+  CancelToken,
+  WorkerRequest,
+  WorkerResponse,
+  canTransition,
+  isFinished
+} from './types';
+import { ASTNode, ExpressionValue } from '../expression-engine/types';
+import { ScriptParser, locate, formatScriptError } from '../expression-engine/script-parser';
 
 /**
  * Computation resource constraints
@@ -95,12 +113,92 @@ export class ComputationManager {
     
     const plan: ExecutionPlan = {
       ast,
-      context
+      context,
+      scope: options.scope,
+      precision: options.precision
     };
     
     return this.executor.execute<T>(plan, enhancedOptions);
   }
   
+  /**
+   * Run a script of statements in a worker. The script is parsed here, so syntax errors are
+   * reported without a round trip, and the functions and variables it defines are copied
+   * into options.scope once it completes.
+   * @param source - The script source
+   * @param context - Optional execution context
+   * @param options - Optional execution options
+   * @returns Promise resolving to the value of the script, rejecting with errors of the
+   * form "Line 3, column 5: Unknown variable: y"
+   */
+  public async runScript<T>(
+    source: string,
+    context?: Record<string, unknown>,
+    options: ExecutionOptions = {}
+  ): Promise<ComputationResult<T>> {
+    const { ast, errors } = new ScriptParser(options.extensions).parse(source);
+    
+    if (errors.length > 0 || !ast) {
+      const [error] = errors;
+      throw new Error(error ? formatScriptError(error.message, locate(source, error.position)) : 'Invalid script');
+    }
+    
+    const plan: ExecutionPlan = {
+      ast,
+      context,
+      scope: options.scope,
+      precision: options.precision,
+      script: true
+    };
+    
+    const result = await this.executor.execute<ScriptOutcome<T>>(plan, {
+      ...options,
+      timeout: options.timeout || this.resourceLimits.maxTime,
+    });
+    
+    if (options.scope) {
+      Object.assign(options.scope.variables, result.value.scope.variables);
+      Object.assign(options.scope.functions, result.value.scope.functions);
+    }
+    
+    return {
+      ...result,
+      value: result.value.value
+    };
+  }
+  
+  /**
+   * Evaluate an expression at many values of one of its variables in a worker, such as
+   * the points of a plot. The expression is compiled once for all the values.
+   * @param ast - Abstract Syntax Tree of the expression
+   * @param variable - The variable bound to each value
+   * @param values - The values to evaluate the expression at
+   * @param context - Optional execution context
+   * @param options - Optional execution options
+   * @returns Promise resolving to the value of the expression at each value, or null where
+   * its evaluation fails
+   */
+  public async sample(
+    ast: ASTNode,
+    variable: string,
+    values: ExpressionValue[],
+    context?: Record<string, unknown>,
+    options: ExecutionOptions = {}
+  ): Promise<ComputationResult<ExpressionValue[]>> {
+    const plan: SampleExecutionPlan = {
+      ast,
+      context,
+      scope: options.scope,
+      precision: options.precision,
+      sample: { variable, values }
+    };
+    
+    return this.executor.execute<ExpressionValue[]>(plan, {
+      ...options,
+      timeout: options.timeout || this.resourceLimits.maxTime,
+    });
+  }
+  
   /**
    * Execute multiple computations in parallel
    * @param asts - Array of ASTs to execute
@@ -115,7 +213,9 @@ export class ComputationManager {
   ): Promise<ComputationResult<T>[]> {
     const plans: ExecutionPlan[] = asts.map((ast, index) => ({
       ast,
-      context: contexts ? contexts[index] : undefined
+      context: contexts ? contexts[index] : undefined,
+      scope: options.scope,
+      precision: options.precision
     }));
     
     return this.executor.executeAll<T>(plans, options);
@@ -132,7 +232,8 @@ export class ComputationManager {
   }
   
   /**
-   * Get all computation tasks
+   * Get all computation tasks, with the effective priority, wait reason and preemption
+   * count the scheduler last gave each of them
    * @returns Array of all tasks
    */
   public getTasks(): ComputationTask[] {
@@ -156,6 +257,15 @@ export class ComputationManager {
     return new CancelToken();
   }
   
+  /**
+   * Update how the worker pool shares its workers among tasks
+   * @param policy - The policy settings to change
+   * @returns The updated scheduling policy
+   */
+  public setSchedulingPolicy(policy: Partial<SchedulingPolicy>): SchedulingPolicy {
+    return this.executor.workerManager.setSchedulingPolicy(policy);
+  }
+  
   /**
    * Update resource limits
    * @param limits - The new resource limits
@@ -199,6 +309,6 @@ export class ComputationManager {
 }
 
 // Export types
-export type { ExecutionPlan, ComputationResult, ExecutionOptions };
-export type { ComputationTask };
-export { TaskPriority, TaskStatus, CancelToken };
\ No newline at end of file
+export type { ExecutionPlan, SampleExecutionPlan, SamplePlan, ComputationResult, ExecutionOptions, ScriptOutcome };
+export type { ComputationTask, TaskType, TaskScheduling, SchedulingPolicy, WaitReason, WorkerRequest, WorkerResponse };
+export { TaskPriority, TaskStatus, TaskTransitionError, CancelToken, canTransition, isFinished };
\ No newline at end of file
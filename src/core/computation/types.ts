@@ -1,7 +1,19 @@
 /**
  * Types for Computation System
+ * 
+ * The task model shared by the queue, the executor and the worker manager, the lifecycle
+ * its status follows, and the messages exchanged with the computation and math-js workers.
  */
 
+import {
+  ASTNode,
+  CancellationSignal,
+  EvaluationScope,
+  ExpressionValue,
+  NumericPrecision,
+  ProgressUpdate
+} from '../expression-engine/types';
+
 // Task priority levels
 export enum TaskPriority {
   LOW = 0,
@@ -12,69 +24,203 @@ export enum TaskPriority {
 
 // Task status values
 export enum TaskStatus {
-  QUEUED = 'queued',
+  PENDING = 'pending',
   RUNNING = 'running',
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
 }
 
-// Base task interface
-export interface ComputationTask {
+// Kinds of task a worker runs
+export type TaskType = 'execute' | 'script' | 'sample' | 'operation';
+
+/**
+ * Statuses a task may move to from each status. A task is pending until a worker takes it,
+ * returns to pending if a more urgent task preempts it, and ends completed, failed or
+ * cancelled; a task that has ended never changes again.
+ */
+const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  [TaskStatus.PENDING]: [TaskStatus.RUNNING, TaskStatus.FAILED, TaskStatus.CANCELLED],
+  [TaskStatus.RUNNING]: [TaskStatus.PENDING, TaskStatus.COMPLETED, TaskStatus.FAILED, TaskStatus.CANCELLED],
+  [TaskStatus.COMPLETED]: [],
+  [TaskStatus.FAILED]: [],
+  [TaskStatus.CANCELLED]: [],
+};
+
+/**
+ * Check whether a task may move from one status to another
+ * @param from - The current status
+ * @param to - The next status
+ * @returns true if the lifecycle allows the transition
+ */
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return TASK_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a status ends the lifecycle of a task
+ * @param status - The status to check
+ * @returns true for completed, failed and cancelled tasks
+ */
+export function isFinished(status: TaskStatus): boolean {
+  return TASK_TRANSITIONS[status].length === 0;
+}
+
+// Error thrown for a status change the task lifecycle does not allow
+export class TaskTransitionError extends Error {
+  from: TaskStatus;
+  to: TaskStatus;
+
+  constructor(taskId: string, from: TaskStatus, to: TaskStatus) {
+    super(`Task ${taskId} cannot move from ${from} to ${to}`);
+    this.name = 'TaskTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// Cancellation flag shared by a task and whoever may cancel it, telling its listeners
+// once when it is cancelled
+export class CancelToken implements CancellationSignal {
+  private _isCancelled = false;
+  private _cancelReason?: string;
+  private listeners = new Set<() => void>();
+
+  public cancel(reason?: string): void {
+    if (this._isCancelled) {
+      return;
+    }
+    
+    this._isCancelled = true;
+    this._cancelReason = reason;
+    
+    const listeners = [...this.listeners];
+    this.listeners.clear();
+    
+    for (const listener of listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in cancel listener:', error);
+      }
+    }
+  }
+
+  /**
+   * Call a listener when the token is cancelled, at once if it already is
+   * @param listener - The listener
+   * @returns Unsubscribe function
+   */
+  public onCancel(listener: () => void): () => void {
+    if (this._isCancelled) {
+      listener();
+      return () => {};
+    }
+    
+    this.listeners.add(listener);
+    
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public get isCancelled(): boolean {
+    return this._isCancelled;
+  }
+
+  public get cancelReason(): string | undefined {
+    return this._cancelReason;
+  }
+}
+
+// What a pending task waits for: a free worker, or a running task of its source to end
+export type WaitReason = 'worker' | 'quota';
+
+// The scheduler's last decision about a pending task
+export interface TaskScheduling {
+  // Priority raised by the time the task has waited
+  effectivePriority: TaskPriority;
+  waitingFor?: WaitReason;
+}
+
+// Task tracked from its creation to the end of its lifecycle
+export interface ComputationTask<T = unknown> extends TaskScheduling {
   id: string;
-  type: string;
-  data: unknown;
+  type: TaskType;
+  payload: unknown;
   priority: TaskPriority;
+  // Who submitted the task, such as a plugin, for the per-source quota
+  source?: string;
+  // Number of times the task was stopped to make room for a critical task
+  preemptions: number;
   status: TaskStatus;
-  createdAt: number;
-  startedAt?: number;
-  completedAt?: number;
-  progress?: number;
-  error?: Error;
-  result?: unknown;
+  progress: number;
+  // Estimated milliseconds until the task ends and what it is doing, as last reported
+  eta?: number;
+  progressMessage?: string;
+  result?: T;
+  error?: string;
+  startTime?: number;
+  endTime?: number;
+  cancelToken: CancelToken;
+  onProgress?: (update: ProgressUpdate) => void;
+  onStatusChange?: (task: ComputationTask) => void;
 }
 
-// Task execution options
-export interface TaskOptions {
-  onProgress?: (progress: number) => void;
-  onComplete?: (result: unknown) => void;
-  onError?: (error: Error) => void;
-  timeout?: number;
+/**
+ * Execution plan for a computation
+ */
+export interface ExecutionPlan {
+  ast: ASTNode;
+  context?: Record<string, unknown>;
+  scope?: EvaluationScope;
+  precision?: NumericPrecision;
+  // Whether the tree is a parsed script, run as a 'script' task
+  script?: boolean;
+  // Values of a variable to evaluate the tree at, run as a 'sample' task
+  sample?: SamplePlan;
 }
 
-// Worker message types
-export enum WorkerMessageType {
-  INITIALIZE = 'initialize',
-  EXECUTE = 'execute',
-  CANCEL = 'cancel',
-  PROGRESS = 'progress',
-  RESULT = 'result',
-  ERROR = 'error',
+/**
+ * Variable of an expression and the values it is evaluated at
+ */
+export interface SamplePlan {
+  variable: string;
+  values: ExpressionValue[];
 }
 
-// Messages sent to worker
-export interface WorkerRequestMessage {
-  type: WorkerMessageType;
-  taskId?: string;
-  task?: {
-    type: string;
-    data: unknown;
-  };
-  config?: unknown;
+/**
+ * Execution plan of a 'sample' task, which comes with the values to evaluate the tree at
+ */
+export interface SampleExecutionPlan extends ExecutionPlan {
+  sample: SamplePlan;
 }
 
-// Messages received from worker
-export interface WorkerResponseMessage {
-  type: WorkerMessageType;
-  taskId?: string;
-  result?: unknown;
-  progress?: number;
-  error?: {
-    message: string;
-    stack?: string;
-  };
+// Operation of the math-js library, run as an 'operation' task
+export interface MathOperationPlan {
+  category: string;
+  operation: string;
+  params: unknown;
 }
 
+// Messages sent to a worker. A task may come with a flag in shared memory that the main
+// thread sets to 1 to cancel the task while the worker is busy evaluating it.
+export type WorkerRequest =
+  | { type: 'execute' | 'script'; id: string; payload: ExecutionPlan; cancelFlag?: SharedArrayBuffer }
+  | { type: 'sample'; id: string; payload: SampleExecutionPlan; cancelFlag?: SharedArrayBuffer }
+  | { type: 'operation'; id: string; payload: MathOperationPlan; cancelFlag?: SharedArrayBuffer }
+  | { type: 'cancel'; id: string };
+
+// Messages received from a worker
+export type WorkerResponse =
+  | { type: 'ready'; capabilities?: { hasMemoryMonitoring: boolean } }
+  | ({ type: 'progress'; id: string } & ProgressUpdate)
+  | { type: 'result'; id: string; result: unknown }
+  | { type: 'error'; id: string; error: string; errorType?: string; details?: Record<string, unknown> }
+  | { type: 'cancelled'; id: string }
+  | { type: 'resource'; resource: { memory?: { jsHeapSizeLimit: number; totalJSHeapSize: number; usedJSHeapSize: number } } }
+  | { type: 'warning'; warning: string };
+
 // Worker status
 export interface WorkerStatus {
   id: string;
@@ -85,6 +231,16 @@ export interface WorkerStatus {
   memoryUsage?: number;
 }
 
+// How the worker pool shares its workers among tasks
+export interface SchedulingPolicy {
+  // Milliseconds a queued task waits for its priority to rise one level, up to HIGH
+  agingInterval: number;
+  // Most tasks of one source that run at once, half the pool when not set
+  maxTasksPerSource?: number;
+  // Milliseconds a cancelled or preempted task has to stop before its worker is replaced
+  stopTimeout: number;
+}
+
 // Worker pool configuration
 export interface WorkerPoolConfig {
   minWorkers?: number;
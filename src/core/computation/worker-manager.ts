@@ -5,33 +5,51 @@
  * to separate threads, ensuring UI responsiveness during intensive calculations.
  */
 
+import {
+  ComputationTask,
+  SchedulingPolicy,
+  TaskPriority,
+  TaskScheduling,
+  WaitReason,
+  WorkerRequest,
+  WorkerResponse
+} from './types';
+
 export interface WorkerInfo {
   worker: Worker;
   busy: boolean;
   id: number;
+  taskId?: string;
   memoryUsage?: number;
   lastActivity?: number;
   capabilities?: {
     hasMemoryMonitoring: boolean;
   };
+  // Flag in shared memory that cancels the running task
+  cancelFlag?: Int32Array;
+  // Whether the worker was asked to stop its task and is busy until it does
+  stopping?: boolean;
+  stopTimer?: ReturnType<typeof setTimeout>;
 }
 
-export interface TaskResult<T> {
-  id: string;
-  result: T;
-  error?: string;
-}
-
-export interface Task<_T = unknown> {
-  id: string;
-  type: string;
-  payload: unknown;
-  onProgress?: (progress: number) => void;
-  priority?: number;
+/**
+ * The part of a computation task a worker runs. onStart is called when a worker takes the
+ * task, onPreempt when the task is stopped and queued again to make room for a critical
+ * task, and onSchedule when the scheduler changes its decision about the queued task.
+ */
+export interface Task<T = unknown> extends Pick<ComputationTask<T>, 'id' | 'type' | 'payload' | 'onProgress'> {
+  priority?: TaskPriority;
+  source?: string;
+  onStart?: () => void;
+  onPreempt?: () => void;
+  onSchedule?: (scheduling: TaskScheduling) => void;
 }
 
-export interface TaskQueueItem<T = unknown> extends Omit<Task<unknown>, 'id'> {
-  id: string;
+export interface TaskQueueItem<T = unknown> extends Task<T> {
+  queuedAt: number;
+  effectivePriority: TaskPriority;
+  // The decision last reported through onSchedule
+  scheduling?: TaskScheduling;
   resolve: (result: T) => void;
   reject: (error: Error) => void;
 }
@@ -45,16 +63,25 @@ export class WorkerManager {
   private taskMap = new Map<string, TaskQueueItem>();
   private workerCount: number;
   private workerPath: string;
+  private policy: SchedulingPolicy;
   private initialized = false;
+  // Runs the queue again when the next queued task ages
+  private agingTimer?: ReturnType<typeof setTimeout>;
 
   /**
    * Create a new WorkerManager
    * @param workerPath - Path to the worker script
    * @param workerCount - Number of workers to create (defaults to available CPU cores)
+   * @param policy - Optional scheduling policy
    */
-  constructor(workerPath: string, workerCount?: number) {
+  constructor(workerPath: string, workerCount?: number, policy: Partial<SchedulingPolicy> = {}) {
     this.workerPath = workerPath;
     this.workerCount = workerCount ?? (navigator.hardwareConcurrency || 4);
+    this.policy = {
+      agingInterval: 5000,
+      stopTimeout: 1000,
+      ...policy
+    };
   }
 
   /**
@@ -135,7 +162,25 @@ export class WorkerManager {
   }
 
   /**
-   * Execute a task on a worker
+   * Update the scheduling policy
+   * @param policy - The policy settings to change
+   * @returns The updated scheduling policy
+   */
+  public setSchedulingPolicy(policy: Partial<SchedulingPolicy>): SchedulingPolicy {
+    this.policy = {
+      ...this.policy,
+      ...policy
+    };
+    
+    this.processQueue();
+    
+    return { ...this.policy };
+  }
+
+  /**
+   * Execute a task on a worker. Queued tasks run in order of priority, which rises while
+   * they wait; a critical task that finds no free worker preempts a running low priority
+   * task, and no source runs more tasks at once than its quota.
    * @param task - The task to execute
    * @returns Promise resolving to the task result
    */
@@ -143,6 +188,8 @@ export class WorkerManager {
     return new Promise<T>((resolve, reject) => {
       const queueItem: TaskQueueItem<T> = {
         ...task,
+        queuedAt: Date.now(),
+        effectivePriority: task.priority ?? TaskPriority.NORMAL,
         resolve,
         reject
       };
@@ -150,19 +197,46 @@ export class WorkerManager {
       this.taskMap.set(task.id, queueItem as TaskQueueItem<unknown>);
       this.taskQueue.push(queueItem as TaskQueueItem<unknown>);
       
-      // Sort task queue by priority (higher priority first)
-      this.taskQueue.sort((a, b) => (b.priority || 0) - (a.priority || 0));
-      
       this.processQueue();
     });
   }
 
+  /**
+   * Cancel a task. A queued task is dropped and a running task is stopped by its worker,
+   * or by replacing the worker when shared memory is not available.
+   * @param taskId - The task ID
+   * @param reason - Reason the task promise is rejected with
+   * @returns true if the task was queued or running, false otherwise
+   */
+  public cancel(taskId: string, reason = 'Task cancelled'): boolean {
+    const task = this.taskMap.get(taskId);
+    
+    if (!task) {
+      return false;
+    }
+    
+    this.taskMap.delete(taskId);
+    this.taskQueue = this.taskQueue.filter(item => item.id !== taskId);
+    
+    const workerIndex = this.workers.findIndex(w => w.taskId === taskId);
+    if (workerIndex !== -1) {
+      this.stopWorker(workerIndex);
+    }
+    
+    task.reject(new Error(reason));
+    
+    this.processQueue();
+    
+    return true;
+  }
+
   /**
    * Terminate all workers and clear the task queue
    */
   public terminate(): void {
     // Terminate all workers
     for (const workerInfo of this.workers) {
+      clearTimeout(workerInfo.stopTimer);
       workerInfo.worker.terminate();
     }
     
@@ -177,6 +251,8 @@ export class WorkerManager {
     // Clear task queue and map
     this.taskQueue = [];
     this.taskMap.clear();
+    clearTimeout(this.agingTimer);
+    this.agingTimer = undefined;
     
     this.initialized = false;
   }
@@ -233,104 +309,312 @@ export class WorkerManager {
   }
 
   /**
-   * Process the task queue by assigning tasks to free workers
+   * Process the task queue by assigning tasks to free workers, most urgent first
    */
   private processQueue(): void {
     if (!this.initialized) {
       this.initialize();
     }
-
-    while (this.taskQueue.length > 0) {
+    
+    const now = Date.now();
+    for (const task of this.taskQueue) {
+      task.effectivePriority = this.getEffectivePriority(task, now);
+    }
+    
+    // Sort task queue by effective priority, then by arrival
+    this.taskQueue.sort((a, b) => b.effectivePriority - a.effectivePriority || a.queuedAt - b.queuedAt);
+    
+    // Workers replaced by a preemption or a crash, which take a task once they report ready
+    let startingWorkers = this.workers.filter(w => w.busy && w.taskId === undefined).length;
+    
+    for (const task of [...this.taskQueue]) {
+      if (task.source !== undefined && this.countRunningTasks(task.source) >= this.getSourceQuota()) {
+        this.reportScheduling(task, 'quota');
+        continue;
+      }
+      
       const worker = this.getFreeWorker();
       
       if (!worker) {
-        // No free workers, wait for one to become available
-        break;
+        // A critical task takes the worker of a low priority task, unless a worker that
+        // is starting will soon be free for it
+        if (task.priority === TaskPriority.CRITICAL) {
+          if (startingWorkers > 0) {
+            startingWorkers--;
+          } else {
+            this.preempt();
+          }
+        }
+        
+        this.reportScheduling(task, 'worker');
+        continue;
       }
       
-      const task = this.taskQueue.shift();
-      if (!task) break;
+      this.taskQueue.splice(this.taskQueue.indexOf(task), 1);
       
       worker.busy = true;
-      worker.lastActivity = Date.now();
+      worker.taskId = task.id;
+      worker.lastActivity = now;
+      worker.cancelFlag = typeof SharedArrayBuffer !== 'undefined'
+        ? new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT))
+        : undefined;
+      task.scheduling = undefined;
+      
+      task.onStart?.();
       
       worker.worker.postMessage({
         id: task.id,
         type: task.type,
-        payload: task.payload
-      });
+        payload: task.payload,
+        cancelFlag: worker.cancelFlag?.buffer
+      } as WorkerRequest);
+    }
+    
+    this.scheduleAging(now);
+  }
+  
+  /**
+   * Run the queue again once the next queued task ages, since aging changes the order of
+   * the queue and the priority reported to the task even when nothing else happens
+   * @param now - The current time
+   */
+  private scheduleAging(now: number): void {
+    clearTimeout(this.agingTimer);
+    this.agingTimer = undefined;
+    
+    const { agingInterval } = this.policy;
+    const delays = this.taskQueue
+      .filter(task => task.effectivePriority < TaskPriority.HIGH)
+      .map(task => agingInterval - (now - task.queuedAt) % agingInterval);
+    
+    if (delays.length > 0) {
+      this.agingTimer = setTimeout(() => this.processQueue(), Math.min(...delays));
+    }
+  }
+  
+  /**
+   * Get the priority of a queued task raised by aging, so that tasks of low priority are
+   * not starved by a steady flow of more urgent ones. Aging stops at HIGH, leaving CRITICAL
+   * to the tasks submitted as critical.
+   * @param task - The queued task
+   * @param now - The current time
+   * @returns The effective priority
+   */
+  private getEffectivePriority(task: TaskQueueItem, now: number): TaskPriority {
+    const priority = task.priority ?? TaskPriority.NORMAL;
+    
+    if (priority >= TaskPriority.HIGH) {
+      return priority;
+    }
+    
+    const aged = priority + Math.floor((now - task.queuedAt) / this.policy.agingInterval);
+    return Math.min(aged, TaskPriority.HIGH);
+  }
+  
+  /**
+   * Get the most tasks of one source that may run at once
+   * @returns The per-source quota
+   */
+  private getSourceQuota(): number {
+    return this.policy.maxTasksPerSource ?? Math.max(1, Math.ceil(this.workers.length / 2));
+  }
+  
+  /**
+   * Count the running tasks of a source
+   * @param source - The source of the tasks
+   * @returns The number of tasks of the source that run on a worker
+   */
+  private countRunningTasks(source: string): number {
+    return this.workers.filter(w => w.taskId !== undefined && this.taskMap.get(w.taskId)?.source === source).length;
+  }
+  
+  /**
+   * Stop the low priority task that started last, losing the least work, and queue it again
+   * @returns true if a task was preempted, false if no low priority task runs
+   */
+  private preempt(): boolean {
+    const [preempted] = this.workers
+      .map((worker, index) => ({ worker, index, task: worker.taskId !== undefined ? this.taskMap.get(worker.taskId) : undefined }))
+      .filter(({ task }) => task?.priority === TaskPriority.LOW)
+      .sort((a, b) => (b.worker.lastActivity || 0) - (a.worker.lastActivity || 0));
+    
+    if (!preempted?.task) {
+      return false;
     }
+    
+    const { index, task } = preempted;
+    this.stopWorker(index);
+    this.taskQueue.push(task);
+    
+    task.onPreempt?.();
+    this.reportScheduling(task, 'worker');
+    
+    return true;
+  }
+  
+  /**
+   * Tell a queued task why it waits, if that or its effective priority changed since it
+   * was last told
+   * @param task - The queued task
+   * @param waitingFor - What the task waits for
+   */
+  private reportScheduling(task: TaskQueueItem, waitingFor: WaitReason): void {
+    const { scheduling, effectivePriority } = task;
+    
+    if (scheduling?.waitingFor === waitingFor && scheduling.effectivePriority === effectivePriority) {
+      return;
+    }
+    
+    task.scheduling = { effectivePriority, waitingFor };
+    task.onSchedule?.(task.scheduling);
   }
 
   /**
    * Handle messages from workers
    */
-  private handleWorkerMessage(event: MessageEvent): void {
-    const { id, result, error, progress, type, status, resource, warning } = event.data;
+  private handleWorkerMessage(event: MessageEvent<WorkerResponse>): void {
+    const message = event.data;
     
     // Find the worker that sent the message
     const workerIndex = this.workers.findIndex(w => w.worker === event.target);
     const worker = workerIndex !== -1 ? this.workers[workerIndex] : undefined;
     
-    // Handle different message types
-    if (type === 'init' && status === 'ready') {
-      // Worker initialization complete
-      if (worker) {
-        worker.busy = false;
-        this.processQueue(); // Start processing tasks if any are queued
+    switch (message.type) {
+      case 'ready':
+        // Worker initialization complete, unless it already runs a task
+        if (worker && !worker.taskId && !worker.stopping) {
+          worker.busy = false;
+          worker.capabilities = message.capabilities;
+          this.processQueue(); // Start processing tasks if any are queued
+        }
+        break;
+        
+      case 'resource':
+        // Update worker resource information (memory usage, etc.)
+        if (worker && message.resource.memory) {
+          worker.memoryUsage = message.resource.memory.usedJSHeapSize;
+        }
+        break;
+        
+      case 'warning':
+        // Handle worker warnings (e.g., high memory usage)
+        console.warn(`Worker ${worker?.id} warning:`, message.warning);
+        break;
+        
+      case 'progress': {
+        const { progress, eta, message: progressMessage } = message;
+        if (!worker?.stopping) {
+          this.taskMap.get(message.id)?.onProgress?.({ progress, eta, message: progressMessage });
+        }
+        break;
       }
-      return;
-    }
-    
-    if (type === 'resource' && resource && worker) {
-      // Update worker resource information (memory usage, etc.)
-      // This could be used for advanced resource management
-      if (resource.memory) {
-        worker.memoryUsage = resource.memory.usedJSHeapSize;
+        
+      case 'cancelled':
+      case 'result':
+      case 'error': {
+        // A worker asked to stop is free once its task stopped or ended anyway; the task was
+        // settled when it was cancelled, or queued again when it was preempted
+        if (worker?.stopping) {
+          this.releaseWorker(worker);
+          this.processQueue();
+          return;
+        }
+        
+        // Mark the worker as free
+        if (worker) {
+          this.releaseWorker(worker);
+        }
+        
+        if (message.type === 'cancelled') {
+          this.processQueue();
+          return;
+        }
+        
+        // Find the task
+        const task = this.taskMap.get(message.id);
+        if (!task) {
+          console.error(`No task found for id: ${message.id}`);
+          return;
+        }
+        
+        // Remove task from the map
+        this.taskMap.delete(message.id);
+        
+        // Resolve or reject the task promise
+        if (message.type === 'error') {
+          task.reject(new Error(message.error));
+        } else {
+          task.resolve(message.result);
+        }
+        
+        // Process the next task in the queue
+        this.processQueue();
+        break;
       }
-      return;
     }
+  }
+
+  /**
+   * Stop the task a worker runs. The task's cancel flag is raised in shared memory, which the
+   * evaluation checks at each loop iteration and function call, and the worker is replaced
+   * only if the task has not stopped within the stop timeout; without shared memory the
+   * worker is replaced at once.
+   * @param index - Index of the worker in the pool
+   */
+  private stopWorker(index: number): void {
+    const workerInfo = this.workers[index];
+    const { cancelFlag, taskId } = workerInfo;
     
-    if (type === 'warning' && warning) {
-      // Handle worker warnings (e.g., high memory usage)
-      console.warn(`Worker ${worker?.id} warning:`, warning);
+    if (!cancelFlag || taskId === undefined) {
+      this.replaceWorker(index);
       return;
     }
     
-    if (progress !== undefined) {
-      // This is a progress update
-      const task = this.taskMap.get(id);
-      task?.onProgress?.(progress);
-      return;
-    }
+    Atomics.store(cancelFlag, 0, 1);
+    workerInfo.worker.postMessage({ type: 'cancel', id: taskId } as WorkerRequest);
     
-    // For result or error messages (task completion)
-    if (result !== undefined || error !== undefined) {
-      // Mark the worker as free
-      if (worker) {
-        worker.busy = false;
+    workerInfo.taskId = undefined;
+    workerInfo.cancelFlag = undefined;
+    workerInfo.stopping = true;
+    workerInfo.stopTimer = setTimeout(() => {
+      const stuck = this.workers.indexOf(workerInfo);
+      if (stuck !== -1) {
+        this.replaceWorker(stuck);
       }
-      
-      // Find the task
-      const task = this.taskMap.get(id);
-      if (!task) {
-        console.error(`No task found for id: ${id}`);
-        return;
-      }
-      
-      // Remove task from the map
-      this.taskMap.delete(id);
-      
-      // Resolve or reject the task promise
-      if (error) {
-        task.reject(new Error(error));
-      } else {
-        task.resolve(result);
-      }
-      
-      // Process the next task in the queue
-      this.processQueue();
-    }
+    }, this.policy.stopTimeout);
+  }
+  
+  /**
+   * Mark a worker as free to take the next task
+   * @param workerInfo - The worker
+   */
+  private releaseWorker(workerInfo: WorkerInfo): void {
+    clearTimeout(workerInfo.stopTimer);
+    workerInfo.busy = false;
+    workerInfo.taskId = undefined;
+    workerInfo.cancelFlag = undefined;
+    workerInfo.stopping = false;
+    workerInfo.stopTimer = undefined;
+  }
+
+  /**
+   * Terminate a worker and put a fresh one in its place, busy until it reports ready
+   * @param index - Index of the worker in the pool
+   */
+  private replaceWorker(index: number): void {
+    const { worker, id, stopTimer } = this.workers[index];
+    clearTimeout(stopTimer);
+    worker.terminate();
+    
+    const newWorker = new Worker(this.workerPath, { type: 'module' });
+    newWorker.onmessage = this.handleWorkerMessage.bind(this);
+    newWorker.onerror = this.handleWorkerError.bind(this);
+    
+    this.workers[index] = {
+      worker: newWorker,
+      busy: true,
+      id
+    };
   }
 
   /**
@@ -343,20 +627,16 @@ export class WorkerManager {
     const workerIndex = this.workers.findIndex(w => w.worker === event.target);
     
     if (workerIndex !== -1) {
-      const worker = this.workers[workerIndex];
+      // Fail the task the worker was running, which will never report back
+      const taskId = this.workers[workerIndex].taskId;
+      const task = taskId !== undefined ? this.taskMap.get(taskId) : undefined;
+      if (task) {
+        this.taskMap.delete(task.id);
+        task.reject(new Error(event.message || 'Worker error'));
+      }
       
       // Replace the errored worker with a new one
-      worker.worker.terminate();
-      
-      const newWorker = new Worker(this.workerPath, { type: 'module' });
-      newWorker.onmessage = this.handleWorkerMessage.bind(this);
-      newWorker.onerror = this.handleWorkerError.bind(this);
-      
-      this.workers[workerIndex] = {
-        worker: newWorker,
-        busy: false,
-        id: worker.id
-      };
+      this.replaceWorker(workerIndex);
     }
     
     // Process the next task in the queue
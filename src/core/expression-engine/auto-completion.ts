@@ -1,4 +1,14 @@
-import { ExpressionSuggestion, Token, TokenType } from './types';
+import {
+  CompletionContext,
+  EvaluationScope,
+  ExpressionSuggestion,
+  PluginMethodSignature,
+  SignatureHelp,
+  Token,
+  TokenType
+} from './types';
+import { Tokenizer } from './tokenizer';
+import { getUnitCatalogue } from './units';
 
 /**
  * Default suggestions for auto-completion
@@ -7,6 +17,7 @@ export const defaultSuggestions: ExpressionSuggestion[] = [
   // Mathematical constants
   { text: 'pi', displayText: 'π', type: 'constant', description: 'Pi (3.14159...)' },
   { text: 'e', displayText: 'e', type: 'constant', description: 'Euler\'s number (2.71828...)' },
+  { text: 'i', displayText: 'i', type: 'constant', description: 'Imaginary unit (i^2 = -1)' },
   
   // Basic operators
   { text: '+', displayText: '+', type: 'operator', description: 'Addition' },
@@ -16,46 +27,176 @@ export const defaultSuggestions: ExpressionSuggestion[] = [
   { text: '^', displayText: '^', type: 'operator', description: 'Exponentiation' },
   { text: '%', displayText: '%', type: 'operator', description: 'Modulo' },
   
+  // Comparison and logical operators
+  { text: '==', displayText: '==', type: 'operator', description: 'Equal to' },
+  { text: '!=', displayText: '≠', type: 'operator', description: 'Not equal to' },
+  { text: '<', displayText: '<', type: 'operator', description: 'Less than' },
+  { text: '>', displayText: '>', type: 'operator', description: 'Greater than' },
+  { text: '<=', displayText: '≤', type: 'operator', description: 'Less than or equal to' },
+  { text: '>=', displayText: '≥', type: 'operator', description: 'Greater than or equal to' },
+  { text: '&&', displayText: '&&', type: 'operator', description: 'Logical AND' },
+  { text: '||', displayText: '||', type: 'operator', description: 'Logical OR' },
+  { text: '?', displayText: '? :', type: 'operator', description: 'Conditional (cond ? a : b)' },
+  { text: 'in', displayText: 'in', type: 'operator', description: 'Unit or base conversion (5 km in m, 255 in base 16, also written to)' },
+  { text: 'mod', displayText: 'mod', type: 'operator', description: 'Arithmetic modulo n (2^100 mod 7, also mod(n) { ... })' },
+  
   // Trigonometric functions
-  { text: 'sin(', displayText: 'sin', type: 'function', description: 'Sine function' },
-  { text: 'cos(', displayText: 'cos', type: 'function', description: 'Cosine function' },
-  { text: 'tan(', displayText: 'tan', type: 'function', description: 'Tangent function' },
-  { text: 'asin(', displayText: 'asin', type: 'function', description: 'Inverse sine function' },
-  { text: 'acos(', displayText: 'acos', type: 'function', description: 'Inverse cosine function' },
-  { text: 'atan(', displayText: 'atan', type: 'function', description: 'Inverse tangent function' },
+  { text: 'sin(', displayText: 'sin', type: 'function', description: 'Sine function', parameters: ['x'] },
+  { text: 'cos(', displayText: 'cos', type: 'function', description: 'Cosine function', parameters: ['x'] },
+  { text: 'tan(', displayText: 'tan', type: 'function', description: 'Tangent function', parameters: ['x'] },
+  { text: 'asin(', displayText: 'asin', type: 'function', description: 'Inverse sine function', parameters: ['x'] },
+  { text: 'acos(', displayText: 'acos', type: 'function', description: 'Inverse cosine function', parameters: ['x'] },
+  { text: 'atan(', displayText: 'atan', type: 'function', description: 'Inverse tangent function', parameters: ['x'] },
   
   // Hyperbolic functions
-  { text: 'sinh(', displayText: 'sinh', type: 'function', description: 'Hyperbolic sine function' },
-  { text: 'cosh(', displayText: 'cosh', type: 'function', description: 'Hyperbolic cosine function' },
-  { text: 'tanh(', displayText: 'tanh', type: 'function', description: 'Hyperbolic tangent function' },
+  { text: 'sinh(', displayText: 'sinh', type: 'function', description: 'Hyperbolic sine function', parameters: ['x'] },
+  { text: 'cosh(', displayText: 'cosh', type: 'function', description: 'Hyperbolic cosine function', parameters: ['x'] },
+  { text: 'tanh(', displayText: 'tanh', type: 'function', description: 'Hyperbolic tangent function', parameters: ['x'] },
   
   // Logarithmic functions
-  { text: 'log(', displayText: 'log', type: 'function', description: 'Base-10 logarithm' },
-  { text: 'ln(', displayText: 'ln', type: 'function', description: 'Natural logarithm' },
-  { text: 'log2(', displayText: 'log2', type: 'function', description: 'Base-2 logarithm' },
+  { text: 'log(', displayText: 'log', type: 'function', description: 'Base-10 logarithm', parameters: ['x'] },
+  { text: 'ln(', displayText: 'ln', type: 'function', description: 'Natural logarithm', parameters: ['x'] },
+  { text: 'log2(', displayText: 'log2', type: 'function', description: 'Base-2 logarithm', parameters: ['x'] },
   
   // Other common functions
-  { text: 'sqrt(', displayText: '√', type: 'function', description: 'Square root' },
-  { text: 'abs(', displayText: 'abs', type: 'function', description: 'Absolute value' },
-  { text: 'exp(', displayText: 'exp', type: 'function', description: 'Exponential function (e^x)' },
+  { text: 'sqrt(', displayText: '√', type: 'function', description: 'Square root', parameters: ['x'] },
+  { text: 'abs(', displayText: 'abs', type: 'function', description: 'Absolute value', parameters: ['x'] },
+  { text: 'exp(', displayText: 'exp', type: 'function', description: 'Exponential function (e^x)', parameters: ['x'] },
+  
+  // Complex number functions
+  { text: 're(', displayText: 're', type: 'function', description: 'Real part of a complex number', parameters: ['z'] },
+  { text: 'im(', displayText: 'im', type: 'function', description: 'Imaginary part of a complex number', parameters: ['z'] },
+  { text: 'arg(', displayText: 'arg', type: 'function', description: 'Argument (angle) of a complex number', parameters: ['z'] },
+  { text: 'conj(', displayText: 'conj', type: 'function', description: 'Complex conjugate', parameters: ['z'] },
+  
+  // List functions
+  { text: 'length(', displayText: 'length', type: 'function', description: 'Number of elements in a list', parameters: ['list'] },
+  
+  // Binder functions
+  { text: 'sum(', displayText: '∑', type: 'function', description: 'Sum over a variable: sum(k, from, to, expression) or sum(k, list, expression)', parameters: ['k', 'from', 'to', 'expression'] },
+  { text: 'prod(', displayText: '∏', type: 'function', description: 'Product over a variable: prod(k, from, to, expression) or prod(k, list, expression)', parameters: ['k', 'from', 'to', 'expression'] },
+  { text: 'seq(', displayText: 'seq', type: 'function', description: 'List of values over a variable: seq(k, from, to, expression)', parameters: ['k', 'from', 'to', 'expression'] },
+  { text: 'any(', displayText: 'any', type: 'function', description: 'Whether a condition holds for some value: any(k, list, condition)', parameters: ['k', 'list', 'condition'] },
+  { text: 'all(', displayText: 'all', type: 'function', description: 'Whether a condition holds for every value: all(k, list, condition)', parameters: ['k', 'list', 'condition'] },
+  { text: 'count(', displayText: 'count', type: 'function', description: 'Number of values meeting a condition: count(k, list, condition)', parameters: ['k', 'list', 'condition'] },
+  
+  // Symbolic functions
+  { text: 'diff(', displayText: 'diff', type: 'function', description: 'Symbolic derivative: diff(expression, variable[, order])', parameters: ['expression', 'variable', 'order'] },
+  { text: 'simplify(', displayText: 'simplify', type: 'function', description: 'Simplify an expression symbolically', parameters: ['expression'] },
   
   // Number theory functions
-  { text: 'gcd(', displayText: 'gcd', type: 'function', description: 'Greatest common divisor' },
-  { text: 'lcm(', displayText: 'lcm', type: 'function', description: 'Least common multiple' },
-  { text: 'factorial(', displayText: 'factorial', type: 'function', description: 'Factorial (n!)' },
-  { text: 'isPrime(', displayText: 'isPrime', type: 'function', description: 'Check if a number is prime' },
+  { text: 'gcd(', displayText: 'gcd', type: 'function', description: 'Greatest common divisor', parameters: ['a', 'b'] },
+  { text: 'lcm(', displayText: 'lcm', type: 'function', description: 'Least common multiple', parameters: ['a', 'b'] },
+  { text: 'factorial(', displayText: 'factorial', type: 'function', description: 'Factorial (n!)', parameters: ['n'] },
+  { text: 'doubleFactorial(', displayText: 'doubleFactorial', type: 'function', description: 'Double factorial (n!!)', parameters: ['n'] },
+  { text: 'isPrime(', displayText: 'isPrime', type: 'function', description: 'Check if a number is prime', parameters: ['n'] },
+  { text: 'primes(', displayText: 'primes', type: 'function', description: 'List of the primes between two bounds', parameters: ['from', 'to'] },
+  { text: 'toBase(', displayText: 'toBase', type: 'function', description: 'Write an integer in a base from 2 to 36 (also 255 to base 16)', parameters: ['n', 'base'] },
+  { text: 'modpow(', displayText: 'modpow', type: 'function', description: 'Modular exponentiation a^b mod n', parameters: ['a', 'b', 'n'] },
+  { text: 'modinv(', displayText: 'modinv', type: 'function', description: 'Inverse of a modulo n', parameters: ['a', 'n'] },
+  { text: 'sqrtmod(', displayText: 'sqrtmod', type: 'function', description: 'Smallest square root of a modulo a prime p', parameters: ['a', 'p'] },
+  { text: 'crt(', displayText: 'crt', type: 'function', description: 'Least solution of the congruences x ≡ residues (mod moduli)', parameters: ['residues', 'moduli'] },
   
   // Rounding functions
-  { text: 'floor(', displayText: 'floor', type: 'function', description: 'Round down to nearest integer' },
-  { text: 'ceil(', displayText: 'ceil', type: 'function', description: 'Round up to nearest integer' },
-  { text: 'round(', displayText: 'round', type: 'function', description: 'Round to nearest integer' }
+  { text: 'floor(', displayText: 'floor', type: 'function', description: 'Round down to nearest integer', parameters: ['x'] },
+  { text: 'ceil(', displayText: 'ceil', type: 'function', description: 'Round up to nearest integer', parameters: ['x'] },
+  { text: 'round(', displayText: 'round', type: 'function', description: 'Round to nearest integer', parameters: ['x'] },
+  
+  // Units
+  ...getUnitCatalogue().map((unit): ExpressionSuggestion => ({
+    text: unit.symbol,
+    displayText: unit.symbol,
+    type: 'unit',
+    description: `${unit.name.charAt(0).toUpperCase()}${unit.name.slice(1)} (${unit.quantity})`
+  }))
 ];
 
+/**
+ * Keywords after which a unit is expected (5 km in m)
+ */
+const CONVERSION_KEYWORDS = ['in', 'to'];
+
+/**
+ * Suggestion types that can start an operand
+ */
+const OPERAND_TYPES: ExpressionSuggestion['type'][] = ['function', 'variable', 'constant'];
+
+/**
+ * A plugin's contribution to auto-completion: its name and the signatures of the methods
+ * it declares
+ */
+export interface PluginMethodSource {
+  name: string;
+  methods?: Record<string, PluginMethodSignature>;
+}
+
+/**
+ * How well a suggestion matches the typed prefix. Matches rank by tier (exact, then prefix,
+ * then fuzzy), and fuzzy matches by how few characters they skip.
+ */
+interface MatchScore {
+  tier: number;
+  closeness: number;
+}
+
+/**
+ * Match a name against the typed prefix, ignoring case. Besides exact and prefix matches,
+ * a fuzzy match has the typed characters appear in order starting with the first one,
+ * so 'sqt' matches sqrt and 'dfac' matches doubleFactorial.
+ * @param name - The suggested name
+ * @param typed - The typed prefix
+ * @returns The score, or null if the name does not match
+ */
+const matchName = (name: string, typed: string): MatchScore | null => {
+  const lowerName = name.toLowerCase();
+  const lowerTyped = typed.toLowerCase();
+
+  if (lowerTyped === '') {
+    return { tier: 0, closeness: 0 };
+  }
+  if (lowerName === lowerTyped) {
+    return { tier: 3, closeness: 1 };
+  }
+  if (lowerName.startsWith(lowerTyped)) {
+    return { tier: 2, closeness: 1 };
+  }
+  if (lowerName[0] !== lowerTyped[0]) {
+    return null;
+  }
+
+  let position = 0;
+  let skipped = 0;
+  for (const char of lowerTyped) {
+    const found = lowerName.indexOf(char, position);
+    if (found < 0) {
+      return null;
+    }
+    skipped += found - position;
+    position = found + 1;
+  }
+
+  return { tier: 1, closeness: -skipped };
+};
+
+/**
+ * The name a suggestion is matched and counted by: its text without the opening parenthesis
+ * @param suggestion - The suggestion
+ */
+const nameOf = (suggestion: ExpressionSuggestion): string => {
+  return suggestion.type === 'function' ? suggestion.text.replace(/\($/, '') : suggestion.text;
+};
+
 /**
  * Auto-completion provider for mathematical expressions
  */
 export class AutoCompletionProvider {
   private suggestions: ExpressionSuggestion[];
+  private userSuggestions: ExpressionSuggestion[] = [];
+  private pluginSuggestions: ExpressionSuggestion[] = [];
+  private tokenizer = new Tokenizer();
+
+  // How often each name has been used, for ranking
+  private usage: Map<string, number> = new Map();
 
   /**
    * Create a new auto-completion provider
@@ -66,196 +207,232 @@ export class AutoCompletionProvider {
   }
 
   /**
-   * Get suggestions based on current expression and cursor position
-   * @param expression - The current expression text
-   * @param cursorPosition - The cursor position in the expression
-   * @param tokens - Optional tokens from the already parsed expression
-   * @returns Array of relevant suggestions
+   * Replace the suggestions for user-defined variables and functions
+   * @param scope - The session scope holding the user definitions
    */
-  public getSuggestions(
-    expression: string, 
-    cursorPosition: number, 
-    tokens: Token[] = []
-  ): ExpressionSuggestion[] {
-    // Get the token at cursor position or the token before it
-    const tokenAtCursor = this.findTokenAtPosition(tokens, cursorPosition);
+  public setUserDefinitions(scope: EvaluationScope): void {
+    const variables: ExpressionSuggestion[] = Object.keys(scope.variables).map(name => ({
+      text: name,
+      displayText: name,
+      type: 'variable',
+      description: 'User-defined variable'
+    }));
     
-    // The text to match against suggestions
-    let prefix = '';
+    const functions: ExpressionSuggestion[] = Object.values(scope.functions).map(definition => ({
+      text: `${definition.name}(`,
+      displayText: `${definition.name}(${definition.parameters.join(', ')})`,
+      type: 'function',
+      description: 'User-defined function',
+      parameters: definition.parameters
+    }));
     
-    // If cursor is at a token, use the partial token text as prefix
-    if (tokenAtCursor) {
-      // Only use the part of the token up to the cursor position
-      prefix = expression.substring(tokenAtCursor.start, cursorPosition).toLowerCase();
-      
-      // Special case for functions: only match the function name before the opening parenthesis
-      if (tokenAtCursor.type === TokenType.Function && prefix.includes('(')) {
-        prefix = prefix.substring(0, prefix.indexOf('('));
-      }
-    } else {
-      // Get the word fragment at cursor position
-      prefix = this.getWordAtPosition(expression, cursorPosition).toLowerCase();
-    }
-
-    // Context-aware filtering based on current token and previous tokens
-    return this.filterSuggestionsByContext(prefix, tokenAtCursor, tokens, cursorPosition);
+    this.userSuggestions = [...variables, ...functions];
   }
 
   /**
-   * Filter suggestions based on prefix and context
-   * @param prefix - The text prefix to match
-   * @param currentToken - The token at or before cursor
-   * @param allTokens - All tokens in the expression
-   * @param cursorPosition - The cursor position
-   * @returns Filtered suggestions
+   * Replace the suggestions for functions contributed by plugins
+   * @param plugins - The enabled plugins with the signatures of their methods
    */
-  private filterSuggestionsByContext(
-    prefix: string, 
-    currentToken: Token | null, 
-    allTokens: Token[], 
-    cursorPosition: number
-  ): ExpressionSuggestion[] {
-    // Start with prefix filtering
-    let filteredSuggestions = this.suggestions.filter(suggestion =>
-      suggestion.text.toLowerCase().startsWith(prefix)
+  public setPluginMethods(plugins: PluginMethodSource[]): void {
+    this.pluginSuggestions = plugins.flatMap(plugin =>
+      Object.entries(plugin.methods ?? {}).map(([name, signature]): ExpressionSuggestion => {
+        const parameters = signature.parameters.map(parameter => parameter.name);
+        
+        return {
+          text: `${name}(`,
+          displayText: `${name}(${parameters.join(', ')})`,
+          type: 'function',
+          description: signature.description ?? `From the ${plugin.name} plugin`,
+          parameters
+        };
+      })
     );
+  }
 
-    // Context-aware filtering
-    if (currentToken) {
-      switch (currentToken.type) {
-        case TokenType.Operator:
-          // After an operator, suggest variables, functions, or constants, but not other operators
-          filteredSuggestions = filteredSuggestions.filter(s => 
-            s.type === 'function' || s.type === 'variable' || s.type === 'constant'
-          );
-          break;
-          
-        case TokenType.Function:
-        case TokenType.Variable:
-          // If we're in the middle of typing a function or variable, only show matching ones
-          filteredSuggestions = filteredSuggestions.filter(s => 
-            s.type === 'function' || s.type === 'variable' || s.type === 'constant'
-          );
-          break;
-          
-        case TokenType.LeftParen:
-          // After an opening parenthesis, suggest variables, functions, or constants
-          filteredSuggestions = filteredSuggestions.filter(s => 
-            s.type === 'function' || s.type === 'variable' || s.type === 'constant'
-          );
-          break;
-          
-        default:
-          // Default case - no additional filtering
-          break;
-      }
-    } else {
-      // At the beginning of expression or after whitespace, prefer functions and variables
-      const previousToken = this.findTokenBeforePosition(allTokens, cursorPosition);
-      
-      if (!previousToken) {
-        // At the beginning, suggest everything
-      } else if (previousToken.type === TokenType.Operator || previousToken.type === TokenType.LeftParen) {
-        // After operator or opening parenthesis, suggest variables, functions, or constants
-        filteredSuggestions = filteredSuggestions.filter(s => 
-          s.type === 'function' || s.type === 'variable' || s.type === 'constant'
-        );
-      } else if (previousToken.type === TokenType.Number || previousToken.type === TokenType.RightParen) {
-        // After a number or closing parenthesis, suggest operators
-        filteredSuggestions = filteredSuggestions.filter(s => s.type === 'operator');
-      }
-    }
-
-    // Sort suggestions by relevance
-    return this.sortSuggestionsByRelevance(filteredSuggestions, prefix);
+  /**
+   * Count a use of a function, variable, constant or unit, so that it ranks higher
+   * @param name - The name, without an opening parenthesis
+   */
+  public recordUsage(name: string): void {
+    this.usage.set(name, (this.usage.get(name) ?? 0) + 1);
   }
 
   /**
-   * Sort suggestions by relevance to the input
-   * @param suggestions - The suggestions to sort
-   * @param prefix - The prefix to sort by
-   * @returns Sorted suggestions
+   * Get suggestions based on current expression and cursor position
+   * @param expression - The current expression text
+   * @param cursorPosition - The cursor position in the expression
+   * @param tokens - Optional tokens from the already parsed expression
+   * @returns Array of relevant suggestions, best first
    */
-  private sortSuggestionsByRelevance(
-    suggestions: ExpressionSuggestion[], 
-    prefix: string
+  public getSuggestions(
+    expression: string, 
+    cursorPosition: number, 
+    tokens: Token[] = []
   ): ExpressionSuggestion[] {
-    return [...suggestions].sort((a, b) => {
-      // Exact matches come first
-      if (a.text.toLowerCase() === prefix && b.text.toLowerCase() !== prefix) return -1;
-      if (b.text.toLowerCase() === prefix && a.text.toLowerCase() !== prefix) return 1;
-      
-      // Then sort by length (shorter suggestions first)
-      return a.text.length - b.text.length;
+    const { prefix, expects } = this.getCompletionContext(expression, cursorPosition, tokens);
+    
+    const candidates = this.allSuggestions().filter(suggestion => {
+      switch (expects) {
+        case 'operand':
+          return OPERAND_TYPES.includes(suggestion.type);
+        case 'unit':
+          return suggestion.type === 'unit';
+        case 'operator':
+          // A name typed after a value may also start an implicitly multiplied operand (2 pi)
+          return suggestion.type === 'operator' || suggestion.type === 'unit'
+            || (prefix !== '' && OPERAND_TYPES.includes(suggestion.type));
+        default:
+          return true;
+      }
     });
+    
+    return this.rankSuggestions(candidates, prefix);
   }
 
   /**
-   * Find the token at a specific position
-   * @param tokens - The tokens to search
-   * @param position - The position to find
-   * @returns The token at position or null
+   * Get the signature of the function call around the cursor
+   * @param expression - The current expression text
+   * @param cursorPosition - The cursor position in the expression
+   * @param tokens - Optional tokens from the already parsed expression
+   * @returns The signature with the index of the argument being typed, or null outside of
+   * calls to functions with known parameters
    */
-  private findTokenAtPosition(tokens: Token[], position: number): Token | null {
-    for (const token of tokens) {
-      if (position >= token.start && position <= token.end + 1) {
-        return token;
-      }
+  public getSignatureHelp(
+    expression: string,
+    cursorPosition: number,
+    tokens: Token[] = []
+  ): SignatureHelp | null {
+    const { call } = this.getCompletionContext(expression, cursorPosition, tokens);
+    
+    const suggestion = call && this.allSuggestions().find(candidate =>
+      candidate.type === 'function' && nameOf(candidate) === call.name && candidate.parameters
+    );
+    
+    if (!call || !suggestion) {
+      return null;
     }
-    return null;
+    
+    return {
+      name: call.name,
+      parameters: suggestion.parameters as string[],
+      argumentIndex: call.argumentIndex,
+      description: suggestion.description
+    };
   }
 
   /**
-   * Find the token before a specific position
-   * @param tokens - The tokens to search
-   * @param position - The position to find tokens before
-   * @returns The token before position or null
+   * Work out what the cursor position expects from the tokens before it: the identifier
+   * being typed, whether an operand or an operator comes next, and the function call
+   * whose argument list the cursor is in
+   * @param expression - The current expression text
+   * @param cursorPosition - The cursor position in the expression
+   * @param tokens - Optional tokens from the already parsed expression
+   * @returns The completion context
    */
-  private findTokenBeforePosition(tokens: Token[], position: number): Token | null {
-    let closestToken: Token | null = null;
-    let closestDistance = Infinity;
+  public getCompletionContext(
+    expression: string,
+    cursorPosition: number,
+    tokens: Token[] = []
+  ): CompletionContext {
+    const significant = (tokens.length > 0 ? tokens : this.tokenizer.tokenize(expression))
+      .filter(token => token.type !== TokenType.Whitespace);
+    
+    // The identifier the cursor is in or just after
+    const word = significant.find(token =>
+      (token.type === TokenType.Variable || token.type === TokenType.Function) &&
+      token.start < cursorPosition && cursorPosition <= token.end + 1
+    );
+    const wordStart = word ? word.start : cursorPosition;
+    const before = significant.filter(token => token.end < wordStart);
     
-    for (const token of tokens) {
-      if (token.end < position) {
-        const distance = position - token.end;
-        if (distance < closestDistance) {
-          closestDistance = distance;
-          closestToken = token;
+    // Track the open brackets, recording the function whose arguments each parenthesis opens
+    const open: (CompletionContext['call'] | null)[] = [];
+    before.forEach((token, index) => {
+      switch (token.type) {
+        case TokenType.LeftParen: {
+          const previous = before[index - 1];
+          open.push(previous?.type === TokenType.Function ? { name: previous.value, argumentIndex: 0 } : null);
+          break;
+        }
+        case TokenType.LeftBracket:
+        case TokenType.LeftBrace:
+          open.push(null);
+          break;
+        case TokenType.RightParen:
+        case TokenType.RightBracket:
+        case TokenType.RightBrace:
+          open.pop();
+          break;
+        case TokenType.Comma: {
+          const innermost = open[open.length - 1];
+          if (innermost) {
+            innermost.argumentIndex++;
+          }
+          break;
         }
       }
-    }
+    });
     
-    return closestToken;
+    return {
+      prefix: word ? expression.substring(word.start, cursorPosition) : '',
+      expects: this.expectationAfter(before[before.length - 1]),
+      call: open[open.length - 1] ?? undefined
+    };
   }
 
   /**
-   * Get the word at a specific position in text
-   * @param text - The text to search
-   * @param position - The position to find the word at
-   * @returns The word at position
+   * Decide what may follow a token
+   * @param token - The last complete token before the cursor, if any
    */
-  private getWordAtPosition(text: string, position: number): string {
-    // Find the start of the word
-    let start = position;
-    while (start > 0 && this.isIdentifierChar(text[start - 1])) {
-      start--;
+  private expectationAfter(token: Token | undefined): CompletionContext['expects'] {
+    if (!token) {
+      return 'anything';
     }
     
-    // Find the end of the word
-    let end = position;
-    while (end < text.length && this.isIdentifierChar(text[end])) {
-      end++;
+    switch (token.type) {
+      case TokenType.Number:
+      case TokenType.Literal:
+      case TokenType.RightParen:
+      case TokenType.RightBracket:
+      case TokenType.RightBrace:
+        return 'operator';
+        
+      case TokenType.Variable:
+        return CONVERSION_KEYWORDS.includes(token.value) ? 'unit' : 'operator';
+        
+      default:
+        // After an operator, an opening delimiter or a comma
+        return 'operand';
     }
-    
-    return text.substring(start, end);
   }
 
   /**
-   * Check if a character is a valid identifier character (letter, digit, or underscore)
-   * @param char - The character to check
-   * @returns True if the character is a valid identifier character
+   * Keep the suggestions matching the prefix and sort them: by match tier, then by how
+   * often they were used, then by how closely they match, then shorter ones first
+   * @param suggestions - The candidate suggestions
+   * @param prefix - The typed prefix
+   * @returns The matching suggestions, best first
+   */
+  private rankSuggestions(
+    suggestions: ExpressionSuggestion[], 
+    prefix: string
+  ): ExpressionSuggestion[] {
+    return suggestions
+      .map(suggestion => ({ suggestion, score: matchName(nameOf(suggestion), prefix) }))
+      .filter((entry): entry is { suggestion: ExpressionSuggestion; score: MatchScore } => entry.score !== null)
+      .sort((a, b) =>
+        b.score.tier - a.score.tier
+        || (this.usage.get(nameOf(b.suggestion)) ?? 0) - (this.usage.get(nameOf(a.suggestion)) ?? 0)
+        || b.score.closeness - a.score.closeness
+        || a.suggestion.text.length - b.suggestion.text.length
+      )
+      .map(entry => entry.suggestion);
+  }
+
+  /**
+   * All suggestions: built-in, user-defined and contributed by plugins
    */
-  private isIdentifierChar(char: string): boolean {
-    return /[a-zA-Z0-9_]/.test(char);
+  private allSuggestions(): ExpressionSuggestion[] {
+    return [...this.suggestions, ...this.userSuggestions, ...this.pluginSuggestions];
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,267 @@
+/**
+ * Complex numbers for the expression engine
+ *
+ * Complex values sit above floats in the numeric tower: combining any number with a
+ * complex value gives a complex result, with both parts held as floats. Results whose
+ * imaginary part is exactly zero collapse back to real numbers.
+ */
+
+import { NumericValue, isNumeric, toFloat } from './numeric';
+
+/**
+ * Complex number in rectangular form
+ */
+export interface ComplexValue {
+  type: 'complex';
+  re: number;
+  im: number;
+}
+
+/**
+ * Largest integer exponent raised by repeated multiplication, keeping Gaussian integers exact
+ */
+const MAX_INTEGER_EXPONENT = 1024;
+
+/**
+ * Check whether a value is a complex number
+ * @param value - The value to check
+ */
+export function isComplex(value: unknown): value is ComplexValue {
+  return typeof value === 'object' && value !== null && (value as ComplexValue).type === 'complex';
+}
+
+/**
+ * Create a complex number
+ * @param re - The real part
+ * @param im - The imaginary part
+ */
+export function createComplex(re: number, im: number): ComplexValue {
+  return { type: 'complex', re, im };
+}
+
+/**
+ * The imaginary unit
+ */
+export const IMAGINARY_UNIT: ComplexValue = createComplex(0, 1);
+
+/**
+ * Convert a real or complex number to a complex number
+ * @param value - The value to convert
+ */
+export function toComplex(value: NumericValue | ComplexValue): ComplexValue {
+  return isComplex(value) ? value : createComplex(toFloat(value), 0);
+}
+
+/**
+ * Collapse a complex number with a zero imaginary part to a real number
+ * @param value - The complex number
+ * @returns The real part, or the complex number itself
+ */
+export function simplifyComplex(value: ComplexValue): number | ComplexValue {
+  return value.im === 0 ? value.re : value;
+}
+
+/**
+ * Check whether a value is a real or complex number
+ * @param value - The value to check
+ */
+export function isNumberLike(value: unknown): value is NumericValue | ComplexValue {
+  return isNumeric(value) || isComplex(value);
+}
+
+/**
+ * Add two complex numbers
+ */
+export function complexAdd(a: ComplexValue, b: ComplexValue): ComplexValue {
+  return createComplex(a.re + b.re, a.im + b.im);
+}
+
+/**
+ * Subtract two complex numbers
+ */
+export function complexSubtract(a: ComplexValue, b: ComplexValue): ComplexValue {
+  return createComplex(a.re - b.re, a.im - b.im);
+}
+
+/**
+ * Multiply two complex numbers
+ */
+export function complexMultiply(a: ComplexValue, b: ComplexValue): ComplexValue {
+  return createComplex(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
+}
+
+/**
+ * Divide two complex numbers
+ */
+export function complexDivide(a: ComplexValue, b: ComplexValue): ComplexValue {
+  const denominator = b.re * b.re + b.im * b.im;
+
+  if (denominator === 0) {
+    throw new Error('Division by zero');
+  }
+
+  return createComplex(
+    (a.re * b.re + a.im * b.im) / denominator,
+    (a.im * b.re - a.re * b.im) / denominator
+  );
+}
+
+/**
+ * Negate a complex number
+ */
+export function complexNegate(a: ComplexValue): ComplexValue {
+  return createComplex(-a.re, -a.im);
+}
+
+/**
+ * Complex conjugate
+ */
+export function complexConjugate(a: ComplexValue): ComplexValue {
+  return createComplex(a.re, -a.im);
+}
+
+/**
+ * Check two complex numbers for equality
+ */
+export function complexEquals(a: ComplexValue, b: ComplexValue): boolean {
+  return a.re === b.re && a.im === b.im;
+}
+
+/**
+ * Modulus |z|
+ */
+export function complexAbs(a: ComplexValue): number {
+  return Math.hypot(a.re, a.im);
+}
+
+/**
+ * Principal argument of z in (-pi, pi]
+ */
+export function complexArg(a: ComplexValue): number {
+  return Math.atan2(a.im, a.re);
+}
+
+/**
+ * Exponential e^z
+ */
+export function complexExp(a: ComplexValue): ComplexValue {
+  const magnitude = Math.exp(a.re);
+  return createComplex(magnitude * Math.cos(a.im), magnitude * Math.sin(a.im));
+}
+
+/**
+ * Principal natural logarithm
+ */
+export function complexLog(a: ComplexValue): ComplexValue {
+  return createComplex(Math.log(complexAbs(a)), complexArg(a));
+}
+
+/**
+ * Principal square root
+ */
+export function complexSqrt(a: ComplexValue): ComplexValue {
+  const r = complexAbs(a);
+  const re = Math.sqrt((r + a.re) / 2);
+  const im = Math.sqrt((r - a.re) / 2);
+
+  return createComplex(re, a.im < 0 ? -im : im);
+}
+
+/**
+ * Principal power z^w; integer exponents use repeated multiplication
+ */
+export function complexPow(base: ComplexValue, exponent: ComplexValue): ComplexValue {
+  if (exponent.im === 0 && Number.isInteger(exponent.re) && Math.abs(exponent.re) <= MAX_INTEGER_EXPONENT) {
+    let result = createComplex(1, 0);
+    let factor = base;
+
+    for (let n = Math.abs(exponent.re); n > 0; n >>= 1) {
+      if (n & 1) {
+        result = complexMultiply(result, factor);
+      }
+      factor = complexMultiply(factor, factor);
+    }
+
+    return exponent.re < 0 ? complexDivide(createComplex(1, 0), result) : result;
+  }
+
+  if (base.re === 0 && base.im === 0) {
+    if (exponent.re > 0) {
+      return createComplex(0, 0);
+    }
+    throw new Error('Division by zero');
+  }
+
+  return complexExp(complexMultiply(exponent, complexLog(base)));
+}
+
+/**
+ * Sine
+ */
+export function complexSin(a: ComplexValue): ComplexValue {
+  return createComplex(Math.sin(a.re) * Math.cosh(a.im), Math.cos(a.re) * Math.sinh(a.im));
+}
+
+/**
+ * Cosine
+ */
+export function complexCos(a: ComplexValue): ComplexValue {
+  return createComplex(Math.cos(a.re) * Math.cosh(a.im), -Math.sin(a.re) * Math.sinh(a.im));
+}
+
+/**
+ * Tangent
+ */
+export function complexTan(a: ComplexValue): ComplexValue {
+  return complexDivide(complexSin(a), complexCos(a));
+}
+
+/**
+ * Hyperbolic sine
+ */
+export function complexSinh(a: ComplexValue): ComplexValue {
+  return createComplex(Math.sinh(a.re) * Math.cos(a.im), Math.cosh(a.re) * Math.sin(a.im));
+}
+
+/**
+ * Hyperbolic cosine
+ */
+export function complexCosh(a: ComplexValue): ComplexValue {
+  return createComplex(Math.cosh(a.re) * Math.cos(a.im), Math.sinh(a.re) * Math.sin(a.im));
+}
+
+/**
+ * Hyperbolic tangent
+ */
+export function complexTanh(a: ComplexValue): ComplexValue {
+  return complexDivide(complexSinh(a), complexCosh(a));
+}
+
+/**
+ * asin z = -i ln(iz + sqrt(1 - z^2))
+ */
+export function complexAsin(a: ComplexValue): ComplexValue {
+  const one = createComplex(1, 0);
+  const root = complexSqrt(complexSubtract(one, complexMultiply(a, a)));
+  const log = complexLog(complexAdd(complexMultiply(IMAGINARY_UNIT, a), root));
+
+  return createComplex(log.im, -log.re);
+}
+
+/**
+ * acos z = pi/2 - asin z
+ */
+export function complexAcos(a: ComplexValue): ComplexValue {
+  return complexSubtract(createComplex(Math.PI / 2, 0), complexAsin(a));
+}
+
+/**
+ * atan z = (i/2) (ln(1 - iz) - ln(1 + iz))
+ */
+export function complexAtan(a: ComplexValue): ComplexValue {
+  const one = createComplex(1, 0);
+  const iz = complexMultiply(IMAGINARY_UNIT, a);
+  const difference = complexSubtract(complexLog(complexSubtract(one, iz)), complexLog(complexAdd(one, iz)));
+
+  return complexMultiply(createComplex(0, 0.5), difference);
+}
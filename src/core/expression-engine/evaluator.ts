@@ -4,70 +4,343 @@ import {
   NumberNode,
   BinaryOperationNode,
   UnaryOperationNode,
+  PostfixOperationNode,
   FunctionCallNode,
   VariableNode,
+  ConditionalNode,
+  ListNode,
+  SetNode,
+  RangeNode,
+  ConversionNode,
+  ModularNode,
+  AssignmentNode,
+  FunctionDefinitionNode,
+  BlockNode,
+  LetNode,
+  IfNode,
+  ForNode,
+  WhileNode,
+  ReturnNode,
+  ErrorNode,
+  ValueNode,
+  CustomOperationNode,
+  LiteralNode,
+  SourceLocation,
+  FunctionSignature,
+  RegisteredFunction,
+  ValueType,
   EvaluationContext,
+  EvaluationScope,
   EvaluationResult,
-  ExpressionValue
+  ExpressionValue,
+  NumericPrecision,
+  AsyncEvaluationOptions,
+  EvaluationOptions,
+  CancellationSignal,
+  CompiledExpression
 } from './types';
 
+import {
+  NumericValue,
+  isNumeric,
+  isExact,
+  isRational,
+  toFloat,
+  bigGcd,
+  parseNumberLiteral,
+  add,
+  subtract,
+  multiply,
+  divide,
+  modulo,
+  power,
+  negate,
+  compare,
+  equals,
+  abs,
+  floor,
+  ceil,
+  round,
+  sqrt,
+  toBigInt,
+  formatBaseLiteral,
+  isProbablePrime
+} from './numeric';
+import {
+  ComplexValue,
+  IMAGINARY_UNIT,
+  isComplex,
+  isNumberLike,
+  createComplex,
+  toComplex,
+  simplifyComplex,
+  complexAdd,
+  complexSubtract,
+  complexMultiply,
+  complexDivide,
+  complexPow,
+  complexNegate,
+  complexConjugate,
+  complexEquals,
+  complexAbs,
+  complexArg,
+  complexExp,
+  complexLog,
+  complexSqrt,
+  complexSin,
+  complexCos,
+  complexTan,
+  complexSinh,
+  complexCosh,
+  complexTanh,
+  complexAsin,
+  complexAcos,
+  complexAtan
+} from './complex';
+import {
+  UnitPowers,
+  findUnit,
+  isQuantity,
+  createQuantity,
+  combineUnits,
+  formatUnits,
+  applyQuantityOperator,
+  powerQuantity,
+  negateQuantity,
+  convertQuantity
+} from './units';
+import { formatExpressionValue } from './formatter';
+import { differentiate, simplify } from './symbolic';
+import { printExpression } from './printer';
+import { arityOf, describeArity } from './type-checker';
+import { ExtensionRegistry } from './extensions';
+import {
+  MODULAR_OPERATORS,
+  applyModularOperator,
+  reduceModulo,
+  checkModulus,
+  toInteger,
+  fromInteger,
+  modPower,
+  modInverse,
+  modSqrt,
+  chineseRemainder
+} from './modular';
+import { reportProgress, trackStep, withProgress } from './progress';
+
+/**
+ * Largest argument for which factorials are computed exactly
+ */
+const MAX_EXACT_FACTORIAL = 20000n;
+
+/**
+ * Helper function to wrap Math functions to handle ExpressionValue types.
+ * Exact arguments are converted to floats. Complex arguments, and real arguments
+ * outside the real domain of the function, use the complex version when there is one.
+ */
+const wrapMathFunction = (
+  fn: (x: number) => number,
+  complexFn?: (z: ComplexValue) => ComplexValue,
+  inRealDomain: (x: number) => boolean = () => true
+): (arg: ExpressionValue) => ExpressionValue => {
+  return (arg: ExpressionValue): ExpressionValue => {
+    if (isComplex(arg) && complexFn) {
+      return simplifyComplex(complexFn(arg));
+    }
+    if (isQuantity(arg)) {
+      throw new Error(`Expected a dimensionless number but got a quantity in ${formatUnits(arg.units)}`);
+    }
+    if (!isNumeric(arg)) {
+      throw new Error(`Expected a number but got ${typeof arg}`);
+    }
+    
+    const x = toFloat(arg);
+    if (complexFn && !inRealDomain(x)) {
+      return simplifyComplex(complexFn(toComplex(x)));
+    }
+    return fn(x);
+  };
+};
+
 /**
- * Helper function to wrap Math functions to handle ExpressionValue types
+ * Helper function to wrap numeric tower functions that keep exact arguments exact
  */
-const wrapMathFunction = (fn: (x: number) => number): (arg: ExpressionValue) => ExpressionValue => {
+const wrapNumericFunction = (
+  fn: (x: NumericValue) => NumericValue,
+  complexFn?: (z: ComplexValue) => ExpressionValue
+): (arg: ExpressionValue) => ExpressionValue => {
   return (arg: ExpressionValue): ExpressionValue => {
-    if (typeof arg !== 'number') {
+    if (isComplex(arg) && complexFn) {
+      return complexFn(arg);
+    }
+    if (isQuantity(arg)) {
+      throw new Error(`Expected a dimensionless number but got a quantity in ${formatUnits(arg.units)}`);
+    }
+    if (!isNumeric(arg)) {
       throw new Error(`Expected a number but got ${typeof arg}`);
     }
     return fn(arg);
   };
 };
 
+/**
+ * Apply a rounding function to both parts of a complex number (Gaussian integer rounding)
+ */
+const roundComplex = (fn: (x: number) => number) => (z: ComplexValue): ExpressionValue => {
+  return simplifyComplex(createComplex(fn(z.re), fn(z.im)));
+};
+
+/**
+ * Divide a complex logarithm by the natural logarithm of a base
+ */
+const complexLogBase = (base: number) => (z: ComplexValue): ComplexValue => {
+  return complexDivide(complexLog(z), createComplex(Math.log(base), 0));
+};
+
+/**
+ * Real domain checks; NaN stays on the real path
+ */
+const isNonNegative = (x: number): boolean => !(x < 0);
+const isInUnitInterval = (x: number): boolean => !(Math.abs(x) > 1);
+
+/**
+ * Largest upper bound accepted by primes, keeping the sieving primes below one million
+ */
+const MAX_PRIME_BOUND = 1e12;
+
+/**
+ * Largest interval primes sieves in one call
+ */
+const MAX_PRIME_SPAN = 10000000;
+
+/**
+ * List the primes in an interval with a segmented sieve of Eratosthenes
+ * @param low - The smallest candidate (at least 2)
+ * @param high - The largest candidate
+ * @returns The primes from low to high in ascending order
+ */
+const primesBetween = (low: number, high: number): number[] => {
+  const limit = Math.floor(Math.sqrt(high));
+  const smallComposite = new Uint8Array(limit + 1);
+  const composite = new Uint8Array(high - low + 1);
+  const message = `Sieving primes up to ${high}`;
+  
+  // Crossing out the multiples of p takes a time proportional to 1 / p, and the reciprocals
+  // of the primes up to the limit add up to about log log limit + 0.2615 (Mertens), an
+  // estimate rough enough for small limits to be capped below the end of the sieve
+  const work = Math.log(Math.log(limit)) + 0.2615;
+  let done = 0;
+  
+  for (let p = 2; p <= limit; p++) {
+    if (smallComposite[p]) continue;
+    
+    reportProgress(Math.min(done / work, 0.99), message);
+    for (let multiple = p * p; multiple <= limit; multiple += p) {
+      smallComposite[multiple] = 1;
+    }
+    for (let multiple = Math.max(p * p, Math.ceil(low / p) * p); multiple <= high; multiple += p) {
+      composite[multiple - low] = 1;
+    }
+    done += 1 / p;
+  }
+  
+  const primes: number[] = [];
+  composite.forEach((isComposite, index) => {
+    if (!isComposite) primes.push(low + index);
+  });
+  
+  return primes;
+};
+
+/**
+ * Register a function with its signature
+ * @param implementation - The function, applied element-wise to list arguments unless it
+ *                         takes a list parameter
+ * @param parameters - The parameter names
+ * @param types - The type of every parameter and the return type, both numbers by default,
+ *                and whether the function returns a promise
+ * @returns The registered function
+ */
+export const defineFunction = (
+  implementation: (...args: ExpressionValue[]) => ExpressionValue,
+  parameters: string[],
+  { type = 'number', returns = 'number', async }: { type?: ValueType; returns?: ValueType; async?: boolean } = {}
+): RegisteredFunction => ({
+  parameters: parameters.map(name => ({ name, type })),
+  returns,
+  implementation,
+  ...(async ? { async } : {})
+});
+
 /**
  * Default evaluation context with standard functions and variables
  */
 export const defaultContext: EvaluationContext = {
   variables: {
     pi: Math.PI,
-    e: Math.E
+    e: Math.E,
+    i: IMAGINARY_UNIT
   },
   functions: {
     // Trigonometric functions
-    sin: wrapMathFunction(Math.sin),
-    cos: wrapMathFunction(Math.cos),
-    tan: wrapMathFunction(Math.tan),
-    asin: wrapMathFunction(Math.asin),
-    acos: wrapMathFunction(Math.acos),
-    atan: wrapMathFunction(Math.atan),
+    sin: defineFunction(wrapMathFunction(Math.sin, complexSin), ['x']),
+    cos: defineFunction(wrapMathFunction(Math.cos, complexCos), ['x']),
+    tan: defineFunction(wrapMathFunction(Math.tan, complexTan), ['x']),
+    asin: defineFunction(wrapMathFunction(Math.asin, complexAsin, isInUnitInterval), ['x']),
+    acos: defineFunction(wrapMathFunction(Math.acos, complexAcos, isInUnitInterval), ['x']),
+    atan: defineFunction(wrapMathFunction(Math.atan, complexAtan), ['x']),
     
     // Hyperbolic functions
-    sinh: wrapMathFunction(Math.sinh),
-    cosh: wrapMathFunction(Math.cosh),
-    tanh: wrapMathFunction(Math.tanh),
+    sinh: defineFunction(wrapMathFunction(Math.sinh, complexSinh), ['x']),
+    cosh: defineFunction(wrapMathFunction(Math.cosh, complexCosh), ['x']),
+    tanh: defineFunction(wrapMathFunction(Math.tanh, complexTanh), ['x']),
     
-    // Logarithmic functions
-    log: wrapMathFunction(Math.log10),
-    ln: wrapMathFunction(Math.log),
-    log2: wrapMathFunction(Math.log2),
+    // Logarithmic functions (complex for negative arguments)
+    log: defineFunction(wrapMathFunction(Math.log10, complexLogBase(10), isNonNegative), ['x']),
+    ln: defineFunction(wrapMathFunction(Math.log, complexLog, isNonNegative), ['x']),
+    log2: defineFunction(wrapMathFunction(Math.log2, complexLogBase(2), isNonNegative), ['x']),
     
     // Exponential function
-    exp: wrapMathFunction(Math.exp),
+    exp: defineFunction(wrapMathFunction(Math.exp, complexExp), ['x']),
+    
+    // Other mathematical functions (exact for exact arguments; sqrt and abs keep units)
+    sqrt: defineFunction((x: ExpressionValue): ExpressionValue => {
+      if (isQuantity(x)) {
+        return powerQuantity(x, 0.5);
+      }
+      if (isNumeric(x) && compare(x, 0n) < 0) {
+        return simplifyComplex(complexSqrt(toComplex(x)));
+      }
+      return wrapNumericFunction(sqrt, z => simplifyComplex(complexSqrt(z)))(x);
+    }, ['x']),
+    abs: defineFunction((x: ExpressionValue): ExpressionValue => {
+      if (isQuantity(x)) {
+        return createQuantity(abs(x.value), x.units);
+      }
+      return wrapNumericFunction(abs, complexAbs)(x);
+    }, ['x']),
+    floor: defineFunction(wrapNumericFunction(floor, roundComplex(Math.floor)), ['x']),
+    ceil: defineFunction(wrapNumericFunction(ceil, roundComplex(Math.ceil)), ['x']),
+    round: defineFunction(wrapNumericFunction(round, roundComplex(Math.round)), ['x']),
     
-    // Other mathematical functions
-    sqrt: wrapMathFunction(Math.sqrt),
-    abs: wrapMathFunction(Math.abs),
-    floor: wrapMathFunction(Math.floor),
-    ceil: wrapMathFunction(Math.ceil),
-    round: wrapMathFunction(Math.round),
+    // Complex number functions
+    re: defineFunction(wrapNumericFunction(x => x, z => z.re), ['z']),
+    im: defineFunction(wrapNumericFunction(x => (typeof x === 'number' ? 0 : 0n), z => z.im), ['z']),
+    arg: defineFunction(wrapNumericFunction(x => (compare(x, 0n) < 0 ? Math.PI : 0), complexArg), ['z']),
+    conj: defineFunction(wrapNumericFunction(x => x, z => simplifyComplex(complexConjugate(z))), ['z']),
     
     // Additional utility functions
-    gcd: (a: ExpressionValue, b: ExpressionValue): ExpressionValue => {
-      if (typeof a !== 'number' || typeof b !== 'number') {
+    gcd: defineFunction((a: ExpressionValue, b: ExpressionValue): ExpressionValue => {
+      if (!isNumeric(a) || !isNumeric(b)) {
         throw new Error(`Expected numbers but got ${typeof a} and ${typeof b}`);
       }
       
-      let x = Math.abs(a);
-      let y = Math.abs(b);
+      if (typeof a === 'bigint' && typeof b === 'bigint') {
+        return bigGcd(a, b);
+      }
+      
+      let x = Math.abs(toFloat(a));
+      let y = Math.abs(toFloat(b));
       
       while (y > 0) {
         const temp = y;
@@ -76,23 +349,39 @@ export const defaultContext: EvaluationContext = {
       }
       
       return x;
-    },
+    }, ['a', 'b']),
     
-    lcm: (a: ExpressionValue, b: ExpressionValue): ExpressionValue => {
-      if (typeof a !== 'number' || typeof b !== 'number') {
+    lcm: defineFunction((a: ExpressionValue, b: ExpressionValue): ExpressionValue => {
+      if (!isNumeric(a) || !isNumeric(b)) {
         throw new Error(`Expected numbers but got ${typeof a} and ${typeof b}`);
       }
       
-      const gcdValue = defaultContext.functions.gcd(a, b) as number;
-      return Math.abs(a * b) / gcdValue;
-    },
+      const gcdValue = defaultContext.functions.gcd.implementation(a, b) as NumericValue;
+      return divide(abs(multiply(a, b)), gcdValue);
+    }, ['a', 'b']),
     
-    factorial: (n: ExpressionValue): ExpressionValue => {
-      if (typeof n !== 'number') {
+    factorial: defineFunction((n: ExpressionValue): ExpressionValue => {
+      if (!isNumeric(n)) {
         throw new Error(`Expected a number but got ${typeof n}`);
       }
 
-      if (n < 0 || !Number.isInteger(n)) {
+      if (typeof n === 'bigint') {
+        if (n < 0n) {
+          throw new Error('Factorial is only defined for non-negative integers');
+        }
+        if (n > MAX_EXACT_FACTORIAL) {
+          throw new Error(`Exact factorial is limited to n <= ${MAX_EXACT_FACTORIAL}`);
+        }
+        
+        let result = 1n;
+        for (let i = 2n; i <= n; i++) {
+          result *= i;
+        }
+        
+        return result;
+      }
+
+      if (isRational(n) || n < 0 || !Number.isInteger(n)) {
         throw new Error('Factorial is only defined for non-negative integers');
       }
       
@@ -102,13 +391,58 @@ export const defaultContext: EvaluationContext = {
       }
       
       return result;
-    },
+    }, ['n']),
+    
+    doubleFactorial: defineFunction((n: ExpressionValue): ExpressionValue => {
+      if (!isNumeric(n)) {
+        throw new Error(`Expected a number but got ${typeof n}`);
+      }
+
+      if (typeof n === 'bigint') {
+        if (n < -1n) {
+          throw new Error('Double factorial is only defined for integers >= -1');
+        }
+        if (n > 2n * MAX_EXACT_FACTORIAL) {
+          throw new Error(`Exact double factorial is limited to n <= ${2n * MAX_EXACT_FACTORIAL}`);
+        }
+        
+        let result = 1n;
+        for (let i = n; i > 1n; i -= 2n) {
+          result *= i;
+        }
+        
+        return result;
+      }
+
+      if (isRational(n) || n < -1 || !Number.isInteger(n)) {
+        throw new Error('Double factorial is only defined for integers >= -1');
+      }
+      
+      let result = 1;
+      for (let i = n; i > 1; i -= 2) {
+        result *= i;
+      }
+      
+      return result;
+    }, ['n']),
+    
+    // List functions
+    length: defineFunction((list: ExpressionValue): ExpressionValue => {
+      if (!Array.isArray(list)) {
+        throw new Error(`Expected a list but got ${typeof list}`);
+      }
+      
+      return list.length;
+    }, ['list'], { type: 'list' }),
     
-    isPrime: (n: ExpressionValue): ExpressionValue => {
-      if (typeof n !== 'number') {
+    isPrime: defineFunction((n: ExpressionValue): ExpressionValue => {
+      if (!isNumeric(n)) {
         throw new Error(`Expected a number but got ${typeof n}`);
       }
 
+      if (typeof n === 'bigint') return isProbablePrime(n);
+      if (isRational(n)) return false;
+
       if (n <= 1 || !Number.isInteger(n)) return false;
       if (n <= 3) return true;
       if (n % 2 === 0 || n % 3 === 0) return false;
@@ -119,46 +453,647 @@ export const defaultContext: EvaluationContext = {
       }
       
       return true;
+    }, ['n'], { returns: 'boolean' }),
+    
+    primes: defineFunction((from: ExpressionValue, to: ExpressionValue): ExpressionValue => {
+      if (!isNumeric(from) || !isNumeric(to)) {
+        throw new Error(`Expected numbers but got ${typeof from} and ${typeof to}`);
+      }
+      
+      const low = Math.max(2, Math.ceil(toFloat(from)));
+      const high = Math.floor(toFloat(to));
+      
+      if (high > MAX_PRIME_BOUND) {
+        throw new Error(`primes is limited to bounds up to ${MAX_PRIME_BOUND}`);
+      }
+      if (high < low) {
+        return [];
+      }
+      if (high - low >= MAX_PRIME_SPAN) {
+        throw new Error(`primes is limited to intervals of ${MAX_PRIME_SPAN} numbers`);
+      }
+      
+      const primes = primesBetween(low, high);
+      return typeof from === 'bigint' || typeof to === 'bigint' ? primes.map(BigInt) : primes;
+    }, ['from', 'to'], { returns: 'list' }),
+    
+    // Base conversion, giving a literal that reads back as the same number (0xff, 36#zz)
+    toBase: defineFunction((n: ExpressionValue, base: ExpressionValue): ExpressionValue => {
+      if (!isNumeric(n) || !isNumeric(base)) {
+        throw new Error(`Expected numbers but got ${typeof n} and ${typeof base}`);
+      }
+      
+      const radix = toBigInt(base);
+      if (radix === null || radix < 2n || radix > 36n) {
+        throw new Error('The base of toBase must be an integer from 2 to 36');
+      }
+      
+      const integer = typeof n === 'number' && Number.isInteger(n) ? BigInt(n) : toBigInt(n);
+      if (integer === null) {
+        throw new Error(`Only integers can be written in base ${radix}`);
+      }
+      
+      return formatBaseLiteral(integer, Number(radix));
+    }, ['n', 'base'], { returns: 'string' }),
+    
+    // Modular arithmetic, exact on BigInts
+    modpow: defineFunction((a: ExpressionValue, b: ExpressionValue, n: ExpressionValue): ExpressionValue => {
+      return fromInteger(modPower(toInteger(a), toInteger(b), checkModulus(n)), [a, b, n]);
+    }, ['a', 'b', 'n']),
+    
+    modinv: defineFunction((a: ExpressionValue, n: ExpressionValue): ExpressionValue => {
+      return fromInteger(modInverse(toInteger(a), checkModulus(n)), [a, n]);
+    }, ['a', 'n']),
+    
+    sqrtmod: defineFunction((a: ExpressionValue, p: ExpressionValue): ExpressionValue => {
+      return fromInteger(modSqrt(toInteger(a), checkModulus(p)), [a, p]);
+    }, ['a', 'p']),
+    
+    crt: defineFunction((residues: ExpressionValue, moduli: ExpressionValue): ExpressionValue => {
+      if (!Array.isArray(residues) || !Array.isArray(moduli) || residues.length === 0 || residues.length !== moduli.length) {
+        throw new Error('crt expects non-empty lists of residues and moduli of the same length');
+      }
+      
+      const [solution] = chineseRemainder(residues.map(toInteger), moduli.map(checkModulus));
+      return fromInteger(solution, [...residues, ...moduli]);
+    }, ['residues', 'moduli'], { type: 'list' })
+  }
+};
+
+/**
+ * Check whether a record defines a key itself (ignoring the object prototype)
+ */
+const hasOwn = (record: object, key: string): boolean => {
+  return Object.prototype.hasOwnProperty.call(record, key);
+};
+
+/**
+ * Local variables of a user-defined function call, binder or script block. A nested frame
+ * inherits from its enclosing frame, so outer locals stay visible through the prototype chain.
+ */
+type Frame = Record<string, ExpressionValue>;
+
+/**
+ * Create a frame of local variables
+ * @param parent - The enclosing frame whose locals stay visible, if any
+ */
+const createFrame = (parent?: Frame): Frame => {
+  return Object.create(parent ?? null);
+};
+
+/**
+ * Binding holding the modulus of a modular context, named so that no variable can shadow it
+ */
+const MODULUS_BINDING = '#modulus';
+
+/**
+ * Create a frame setting the modulus of the arithmetic evaluated in it
+ * @param parent - The enclosing frame, if any
+ * @param modulus - The modulus, or null for ordinary arithmetic
+ */
+const withModulus = (parent: Frame | undefined, modulus: NumericValue | null): Frame => {
+  const frame = createFrame(parent);
+  frame[MODULUS_BINDING] = modulus;
+  return frame;
+};
+
+/**
+ * Get the modulus of the arithmetic in a frame
+ * @param frame - The innermost frame
+ * @returns The modulus, or null outside modular contexts
+ */
+const modulusOf = (frame: Frame | undefined): NumericValue | null => {
+  return (frame?.[MODULUS_BINDING] ?? null) as NumericValue | null;
+};
+
+/**
+ * Find the frame in a chain that declares a local variable
+ * @param frame - The innermost frame
+ * @param name - The variable name
+ * @returns The declaring frame, or undefined if no frame in the chain declares the name
+ */
+const findFrame = (frame: Frame | undefined, name: string): Frame | undefined => {
+  for (let current = frame; current; current = Object.getPrototypeOf(current)) {
+    if (hasOwn(current, name)) {
+      return current;
+    }
+  }
+  
+  return undefined;
+};
+
+/**
+ * Thrown by a return statement and caught by the enclosing function call or script
+ */
+class ReturnSignal {
+  constructor(public readonly value: ExpressionValue) {}
+}
+
+/**
+ * An evaluation error annotated with the location of the script statement that failed
+ */
+class StatementError extends Error {
+  constructor(message: string, public readonly location: SourceLocation) {
+    super(message);
+  }
+}
+
+/**
+ * Maximum nesting depth for calls to user-defined functions
+ */
+const MAX_CALL_DEPTH = 1000;
+
+/**
+ * Maximum number of iterations of a single while loop
+ */
+const MAX_LOOP_ITERATIONS = 10000000;
+
+/**
+ * Maximum number of elements a range may produce
+ */
+const MAX_RANGE_LENGTH = 1000000;
+
+/**
+ * Functions that receive their arguments as unevaluated expression trees
+ */
+const SYMBOLIC_FUNCTIONS = new Set(['diff', 'simplify']);
+
+/**
+ * Functions that bind their first argument as a dummy variable and evaluate their
+ * last argument lazily, once for each of its values
+ */
+const BINDER_FUNCTIONS = new Set(['sum', 'prod', 'seq', 'any', 'all', 'count']);
+
+/**
+ * Signature of a binder function: sum(k, from, to, expression) or sum(k, list, expression)
+ */
+const binderSignature = (returns: ValueType): FunctionSignature => ({
+  parameters: [
+    { name: 'k', type: 'variable' },
+    { name: 'from', type: 'any' },
+    { name: 'to', type: 'any' },
+    { name: 'expression', type: 'expression', optional: true }
+  ],
+  returns
+});
+
+/**
+ * Signatures of the symbolic and binder functions
+ */
+const SPECIAL_FUNCTION_SIGNATURES: Record<string, FunctionSignature> = {
+  diff: {
+    parameters: [
+      { name: 'expression', type: 'expression' },
+      { name: 'variable', type: 'variable' },
+      { name: 'order', type: 'number', optional: true }
+    ],
+    returns: 'any'
+  },
+  simplify: { parameters: [{ name: 'expression', type: 'expression' }], returns: 'string' },
+  sum: binderSignature('number'),
+  prod: binderSignature('number'),
+  seq: binderSignature('list'),
+  any: binderSignature('boolean'),
+  all: binderSignature('boolean'),
+  count: binderSignature('number')
+};
+
+/**
+ * Highest derivative order accepted by diff
+ */
+const MAX_DERIVATIVE_ORDER = 20;
+
+/**
+ * Apply a function element-wise when any argument is a list. Scalar arguments are
+ * repeated for every element, and list arguments must all have the same length.
+ * @param args - The evaluated arguments
+ * @param fn - The scalar function
+ * @returns The function result, or a list of results
+ */
+const broadcast = (
+  args: ExpressionValue[],
+  fn: (...args: ExpressionValue[]) => ExpressionValue
+): ExpressionValue => {
+  const lists = args.filter((arg): arg is ExpressionValue[] => Array.isArray(arg));
+  
+  if (lists.length === 0) {
+    return fn(...args);
+  }
+  
+  const length = lists[0].length;
+  if (lists.some(list => list.length !== length)) {
+    throw new Error(`Cannot combine lists of different lengths: ${lists.map(list => list.length).join(' and ')}`);
+  }
+  
+  return Array.from({ length }, (_, index) =>
+    broadcast(args.map(arg => (Array.isArray(arg) ? arg[index] : arg)), fn)
+  );
+};
+
+/**
+ * Check whether a number has an integer value
+ */
+const isIntegerValued = (value: NumericValue): boolean => {
+  return typeof value === 'bigint' || (typeof value === 'number' && Number.isInteger(value));
+};
+
+/**
+ * Generate the integers from one bound to another (inclusive), one at a time
+ * @param from - The first value
+ * @param to - The last value
+ */
+function* integersBetween(from: NumericValue, to: NumericValue): Generator<NumericValue> {
+  const step = typeof from === 'bigint' ? 1n : 1;
+  
+  for (let value = from; compare(value, to) <= 0; value = add(value, step)) {
+    yield value;
+  }
+}
+
+/**
+ * Compare two scalar values for equality, treating numbers of different tower levels
+ * as equal when they have the same numeric value
+ */
+const valuesEqual = (left: ExpressionValue, right: ExpressionValue): boolean => {
+  if (isComplex(left) || isComplex(right)) {
+    return isNumberLike(left) && isNumberLike(right) && complexEquals(toComplex(left), toComplex(right));
+  }
+  return isNumeric(left) && isNumeric(right) ? equals(left, right) : left === right;
+};
+
+/**
+ * Check whether a value is a promise, as returned by asynchronous functions
+ */
+const isPromiseLike = (value: ExpressionValue): value is PromiseLike<ExpressionValue> => {
+  return typeof value === 'object' && value !== null && typeof (value as { then?: unknown }).then === 'function';
+};
+
+/**
+ * Check whether a value is a promise or a list holding one at any depth
+ */
+const isPending = (value: ExpressionValue): boolean => {
+  return isPromiseLike(value) || (Array.isArray(value) && value.some(isPending));
+};
+
+/**
+ * Wrap a computed value in a node, to evaluate a tree in which it replaces a sub-tree
+ */
+const valueNode = (value: ExpressionValue): ValueNode => ({ type: NodeType.Value, value });
+
+/**
+ * Get the error an evaluation stops with once cancelled
+ */
+const cancellationError = (cancelToken: CancellationSignal): Error => {
+  return new Error(cancelToken.cancelReason ?? 'Evaluation cancelled');
+};
+
+/**
+ * Wait for a promise, rejecting as soon as the evaluation is cancelled while it is pending
+ * @param promise - The promise
+ * @param cancelToken - The cancel token of the evaluation, if any
+ * @returns The result of the promise
+ */
+const whenSettled = (
+  promise: PromiseLike<ExpressionValue>,
+  cancelToken?: CancellationSignal
+): Promise<ExpressionValue> => {
+  if (!cancelToken) {
+    return Promise.resolve(promise);
+  }
+  
+  return new Promise((resolve, reject) => {
+    const unsubscribe = cancelToken.onCancel(() => reject(cancellationError(cancelToken)));
+    
+    promise.then(
+      value => {
+        unsubscribe();
+        resolve(value);
+      },
+      error => {
+        unsubscribe();
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Get the children of a node that evaluating it evaluates. The arguments of symbolic
+ * functions, the bodies of function definitions and script statements are left out.
+ * @param node - The node
+ * @returns The evaluated child nodes
+ */
+const evaluatedChildren = (node: ASTNode): ASTNode[] => {
+  switch (node.type) {
+    case NodeType.BinaryOperation: {
+      const { left, right } = node as BinaryOperationNode;
+      return [left, right];
+    }
+    
+    case NodeType.UnaryOperation:
+    case NodeType.PostfixOperation:
+      return [(node as UnaryOperationNode | PostfixOperationNode).argument];
+      
+    case NodeType.FunctionCall: {
+      const { name, arguments: args } = node as FunctionCallNode;
+      return SYMBOLIC_FUNCTIONS.has(name) ? [] : args;
+    }
+    
+    case NodeType.Conditional: {
+      const { condition, consequent, alternate } = node as ConditionalNode;
+      return [condition, consequent, alternate];
+    }
+    
+    case NodeType.List:
+    case NodeType.Set:
+      return (node as ListNode | SetNode).elements;
+      
+    case NodeType.Range: {
+      const { start, end, step } = node as RangeNode;
+      return step ? [start, end, step] : [start, end];
+    }
+    
+    case NodeType.Conversion:
+      return [(node as ConversionNode).value];
+      
+    case NodeType.Modular: {
+      const { modulus, body } = node as ModularNode;
+      return [modulus, body];
     }
+      
+    case NodeType.Assignment:
+      return [(node as AssignmentNode).value];
+      
+    case NodeType.CustomOperation:
+      return (node as CustomOperationNode).operands;
+      
+    default:
+      return [];
+  }
+};
+
+/**
+ * Check that a user-defined function is called with one argument per parameter
+ * @param definition - The function definition
+ * @param count - The number of arguments of the call
+ */
+const checkArgumentCount = (definition: FunctionDefinitionNode, count: number): void => {
+  if (count !== definition.parameters.length) {
+    throw new Error(`Function ${definition.name} expects ${definition.parameters.length} argument(s) but got ${count}`);
   }
 };
 
+/**
+ * Node of a compiled expression: a closure computing its value from the argument slots
+ */
+type CompiledNode = (slots: ExpressionValue[]) => ExpressionValue;
+
+/**
+ * Binary operators that compiled expressions apply to two floats directly, with the
+ * results the numeric tower gives for floats
+ */
+const FLOAT_OPERATORS: Record<string, (left: number, right: number) => ExpressionValue> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => {
+    if (b === 0) {
+      throw new Error('Division by zero');
+    }
+    return a / b;
+  },
+  '%': (a, b) => {
+    if (b === 0) {
+      throw new Error('Modulo by zero');
+    }
+    return a % b;
+  },
+  // Fractional powers of negative numbers take the principal complex value
+  '^': (a, b) => a < 0 && !Number.isInteger(b) && Number.isFinite(b)
+    ? simplifyComplex(complexPow(toComplex(a), toComplex(b)))
+    : Math.pow(a, b),
+  '==': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+  '<': (a, b) => a < b,
+  '>': (a, b) => a > b,
+  '<=': (a, b) => a <= b,
+  '>=': (a, b) => a >= b
+};
+
+/**
+ * Create an empty session scope for user-defined variables and functions
+ * @returns A new evaluation scope
+ */
+export function createEvaluationScope(): EvaluationScope {
+  return {
+    variables: {},
+    functions: {}
+  };
+}
+
 /**
  * Expression evaluator
  */
 export class Evaluator {
   private context: EvaluationContext;
+  private scope: EvaluationScope;
+  private precision: NumericPrecision;
+  
+  // Local variables of the function calls, binders and script blocks being evaluated
+  private callStack: Frame[] = [];
+  
+  // Number of user-defined function calls in progress
+  private callDepth = 0;
+  
+  // Cancel token of the evaluation in progress, checked at each loop iteration and call
+  private cancelToken?: CancellationSignal;
 
   /**
    * Create a new evaluator
    * @param customContext - Optional custom evaluation context
+   * @param scope - Optional session scope that assignments and definitions are written to
+   * @param precision - Numeric precision mode deciding how number literals are represented
+   * @param extensions - Operators, literals and value types added by plugins
    */
-  constructor(customContext: Partial<EvaluationContext> = {}) {
+  constructor(
+    customContext: Partial<EvaluationContext> = {},
+    scope: EvaluationScope = createEvaluationScope(),
+    precision: NumericPrecision = 'standard',
+    private extensions: ExtensionRegistry = new ExtensionRegistry()
+  ) {
     this.context = {
       variables: { ...defaultContext.variables, ...customContext.variables },
       functions: { ...defaultContext.functions, ...customContext.functions }
     };
+    this.scope = scope;
+    this.precision = precision;
   }
 
   /**
-   * Evaluate an AST node
-   * @param node - The AST node to evaluate
-   * @returns The evaluation result
+   * Get the session scope used by this evaluator
+   * @returns The evaluation scope
    */
-  public evaluate(node: ASTNode): EvaluationResult {
-    try {
-      const value = this.evaluateNode(node);
-      return { value };
-    } catch (error) {
-      return {
-        value: null,
-        error: error instanceof Error ? error.message : 'Unknown evaluation error'
-      };
-    }
+  public getScope(): EvaluationScope {
+    return this.scope;
   }
 
   /**
-   * Recursively evaluate an AST node
+   * Get the numeric precision mode of this evaluator
+   * @returns The precision mode
+   */
+  public getPrecision(): NumericPrecision {
+    return this.precision;
+  }
+
+  /**
+   * Get the signature of every callable function, for checking calls before evaluation.
+   * The parameters and results of user-defined functions have no declared type.
+   * @returns The signature of each function by name
+   */
+  public getFunctionSignatures(): Record<string, FunctionSignature> {
+    const signatures: Record<string, FunctionSignature> = {};
+    
+    for (const definition of Object.values(this.scope.functions)) {
+      signatures[definition.name] = {
+        parameters: definition.parameters.map(name => ({ name, type: 'any' })),
+        returns: 'any'
+      };
+    }
+    const functions = [...this.extensions.getFunctions(), ...Object.entries(this.context.functions)];
+    for (const [name, { parameters, variadic, returns }] of functions) {
+      signatures[name] = { parameters, variadic, returns };
+    }
+    
+    return { ...signatures, ...SPECIAL_FUNCTION_SIGNATURES };
+  }
+
+  /**
+   * Find a function of the context, or else one added by an extension
+   * @param name - The function name
+   * @returns The function, if one is defined
+   */
+  private findFunction(name: string): RegisteredFunction | undefined {
+    return hasOwn(this.context.functions, name)
+      ? this.context.functions[name]
+      : this.extensions.findFunction(name);
+  }
+
+  /**
+   * Evaluate an AST node
+   * @param node - The AST node to evaluate
+   * @param options - The cancel token that stops the evaluation at the next loop iteration
+   * or call of a user-defined function, such as a flag in memory shared with another thread,
+   * and the listener of the progress reported by loops, binders and long-running functions
+   * @returns The evaluation result
+   */
+  public evaluate(node: ASTNode, { cancelToken, onProgress }: EvaluationOptions = {}): EvaluationResult {
+    this.callStack = [];
+    this.callDepth = 0;
+    this.cancelToken = cancelToken;
+    
+    try {
+      const value = onProgress
+        ? withProgress(onProgress, () => this.evaluateNode(node))
+        : this.evaluateNode(node);
+      return { value };
+    } catch (error) {
+      // A return statement at the top level of a script ends the script
+      if (error instanceof ReturnSignal) {
+        return { value: error.value };
+      }
+      
+      return this.failure(error);
+    } finally {
+      this.cancelToken = undefined;
+    }
+  }
+
+  /**
+   * Evaluate an AST node whose functions may return promises, such as the math-js functions
+   * computed in workers. Sub-trees calling asynchronous functions are evaluated once the
+   * values they depend on have settled, and independent sub-trees are evaluated concurrently;
+   * everything else, including scripts, is evaluated synchronously as by evaluate.
+   * @param node - The AST node to evaluate
+   * @param options - The cancel token that stops the evaluation
+   * @returns The evaluation result, whose value holds no pending promises
+   */
+  public async evaluateAsync(node: ASTNode, { cancelToken }: AsyncEvaluationOptions = {}): Promise<EvaluationResult> {
+    try {
+      try {
+        return { value: await this.resolveNode(node, undefined, 0, cancelToken) };
+      } catch (error) {
+        // A return statement at the top level of a script ends the script
+        if (error instanceof ReturnSignal) {
+          return { value: await this.settle(error.value, cancelToken) };
+        }
+        throw error;
+      }
+    } catch (error) {
+      return this.failure(error);
+    }
+  }
+
+  /**
+   * Compile an AST node into closures for fast repeated evaluation, such as plotting an
+   * expression or scanning a range. The parameters are read from argument slots, sub-trees
+   * that depend on neither the parameters nor the session scope are folded into constants,
+   * and arithmetic on floats skips the numeric tower; other nodes are evaluated as by
+   * evaluate, with the parameters as local variables. Calls to user-defined functions are
+   * compiled with the definitions of the session scope at the time of compilation.
+   * @param node - The AST node to compile
+   * @param parameters - The variables bound to the arguments of the compiled expression
+   * @returns The compiled expression
+   */
+  public compile(node: ASTNode, parameters: string[] = []): CompiledExpression {
+    const run = this.compileNode(node, parameters, new Map());
+    
+    return {
+      parameters,
+      evaluate: (...args) => {
+        if (args.length !== parameters.length) {
+          throw new Error(`Expected ${parameters.length} argument(s) but got ${args.length}`);
+        }
+        
+        this.callStack = [];
+        this.callDepth = 0;
+        
+        try {
+          return run(args);
+        } catch (error) {
+          // A return statement at the top level of a script ends the script
+          if (error instanceof ReturnSignal) {
+            return error.value;
+          }
+          throw error;
+        }
+      }
+    };
+  }
+
+  /**
+   * Stop the evaluation in progress if it was cancelled
+   */
+  private checkCancelled(): void {
+    if (this.cancelToken?.isCancelled) {
+      throw cancellationError(this.cancelToken);
+    }
+  }
+
+  /**
+   * Get the result of an evaluation that failed
+   * @param error - The error thrown by the evaluation
+   * @returns The result with the error message and the location of the failing statement
+   */
+  private failure(error: unknown): EvaluationResult {
+    return {
+      value: null,
+      error: error instanceof Error ? error.message : 'Unknown evaluation error',
+      location: error instanceof StatementError ? error.location : undefined
+    };
+  }
+
+  /**
+   * Recursively evaluate an AST node
    * @param node - The node to evaluate
    * @returns The evaluated value
    */
@@ -173,12 +1108,75 @@ export class Evaluator {
       case NodeType.UnaryOperation:
         return this.evaluateUnaryOperation(node as UnaryOperationNode);
         
+      case NodeType.PostfixOperation:
+        return this.evaluatePostfixOperation(node as PostfixOperationNode);
+        
       case NodeType.FunctionCall:
         return this.evaluateFunctionCall(node as FunctionCallNode);
         
       case NodeType.Variable:
         return this.evaluateVariable(node as VariableNode);
         
+      case NodeType.Conditional:
+        return this.evaluateConditional(node as ConditionalNode);
+        
+      case NodeType.List:
+        return (node as ListNode).elements.map(element => this.evaluateNode(element));
+        
+      case NodeType.Set:
+        return this.evaluateSet(node as SetNode);
+        
+      case NodeType.Range:
+        return this.evaluateRange(node as RangeNode);
+        
+      case NodeType.Conversion:
+        return this.evaluateConversion(node as ConversionNode);
+        
+      case NodeType.Assignment:
+        return this.evaluateAssignment(node as AssignmentNode);
+        
+      case NodeType.FunctionDefinition:
+        return this.evaluateFunctionDefinition(node as FunctionDefinitionNode);
+        
+      case NodeType.Block:
+        return this.evaluateBlock(node as BlockNode);
+        
+      case NodeType.Let:
+        return this.evaluateLet(node as LetNode);
+        
+      case NodeType.If:
+        return this.evaluateIf(node as IfNode);
+        
+      case NodeType.For:
+        return this.evaluateFor(node as ForNode);
+        
+      case NodeType.While:
+        return this.evaluateWhile(node as WhileNode);
+        
+      case NodeType.Return: {
+        const { value } = node as ReturnNode;
+        throw new ReturnSignal(value ? this.evaluateNode(value) : null);
+      }
+        
+      case NodeType.Error: {
+        const { message, location } = node as ErrorNode;
+        throw location ? new StatementError(message, location) : new Error(message);
+      }
+        
+      case NodeType.Value:
+        return (node as ValueNode).value;
+        
+      case NodeType.CustomOperation:
+        return this.evaluateCustomOperation(node as CustomOperationNode);
+        
+      case NodeType.Modular:
+        return this.evaluateModular(node as ModularNode);
+        
+      case NodeType.Literal: {
+        const { name, text } = node as LiteralNode;
+        return this.extensions.parseLiteral(name, text);
+      }
+        
       default:
         throw new Error(`Unknown node type: ${node.type}`);
     }
@@ -187,10 +1185,10 @@ export class Evaluator {
   /**
    * Evaluate a number node
    * @param node - The number node
-   * @returns The numeric value
+   * @returns The numeric value in the representation chosen by the precision mode
    */
-  private evaluateNumber(node: NumberNode): number {
-    return parseFloat(node.value);
+  private evaluateNumber(node: NumberNode): NumericValue {
+    return parseNumberLiteral(node.value, this.precision);
   }
 
   /**
@@ -200,13 +1198,108 @@ export class Evaluator {
    */
   private evaluateBinaryOperation(node: BinaryOperationNode): ExpressionValue {
     const left = this.evaluateNode(node.left);
-    const right = this.evaluateNode(node.right);
     
-    // Type narrowing for numeric operations
-    const numericLeft = left as number;
-    const numericRight = right as number;
+    // Logical operators short-circuit so the right operand may be left unevaluated
+    if (node.operator === '&&' && !left) {
+      return false;
+    }
+    if (node.operator === '||' && left) {
+      return true;
+    }
+    
+    // Exponents are ordinary integers rather than residues
+    const right = node.operator === '^' && modulusOf(this.currentFrame()) !== null
+      ? this.evaluateModulo(node.right, null)
+      : this.evaluateNode(node.right);
     
-    switch (node.operator) {
+    if (node.operator === '&&' || node.operator === '||') {
+      return Boolean(right);
+    }
+    
+    return broadcast([left, right], (l, r) => this.applyBinaryOperator(node.operator, l, r));
+  }
+
+  /**
+   * Evaluate an operation of an operator added by an extension, element-wise over lists
+   * @param node - The custom operation node
+   * @returns The result of the operator's definition
+   */
+  private evaluateCustomOperation(node: CustomOperationNode): ExpressionValue {
+    const definition = this.extensions.findOperator(node.operator, node.fixity);
+    if (!definition) {
+      throw new Error(`Unknown operator: ${node.operator}`);
+    }
+    
+    const operands = node.operands.map(operand => this.evaluateNode(operand));
+    return broadcast(operands, definition.evaluate);
+  }
+
+  /**
+   * Evaluate an expression modulo n, performing its arithmetic in Z/nZ. The modulus itself
+   * is evaluated with ordinary arithmetic.
+   * @param node - The modular node
+   * @returns The least non-negative residue of the value, element-wise over lists
+   */
+  private evaluateModular(node: ModularNode): ExpressionValue {
+    const value = this.evaluateModulo(node.modulus, null);
+    const modulus = fromInteger(checkModulus(value), [value]);
+    const result = this.evaluateModulo(node.body, modulus);
+    
+    return broadcast([result], element => reduceModulo(element, modulus));
+  }
+
+  /**
+   * Evaluate a node in a frame setting the modulus of its arithmetic
+   * @param node - The node
+   * @param modulus - The modulus, or null for ordinary arithmetic
+   * @returns The value of the node
+   */
+  private evaluateModulo(node: ASTNode, modulus: NumericValue | null): ExpressionValue {
+    this.callStack.push(withModulus(this.currentFrame(), modulus));
+    
+    try {
+      return this.evaluateNode(node);
+    } finally {
+      this.callStack.pop();
+    }
+  }
+
+  /**
+   * Apply a binary operator to two scalar values
+   * @param operator - The operator
+   * @param left - The left operand
+   * @param right - The right operand
+   * @returns The result of the operation
+   */
+  private applyBinaryOperator(operator: string, left: ExpressionValue, right: ExpressionValue): ExpressionValue {
+    // Values of extension types are combined by their own definitions
+    const overload = this.extensions.findOverload(operator, left, right);
+    if (overload) {
+      return overload(left, right);
+    }
+    
+    const modulus = modulusOf(this.currentFrame());
+    if (modulus !== null && MODULAR_OPERATORS.has(operator)) {
+      return applyModularOperator(operator, left, right, modulus);
+    }
+    
+    if (isQuantity(left) || isQuantity(right)) {
+      return applyQuantityOperator(operator, left, right);
+    }
+    
+    if (isNumeric(left) && isNumeric(right)) {
+      return this.applyNumericOperator(operator, left, right);
+    }
+    
+    if ((isComplex(left) || isComplex(right)) && isNumberLike(left) && isNumberLike(right)) {
+      return this.applyComplexOperator(operator, toComplex(left), toComplex(right));
+    }
+    
+    // Type narrowing for numeric operations; exact values mixed with other types become floats
+    const numericLeft = (isNumeric(left) ? toFloat(left) : left) as number;
+    const numericRight = (isNumeric(right) ? toFloat(right) : right) as number;
+    
+    switch (operator) {
       case '+': return numericLeft + numericRight;
       case '-': return numericLeft - numericRight;
       case '*': return numericLeft * numericRight;
@@ -227,11 +1320,221 @@ export class Evaluator {
       case '>': return numericLeft > numericRight;
       case '<=': return numericLeft <= numericRight;
       case '>=': return numericLeft >= numericRight;
-      case '&&': return Boolean(left) && Boolean(right);
-      case '||': return Boolean(left) || Boolean(right);
       default:
-        throw new Error(`Unknown binary operator: ${node.operator}`);
+        throw new Error(`Unknown binary operator: ${operator}`);
+    }
+  }
+
+  /**
+   * Apply a binary operator to two numbers, promoting both to the higher tower level
+   * @param operator - The operator
+   * @param left - The left operand
+   * @param right - The right operand
+   * @returns The result of the operation
+   */
+  private applyNumericOperator(operator: string, left: NumericValue, right: NumericValue): ExpressionValue {
+    switch (operator) {
+      case '+': return add(left, right);
+      case '-': return subtract(left, right);
+      case '*': return multiply(left, right);
+      case '/': return divide(left, right);
+      case '^':
+        // Fractional powers of negative numbers take the principal complex value
+        if (compare(left, 0n) < 0 && !isIntegerValued(right) && Number.isFinite(toFloat(right))) {
+          return this.applyComplexOperator(operator, toComplex(left), toComplex(right));
+        }
+        return power(left, right);
+      case '%': return modulo(left, right);
+      case '==': return equals(left, right);
+      case '!=': return !equals(left, right);
+      case '<': return compare(left, right) < 0;
+      case '>': return compare(left, right) > 0;
+      case '<=': return compare(left, right) <= 0;
+      case '>=': return compare(left, right) >= 0;
+      default:
+        throw new Error(`Unknown binary operator: ${operator}`);
+    }
+  }
+
+  /**
+   * Apply a binary operator to two complex numbers
+   * @param operator - The operator
+   * @param left - The left operand
+   * @param right - The right operand
+   * @returns The result, collapsed to a real number when its imaginary part is zero
+   */
+  private applyComplexOperator(operator: string, left: ComplexValue, right: ComplexValue): ExpressionValue {
+    switch (operator) {
+      case '+': return simplifyComplex(complexAdd(left, right));
+      case '-': return simplifyComplex(complexSubtract(left, right));
+      case '*': return simplifyComplex(complexMultiply(left, right));
+      case '/': return simplifyComplex(complexDivide(left, right));
+      case '^': return simplifyComplex(complexPow(left, right));
+      case '==': return complexEquals(left, right);
+      case '!=': return !complexEquals(left, right);
+      case '%':
+        throw new Error('Modulo is not defined for complex numbers');
+      case '<':
+      case '>':
+      case '<=':
+      case '>=':
+        throw new Error('Complex numbers cannot be ordered');
+      default:
+        throw new Error(`Unknown binary operator: ${operator}`);
+    }
+  }
+
+  /**
+   * Evaluate a conditional node, evaluating only the selected branch
+   * @param node - The conditional node
+   * @returns The value of the consequent or the alternate
+   */
+  private evaluateConditional(node: ConditionalNode): ExpressionValue {
+    const condition = this.evaluateNode(node.condition);
+    
+    return condition ? this.evaluateNode(node.consequent) : this.evaluateNode(node.alternate);
+  }
+
+  /**
+   * Evaluate a set literal, removing duplicates and ordering numeric members
+   * @param node - The set node
+   * @returns The distinct elements
+   */
+  private evaluateSet(node: SetNode): ExpressionValue[] {
+    const elements = node.elements.map(element => this.evaluateNode(element));
+    const distinct = elements.filter(
+      (element, index) => elements.findIndex(other => valuesEqual(other, element)) === index
+    );
+    
+    if (distinct.every(element => isNumeric(element))) {
+      (distinct as NumericValue[]).sort(compare);
+    }
+    
+    return distinct;
+  }
+
+  /**
+   * Evaluate a range node into the list of its values (end inclusive). Ranges with exact
+   * bounds and step produce exact values.
+   * @param node - The range node
+   * @returns The values of the range
+   */
+  private evaluateRange(node: RangeNode): NumericValue[] {
+    const start = this.evaluateNode(node.start);
+    const end = this.evaluateNode(node.end);
+    
+    if (!isNumeric(start) || !isNumeric(end)) {
+      throw new Error('Range bounds and step must be finite numbers');
+    }
+    
+    const step = node.step
+      ? this.evaluateNode(node.step)
+      : compare(end, start) >= 0 ? 1 : -1;
+    
+    if (![start, end, step].every(value => isNumeric(value) && Number.isFinite(toFloat(value)))) {
+      throw new Error('Range bounds and step must be finite numbers');
+    }
+    
+    if (isExact(start) && isExact(end) && (isExact(step) || !node.step)) {
+      return this.evaluateExactRange(start, end, isExact(step) ? step : BigInt(step as number));
+    }
+    
+    const [from, to, by] = [start, end, step as NumericValue].map(toFloat);
+    
+    if (by === 0) {
+      throw new Error('Range step cannot be zero');
+    }
+    
+    // Tolerate rounding error so that 0..1 step 0.1 includes 1
+    const count = Math.floor((to - from) / by + 1e-9) + 1;
+    
+    this.checkRangeLength(count, by, from, to);
+    
+    return Array.from({ length: count }, (_, index) => from + index * by);
+  }
+
+  /**
+   * Evaluate a range whose bounds and step are all exact
+   * @param from - The first value
+   * @param to - The last value (inclusive)
+   * @param by - The step
+   * @returns The exact values of the range
+   */
+  private evaluateExactRange(
+    from: NumericValue,
+    to: NumericValue,
+    by: NumericValue
+  ): NumericValue[] {
+    if (compare(by, 0n) === 0) {
+      throw new Error('Range step cannot be zero');
+    }
+    
+    const count = toFloat(floor(divide(subtract(to, from), by))) + 1;
+    
+    this.checkRangeLength(count, by, from, to);
+    
+    return Array.from({ length: count }, (_, index) => add(from, multiply(BigInt(index), by)));
+  }
+
+  /**
+   * Check that a range produces a sensible number of elements
+   */
+  private checkRangeLength(count: number, by: NumericValue, from: NumericValue, to: NumericValue): void {
+    if (count <= 0) {
+      throw new Error(
+        `Range step ${formatExpressionValue(by)} does not lead from ${formatExpressionValue(from)} to ${formatExpressionValue(to)}`
+      );
+    }
+    
+    if (count > MAX_RANGE_LENGTH) {
+      throw new Error(`Range is too large (${count} elements, maximum ${MAX_RANGE_LENGTH})`);
+    }
+  }
+
+  /**
+   * Evaluate a unit conversion node (5 km in m), element-wise over lists
+   * @param node - The conversion node
+   * @returns The value expressed in the target units
+   */
+  private evaluateConversion(node: ConversionNode): ExpressionValue {
+    const value = this.evaluateNode(node.value);
+    const units = this.evaluateUnits(node.unit);
+    
+    return broadcast([value], element => convertQuantity(element, units));
+  }
+
+  /**
+   * Evaluate the target of a unit conversion. Its names always refer to units, even
+   * where a variable of the same name exists.
+   * @param node - The unit expression
+   * @returns The units it describes
+   */
+  private evaluateUnits(node: ASTNode): UnitPowers {
+    if (node.type === NodeType.Variable) {
+      const { name } = node as VariableNode;
+      if (!findUnit(name)) {
+        throw new Error(`Unknown unit: ${name}`);
+      }
+      return { [name]: 1 };
+    }
+    
+    if (node.type === NodeType.BinaryOperation) {
+      const { operator, left, right } = node as BinaryOperationNode;
+      
+      if (operator === '*' || operator === '/') {
+        return combineUnits(this.evaluateUnits(left), this.evaluateUnits(right), operator === '*' ? 1 : -1);
+      }
+      
+      if (operator === '^') {
+        const exponent = this.evaluateNode(right);
+        if (!isNumeric(exponent) || !isIntegerValued(exponent)) {
+          throw new Error('Unit exponents must be integers');
+        }
+        return combineUnits({}, this.evaluateUnits(left), Number(exponent));
+      }
     }
+    
+    throw new Error(`Expected units to convert to, like m/s or kg*m^2`);
   }
 
   /**
@@ -242,12 +1545,41 @@ export class Evaluator {
   private evaluateUnaryOperation(node: UnaryOperationNode): ExpressionValue {
     const argument = this.evaluateNode(node.argument);
     
+    return broadcast([argument], value => this.applyUnaryOperator(node.operator, value));
+  }
+
+  /**
+   * Apply a unary operator to a scalar value
+   * @param operator - The operator
+   * @param value - The operand
+   * @returns The result of the operation
+   */
+  private applyUnaryOperator(operator: string, value: ExpressionValue): ExpressionValue {
+    switch (operator) {
+      case '+': return isNumberLike(value) || isQuantity(value) ? value : Number(value);
+      case '-':
+        if (isComplex(value)) return complexNegate(value);
+        if (isQuantity(value)) return negateQuantity(value);
+        return isNumeric(value) ? negate(value) : -Number(value);
+      case '!': return !value;
+      default:
+        throw new Error(`Unknown unary operator: ${operator}`);
+    }
+  }
+
+  /**
+   * Evaluate a postfix operation node
+   * @param node - The postfix operation node
+   * @returns The result of the operation
+   */
+  private evaluatePostfixOperation(node: PostfixOperationNode): ExpressionValue {
+    const argument = this.evaluateNode(node.argument);
+    
     switch (node.operator) {
-      case '+': return +(argument as number);
-      case '-': return -(argument as number);
-      case '!': return !argument;
+      case '!': return broadcast([argument], this.context.functions.factorial.implementation);
+      case '!!': return broadcast([argument], this.context.functions.doubleFactorial.implementation);
       default:
-        throw new Error(`Unknown unary operator: ${node.operator}`);
+        throw new Error(`Unknown postfix operator: ${node.operator}`);
     }
   }
 
@@ -257,31 +1589,976 @@ export class Evaluator {
    * @returns The result of the function call
    */
   private evaluateFunctionCall(node: FunctionCallNode): ExpressionValue {
-    const func = this.context.functions[node.name];
+    if (SYMBOLIC_FUNCTIONS.has(node.name)) {
+      return this.evaluateSymbolicFunction(node);
+    }
+    if (BINDER_FUNCTIONS.has(node.name)) {
+      return this.evaluateBinderFunction(node);
+    }
+    
+    const func = this.findFunction(node.name);
     
     if (!func) {
+      if (hasOwn(this.scope.functions, node.name)) {
+        const definition = this.scope.functions[node.name];
+        checkArgumentCount(definition, node.arguments.length);
+        
+        // Arguments are evaluated in the caller's frame
+        const args = node.arguments.map(arg => this.evaluateNode(arg));
+        return broadcast(args, (...values) => this.callUserFunction(definition, values));
+      }
+      
       throw new Error(`Unknown function: ${node.name}`);
     }
     
+    const arity = arityOf(func);
+    if (node.arguments.length < arity.min || node.arguments.length > arity.max) {
+      throw new Error(`Function ${node.name} expects ${describeArity(arity)} argument(s) but got ${node.arguments.length}`);
+    }
+    
     // Evaluate all arguments
     const args = node.arguments.map(arg => this.evaluateNode(arg));
     
-    // Call the function with the evaluated arguments
-    return func(...args);
+    // Call the function with the evaluated arguments, element-wise over lists unless it takes lists
+    return func.parameters.some(parameter => parameter.type === 'list')
+      ? func.implementation(...args)
+      : broadcast(args, func.implementation);
   }
 
   /**
-   * Evaluate a variable node
-   * @param node - The variable node
-   * @returns The variable value
+   * Evaluate a symbolic function (diff, simplify) on its unevaluated arguments
+   * @param node - The function call node
+   * @returns The resulting expression text, or its value when the variable of
+   *          differentiation is a parameter of the user-defined function being called
    */
-  private evaluateVariable(node: VariableNode): ExpressionValue {
-    const value = this.context.variables[node.name];
+  private evaluateSymbolicFunction(node: FunctionCallNode): ExpressionValue {
+    const [expression, variable, order] = node.arguments;
     
-    if (value === undefined) {
-      throw new Error(`Unknown variable: ${node.name}`);
+    if (node.name === 'simplify') {
+      if (node.arguments.length !== 1) {
+        throw new Error(`Function simplify expects 1 argument(s) but got ${node.arguments.length}`);
+      }
+      return printExpression(simplify(expression));
     }
     
-    return value;
+    if (node.arguments.length < 2 || node.arguments.length > 3) {
+      throw new Error(`Function diff expects 2 or 3 argument(s) but got ${node.arguments.length}`);
+    }
+    if (variable.type !== NodeType.Variable) {
+      throw new Error('The second argument of diff must be a variable');
+    }
+    
+    const count = order ? this.evaluateNode(order) : 1;
+    if (!isNumeric(count) || !isIntegerValued(count) || compare(count, 1n) < 0 || compare(count, MAX_DERIVATIVE_ORDER) > 0) {
+      throw new Error(`The order of diff must be an integer from 1 to ${MAX_DERIVATIVE_ORDER}`);
+    }
+    
+    const { name } = variable as VariableNode;
+    const derivative = differentiate(expression, name, Number(count), { functions: this.scope.functions });
+    
+    // Inside f(x) = diff(..., x) the derivative is evaluated at the argument of the call
+    if (findFrame(this.currentFrame(), name)) {
+      return this.evaluateNode(derivative);
+    }
+    
+    return printExpression(derivative);
+  }
+
+  /**
+   * Evaluate a binder function, which evaluates its body once for every value of its
+   * dummy variable: sum(k, 1, 100, k^2) or prod(p, primes(1, 50), 1 - 1/p^2).
+   * sum and prod fold the values, seq lists them, any and all stop at the first
+   * deciding value and count counts the truthy ones.
+   * @param node - The function call node
+   * @returns The combined value
+   */
+  private evaluateBinderFunction(node: FunctionCallNode): ExpressionValue {
+    const { name } = node;
+    
+    if (node.arguments.length < 3 || node.arguments.length > 4) {
+      throw new Error(`Function ${name} expects 3 or 4 argument(s) but got ${node.arguments.length}`);
+    }
+    
+    const [variable, ...rest] = node.arguments;
+    const body = rest.pop() as ASTNode;
+    
+    if (variable.type !== NodeType.Variable) {
+      throw new Error(`The first argument of ${name} must be a variable`);
+    }
+    
+    // Bounds and collections are evaluated in the caller's frame
+    const { values, count } = rest.length === 2
+      ? this.evaluateBinderBounds(name, rest[0], rest[1])
+      : this.evaluateBinderCollection(name, rest[0]);
+    
+    // The dummy variable shadows everything else, while the parameters of an enclosing
+    // user-defined function call stay visible
+    const frame = createFrame(this.currentFrame());
+    const dummy = (variable as VariableNode).name;
+    let step = 0;
+    const evaluateBody = (value: ExpressionValue): ExpressionValue => {
+      this.checkCancelled();
+      frame[dummy] = value;
+      return trackStep(step++, count, () => this.evaluateNode(body));
+    };
+    
+    this.callStack.push(frame);
+    try {
+      switch (name) {
+        case 'sum':
+        case 'prod': {
+          // Folding from the first value rather than from 0 or 1 lets quantities be summed
+          const operator = name === 'sum' ? '+' : '*';
+          let result: ExpressionValue | undefined;
+          
+          for (const value of values) {
+            const term = evaluateBody(value);
+            result = result === undefined
+              ? term
+              : broadcast([result, term], (l, r) => this.applyBinaryOperator(operator, l, r));
+          }
+          return result ?? parseNumberLiteral(name === 'sum' ? '0' : '1', this.precision);
+        }
+        
+        case 'seq':
+          return Array.from(values, evaluateBody);
+          
+        case 'any':
+        case 'all': {
+          const decisive = name === 'any';
+          
+          for (const value of values) {
+            if (Boolean(evaluateBody(value)) === decisive) {
+              return decisive;
+            }
+          }
+          return !decisive;
+        }
+        
+        default: {
+          let count = 0;
+          
+          for (const value of values) {
+            if (evaluateBody(value)) {
+              count++;
+            }
+          }
+          return count;
+        }
+      }
+    } finally {
+      this.callStack.pop();
+    }
+  }
+
+  /**
+   * Evaluate the integer bounds of a binder function
+   * @param name - The binder function name
+   * @param start - The lower bound
+   * @param end - The upper bound (inclusive)
+   * @returns The integers from the lower to the upper bound, generated on demand, and
+   * their count
+   */
+  private evaluateBinderBounds(
+    name: string,
+    start: ASTNode,
+    end: ASTNode
+  ): { values: Iterable<NumericValue>; count: number } {
+    const from = this.evaluateNode(start);
+    const to = this.evaluateNode(end);
+    
+    // Floats beyond the safe integer range would never advance when incremented
+    const isBound = (value: ExpressionValue): value is NumericValue =>
+      isNumeric(value) && isIntegerValued(value) && (typeof value !== 'number' || Number.isSafeInteger(value));
+    
+    if (!isBound(from) || !isBound(to)) {
+      throw new Error(`The bounds of ${name} must be integers`);
+    }
+    
+    // Bounds are capped like ranges, so that seq cannot build lists of any length. any and
+    // all stop at the first deciding value, so they may scan unbounded ranges.
+    const count = Math.max(0, toFloat(to) - toFloat(from) + 1);
+    if (count > MAX_RANGE_LENGTH && name !== 'any' && name !== 'all') {
+      throw new Error(`The bounds of ${name} span too many values (${count}, maximum ${MAX_RANGE_LENGTH})`);
+    }
+    
+    return {
+      values: integersBetween(from, to),
+      count
+    };
+  }
+
+  /**
+   * Evaluate the list, set or range a binder function runs over
+   * @param name - The binder function name
+   * @param collection - The collection expression
+   * @returns The elements of the collection and their count
+   */
+  private evaluateBinderCollection(
+    name: string,
+    collection: ASTNode
+  ): { values: ExpressionValue[]; count: number } {
+    const values = this.evaluateNode(collection);
+    
+    if (!Array.isArray(values)) {
+      throw new Error(`The second argument of ${name} must be a list, set or range`);
+    }
+    
+    return { values, count: values.length };
+  }
+
+  /**
+   * Call a user-defined function
+   * @param definition - The function definition from the session scope
+   * @param args - The evaluated arguments
+   * @returns The value of the function body
+   */
+  private callUserFunction(definition: FunctionDefinitionNode, args: ExpressionValue[]): ExpressionValue {
+    if (this.callDepth >= MAX_CALL_DEPTH) {
+      throw new Error(`Maximum call depth exceeded in ${definition.name}`);
+    }
+    this.checkCancelled();
+    
+    // The body sees its parameters but not the locals of the caller
+    const bindings = createFrame();
+    definition.parameters.forEach((parameter, index) => {
+      bindings[parameter] = args[index];
+    });
+    
+    this.callStack.push(bindings);
+    this.callDepth++;
+    try {
+      return this.evaluateNode(definition.body);
+    } catch (error) {
+      if (error instanceof ReturnSignal) {
+        return error.value;
+      }
+      throw error;
+    } finally {
+      this.callDepth--;
+      this.callStack.pop();
+    }
+  }
+
+  /**
+   * Evaluate an assignment node, updating the local variable of that name or otherwise
+   * storing the value in the session scope
+   * @param node - The assignment node
+   * @returns The assigned value
+   */
+  private evaluateAssignment(node: AssignmentNode): ExpressionValue {
+    const frame = findFrame(this.currentFrame(), node.name);
+    
+    if (!frame && hasOwn(this.context.variables, node.name)) {
+      throw new Error(`Cannot reassign constant: ${node.name}`);
+    }
+    
+    const value = this.evaluateNode(node.value);
+    
+    if (frame) {
+      frame[node.name] = value;
+    } else {
+      this.scope.variables[node.name] = value;
+    }
+    
+    return value;
+  }
+
+  /**
+   * Evaluate a function definition node, storing the definition in the session scope
+   * @param node - The function definition node
+   * @returns The signature of the defined function
+   */
+  private evaluateFunctionDefinition(node: FunctionDefinitionNode): ExpressionValue {
+    if (
+      this.findFunction(node.name)
+      || SYMBOLIC_FUNCTIONS.has(node.name)
+      || BINDER_FUNCTIONS.has(node.name)
+    ) {
+      throw new Error(`Cannot redefine built-in function: ${node.name}`);
+    }
+    
+    this.scope.functions[node.name] = node;
+    
+    return `${node.name}(${node.parameters.join(', ')})`;
+  }
+
+  /**
+   * Evaluate a variable node
+   * @param node - The variable node
+   * @returns The variable value
+   */
+  private evaluateVariable(node: VariableNode): ExpressionValue {
+    // Local variables and the parameters of the innermost function call shadow everything else
+    const frame = findFrame(this.currentFrame(), node.name);
+    
+    let value: ExpressionValue | undefined;
+    if (frame) {
+      value = frame[node.name];
+    } else if (hasOwn(this.scope.variables, node.name)) {
+      value = this.scope.variables[node.name];
+    } else {
+      value = this.context.variables[node.name];
+    }
+    
+    // Names that are not variables may be units (3 m, 9.81 m/s^2)
+    if (value === undefined && findUnit(node.name)) {
+      return createQuantity(parseNumberLiteral('1', this.precision), { [node.name]: 1 });
+    }
+    
+    if (value === undefined) {
+      throw new Error(`Unknown variable: ${node.name}`);
+    }
+    
+    return value;
+  }
+
+  /**
+   * Evaluate a script block in a frame of its own, so that its let declarations are local
+   * @param node - The block node
+   * @returns The value of the last statement, or null for an empty block
+   */
+  private evaluateBlock(node: BlockNode): ExpressionValue {
+    this.callStack.push(createFrame(this.currentFrame()));
+    
+    try {
+      let value: ExpressionValue = null;
+      
+      node.statements.forEach((statement, index) => {
+        try {
+          value = this.evaluateNode(statement);
+        } catch (error) {
+          // Errors are located at the innermost statement that failed
+          if (error instanceof Error && !(error instanceof StatementError)) {
+            throw new StatementError(error.message, node.locations[index]);
+          }
+          throw error;
+        }
+      });
+      
+      return value;
+    } finally {
+      this.callStack.pop();
+    }
+  }
+
+  /**
+   * Evaluate a let declaration, defining a variable in the innermost frame
+   * @param node - The let node
+   * @returns The declared value
+   */
+  private evaluateLet(node: LetNode): ExpressionValue {
+    const value = this.evaluateNode(node.value);
+    const frame = this.currentFrame();
+    
+    if (!frame) {
+      throw new Error(`let ${node.name} can only be used in a script`);
+    }
+    
+    frame[node.name] = value;
+    return value;
+  }
+
+  /**
+   * Evaluate an if statement
+   * @param node - The if node
+   * @returns The value of the branch taken, or null if no branch is taken
+   */
+  private evaluateIf(node: IfNode): ExpressionValue {
+    if (this.evaluateNode(node.condition)) {
+      return this.evaluateNode(node.consequent);
+    }
+    
+    return node.alternate ? this.evaluateNode(node.alternate) : null;
+  }
+
+  /**
+   * Evaluate a for loop, binding the loop variable to each element in turn
+   * @param node - The for node
+   * @returns The value of the last iteration, or null if there was none
+   */
+  private evaluateFor(node: ForNode): ExpressionValue {
+    const values = this.evaluateNode(node.collection);
+    
+    if (!Array.isArray(values)) {
+      throw new Error('A for loop must run over a list, set or range');
+    }
+    
+    const frame = createFrame(this.currentFrame());
+    let result: ExpressionValue = null;
+    
+    this.callStack.push(frame);
+    try {
+      for (const [index, value] of values.entries()) {
+        this.checkCancelled();
+        frame[node.variable] = value;
+        result = trackStep(index, values.length, () => this.evaluateNode(node.body));
+      }
+    } finally {
+      this.callStack.pop();
+    }
+    
+    return result;
+  }
+
+  /**
+   * Evaluate a while loop
+   * @param node - The while node
+   * @returns The value of the last iteration, or null if there was none
+   */
+  private evaluateWhile(node: WhileNode): ExpressionValue {
+    let result: ExpressionValue = null;
+    let iterations = 0;
+    
+    while (this.evaluateNode(node.condition)) {
+      if (++iterations > MAX_LOOP_ITERATIONS) {
+        throw new Error(`Loop stopped after ${MAX_LOOP_ITERATIONS} iterations`);
+      }
+      this.checkCancelled();
+      
+      result = this.evaluateNode(node.body);
+    }
+    
+    return result;
+  }
+
+  /**
+   * Compile a node, folding it into a constant when its value cannot change between calls
+   * @param node - The node
+   * @param parameters - The variables read from the argument slots
+   * @param functions - The compiled user-defined functions, by name
+   * @returns The closure computing the value of the node
+   */
+  private compileNode(node: ASTNode, parameters: string[], functions: Map<string, CompiledNode>): CompiledNode {
+    if (this.isConstant(node, parameters)) {
+      try {
+        const value = this.evaluateInFrame(node, undefined, 0);
+        return () => value;
+      } catch {
+        // Errors are left to be thrown when the expression is evaluated
+      }
+    }
+    
+    const compile = (child: ASTNode) => this.compileNode(child, parameters, functions);
+    
+    switch (node.type) {
+      case NodeType.Variable: {
+        const slot = parameters.indexOf((node as VariableNode).name);
+        return slot >= 0 ? slots => slots[slot] : () => this.evaluateVariable(node as VariableNode);
+      }
+        
+      case NodeType.BinaryOperation: {
+        const { operator, left, right } = node as BinaryOperationNode;
+        return this.compileBinaryOperation(operator, compile(left), compile(right));
+      }
+        
+      case NodeType.UnaryOperation: {
+        const { operator, argument } = node as UnaryOperationNode;
+        const compiled = compile(argument);
+        
+        return slots => {
+          const value = compiled(slots);
+          return typeof value === 'number' && operator === '-'
+            ? -value
+            : broadcast([value], element => this.applyUnaryOperator(operator, element));
+        };
+      }
+        
+      case NodeType.Conditional: {
+        const { condition, consequent, alternate } = node as ConditionalNode;
+        const [test, then, otherwise] = [condition, consequent, alternate].map(compile);
+        return slots => (test(slots) ? then(slots) : otherwise(slots));
+      }
+        
+      case NodeType.List: {
+        const elements = (node as ListNode).elements.map(compile);
+        return slots => elements.map(element => element(slots));
+      }
+        
+      case NodeType.FunctionCall: {
+        const compiled = this.compileFunctionCall(node as FunctionCallNode, compile, functions);
+        if (compiled) {
+          return compiled;
+        }
+        break;
+      }
+    }
+    
+    // Other nodes are evaluated by walking the tree, with the parameters as local variables
+    return slots => this.evaluateWithSlots(node, parameters, slots);
+  }
+
+  /**
+   * Compile a binary operation, applying operators to floats directly
+   * @param operator - The operator
+   * @param left - The compiled left operand
+   * @param right - The compiled right operand
+   * @returns The closure computing the result of the operation
+   */
+  private compileBinaryOperation(operator: string, left: CompiledNode, right: CompiledNode): CompiledNode {
+    // Logical operators short-circuit so the right operand may be left unevaluated
+    if (operator === '&&') {
+      return slots => Boolean(left(slots) && right(slots));
+    }
+    if (operator === '||') {
+      return slots => Boolean(left(slots) || right(slots));
+    }
+    
+    const float = FLOAT_OPERATORS[operator];
+    
+    return slots => {
+      const a = left(slots);
+      const b = right(slots);
+      
+      // Value types added by extensions may overload operators on numbers
+      if (float && typeof a === 'number' && typeof b === 'number' && this.extensions.getValueTypes().length === 0) {
+        return float(a, b);
+      }
+      return broadcast([a, b], (l, r) => this.applyBinaryOperator(operator, l, r));
+    };
+  }
+
+  /**
+   * Compile a call to a function of the context or to a user-defined function
+   * @param node - The function call node
+   * @param compile - Compiles the arguments
+   * @param functions - The compiled user-defined functions, by name
+   * @returns The closure computing the result of the call, or null for calls that are
+   *          evaluated by walking the tree, such as those of binder and symbolic functions
+   */
+  private compileFunctionCall(
+    node: FunctionCallNode,
+    compile: (node: ASTNode) => CompiledNode,
+    functions: Map<string, CompiledNode>
+  ): CompiledNode | null {
+    const { name } = node;
+    const func = this.findFunction(name);
+    
+    if (SYMBOLIC_FUNCTIONS.has(name) || BINDER_FUNCTIONS.has(name)) {
+      return null;
+    }
+    
+    if (func) {
+      const arity = arityOf(func);
+      if (node.arguments.length < arity.min || node.arguments.length > arity.max) {
+        return null;
+      }
+      
+      const args = node.arguments.map(compile);
+      const takesLists = func.parameters.some(parameter => parameter.type === 'list');
+      
+      if (args.length === 1 && !takesLists) {
+        const [arg] = args;
+        return slots => {
+          const value = arg(slots);
+          return Array.isArray(value) ? broadcast([value], func.implementation) : func.implementation(value);
+        };
+      }
+      
+      return slots => {
+        const values = args.map(arg => arg(slots));
+        return takesLists || !values.some(Array.isArray)
+          ? func.implementation(...values)
+          : broadcast(values, func.implementation);
+      };
+    }
+    
+    if (!hasOwn(this.scope.functions, name) || this.scope.functions[name].parameters.length !== node.arguments.length) {
+      return null;
+    }
+    
+    // Functions are compiled once, before their bodies, so that recursive calls find them
+    if (!functions.has(name)) {
+      const definition = this.scope.functions[name];
+      let body: CompiledNode = () => null;
+      
+      functions.set(name, slots => this.callCompiledFunction(name, body, slots));
+      body = this.compileNode(definition.body, definition.parameters, functions);
+    }
+    
+    const call = functions.get(name)!;
+    const args = node.arguments.map(compile);
+    
+    return slots => broadcast(args.map(arg => arg(slots)), (...values) => call(values));
+  }
+
+  /**
+   * Call a compiled user-defined function
+   * @param name - The function name
+   * @param body - The compiled body, reading the parameters from the argument slots
+   * @param args - The arguments
+   * @returns The value of the body
+   */
+  private callCompiledFunction(name: string, body: CompiledNode, args: ExpressionValue[]): ExpressionValue {
+    if (this.callDepth >= MAX_CALL_DEPTH) {
+      throw new Error(`Maximum call depth exceeded in ${name}`);
+    }
+    
+    this.callDepth++;
+    try {
+      return body(args);
+    } catch (error) {
+      if (error instanceof ReturnSignal) {
+        return error.value;
+      }
+      throw error;
+    } finally {
+      this.callDepth--;
+    }
+  }
+
+  /**
+   * Check whether the value of a node is the same whenever a compiled expression is
+   * evaluated: it reads no parameters or session variables, calls no user-defined or
+   * asynchronous functions and assigns nothing
+   * @param node - The node
+   * @param parameters - The variables read from the argument slots
+   */
+  private isConstant(node: ASTNode, parameters: string[]): boolean {
+    switch (node.type) {
+      case NodeType.Variable: {
+        const { name } = node as VariableNode;
+        if (parameters.includes(name) || hasOwn(this.scope.variables, name)) {
+          return false;
+        }
+        break;
+      }
+        
+      case NodeType.FunctionCall: {
+        const { name } = node as FunctionCallNode;
+        const func = this.findFunction(name);
+        
+        // Derivatives are evaluated at parameters they are taken by
+        if (!(func && !func.async) && !BINDER_FUNCTIONS.has(name)) {
+          return false;
+        }
+        break;
+      }
+        
+      case NodeType.Assignment:
+      case NodeType.FunctionDefinition:
+      case NodeType.Block:
+      case NodeType.Let:
+      case NodeType.If:
+      case NodeType.For:
+      case NodeType.While:
+      case NodeType.Return:
+        return false;
+    }
+    
+    return evaluatedChildren(node).every(child => this.isConstant(child, parameters));
+  }
+
+  /**
+   * Evaluate a node of a compiled expression by walking the tree
+   * @param node - The node
+   * @param parameters - The variables read from the argument slots
+   * @param slots - The arguments
+   * @returns The value of the node
+   */
+  private evaluateWithSlots(node: ASTNode, parameters: string[], slots: ExpressionValue[]): ExpressionValue {
+    const frame = createFrame();
+    parameters.forEach((parameter, index) => {
+      frame[parameter] = slots[index];
+    });
+    
+    const callStack = this.callStack;
+    try {
+      return this.evaluateInFrame(node, frame, this.callDepth);
+    } finally {
+      this.callStack = callStack;
+    }
+  }
+
+  /**
+   * Evaluate a node asynchronously: the children it depends on are awaited, concurrently
+   * where they are independent, before the node itself is evaluated on their values
+   * @param node - The node to evaluate
+   * @param frame - The local variables visible to the node, if any
+   * @param depth - The number of user-defined function calls in progress
+   * @param cancelToken - The cancel token of the evaluation, if any
+   * @returns The settled value
+   */
+  private async resolveNode(
+    node: ASTNode,
+    frame: Frame | undefined,
+    depth: number,
+    cancelToken?: CancellationSignal
+  ): Promise<ExpressionValue> {
+    if (cancelToken?.isCancelled) {
+      throw cancellationError(cancelToken);
+    }
+    
+    // Evaluate the node once its awaited children have been replaced by their values
+    const evaluateWith = <T extends ASTNode>(resolved: T): Promise<ExpressionValue> =>
+      this.settle(this.evaluateInFrame(resolved, frame, depth), cancelToken);
+    const resolve = (child: ASTNode) => this.resolveNode(child, frame, depth, cancelToken);
+    const resolveAll = async (children: ASTNode[]) => (await Promise.all(children.map(resolve))).map(valueNode);
+    
+    if (!this.awaits(node)) {
+      return evaluateWith(node);
+    }
+    
+    switch (node.type) {
+      case NodeType.BinaryOperation: {
+        const operation = node as BinaryOperationNode;
+        
+        // Logical operators short-circuit so the right operand may be left unevaluated
+        if (operation.operator === '&&' || operation.operator === '||') {
+          const left = await resolve(operation.left);
+          if (operation.operator === '&&' ? !left : left) {
+            return Boolean(left);
+          }
+          return Boolean(await resolve(operation.right));
+        }
+        
+        // Exponents are ordinary integers rather than residues
+        const exponentFrame = operation.operator === '^' && modulusOf(frame) !== null ? withModulus(frame, null) : frame;
+        const [left, right] = (await Promise.all([
+          resolve(operation.left),
+          this.resolveNode(operation.right, exponentFrame, depth, cancelToken)
+        ])).map(valueNode);
+        return evaluateWith({ ...operation, left, right });
+      }
+      
+      case NodeType.UnaryOperation:
+      case NodeType.PostfixOperation: {
+        const operation = node as UnaryOperationNode | PostfixOperationNode;
+        const [argument] = await resolveAll([operation.argument]);
+        return evaluateWith({ ...operation, argument });
+      }
+      
+      case NodeType.FunctionCall:
+        return this.resolveFunctionCall(node as FunctionCallNode, frame, depth, cancelToken);
+        
+      case NodeType.Conditional: {
+        const { condition, consequent, alternate } = node as ConditionalNode;
+        return resolve((await resolve(condition)) ? consequent : alternate);
+      }
+      
+      case NodeType.List:
+      case NodeType.Set: {
+        const collection = node as ListNode | SetNode;
+        return evaluateWith({ ...collection, elements: await resolveAll(collection.elements) });
+      }
+      
+      case NodeType.Range: {
+        const range = node as RangeNode;
+        const [start, end, step] = await resolveAll(evaluatedChildren(range));
+        return evaluateWith({ ...range, start, end, step });
+      }
+      
+      case NodeType.Conversion:
+      case NodeType.Assignment: {
+        const target = node as ConversionNode | AssignmentNode;
+        const [value] = await resolveAll([target.value]);
+        return evaluateWith({ ...target, value });
+      }
+      
+      case NodeType.CustomOperation: {
+        const operation = node as CustomOperationNode;
+        return evaluateWith({ ...operation, operands: await resolveAll(operation.operands) });
+      }
+      
+      case NodeType.Modular: {
+        const { modulus: modulusNode, body } = node as ModularNode;
+        const value = await this.resolveNode(modulusNode, withModulus(frame, null), depth, cancelToken);
+        const modulus = fromInteger(checkModulus(value), [value]);
+        const result = await this.resolveNode(body, withModulus(frame, modulus), depth, cancelToken);
+        return broadcast([result], element => reduceModulo(element, modulus));
+      }
+      
+      default:
+        return evaluateWith(node);
+    }
+  }
+
+  /**
+   * Evaluate a function call asynchronously. The arguments are awaited concurrently, and
+   * user-defined functions whose bodies call asynchronous functions are evaluated
+   * asynchronously for every element of list arguments.
+   * @param node - The function call node
+   * @param frame - The local variables of the caller, if any
+   * @param depth - The number of user-defined function calls in progress
+   * @param cancelToken - The cancel token of the evaluation, if any
+   * @returns The settled result of the call
+   */
+  private async resolveFunctionCall(
+    node: FunctionCallNode,
+    frame: Frame | undefined,
+    depth: number,
+    cancelToken?: CancellationSignal
+  ): Promise<ExpressionValue> {
+    if (BINDER_FUNCTIONS.has(node.name)) {
+      return this.resolveBinderFunction(node, frame, depth, cancelToken);
+    }
+    
+    const definition = !this.findFunction(node.name) && hasOwn(this.scope.functions, node.name)
+      ? this.scope.functions[node.name]
+      : undefined;
+    if (definition) {
+      checkArgumentCount(definition, node.arguments.length);
+    }
+    
+    const args = await Promise.all(node.arguments.map(arg => this.resolveNode(arg, frame, depth, cancelToken)));
+    
+    // Function bodies that are script blocks or only call synchronous functions are
+    // evaluated synchronously, like the functions of the context
+    if (!definition || definition.body.type === NodeType.Block || !this.awaits(definition.body)) {
+      const call: FunctionCallNode = { ...node, arguments: args.map(valueNode) };
+      return this.settle(this.evaluateInFrame(call, frame, depth), cancelToken);
+    }
+    
+    return this.settle(
+      broadcast(args, (...values) => this.resolveUserFunction(definition, values, depth, cancelToken)),
+      cancelToken
+    );
+  }
+
+  /**
+   * Call a user-defined function whose body calls asynchronous functions
+   * @param definition - The function definition from the session scope
+   * @param args - The settled arguments
+   * @param depth - The number of user-defined function calls in progress
+   * @param cancelToken - The cancel token of the evaluation, if any
+   * @returns The settled value of the function body
+   */
+  private async resolveUserFunction(
+    definition: FunctionDefinitionNode,
+    args: ExpressionValue[],
+    depth: number,
+    cancelToken?: CancellationSignal
+  ): Promise<ExpressionValue> {
+    if (depth >= MAX_CALL_DEPTH) {
+      throw new Error(`Maximum call depth exceeded in ${definition.name}`);
+    }
+    
+    // The body sees its parameters but not the locals of the caller
+    const bindings = createFrame();
+    definition.parameters.forEach((parameter, index) => {
+      bindings[parameter] = args[index];
+    });
+    
+    return this.resolveNode(definition.body, bindings, depth + 1, cancelToken);
+  }
+
+  /**
+   * Evaluate a binder function asynchronously. The body is evaluated concurrently for
+   * every value of the dummy variable, except by any and all, which evaluate one value
+   * at a time to stop at the first deciding one.
+   * @param node - The function call node
+   * @param frame - The local variables of the caller, if any
+   * @param depth - The number of user-defined function calls in progress
+   * @param cancelToken - The cancel token of the evaluation, if any
+   * @returns The combined value
+   */
+  private async resolveBinderFunction(
+    node: FunctionCallNode,
+    frame: Frame | undefined,
+    depth: number,
+    cancelToken?: CancellationSignal
+  ): Promise<ExpressionValue> {
+    const { name } = node;
+    const [variable, ...rest] = node.arguments;
+    
+    // Malformed calls fail as they do when evaluated synchronously
+    if (node.arguments.length < 3 || node.arguments.length > 4 || variable.type !== NodeType.Variable) {
+      return this.evaluateInFrame(node, frame, depth);
+    }
+    
+    const body = rest.pop() as ASTNode;
+    const bounds = (await Promise.all(rest.map(arg => this.resolveNode(arg, frame, depth, cancelToken)))).map(valueNode);
+    const values = bounds.length === 2
+      ? Array.from(this.evaluateBinderBounds(name, bounds[0], bounds[1]).values)
+      : this.evaluateBinderCollection(name, bounds[0]).values;
+    
+    const resolveBody = (value: ExpressionValue): Promise<ExpressionValue> => {
+      const bindings = createFrame(frame);
+      bindings[(variable as VariableNode).name] = value;
+      return this.resolveNode(body, bindings, depth, cancelToken);
+    };
+    
+    if (name === 'any' || name === 'all') {
+      const decisive = name === 'any';
+      
+      for (const value of values) {
+        if (Boolean(await resolveBody(value)) === decisive) {
+          return decisive;
+        }
+      }
+      return !decisive;
+    }
+    
+    const terms = await Promise.all(values.map(resolveBody));
+    if (name === 'seq') {
+      return terms;
+    }
+    
+    // sum, prod and count combine the terms as they would when running over the list of them
+    const combined: FunctionCallNode = { ...node, arguments: [variable, valueNode(terms), variable] };
+    return this.evaluateInFrame(combined, undefined, depth);
+  }
+
+  /**
+   * Check whether evaluating a node calls an asynchronous function, directly or through
+   * the user-defined functions it calls
+   * @param node - The node
+   * @param visited - The user-defined functions already checked, which recursive calls skip
+   */
+  private awaits(node: ASTNode, visited = new Set<string>()): boolean {
+    if (node.type === NodeType.FunctionCall) {
+      const { name } = node as FunctionCallNode;
+      const func = this.findFunction(name);
+      
+      if (func?.async) {
+        return true;
+      }
+      if (!func && hasOwn(this.scope.functions, name) && !visited.has(name)) {
+        visited.add(name);
+        if (this.awaits(this.scope.functions[name].body, visited)) {
+          return true;
+        }
+      }
+    }
+    
+    return evaluatedChildren(node).some(child => this.awaits(child, visited));
+  }
+
+  /**
+   * Evaluate a node synchronously in a frame of local variables
+   * @param node - The node to evaluate
+   * @param frame - The local variables visible to the node, if any
+   * @param depth - The number of user-defined function calls in progress
+   * @returns The value, which may hold promises returned by asynchronous functions
+   */
+  private evaluateInFrame(node: ASTNode, frame: Frame | undefined, depth: number): ExpressionValue {
+    this.callStack = frame ? [frame] : [];
+    this.callDepth = depth;
+    
+    return this.evaluateNode(node);
+  }
+
+  /**
+   * Wait for the promises in a value to settle, including those in the elements of lists
+   * @param value - The value
+   * @param cancelToken - The cancel token of the evaluation, if any
+   * @returns The value with every promise replaced by its result
+   */
+  private async settle(value: ExpressionValue, cancelToken?: CancellationSignal): Promise<ExpressionValue> {
+    if (isPromiseLike(value)) {
+      return this.settle(await whenSettled(value, cancelToken), cancelToken);
+    }
+    if (isPending(value)) {
+      return Promise.all((value as ExpressionValue[]).map(element => this.settle(element, cancelToken)));
+    }
+    return value;
+  }
+
+  /**
+   * Get the innermost frame of local variables
+   * @returns The frame, or undefined outside of function calls, binders and scripts
+   */
+  private currentFrame(): Frame | undefined {
+    return this.callStack[this.callStack.length - 1];
   }
 }
\ No newline at end of file
@@ -0,0 +1,306 @@
+/**
+ * Extensions of the expression language
+ *
+ * Plugins add operators, literal syntaxes, value types and functions through the registry
+ * of an engine, which its tokenizer, parser, evaluator and formatter consult: literals and
+ * operator symbols are read before the built-in tokens, operators are parsed at their
+ * precedence, values of extension types are combined and formatted by their own
+ * definitions, and functions are called like the built-in ones, which they cannot replace.
+ */
+
+import {
+  ExpressionExtension,
+  ExpressionValue,
+  LiteralDefinition,
+  OperatorDefinition,
+  OperatorFixity,
+  RegisteredFunction,
+  ValueTypeDefinition
+} from './types';
+import { PRECEDENCE, PRIMARY_PRECEDENCE } from './printer';
+
+/**
+ * Operators of the built-in grammar, which extensions cannot redefine
+ */
+const BUILT_IN_OPERATORS = new Set([
+  '+', '-', '*', '/', '^', '%', '=', '!', '<', '>', '&', '|', '?', ':',
+  '<=', '>=', '==', '!=', '!!', '&&', '||', '..'
+]);
+
+/**
+ * Word operators of the built-in grammar, which are read like the word operators of
+ * extensions: mod, as in a^b mod n and mod(n) { ... }. Extensions may add them as prefix
+ * operators, as in a ≡ b (mod n), since the grammar only reads them after an operand or
+ * before a block.
+ */
+const BUILT_IN_WORD_OPERATORS = new Set(['mod']);
+
+/**
+ * Words with a meaning of their own in expressions and scripts
+ */
+const RESERVED_WORDS = new Set(['in', 'to', 'step', 'base', 'let', 'if', 'else', 'for', 'while', 'return']);
+
+/**
+ * Operator symbols: a word, or a run of characters that are not letters, digits, spaces,
+ * brackets, commas or dots
+ */
+const WORD_OPERATOR = /^[a-zA-Z_]\w*$/;
+const SYMBOL_OPERATOR = /^[^\w\s()[\]{},.#]+$/;
+
+/**
+ * A literal definition with its pattern compiled to match at a given position
+ */
+interface CompiledLiteral {
+  definition: LiteralDefinition;
+  pattern: RegExp;
+}
+
+/**
+ * Literal read from the input
+ */
+export interface LiteralMatch {
+  name: string;
+  text: string;
+}
+
+/**
+ * Operators, literal syntaxes, value types and functions registered by plugins, by plugin name
+ */
+export class ExtensionRegistry {
+  private extensions = new Map<string, ExpressionExtension>();
+  private operators: OperatorDefinition[] = [];
+  private literals: CompiledLiteral[] = [];
+  private valueTypes: ValueTypeDefinition[] = [];
+  private functions = new Map<string, RegisteredFunction>();
+
+  /**
+   * Register an extension, replacing the one registered before under the same name
+   * @param name - The name of the plugin adding the extension
+   * @param extension - The operators, literals, value types and functions it adds
+   * @throws Error if an operator symbol is invalid or already taken, a precedence is out of
+   *         range, or a name is already registered by another extension
+   */
+  public register(name: string, extension: ExpressionExtension): void {
+    const others = [...this.extensions].filter(([other]) => other !== name).map(([, other]) => other);
+
+    const operators = others.flatMap(other => other.operators ?? []);
+    for (const operator of extension.operators ?? []) {
+      this.checkOperator(operator, operators);
+      operators.push(operator);
+    }
+    for (const literal of extension.literals ?? []) {
+      if (others.some(other => other.literals?.some(existing => existing.name === literal.name))) {
+        throw new Error(`Literal ${literal.name} is already defined`);
+      }
+    }
+    for (const valueType of extension.valueTypes ?? []) {
+      if (others.some(other => other.valueTypes?.some(existing => existing.name === valueType.name))) {
+        throw new Error(`Value type ${valueType.name} is already defined`);
+      }
+    }
+    const functions = new Set(others.flatMap(other => Object.keys(other.functions ?? {})));
+    for (const functionName of Object.keys(extension.functions ?? {})) {
+      if (functions.has(functionName)) {
+        throw new Error(`Function ${functionName} is already defined`);
+      }
+    }
+
+    this.extensions.set(name, extension);
+    this.update();
+  }
+
+  /**
+   * Remove an extension
+   * @param name - The name it was registered under
+   * @returns Whether an extension was registered under the name
+   */
+  public unregister(name: string): boolean {
+    const removed = this.extensions.delete(name);
+    this.update();
+    return removed;
+  }
+
+  /**
+   * Get the names of the registered extensions
+   */
+  public getNames(): string[] {
+    return [...this.extensions.keys()];
+  }
+
+  /**
+   * Find the operator with a symbol and fixity
+   * @param symbol - The operator symbol
+   * @param fixity - Whether the operator is infix, prefix or postfix
+   * @returns The operator definition, if one is registered
+   */
+  public findOperator(symbol: string, fixity: OperatorFixity): OperatorDefinition | undefined {
+    return this.operators.find(operator => operator.symbol === symbol && operator.fixity === fixity);
+  }
+
+  /**
+   * Check whether a symbol is an operator of any fixity
+   */
+  public isOperator(symbol: string): boolean {
+    return this.operators.some(operator => operator.symbol === symbol);
+  }
+
+  /**
+   * Check whether a word is an operator of the grammar or of an extension, rather than a name
+   */
+  public isWordOperator(word: string): boolean {
+    return BUILT_IN_WORD_OPERATORS.has(word) || this.isOperator(word);
+  }
+
+  /**
+   * Get the distinct precedences of the operators from one built-in level up to the next
+   * @param from - The lowest precedence (inclusive)
+   * @param to - The highest precedence (exclusive)
+   * @returns The precedences in increasing order
+   */
+  public getPrecedences(from: number, to: number): number[] {
+    const precedences = this.operators
+      .map(operator => operator.precedence)
+      .filter(precedence => precedence >= from && precedence < to);
+
+    return [...new Set(precedences)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Read the longest operator symbol made of punctuation at a position of the input. Word
+   * operators are read as identifiers.
+   * @param input - The input
+   * @param position - The position to read at
+   * @returns The symbol, or undefined if none starts at the position
+   */
+  public readOperatorSymbol(input: string, position: number): string | undefined {
+    let longest: string | undefined;
+
+    for (const { symbol } of this.operators) {
+      if (!WORD_OPERATOR.test(symbol) && input.startsWith(symbol, position) && symbol.length > (longest?.length ?? 0)) {
+        longest = symbol;
+      }
+    }
+
+    return longest;
+  }
+
+  /**
+   * Read a literal at a position of the input, trying the literals in the order registered
+   * @param input - The input
+   * @param position - The position to read at
+   * @returns The name of the literal definition and the text read, or null if none matches
+   */
+  public readLiteral(input: string, position: number): LiteralMatch | null {
+    for (const { definition, pattern } of this.literals) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(input);
+
+      if (match && match[0].length > 0) {
+        return { name: definition.name, text: match[0] };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the value of a literal
+   * @param name - The name of the literal definition
+   * @param text - The literal text
+   * @returns The value parsed by the definition
+   */
+  public parseLiteral(name: string, text: string): ExpressionValue {
+    const literal = this.literals.find(({ definition }) => definition.name === name);
+
+    if (!literal) {
+      throw new Error(`Unknown literal: ${text}`);
+    }
+    return literal.definition.parse(text);
+  }
+
+  /**
+   * Get the registered value types
+   */
+  public getValueTypes(): ValueTypeDefinition[] {
+    return this.valueTypes;
+  }
+
+  /**
+   * Find a function added by an extension
+   * @param name - The function name
+   * @returns The function, if one is registered
+   */
+  public findFunction(name: string): RegisteredFunction | undefined {
+    return this.functions.get(name);
+  }
+
+  /**
+   * Get the functions added by extensions, by name
+   */
+  public getFunctions(): ReadonlyMap<string, RegisteredFunction> {
+    return this.functions;
+  }
+
+  /**
+   * Find the overload of a built-in binary operator for the types of its operands
+   * @param operator - The operator
+   * @param left - The left operand
+   * @param right - The right operand
+   * @returns The overload of the first value type of either operand that defines one
+   */
+  public findOverload(
+    operator: string,
+    left: ExpressionValue,
+    right: ExpressionValue
+  ): ((left: ExpressionValue, right: ExpressionValue) => ExpressionValue) | undefined {
+    for (const valueType of this.valueTypes) {
+      const overload = valueType.operators?.[operator];
+      if (overload && (valueType.is(left) || valueType.is(right))) {
+        return overload;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check an operator definition against the grammar and the operators of other extensions
+   * @param operator - The operator definition
+   * @param others - The operators defined before it
+   */
+  private checkOperator(operator: OperatorDefinition, others: OperatorDefinition[]): void {
+    const { symbol, fixity, precedence } = operator;
+
+    if (!WORD_OPERATOR.test(symbol) && !SYMBOL_OPERATOR.test(symbol)) {
+      throw new Error(`Invalid operator symbol: '${symbol}'`);
+    }
+    if (
+      BUILT_IN_OPERATORS.has(symbol)
+      || (BUILT_IN_WORD_OPERATORS.has(symbol) && fixity !== 'prefix')
+      || RESERVED_WORDS.has(symbol)
+    ) {
+      throw new Error(`Cannot redefine the built-in operator ${symbol}`);
+    }
+    if (!(precedence >= PRECEDENCE.conversion && precedence < PRIMARY_PRECEDENCE)) {
+      throw new Error(`The precedence of ${symbol} must be from ${PRECEDENCE.conversion} to below ${PRIMARY_PRECEDENCE}`);
+    }
+    if (others.some(other => other.symbol === symbol && other.fixity === fixity)) {
+      throw new Error(`The ${fixity} operator ${symbol} is already defined`);
+    }
+  }
+
+  /**
+   * Collect the definitions of all extensions, compiling the literal patterns
+   */
+  private update(): void {
+    const extensions = [...this.extensions.values()];
+
+    this.operators = extensions.flatMap(extension => extension.operators ?? []);
+    this.valueTypes = extensions.flatMap(extension => extension.valueTypes ?? []);
+    this.functions = new Map(extensions.flatMap(extension => Object.entries(extension.functions ?? {})));
+    this.literals = extensions.flatMap(extension => extension.literals ?? []).map(definition => ({
+      definition,
+      pattern: new RegExp(definition.pattern.source, definition.pattern.flags.replace(/[gy]/g, '') + 'y')
+    }));
+  }
+}
@@ -0,0 +1,312 @@
+import { ExpressionValue, StoredValue, ValueFormatOptions, ValueTypeDefinition } from './types';
+import {
+  NumericValue,
+  isNumeric,
+  isRational,
+  toFloat,
+  createRational,
+  approximateFraction
+} from './numeric';
+import { ComplexValue, isComplex, createComplex, complexAbs, complexArg } from './complex';
+import { isQuantity, formatUnits } from './units';
+
+/**
+ * Relative error below which a float is displayed as the fraction approximating it
+ */
+const FRACTION_TOLERANCE = 1e-15;
+
+/**
+ * Format an expression value for display
+ * @param value - The value to format
+ * @param options - Optional display settings; without them numbers are shown in full
+ * @param valueTypes - Value types added by extensions, which format their own values
+ * @returns The display text
+ */
+export function formatExpressionValue(
+  value: ExpressionValue,
+  options?: ValueFormatOptions,
+  valueTypes: ValueTypeDefinition[] = []
+): string {
+  const valueType = valueTypes.find(type => type.is(value));
+  if (valueType) {
+    return valueType.format(value, options);
+  }
+  
+  if (Array.isArray(value)) {
+    return `[${value.map(element => formatExpressionValue(element, options, valueTypes)).join(', ')}]`;
+  }
+  
+  if (options && isNumeric(value)) {
+    return formatNumber(value, options);
+  }
+  
+  if (isComplex(value)) {
+    return formatComplex(value, options);
+  }
+  
+  if (isQuantity(value)) {
+    return `${formatExpressionValue(value.value, options)} ${formatUnits(value.units)}`;
+  }
+  
+  if (isRational(value)) {
+    return `${value.numerator}/${value.denominator}`;
+  }
+  
+  return String(value);
+}
+
+/**
+ * Format a number according to the display settings
+ * @param value - The number to format
+ * @param options - The display settings
+ * @returns The display text
+ */
+export function formatNumber(value: NumericValue, options: ValueFormatOptions): string {
+  switch (options.numberFormat) {
+    case 'fraction':
+      return formatFraction(value, options);
+    case 'scientific':
+      return formatExponential(value, options, 1);
+    case 'engineering':
+      return formatExponential(value, options, 3);
+    default:
+      return formatDecimal(value, options);
+  }
+}
+
+/**
+ * Format a complex number in rectangular (a + bi) or polar (r∠θ) form
+ * @param value - The complex number
+ * @param options - Optional display settings; the form defaults to rectangular
+ * @returns The display text
+ */
+export function formatComplex(value: ComplexValue, options?: ValueFormatOptions): string {
+  const format = (x: number): string => (options ? formatNumber(x, options) : String(x));
+  
+  if (options?.complexFormat === 'polar') {
+    return `${format(complexAbs(value))}∠${format(complexArg(value))}`;
+  }
+  
+  const imaginary = (x: number): string => (x === 1 ? 'i' : x === -1 ? '-i' : `${format(x)}i`);
+  
+  if (value.re === 0) {
+    return imaginary(value.im);
+  }
+  
+  const sign = value.im < 0 ? '-' : '+';
+  return `${format(value.re)} ${sign} ${imaginary(Math.abs(value.im))}`;
+}
+
+/**
+ * Keep a value for a stored result. Numbers keep their exact form, so that they can be
+ * formatted again when the display settings change, and everything else, such as symbolic
+ * results, base literals and values of extension types, keeps its display text.
+ * @param value - The value to store
+ * @param valueTypes - Value types added by extensions, which format their own values
+ * @returns The value as plain data
+ */
+export function toStoredValue(value: ExpressionValue, valueTypes: ValueTypeDefinition[] = []): StoredValue {
+  if (valueTypes.some(type => type.is(value))) {
+    return { kind: 'text', text: formatExpressionValue(value, undefined, valueTypes) };
+  }
+  
+  if (Array.isArray(value)) {
+    return { kind: 'list', elements: value.map(element => toStoredValue(element, valueTypes)) };
+  }
+  
+  if (typeof value === 'number') {
+    return { kind: 'number', value };
+  }
+  
+  if (typeof value === 'bigint') {
+    return { kind: 'integer', digits: value.toString() };
+  }
+  
+  if (isRational(value)) {
+    return { kind: 'rational', numerator: value.numerator.toString(), denominator: value.denominator.toString() };
+  }
+  
+  if (isComplex(value)) {
+    return { kind: 'complex', re: value.re, im: value.im };
+  }
+  
+  if (isQuantity(value)) {
+    return { kind: 'quantity', value: toStoredValue(value.value, valueTypes), units: formatUnits(value.units) };
+  }
+  
+  return { kind: 'text', text: formatExpressionValue(value, undefined, valueTypes) };
+}
+
+/**
+ * Format a stored result according to the display settings
+ * @param stored - The stored value
+ * @param options - The display settings
+ * @returns The display text
+ */
+export function formatStoredValue(stored: StoredValue, options: ValueFormatOptions): string {
+  switch (stored.kind) {
+    case 'number':
+      return formatNumber(stored.value, options);
+    case 'integer':
+      return formatNumber(BigInt(stored.digits), options);
+    case 'rational':
+      return formatNumber(createRational(BigInt(stored.numerator), BigInt(stored.denominator)), options);
+    case 'complex':
+      return formatComplex(createComplex(stored.re, stored.im), options);
+    case 'quantity':
+      return `${formatStoredValue(stored.value, options)} ${stored.units}`;
+    case 'list':
+      return `[${stored.elements.map(element => formatStoredValue(element, options)).join(', ')}]`;
+    default:
+      return stored.text;
+  }
+}
+
+/**
+ * Format a number in positional notation
+ */
+function formatDecimal(value: NumericValue, options: ValueFormatOptions): string {
+  if (typeof value === 'bigint') {
+    return groupDigits(value.toString(), options.useGrouping);
+  }
+  
+  const x = toFloat(value);
+  const decimalPlaces = clampDecimalPlaces(options.decimalPlaces);
+  
+  if (!Number.isFinite(x)) {
+    return String(x);
+  }
+  
+  // Numbers too large or too small for the requested places switch to scientific notation
+  if (x !== 0 && (Math.abs(x) >= 1e21 || Math.abs(x) < Math.pow(10, -decimalPlaces))) {
+    return formatExponential(x, options, 1);
+  }
+  
+  const [integerPart, fractionPart = ''] = x.toFixed(decimalPlaces).split('.');
+  const trimmed = fractionPart.replace(/0+$/, '');
+  const integerText = groupDigits(integerPart, options.useGrouping);
+  
+  return trimmed ? `${integerText}.${trimmed}` : integerText;
+}
+
+/**
+ * Format a number as mantissa and exponent, with the exponent a multiple of the given step
+ * (1 for scientific notation, 3 for engineering notation)
+ */
+function formatExponential(value: NumericValue, options: ValueFormatOptions, step: number): string {
+  const decimalPlaces = clampDecimalPlaces(options.decimalPlaces);
+  
+  if (typeof value === 'bigint' && (value > BigInt(Number.MAX_SAFE_INTEGER) || value < -BigInt(Number.MAX_SAFE_INTEGER))) {
+    return formatExactExponential(value, decimalPlaces, step);
+  }
+  
+  const x = toFloat(value);
+  if (!Number.isFinite(x)) {
+    return String(x);
+  }
+  if (x === 0) {
+    return '0e0';
+  }
+  
+  const exponent = Math.floor(Math.log10(Math.abs(x)));
+  let scaledExponent = Math.floor(exponent / step) * step;
+  let mantissa = Number((x / Math.pow(10, scaledExponent)).toFixed(decimalPlaces));
+  
+  // Rounding may carry the mantissa into the next power of the step
+  if (Math.abs(mantissa) >= Math.pow(10, step)) {
+    mantissa = Number((mantissa / Math.pow(10, step)).toFixed(decimalPlaces));
+    scaledExponent += step;
+  } else if (Math.abs(mantissa) < 1) {
+    mantissa = Number((mantissa * Math.pow(10, step)).toFixed(decimalPlaces));
+    scaledExponent -= step;
+  }
+  
+  return `${trimZeros(mantissa.toFixed(decimalPlaces))}e${scaledExponent}`;
+}
+
+/**
+ * Format a large integer as mantissa and exponent without converting it to a float
+ */
+function formatExactExponential(value: bigint, decimalPlaces: number, step: number): string {
+  const sign = value < 0n ? '-' : '';
+  let digits = (value < 0n ? -value : value).toString();
+  let exponent = digits.length - 1;
+  
+  // Round to the number of significant digits the mantissa can show
+  const significant = (exponent % step) + 1 + decimalPlaces;
+  if (digits.length > significant) {
+    const divisor = 10n ** BigInt(digits.length - significant);
+    const rounded = (BigInt(digits) + divisor / 2n) / divisor;
+    digits = rounded.toString();
+    
+    if (digits.length > significant) {
+      exponent++;
+    }
+  }
+  
+  const scaledExponent = Math.floor(exponent / step) * step;
+  const integerDigits = exponent - scaledExponent + 1;
+  const mantissa = `${digits.slice(0, integerDigits)}.${digits.slice(integerDigits, integerDigits + decimalPlaces)}`;
+  
+  return `${sign}${trimZeros(mantissa)}e${scaledExponent}`;
+}
+
+/**
+ * Format a number as a fraction, approximating floats by continued fractions.
+ * Floats without a close fraction fall back to positional notation.
+ */
+function formatFraction(value: NumericValue, options: ValueFormatOptions): string {
+  if (isRational(value)) {
+    return `${value.numerator}/${value.denominator}`;
+  }
+  
+  if (typeof value === 'bigint' || !Number.isFinite(value)) {
+    return formatDecimal(value, options);
+  }
+  
+  const fraction = approximateFraction(value);
+  if (Math.abs(toFloat(fraction) - value) > FRACTION_TOLERANCE * Math.abs(value)) {
+    return formatDecimal(value, options);
+  }
+  
+  return isRational(fraction) ? `${fraction.numerator}/${fraction.denominator}` : formatDecimal(fraction, options);
+}
+
+/**
+ * Insert thousands separators into the digits of an integer
+ */
+function groupDigits(integerText: string, useGrouping: boolean): string {
+  return useGrouping ? integerText.replace(/\B(?=(\d{3})+(?!\d))/g, ',') : integerText;
+}
+
+/**
+ * Remove trailing zeros (and a trailing decimal point) from a fixed-point number
+ */
+function trimZeros(text: string): string {
+  return text.includes('.') ? text.replace(/\.?0+$/, '') : text;
+}
+
+/**
+ * Keep the number of decimal places within the range toFixed accepts
+ */
+function clampDecimalPlaces(decimalPlaces: number): number {
+  return Math.min(20, Math.max(0, Math.floor(decimalPlaces)));
+}
+
+/**
+ * Convert a value to a list of numbers suitable for charting
+ * @param value - The value to convert
+ * @returns The numbers, or null if the value is not a flat list of numbers or booleans
+ */
+export function toNumericList(value: ExpressionValue): number[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+  
+  if (!value.every(element => isNumeric(element) || typeof element === 'boolean')) {
+    return null;
+  }
+  
+  // Booleans (e.g. isPrime(1..50)) are charted as 1 and 0, exact values as floats
+  return value.map(element => (isNumeric(element) ? toFloat(element) : Number(element)));
+}
@@ -1,22 +1,59 @@
 import { Parser } from './parser';
+import { LatexParser, isLatexInput } from './latex-parser';
+import { ScriptParser, locate } from './script-parser';
 import { SyntaxHighlighter } from './syntax-highlighter';
-import { Evaluator, defaultContext } from './evaluator';
-import { AutoCompletionProvider } from './auto-completion';
+import { Evaluator, defaultContext, createEvaluationScope } from './evaluator';
+import { checkTypes } from './type-checker';
+import { AutoCompletionProvider, PluginMethodSource } from './auto-completion';
+import { simplify as simplifyExpression, differentiate as differentiateExpression } from './symbolic';
+import { printExpression } from './printer';
+import { ExtensionRegistry } from './extensions';
+import { formatExpressionValue, toStoredValue } from './formatter';
 
 // Export implementation classes for direct use
-export { Parser } from './parser';
+export { Parser, applyQuickFix } from './parser';
+export { LatexParser, isLatexInput } from './latex-parser';
+export type { LatexToken } from './latex-parser';
+export { ScriptParser, locate, formatScriptError, isScriptInput } from './script-parser';
 export { Tokenizer } from './tokenizer';
 export { SyntaxHighlighter } from './syntax-highlighter';
-export { Evaluator } from './evaluator';
+export { Evaluator, createEvaluationScope, defineFunction } from './evaluator';
+export { checkTypes } from './type-checker';
 export { AutoCompletionProvider as AutoCompletion } from './auto-completion';
+export type { PluginMethodSource } from './auto-completion';
+export { printExpression, PRECEDENCE } from './printer';
+export { ExtensionRegistry } from './extensions';
+export { withProgress, reportProgress, createProgressReporter, trackProgress, trackStep, PROGRESS_INTERVAL } from './progress';
+export { toLatex, toMathML } from './serializer';
+export type { MathMLDisplay } from './serializer';
+export { simplify, differentiate } from './symbolic';
+export { formatExpressionValue, formatNumber, formatComplex, toStoredValue, formatStoredValue, toNumericList } from './formatter';
+export { isNumeric, isRational, toFloat, createRational, approximateFraction, formatBaseLiteral, withBasePrefix } from './numeric';
+export type { NumericValue, RationalValue } from './numeric';
+export { isComplex, createComplex } from './complex';
+export type { ComplexValue } from './complex';
+export { findUnit, getUnitCatalogue, isQuantity, convertQuantity, formatUnits } from './units';
+export type { QuantityValue, UnitDefinition, UnitPowers, Dimension } from './units';
 import {
+  ASTNode,
   EvaluationContext,
+  EvaluationScope,
+  NumericPrecision,
+  NodeType,
   SyntaxStyles,
   ExpressionSuggestion,
   ParseResult,
   EvaluationResult,
+  SymbolicResult,
+  SignatureHelp,
+  TokenType,
   TokenWithStyle,
-  ExpressionValue
+  ExpressionValue,
+  AsyncEvaluationOptions,
+  CompiledExpression,
+  ExpressionExtension,
+  StoredValue,
+  ValueFormatOptions
 } from './types';
 
 /**
@@ -24,6 +61,7 @@ import {
  */
 export interface ExpressionEngineOptions {
   context?: Partial<EvaluationContext>;
+  precision?: NumericPrecision;
   syntaxStyles?: Partial<SyntaxStyles>;
   additionalSuggestions?: ExpressionSuggestion[];
 }
@@ -37,15 +75,35 @@ export interface HistoryEntry {
   timestamp: number;
 }
 
+/**
+ * Expression parsed without errors, with the tree to evaluate
+ */
+interface ParsedExpression {
+  parseResult: ParseResult;
+  ast: ASTNode;
+}
+
 /**
  * Expression engine for parsing, evaluating, and interacting with mathematical expressions
  */
 export class ExpressionEngine {
   private parser: Parser;
+  private latexParser: LatexParser;
+  private scriptParser: ScriptParser;
   private syntaxHighlighter: SyntaxHighlighter;
   private evaluator: Evaluator;
   private autoCompletionProvider: AutoCompletionProvider;
   
+  // Operators, literals and value types added by plugins
+  private extensions = new ExtensionRegistry();
+  
+  // Session scope for user-defined variables and functions
+  private scope: EvaluationScope = createEvaluationScope();
+  
+  // Evaluation settings the evaluator is rebuilt from
+  private context: Partial<EvaluationContext>;
+  private precision: NumericPrecision;
+  
   // Cache for parsed expressions
   private parseCache: Map<string, ParseResult> = new Map();
   
@@ -57,17 +115,22 @@ export class ExpressionEngine {
    * @param options - Engine configuration options
    */
   constructor(options: ExpressionEngineOptions = {}) {
-    this.parser = new Parser();
+    this.parser = new Parser(this.extensions);
+    this.latexParser = new LatexParser();
+    this.scriptParser = new ScriptParser(this.extensions);
     this.syntaxHighlighter = new SyntaxHighlighter(options.syntaxStyles);
-    this.evaluator = new Evaluator(options.context);
+    this.context = options.context ?? {};
+    this.precision = options.precision ?? 'standard';
+    this.evaluator = this.createEvaluator();
     this.autoCompletionProvider = new AutoCompletionProvider(options.additionalSuggestions);
   }
 
   /**
-   * Parse an expression
+   * Parse an expression, reading it as LaTeX when it starts with a backslash command, and
+   * check its function calls against the signatures of the known functions
    * @param expression - The expression to parse
    * @param useCache - Whether to use cached results (default: true)
-   * @returns The parse result
+   * @returns The parse result, with the syntax errors followed by the errors in calls
    */
   public parse(expression: string, useCache: boolean = true): ParseResult {
     // Check cache first if enabled
@@ -76,7 +139,13 @@ export class ExpressionEngine {
     }
     
     // Parse the expression
-    const result = this.parser.parse(expression);
+    const result = isLatexInput(expression)
+      ? this.latexParser.parse(expression)
+      : this.parser.parse(expression);
+    
+    if (result.ast) {
+      result.errors.push(...checkTypes(result.ast, this.evaluator.getFunctionSignatures(), result.ranges));
+    }
     
     // Cache the result if enabled
     if (useCache && expression.trim().length > 0) {
@@ -93,7 +162,67 @@ export class ExpressionEngine {
    * @returns The evaluation result
    */
   public evaluate(expression: string, addToHistory: boolean = true): EvaluationResult {
-    // Parse the expression
+    const parsed = this.parseForEvaluation(expression);
+    if (!('ast' in parsed)) {
+      return parsed;
+    }
+    
+    // Evaluate the AST
+    const result = this.evaluator.evaluate(parsed.ast);
+    this.recordEvaluation(expression, parsed, result, addToHistory);
+    
+    return result;
+  }
+
+  /**
+   * Evaluate an expression whose functions may return promises, such as the math-js
+   * functions, awaiting intermediate values and evaluating independent parts concurrently
+   * @param expression - The expression to evaluate
+   * @param options - The cancel token that stops the evaluation
+   * @param addToHistory - Whether to add the result to history (default: true)
+   * @returns The evaluation result once every asynchronous call has settled
+   */
+  public async evaluateAsync(
+    expression: string,
+    options: AsyncEvaluationOptions = {},
+    addToHistory: boolean = true
+  ): Promise<EvaluationResult> {
+    const parsed = this.parseForEvaluation(expression);
+    if (!('ast' in parsed)) {
+      return parsed;
+    }
+    
+    const result = await this.evaluator.evaluateAsync(parsed.ast, options);
+    this.recordEvaluation(expression, parsed, result, addToHistory);
+    
+    return result;
+  }
+
+  /**
+   * Compile an expression for fast repeated evaluation, such as plotting it or scanning a
+   * range, with constant sub-expressions folded and the parameters bound to argument slots.
+   * The compiled expression keeps the precision and the user-defined functions of the time
+   * of compilation, and reads the session variables when it is evaluated.
+   * @param expression - The expression to compile
+   * @param parameters - The variables bound to the arguments of the compiled expression
+   * @returns The compiled expression
+   * @throws Error if the expression has errors
+   */
+  public compile(expression: string, parameters: string[] = []): CompiledExpression {
+    const parsed = this.parseForEvaluation(expression);
+    if (!('ast' in parsed)) {
+      throw new Error(parsed.error);
+    }
+    
+    return this.evaluator.compile(parsed.ast, parameters);
+  }
+
+  /**
+   * Parse an expression to evaluate it
+   * @param expression - The expression
+   * @returns The parse result and its tree, or the failed result when the expression has errors
+   */
+  private parseForEvaluation(expression: string): ParsedExpression | EvaluationResult {
     const parseResult = this.parse(expression);
     
     // If there are syntax errors, return an error result
@@ -112,17 +241,128 @@ export class ExpressionEngine {
       };
     }
     
-    // Evaluate the AST
-    const result = this.evaluator.evaluate(parseResult.ast);
+    return { parseResult, ast: parseResult.ast };
+  }
+
+  /**
+   * Update definitions, usage ranking and history after evaluating an expression
+   * @param expression - The evaluated expression
+   * @param parsed - The parse result of the expression and its tree
+   * @param result - The evaluation result
+   * @param addToHistory - Whether to add the result to history
+   */
+  private recordEvaluation(
+    expression: string,
+    { parseResult, ast }: ParsedExpression,
+    result: EvaluationResult,
+    addToHistory: boolean
+  ): void {
+    // Make new definitions available to auto-completion
+    if (
+      !result.error &&
+      (ast.type === NodeType.Assignment || ast.type === NodeType.FunctionDefinition)
+    ) {
+      this.autoCompletionProvider.setUserDefinitions(this.scope);
+    }
+    
+    // Cached parses checked calls against the functions defined before
+    if (!result.error && ast.type === NodeType.FunctionDefinition) {
+      this.clearCache();
+    }
+    
+    // Names used in successful evaluations rank higher in auto-completion
+    if (!result.error) {
+      parseResult.tokens
+        .filter(token => token.type === TokenType.Function || token.type === TokenType.Variable)
+        .forEach(token => this.autoCompletionProvider.recordUsage(token.value));
+    }
     
     // Add to history if enabled and successful
     if (addToHistory && !result.error) {
       this.addToHistory(expression, result.value);
     }
+  }
+
+  /**
+   * Run a script of statements in the session scope. Function definitions and assignments
+   * outside of let declarations stay in the scope for later expressions and scripts.
+   * @param script - The script source, with statements separated by new lines or ';'
+   * @returns The value of the last statement or of a top-level return, or the first error
+   * with the line and column where it occurred
+   */
+  public runScript(script: string): EvaluationResult {
+    const parseResult = this.scriptParser.parse(script);
+    
+    if (parseResult.errors.length > 0 || !parseResult.ast) {
+      const [error] = parseResult.errors;
+      
+      return {
+        value: null,
+        error: error?.message ?? 'Invalid script',
+        location: error ? locate(script, error.position) : undefined
+      };
+    }
+    
+    const result = this.evaluator.evaluate(parseResult.ast);
+    
+    // Statements before a failing one may still have defined variables and functions
+    this.autoCompletionProvider.setUserDefinitions(this.scope);
+    this.clearCache();
     
     return result;
   }
 
+  /**
+   * Simplify an expression symbolically
+   * @param expression - The expression to simplify
+   * @returns The simplified tree and its expression text
+   */
+  public simplify(expression: string): SymbolicResult {
+    return this.transform(expression, ast => simplifyExpression(ast));
+  }
+
+  /**
+   * Differentiate an expression symbolically and simplify the result
+   * @param expression - The expression to differentiate
+   * @param variable - The variable to differentiate by
+   * @param order - How many times to differentiate (default: 1)
+   * @returns The derivative tree and its expression text
+   */
+  public differentiate(expression: string, variable: string, order: number = 1): SymbolicResult {
+    return this.transform(expression, ast =>
+      differentiateExpression(ast, variable, order, { functions: this.scope.functions })
+    );
+  }
+
+  /**
+   * Parse an expression and apply a symbolic transformation to its tree
+   * @param expression - The expression
+   * @param transformation - The transformation
+   * @returns The transformed tree and its expression text
+   */
+  private transform(expression: string, transformation: (ast: ASTNode) => ASTNode): SymbolicResult {
+    const parseResult = this.parse(expression);
+    
+    if (parseResult.errors.length > 0 || !parseResult.ast) {
+      return {
+        ast: null,
+        expression: '',
+        error: parseResult.errors.map(e => e.message).join('; ') || 'Invalid expression'
+      };
+    }
+    
+    try {
+      const ast = transformation(parseResult.ast);
+      return { ast, expression: printExpression(ast) };
+    } catch (error) {
+      return {
+        ast: null,
+        expression: '',
+        error: error instanceof Error ? error.message : 'Unknown symbolic error'
+      };
+    }
+  }
+
   /**
    * Get syntax highlighting for an expression
    * @param expression - The expression to highlight
@@ -162,6 +402,76 @@ export class ExpressionEngine {
     return this.autoCompletionProvider.getSuggestions(expression, cursorPosition, tokens);
   }
 
+  /**
+   * Get the signature of the function call around the cursor, with the argument being typed
+   * @param expression - The current expression
+   * @param cursorPosition - The cursor position in the expression
+   * @returns The signature, or null outside of calls to functions with known parameters
+   */
+  public getSignatureHelp(expression: string, cursorPosition: number): SignatureHelp | null {
+    const { tokens } = this.parse(expression);
+    
+    return this.autoCompletionProvider.getSignatureHelp(expression, cursorPosition, tokens);
+  }
+
+  /**
+   * Offer the methods of enabled plugins as auto-completion suggestions
+   * @param plugins - The enabled plugins with the signatures of their methods
+   */
+  public setPluginMethods(plugins: PluginMethodSource[]): void {
+    this.autoCompletionProvider.setPluginMethods(plugins);
+  }
+
+  /**
+   * Add the operators, literal syntaxes, value types and functions of a plugin to the
+   * language, replacing those it registered before
+   * @param name - The name of the plugin
+   * @param extension - The operators, literals, value types and functions to add
+   * @throws Error if an operator clashes with the grammar or with another extension
+   */
+  public registerExtension(name: string, extension: ExpressionExtension): void {
+    this.extensions.register(name, extension);
+    this.clearCache();
+  }
+
+  /**
+   * Remove the operators, literal syntaxes, value types and functions of a plugin
+   * @param name - The name of the plugin
+   * @returns Whether the plugin had registered an extension
+   */
+  public unregisterExtension(name: string): boolean {
+    const removed = this.extensions.unregister(name);
+    this.clearCache();
+    return removed;
+  }
+
+  /**
+   * Get the names of the plugins that extend the language
+   * @returns The plugin names
+   */
+  public getExtensionNames(): string[] {
+    return this.extensions.getNames();
+  }
+
+  /**
+   * Format a value for display, letting value types added by extensions format their values
+   * @param value - The value to format
+   * @param options - Optional display settings
+   * @returns The display text
+   */
+  public formatValue(value: ExpressionValue, options?: ValueFormatOptions): string {
+    return formatExpressionValue(value, options, this.extensions.getValueTypes());
+  }
+
+  /**
+   * Keep a value for a stored result, to be formatted with formatStoredValue when shown
+   * @param value - The value to store
+   * @returns The value as plain data
+   */
+  public storeValue(value: ExpressionValue): StoredValue {
+    return toStoredValue(value, this.extensions.getValueTypes());
+  }
+
   /**
    * Add an expression and its result to history
    * @param expression - The evaluated expression
@@ -202,12 +512,47 @@ export class ExpressionEngine {
     this.parseCache.clear();
   }
 
+  /**
+   * Get the session scope holding user-defined variables and functions
+   * @returns The evaluation scope
+   */
+  public getScope(): EvaluationScope {
+    return this.scope;
+  }
+
+  /**
+   * Remove all user-defined variables and functions
+   */
+  public clearScope(): void {
+    this.scope.variables = {};
+    this.scope.functions = {};
+    this.autoCompletionProvider.setUserDefinitions(this.scope);
+    this.clearCache();
+  }
+
+  /**
+   * Get the numeric precision mode
+   * @returns The precision mode
+   */
+  public getPrecision(): NumericPrecision {
+    return this.precision;
+  }
+
+  /**
+   * Change the numeric precision mode used for subsequent evaluations
+   * @param precision - The precision mode
+   */
+  public setPrecision(precision: NumericPrecision): void {
+    this.precision = precision;
+    this.evaluator = this.createEvaluator();
+  }
+
   /**
    * Update the evaluation context
    * @param context - New context values to merge with existing context
    */
   public updateContext(context: Partial<EvaluationContext>): void {
-    this.evaluator = new Evaluator({
+    this.context = {
       variables: { 
         ...defaultContext.variables, 
         ...context.variables 
@@ -216,11 +561,20 @@ export class ExpressionEngine {
         ...defaultContext.functions, 
         ...context.functions 
       }
-    });
+    };
+    this.evaluator = this.createEvaluator();
     
     // Clear cache since context changed
     this.clearCache();
   }
+
+  /**
+   * Create an evaluator from the current context, scope and precision
+   * @returns The evaluator
+   */
+  private createEvaluator(): Evaluator {
+    return new Evaluator(this.context, this.scope, this.precision, this.extensions);
+  }
 }
 
 // Export types and constants
@@ -0,0 +1,1088 @@
+/**
+ * LaTeX front end for the expression engine
+ *
+ * Converts a common subset of LaTeX math - fractions, roots, binomials, powers, Greek and
+ * subscripted identifiers, named functions and delimiters - into the same AST the expression
+ * parser produces. Token positions refer to the LaTeX source, so every error points into the
+ * text as it was pasted.
+ */
+
+import {
+  ASTNode,
+  Token,
+  TokenType,
+  NodeType,
+  NumberNode,
+  BinaryOperationNode,
+  UnaryOperationNode,
+  PostfixOperationNode,
+  FunctionCallNode,
+  VariableNode,
+  ListNode,
+  SetNode,
+  RangeNode,
+  AssignmentNode,
+  FunctionDefinitionNode,
+  ParseResult,
+  SyntaxError
+} from './types';
+import { GREEK_LETTERS } from './serializer';
+
+/**
+ * Token of LaTeX source. The symbol is the normalised meaning of the token: the operator for
+ * operator commands, the identifier for letters and Greek letters, the delimiter for
+ * \left and \right pairs and the command itself otherwise.
+ */
+export interface LatexToken extends Token {
+  symbol: string;
+}
+
+/**
+ * Named function commands and the engine functions they call
+ */
+const FUNCTION_COMMANDS: Record<string, string> = {
+  '\\sin': 'sin', '\\cos': 'cos', '\\tan': 'tan',
+  '\\arcsin': 'asin', '\\arccos': 'acos', '\\arctan': 'atan',
+  '\\sinh': 'sinh', '\\cosh': 'cosh', '\\tanh': 'tanh',
+  '\\ln': 'ln', '\\log': 'log', '\\exp': 'exp',
+  '\\gcd': 'gcd', '\\arg': 'arg'
+};
+
+/**
+ * Functions written with a -1 superscript for their inverse, as in \sin^{-1} x
+ */
+const INVERSE_FUNCTIONS: Record<string, string> = {
+  sin: 'asin',
+  cos: 'acos',
+  tan: 'atan'
+};
+
+/**
+ * Commands that build structure from their arguments
+ */
+const STRUCTURE_COMMANDS = new Set([
+  '\\frac', '\\dfrac', '\\tfrac', '\\sqrt', '\\binom', '\\overline', '\\operatorname', '\\mathrm'
+]);
+
+/**
+ * Operator commands and characters with the operator they stand for
+ */
+const OPERATOR_SYMBOLS: Record<string, string> = {
+  '\\cdot': '*', '\\times': '*', '\\div': '/', '\\bmod': '%', '\\mod': '%',
+  '\\le': '<=', '\\leq': '<=', '\\ge': '>=', '\\geq': '>=', '\\ne': '!=', '\\neq': '!=',
+  '\\lt': '<', '\\gt': '>', '\\land': '&&', '\\wedge': '&&', '\\lor': '||', '\\vee': '||',
+  '\\lnot': '!', '\\neg': '!', '\\ldots': '..', '\\dots': '..',
+  '·': '*', '×': '*', '÷': '/', '−': '-', '≤': '<=', '≥': '>=', '≠': '!=',
+  '+': '+', '-': '-', '*': '*', '/': '/', '=': '=', '<': '<', '>': '>', '!': '!',
+  '^': '^', '_': '_', '|': '|'
+};
+
+/**
+ * Commands that only adjust spacing
+ */
+const SPACING_COMMANDS = new Set(['\\,', '\\;', '\\:', '\\!', '\\ ', '\\quad', '\\qquad']);
+
+/**
+ * Variant letter forms that name the same identifier
+ */
+const GREEK_VARIANTS: Record<string, string> = {
+  '\\varepsilon': 'epsilon',
+  '\\vartheta': 'theta',
+  '\\varphi': 'phi',
+  '\\varrho': 'rho',
+  '\\varsigma': 'sigma'
+};
+
+/**
+ * Delimiters and their token types
+ */
+const DELIMITERS: Record<string, TokenType> = {
+  '(': TokenType.LeftParen,
+  ')': TokenType.RightParen,
+  '[': TokenType.LeftBracket,
+  ']': TokenType.RightBracket,
+  '{': TokenType.LeftBrace,
+  '}': TokenType.RightBrace,
+  '\\{': TokenType.LeftBrace,
+  '\\}': TokenType.RightBrace,
+  '|': TokenType.Operator,
+  '\\|': TokenType.Operator,
+  '\\lfloor': TokenType.Operator,
+  '\\rfloor': TokenType.Operator,
+  '\\lceil': TokenType.Operator,
+  '\\rceil': TokenType.Operator,
+  '.': TokenType.Operator
+};
+
+/**
+ * Delimiter pairs that apply a function to the enclosed expression
+ */
+const BRACKET_FUNCTIONS: Record<string, { close: string; name: string }> = {
+  '|': { close: '|', name: 'abs' },
+  '\\lfloor': { close: '\\rfloor', name: 'floor' },
+  '\\lceil': { close: '\\rceil', name: 'ceil' }
+};
+
+const LETTER = /[a-zA-Z]/;
+const WHITESPACE = /\s/;
+const NUMBER = /\d+(?:\.\d+)?|\.\d+/y;
+
+/**
+ * Check whether input should be read as LaTeX: it starts with a backslash command
+ * @param input - The raw input
+ */
+export function isLatexInput(input: string): boolean {
+  return /^\s*\\[a-zA-Z]/.test(input);
+}
+
+/**
+ * Recursive descent parser for LaTeX math
+ */
+export class LatexParser {
+  private tokens: LatexToken[] = [];
+  private currentTokenIndex: number = 0;
+  private errors: SyntaxError[] = [];
+
+  /**
+   * Parse LaTeX source into an AST
+   * @param source - The LaTeX source, without surrounding $ delimiters
+   * @returns Parse result including tokens, AST, and errors with source positions
+   */
+  public parse(source: string): ParseResult {
+    const tokens = this.tokenize(source);
+
+    this.tokens = tokens.filter(token => token.type !== TokenType.Whitespace);
+    this.currentTokenIndex = 0;
+    this.errors = [];
+
+    if (this.tokens.length === 0) {
+      return { tokens, errors: [] };
+    }
+
+    try {
+      const ast = this.parseStatement();
+
+      if (this.currentToken()) {
+        this.addError(`Unexpected token: ${this.currentToken().value}`, this.currentToken());
+      }
+
+      return {
+        tokens,
+        ast: this.errors.length === 0 ? ast : undefined,
+        errors: this.errors.sort((a, b) => a.position - b.position)
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown parsing error';
+      this.addError(errorMessage, this.currentToken() ?? 0);
+
+      return { tokens, errors: this.errors.sort((a, b) => a.position - b.position) };
+    }
+  }
+
+  /**
+   * Split LaTeX source into tokens
+   * @param source - The LaTeX source
+   * @returns Tokens covering the whole source, including whitespace
+   */
+  public tokenize(source: string): LatexToken[] {
+    const tokens: LatexToken[] = [];
+    let pos = 0;
+
+    const push = (type: TokenType, symbol: string, start: number, end: number): void => {
+      tokens.push({ type, value: source.substring(start, end), symbol, start, end: end - 1 });
+    };
+
+    while (pos < source.length) {
+      const start = pos;
+      const char = source[pos];
+
+      if (WHITESPACE.test(char)) {
+        while (pos < source.length && WHITESPACE.test(source[pos])) {
+          pos++;
+        }
+        push(TokenType.Whitespace, ' ', start, pos);
+        continue;
+      }
+
+      NUMBER.lastIndex = pos;
+      const number = NUMBER.exec(source);
+      if (number) {
+        pos += number[0].length;
+        push(TokenType.Number, number[0], start, pos);
+        continue;
+      }
+
+      // Every letter is an identifier of its own, so xy is the product x * y
+      if (LETTER.test(char)) {
+        pos++;
+        push(TokenType.Variable, char, start, pos);
+        continue;
+      }
+
+      if (char === '\\') {
+        const command = this.readCommand(source, pos);
+        pos += command.length;
+
+        // \left and \right merge with the delimiter they size
+        if (command === '\\left' || command === '\\right') {
+          while (pos < source.length && WHITESPACE.test(source[pos])) {
+            pos++;
+          }
+
+          const delimiter = source[pos] === '\\' ? this.readCommand(source, pos) : source[pos] ?? '';
+          if (delimiter in DELIMITERS) {
+            pos += delimiter.length;
+            push(DELIMITERS[delimiter], delimiter, start, pos);
+          } else {
+            push(TokenType.Unknown, command, start, pos);
+          }
+          continue;
+        }
+
+        push(this.commandType(command), this.commandSymbol(command), start, pos);
+        continue;
+      }
+
+      pos++;
+
+      if (char in DELIMITERS && DELIMITERS[char] !== TokenType.Operator) {
+        push(DELIMITERS[char], char, start, pos);
+      } else if (char === ',') {
+        push(TokenType.Comma, char, start, pos);
+      } else if (char in OPERATOR_SYMBOLS) {
+        push(TokenType.Operator, OPERATOR_SYMBOLS[char], start, pos);
+      } else {
+        push(TokenType.Unknown, char, start, pos);
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Read a command name: a backslash followed by letters, or by a single other character
+   * @param source - The LaTeX source
+   * @param pos - Position of the backslash
+   */
+  private readCommand(source: string, pos: number): string {
+    let end = pos + 1;
+
+    if (end < source.length && LETTER.test(source[end])) {
+      while (end < source.length && LETTER.test(source[end])) {
+        end++;
+      }
+    } else {
+      end = Math.min(end + 1, source.length);
+    }
+
+    return source.substring(pos, end);
+  }
+
+  /**
+   * Get the token type of a command
+   * @param command - The command including its backslash
+   */
+  private commandType(command: string): TokenType {
+    if (SPACING_COMMANDS.has(command)) {
+      return TokenType.Whitespace;
+    }
+    if (FUNCTION_COMMANDS[command] || STRUCTURE_COMMANDS.has(command)) {
+      return TokenType.Function;
+    }
+    if (GREEK_LETTERS[command.slice(1)] || GREEK_VARIANTS[command]) {
+      return TokenType.Variable;
+    }
+    if (OPERATOR_SYMBOLS[command] || command in DELIMITERS) {
+      return DELIMITERS[command] ?? TokenType.Operator;
+    }
+    return TokenType.Unknown;
+  }
+
+  /**
+   * Get the normalised symbol of a command
+   * @param command - The command including its backslash
+   */
+  private commandSymbol(command: string): string {
+    if (GREEK_LETTERS[command.slice(1)]) {
+      return command.slice(1);
+    }
+    return GREEK_VARIANTS[command] ?? OPERATOR_SYMBOLS[command] ?? command;
+  }
+
+  /**
+   * Statement parsing - assignments (x = 1) and function definitions (f(x) = x^2), otherwise an expression
+   */
+  private parseStatement(): ASTNode {
+    const startIndex = this.currentTokenIndex;
+    const errorCount = this.errors.length;
+    const name = this.currentToken().type === TokenType.Variable ? this.parseIdentifierName() : null;
+
+    if (name !== null) {
+      if (this.isSymbol('=')) {
+        this.advance(); // Consume '='
+
+        return {
+          type: NodeType.Assignment,
+          name,
+          value: this.parseExpression()
+        } as AssignmentNode;
+      }
+
+      const parameters = this.matchParameterList();
+      if (parameters) {
+        return {
+          type: NodeType.FunctionDefinition,
+          name,
+          parameters,
+          body: this.parseExpression()
+        } as FunctionDefinitionNode;
+      }
+    }
+
+    // Not a definition: parse the whole input again as an expression
+    this.currentTokenIndex = startIndex;
+    this.errors.length = errorCount;
+
+    return this.parseExpression();
+  }
+
+  /**
+   * Match a parameter list (a, b, ...) followed by '=', consuming it on success
+   * @returns The parameter names, or null if there is no match
+   */
+  private matchParameterList(): string[] | null {
+    if (!this.isSymbol('(')) {
+      return null;
+    }
+
+    const startIndex = this.currentTokenIndex;
+    const names: string[] = [];
+    this.advance(); // Consume '('
+
+    while (this.currentToken()?.type === TokenType.Variable) {
+      const name = this.parseIdentifierName();
+      if (name === null) {
+        break;
+      }
+      names.push(name);
+
+      if (!this.isSymbol(',')) {
+        break;
+      }
+      this.advance(); // Consume ','
+    }
+
+    if (this.isSymbol(')') && this.tokens[this.currentTokenIndex + 1]?.symbol === '=') {
+      this.currentTokenIndex += 2;
+      return names;
+    }
+
+    this.currentTokenIndex = startIndex;
+    return null;
+  }
+
+  /**
+   * Expression parsing - lowest precedence: logical OR
+   */
+  private parseExpression(): ASTNode {
+    return this.parseBinaryLevel(['||'], () => this.parseBinaryLevel(['&&'], () => this.parseRelation()));
+  }
+
+  /**
+   * Relation parsing: a single '=' in LaTeX is an equality test
+   */
+  private parseRelation(): ASTNode {
+    let left = this.parseRange();
+
+    while (this.isSymbol('=', '!=', '<', '>', '<=', '>=')) {
+      const symbol = this.currentToken().symbol;
+      this.advance();
+
+      left = {
+        type: NodeType.BinaryOperation,
+        operator: symbol === '=' ? '==' : symbol,
+        left,
+        right: this.parseRange()
+      } as BinaryOperationNode;
+    }
+
+    return left;
+  }
+
+  /**
+   * Range parsing: start \ldots end
+   */
+  private parseRange(): ASTNode {
+    const start = this.parseBinaryLevel(['+', '-'], () => this.parseTerm());
+
+    if (!this.isSymbol('..')) {
+      return start;
+    }
+
+    this.advance(); // Consume '\ldots'
+
+    return {
+      type: NodeType.Range,
+      start,
+      end: this.parseBinaryLevel(['+', '-'], () => this.parseTerm())
+    } as RangeNode;
+  }
+
+  /**
+   * Parse a left-associative chain of binary operators at one precedence level
+   * @param operators - The operators of this level
+   * @param parseOperand - Parser for the next-higher precedence level
+   */
+  private parseBinaryLevel(operators: string[], parseOperand: () => ASTNode): ASTNode {
+    let left = parseOperand();
+
+    while (this.currentToken()?.type === TokenType.Operator && this.isSymbol(...operators)) {
+      const operator = this.currentToken().symbol;
+      this.advance();
+
+      left = {
+        type: NodeType.BinaryOperation,
+        operator,
+        left,
+        right: parseOperand()
+      } as BinaryOperationNode;
+    }
+
+    return left;
+  }
+
+  /**
+   * Term parsing: \cdot, \times, /, \div, \bmod and implicit multiplication (2\pi r, n(n+1))
+   */
+  private parseTerm(): ASTNode {
+    let left = this.parseUnary();
+
+    while (this.currentToken()) {
+      const token = this.currentToken();
+      let operator: string;
+
+      if (token.type === TokenType.Operator && this.isSymbol('*', '/', '%')) {
+        operator = token.symbol;
+        this.advance();
+      } else if (this.startsImplicitOperand(token, true)) {
+        operator = '*';
+      } else {
+        break;
+      }
+
+      left = {
+        type: NodeType.BinaryOperation,
+        operator,
+        left,
+        right: this.parseUnary()
+      } as BinaryOperationNode;
+    }
+
+    return left;
+  }
+
+  /**
+   * Check whether a token directly following an operand starts an implicitly multiplied operand.
+   * As in the expression parser, a number there is reported as ambiguous.
+   * @param token - The token following the left operand
+   * @param allowFunctions - Whether a named function such as \sin may start the operand
+   */
+  private startsImplicitOperand(token: LatexToken, allowFunctions: boolean): boolean {
+    if (token.type === TokenType.Number) {
+      this.addError(
+        `Ambiguous implicit multiplication before '${token.value}': use \\cdot to multiply by a number`,
+        token
+      );
+      return true;
+    }
+
+    if (token.type === TokenType.Function) {
+      return allowFunctions || STRUCTURE_COMMANDS.has(token.symbol);
+    }
+
+    return (
+      token.type === TokenType.Variable ||
+      token.type === TokenType.LeftParen ||
+      token.type === TokenType.LeftBracket ||
+      token.type === TokenType.LeftBrace ||
+      token.symbol === '\\lfloor' ||
+      token.symbol === '\\lceil'
+    );
+  }
+
+  /**
+   * Unary parsing: prefix +, - and \lnot
+   */
+  private parseUnary(): ASTNode {
+    if (this.currentToken()?.type === TokenType.Operator && this.isSymbol('+', '-', '!')) {
+      const operator = this.currentToken().symbol;
+      this.advance();
+
+      return {
+        type: NodeType.UnaryOperation,
+        operator,
+        argument: this.parseUnary()
+      } as UnaryOperationNode;
+    }
+
+    return this.parsePower();
+  }
+
+  /**
+   * Power parsing: base^{exponent}, where an ungrouped exponent is a single token (x^23 is x^2 * 3)
+   */
+  private parsePower(): ASTNode {
+    const base = this.parsePostfix();
+
+    if (!this.isSymbol('^')) {
+      return base;
+    }
+
+    this.advance(); // Consume '^'
+    const exponent = this.parseArgument();
+
+    if (this.isSymbol('^')) {
+      this.addError('Double superscript: group the exponent with braces', this.currentToken());
+    }
+
+    return {
+      type: NodeType.BinaryOperation,
+      operator: '^',
+      left: base,
+      right: exponent
+    } as BinaryOperationNode;
+  }
+
+  /**
+   * Postfix parsing: factorial n! and double factorial n!!
+   */
+  private parsePostfix(): ASTNode {
+    let argument = this.parsePrimary();
+
+    while (this.isSymbol('!')) {
+      const token = this.currentToken();
+      this.advance();
+
+      // Two adjacent exclamation marks form a double factorial
+      const double = this.isSymbol('!') && this.currentToken().start === token.end + 1;
+      if (double) {
+        this.advance();
+      }
+
+      argument = {
+        type: NodeType.PostfixOperation,
+        operator: double ? '!!' : '!',
+        argument
+      } as PostfixOperationNode;
+    }
+
+    return argument;
+  }
+
+  /**
+   * Primary parsing: numbers, identifiers, commands and delimited groups
+   */
+  private parsePrimary(): ASTNode {
+    const token = this.currentToken();
+
+    if (!token) {
+      this.addError('Unexpected end of expression', this.endPosition());
+      return this.placeholder();
+    }
+
+    if (token.type === TokenType.Number) {
+      this.advance();
+      return { type: NodeType.Number, value: token.value } as NumberNode;
+    }
+
+    if (token.type === TokenType.Variable) {
+      return { type: NodeType.Variable, name: this.parseIdentifierName() ?? token.symbol } as VariableNode;
+    }
+
+    if (FUNCTION_COMMANDS[token.symbol]) {
+      return this.parseFunctionCommand();
+    }
+
+    switch (token.symbol) {
+      case '\\frac':
+      case '\\dfrac':
+      case '\\tfrac':
+        return this.parseFraction();
+
+      case '\\sqrt':
+        return this.parseRoot();
+
+      case '\\binom': {
+        this.advance();
+        return binomial(this.parseArgument(), this.parseArgument());
+      }
+
+      case '\\overline':
+        this.advance();
+        return callNode('conj', [this.parseArgument()]);
+
+      case '\\operatorname':
+      case '\\mathrm':
+        return this.parseNamed();
+
+      case '(':
+      case '{': {
+        this.advance();
+        const expression = this.parseExpression();
+        this.expect(token.symbol === '(' ? ')' : '}');
+        return expression;
+      }
+
+      case '[': {
+        // A single bracketed expression is a grouping, several elements make a list
+        const elements = this.parseElements(']');
+        return elements.length === 1 ? elements[0] : { type: NodeType.List, elements } as ListNode;
+      }
+
+      case '\\{':
+        return { type: NodeType.Set, elements: this.parseElements('\\}') } as SetNode;
+    }
+
+    if (BRACKET_FUNCTIONS[token.symbol]) {
+      const { close, name } = BRACKET_FUNCTIONS[token.symbol];
+      this.advance();
+      const argument = this.parseExpression();
+      this.expect(close);
+      return callNode(name, [argument]);
+    }
+
+    if (token.type === TokenType.Unknown && token.symbol.startsWith('\\')) {
+      this.addError(`Unsupported LaTeX command: ${token.symbol}`, token);
+    } else {
+      this.addError(`Unexpected token: ${token.value}`, token);
+    }
+    this.advance(); // Skip the problematic token to try to continue parsing
+
+    return this.placeholder();
+  }
+
+  /**
+   * Parse an identifier with an optional subscript. Numeric subscripts are appended (x_{1} is x1),
+   * other subscripts are joined with an underscore (x_{max} is x_max).
+   * @returns The identifier name, or null if the subscript is not a name
+   */
+  private parseIdentifierName(): string | null {
+    const name = this.currentToken().symbol;
+    this.advance();
+
+    if (!this.isSymbol('_')) {
+      return name;
+    }
+
+    const underscore = this.currentToken();
+    this.advance(); // Consume '_'
+
+    const subscript = this.isSymbol('{') ? this.readGroupName() : this.readScriptName();
+    if (subscript === null) {
+      this.addError('Subscripts must be numbers or names', underscore);
+      return null;
+    }
+
+    return /^\d+$/.test(subscript) ? `${name}${subscript}` : `${name}_${subscript}`;
+  }
+
+  /**
+   * Read a single-token name in a subscript
+   */
+  private readScriptName(): string | null {
+    const token = this.currentToken();
+
+    if (token?.type === TokenType.Number) {
+      return this.takeDigit().value;
+    }
+    if (token?.type === TokenType.Variable) {
+      this.advance();
+      return token.symbol;
+    }
+    if (token?.symbol === '\\mathrm' || token?.symbol === '\\operatorname') {
+      this.advance();
+      return this.readGroupName();
+    }
+    return null;
+  }
+
+  /**
+   * Read a braced group made only of letters, digits, Greek letters and upright names
+   * @returns The concatenated name, or null if the group holds anything else
+   */
+  private readGroupName(): string | null {
+    const open = this.currentToken();
+
+    if (open?.symbol !== '{') {
+      return null;
+    }
+    this.advance();
+
+    let name = '';
+    while (this.currentToken() && !this.isSymbol('}')) {
+      const token = this.currentToken();
+
+      if (token.type === TokenType.Number && /^\d+$/.test(token.value)) {
+        this.advance();
+        name += token.value;
+      } else {
+        const part = this.readScriptName();
+        if (part === null) {
+          return null;
+        }
+        name += part;
+      }
+    }
+
+    this.expect('}');
+    return name || null;
+  }
+
+  /**
+   * Parse a named function command such as \sin x, \sin^2 x, \sin^{-1}(x) or \log_{2} x
+   */
+  private parseFunctionCommand(): ASTNode {
+    const token = this.currentToken();
+    let name = FUNCTION_COMMANDS[token.symbol];
+    let base: ASTNode | null = null;
+    let exponent: ASTNode | null = null;
+    this.advance();
+
+    if (name === 'log' && this.isSymbol('_')) {
+      this.advance(); // Consume '_'
+      base = this.parseArgument();
+    }
+
+    if (this.isSymbol('^')) {
+      this.advance(); // Consume '^'
+      exponent = this.parseArgument();
+
+      if (INVERSE_FUNCTIONS[name] && isMinusOne(exponent)) {
+        name = INVERSE_FUNCTIONS[name];
+        exponent = null;
+      }
+    }
+
+    const args = this.isSymbol('(') ? this.parseCallArguments() : [this.parseFunctionArgument()];
+    let call: ASTNode = callNode(name, args);
+
+    if (base) {
+      const baseValue = base.type === NodeType.Number ? (base as NumberNode).value : null;
+
+      if (baseValue === '2') {
+        call = callNode('log2', args);
+      } else if (baseValue !== '10') {
+        // log_b x = ln x / ln b
+        call = binaryNode('/', callNode('ln', args), callNode('ln', [base]));
+      }
+    }
+
+    return exponent ? binaryNode('^', call, exponent) : call;
+  }
+
+  /**
+   * Parse the argument of a function written without parentheses. The argument extends over
+   * an implicit product up to the next named function, so \sin 2x \cos x is sin(2x) * cos(x).
+   */
+  private parseFunctionArgument(): ASTNode {
+    let argument = this.parseUnary();
+
+    while (this.currentToken() && this.startsImplicitOperand(this.currentToken(), false)) {
+      argument = binaryNode('*', argument, this.parsePower());
+    }
+
+    return argument;
+  }
+
+  /**
+   * Parse a parenthesised, comma-separated argument list
+   */
+  private parseCallArguments(): ASTNode[] {
+    this.advance(); // Consume '('
+
+    const args: ASTNode[] = [this.parseExpression()];
+
+    while (this.isSymbol(',')) {
+      this.advance();
+      args.push(this.parseExpression());
+    }
+
+    this.expect(')');
+    return args;
+  }
+
+  /**
+   * Parse \frac{numerator}{denominator}. A Leibniz operator \frac{d}{dx} or \frac{d^{n}}{dx^{n}}
+   * followed by an operand becomes a call to diff.
+   */
+  private parseFraction(): ASTNode {
+    this.advance(); // Consume the command
+
+    const numerator = this.parseArgument();
+    const denominator = this.parseArgument();
+    const derivative = matchDerivative(numerator, denominator);
+
+    if (derivative && this.currentToken() && this.startsImplicitOperand(this.currentToken(), true)) {
+      const operand = this.parseFunctionArgument();
+      const args = [operand, { type: NodeType.Variable, name: derivative.variable } as VariableNode];
+
+      return callNode('diff', derivative.order ? [...args, derivative.order] : args);
+    }
+
+    return binaryNode('/', numerator, denominator);
+  }
+
+  /**
+   * Parse \sqrt{x} or \sqrt[n]{x}; roots other than square roots become powers x^(1/n)
+   */
+  private parseRoot(): ASTNode {
+    this.advance(); // Consume '\sqrt'
+
+    let index: ASTNode | null = null;
+    if (this.isSymbol('[')) {
+      this.advance(); // Consume '['
+      index = this.parseExpression();
+      this.expect(']');
+    }
+
+    const radicand = this.parseArgument();
+
+    if (!index || (index.type === NodeType.Number && (index as NumberNode).value === '2')) {
+      return callNode('sqrt', [radicand]);
+    }
+
+    return binaryNode('^', radicand, binaryNode('/', { type: NodeType.Number, value: '1' } as NumberNode, index));
+  }
+
+  /**
+   * Parse \operatorname{name} or \mathrm{name}. An operator name is always applied as a
+   * function; an upright name is a variable unless an argument list follows.
+   */
+  private parseNamed(): ASTNode {
+    const token = this.currentToken();
+    this.advance();
+
+    const name = this.readGroupName();
+    if (name === null) {
+      this.addError(`Expected a name after ${token.symbol}`, token);
+      return this.placeholder();
+    }
+
+    // Operator names are typeset capitalised for the real and imaginary parts
+    const functionName = name === 'Re' || name === 'Im' ? name.toLowerCase() : name;
+
+    if (this.isSymbol('(')) {
+      return callNode(functionName, this.parseCallArguments());
+    }
+    if (token.symbol === '\\operatorname') {
+      return callNode(functionName, [this.parseFunctionArgument()]);
+    }
+
+    return { type: NodeType.Variable, name } as VariableNode;
+  }
+
+  /**
+   * Parse a command argument or script: a braced group, or a single token (\frac12 is 1/2)
+   */
+  private parseArgument(): ASTNode {
+    const token = this.currentToken();
+
+    if (token?.symbol === '{') {
+      this.advance();
+      const expression = this.parseExpression();
+      this.expect('}');
+      return expression;
+    }
+
+    if (token?.type === TokenType.Number) {
+      return { type: NodeType.Number, value: this.takeDigit().value } as NumberNode;
+    }
+
+    return this.parsePrimary();
+  }
+
+  /**
+   * Parse comma-separated elements up to a closing delimiter
+   * @param close - The closing delimiter symbol
+   */
+  private parseElements(close: string): ASTNode[] {
+    this.advance(); // Consume the opening delimiter
+
+    const elements: ASTNode[] = [];
+
+    if (this.isSymbol(close)) {
+      this.advance();
+      return elements;
+    }
+
+    elements.push(this.parseExpression());
+    while (this.isSymbol(',')) {
+      this.advance();
+      elements.push(this.parseExpression());
+    }
+
+    this.expect(close);
+    return elements;
+  }
+
+  /**
+   * Consume the first digit of the current number token, leaving the rest as a new token
+   * @returns The token holding the digit
+   */
+  private takeDigit(): LatexToken {
+    const token = this.currentToken();
+
+    if (token.value.length > 1) {
+      const digit = { ...token, value: token.value[0], symbol: token.value[0], end: token.start };
+      const rest = { ...token, value: token.value.slice(1), symbol: token.value.slice(1), start: token.start + 1 };
+      this.tokens.splice(this.currentTokenIndex, 1, digit, rest);
+    }
+
+    const digit = this.currentToken();
+    this.advance();
+    return digit;
+  }
+
+  /**
+   * Consume a closing delimiter, or report it missing
+   * @param symbol - The expected closing symbol
+   */
+  private expect(symbol: string): void {
+    if (this.isSymbol(symbol)) {
+      this.advance();
+      return;
+    }
+
+    const token = this.currentToken();
+    this.addError(`Expected '${symbol}'`, token ?? this.endPosition());
+  }
+
+  /**
+   * Check whether the current token has one of the given symbols
+   * @param symbols - The symbols to check
+   */
+  private isSymbol(...symbols: string[]): boolean {
+    const token = this.currentToken();
+    return token !== undefined && symbols.includes(token.symbol);
+  }
+
+  /**
+   * Get the current token
+   */
+  private currentToken(): LatexToken {
+    return this.tokens[this.currentTokenIndex];
+  }
+
+  /**
+   * Move to the next token
+   */
+  private advance(): void {
+    this.currentTokenIndex++;
+  }
+
+  /**
+   * Position just past the last token
+   */
+  private endPosition(): number {
+    return this.tokens[this.tokens.length - 1].end + 1;
+  }
+
+  /**
+   * Placeholder node returned after an error so that parsing can continue
+   */
+  private placeholder(): ASTNode {
+    return { type: NodeType.Number, value: '0' } as NumberNode;
+  }
+
+  /**
+   * Add a syntax error
+   * @param message - Error message
+   * @param at - The offending token, whose source range is underlined, or a position in the
+   * LaTeX source, such as its end
+   */
+  private addError(message: string, at: LatexToken | number): void {
+    if (typeof at === 'number') {
+      this.errors.push({ message, position: at, end: at });
+    } else {
+      this.errors.push({ message, position: at.start, end: at.end + 1 });
+    }
+  }
+}
+
+/**
+ * Build a binary operation node
+ */
+function binaryNode(operator: string, left: ASTNode, right: ASTNode): BinaryOperationNode {
+  return { type: NodeType.BinaryOperation, operator, left, right } as BinaryOperationNode;
+}
+
+/**
+ * Build a function call node
+ */
+function callNode(name: string, args: ASTNode[]): FunctionCallNode {
+  return { type: NodeType.FunctionCall, name, arguments: args } as FunctionCallNode;
+}
+
+/**
+ * Build n! / (k! (n - k)!) for \binom{n}{k}
+ */
+function binomial(n: ASTNode, k: ASTNode): ASTNode {
+  const factorial = (argument: ASTNode): PostfixOperationNode =>
+    ({ type: NodeType.PostfixOperation, operator: '!', argument } as PostfixOperationNode);
+
+  return binaryNode('/', factorial(n), binaryNode('*', factorial(k), factorial(binaryNode('-', n, k))));
+}
+
+/**
+ * Check whether a node is the literal -1
+ */
+function isMinusOne(node: ASTNode): boolean {
+  if (node.type !== NodeType.UnaryOperation || (node as UnaryOperationNode).operator !== '-') {
+    return false;
+  }
+  const argument = (node as UnaryOperationNode).argument;
+  return argument.type === NodeType.Number && (argument as NumberNode).value === '1';
+}
+
+/**
+ * Check whether a node is the variable d, as in the Leibniz notation d/dx
+ */
+function isDifferential(node: ASTNode): boolean {
+  return node.type === NodeType.Variable && (node as VariableNode).name === 'd';
+}
+
+/**
+ * Recognise the Leibniz operator d/dx or d^n/dx^n in the parts of a fraction
+ * @param numerator - The fraction numerator
+ * @param denominator - The fraction denominator
+ * @returns The variable and order, or null if the fraction is not a derivative operator
+ */
+function matchDerivative(numerator: ASTNode, denominator: ASTNode): { variable: string; order: ASTNode | null } | null {
+  let order: ASTNode | null = null;
+
+  if (numerator.type === NodeType.BinaryOperation && (numerator as BinaryOperationNode).operator === '^') {
+    const power = numerator as BinaryOperationNode;
+    if (!isDifferential(power.left)) {
+      return null;
+    }
+    order = power.right;
+  } else if (!isDifferential(numerator)) {
+    return null;
+  }
+
+  if (denominator.type !== NodeType.BinaryOperation) {
+    return null;
+  }
+
+  const product = denominator as BinaryOperationNode;
+  if (product.operator !== '*' || !isDifferential(product.left)) {
+    return null;
+  }
+
+  let variable = product.right;
+  if (order && variable.type === NodeType.BinaryOperation && (variable as BinaryOperationNode).operator === '^') {
+    variable = (variable as BinaryOperationNode).left;
+  }
+
+  return variable.type === NodeType.Variable ? { variable: (variable as VariableNode).name, order } : null;
+}
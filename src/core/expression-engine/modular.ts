@@ -0,0 +1,239 @@
+/**
+ * Modular arithmetic
+ *
+ * Arithmetic in Z/nZ for 'mod' expressions and mod(n) { ... } blocks, and the
+ * number-theoretic functions built on it. Integers are converted to BigInts for the
+ * computation; results are BigInts when an input was one and numbers otherwise, as in
+ * the rest of the numeric tower.
+ */
+
+import { ExpressionValue } from './types';
+import { NumericValue, bigGcd, modPow, isProbablePrime } from './numeric';
+import { formatExpressionValue } from './formatter';
+
+/**
+ * Operators performed in Z/nZ inside a modular context; the others keep their usual meaning
+ */
+export const MODULAR_OPERATORS = new Set(['+', '-', '*', '/', '^', '==', '!=']);
+
+/**
+ * Convert an integer to a BigInt for modular arithmetic
+ * @param value - The value
+ * @returns The integer as a BigInt
+ * @throws Error if the value is not an integer
+ */
+export function toInteger(value: ExpressionValue): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    return BigInt(value);
+  }
+  throw new Error(`Modular arithmetic needs integers but got ${formatExpressionValue(value)}`);
+}
+
+/**
+ * Convert a result back to the representation of the inputs it was computed from
+ * @param value - The result
+ * @param inputs - The inputs
+ * @returns A BigInt if any input was one, and a number otherwise
+ */
+export function fromInteger(value: bigint, inputs: ExpressionValue[]): NumericValue {
+  return inputs.some(input => typeof input === 'bigint') ? value : Number(value);
+}
+
+/**
+ * Check that a value can be a modulus
+ * @param value - The value
+ * @returns The modulus as a BigInt
+ * @throws Error if the value is not a positive integer
+ */
+export function checkModulus(value: ExpressionValue): bigint {
+  const modulus = typeof value === 'bigint' || (typeof value === 'number' && Number.isSafeInteger(value))
+    ? BigInt(value)
+    : null;
+
+  if (modulus === null || modulus < 1n) {
+    throw new Error(`The modulus must be a positive integer, not ${formatExpressionValue(value)}`);
+  }
+  return modulus;
+}
+
+/**
+ * Reduce an integer to its least non-negative residue
+ * @param a - The integer
+ * @param n - The modulus
+ */
+export function reduce(a: bigint, n: bigint): bigint {
+  return ((a % n) + n) % n;
+}
+
+/**
+ * Inverse of an integer modulo n, by the extended Euclidean algorithm
+ * @param a - The integer
+ * @param n - The modulus
+ * @returns The residue b with a * b ≡ 1 (mod n)
+ * @throws Error if a and n are not coprime
+ */
+export function modInverse(a: bigint, n: bigint): bigint {
+  let [r0, r1] = [reduce(a, n), n];
+  let [s0, s1] = [1n, 0n];
+
+  while (r1 !== 0n) {
+    const quotient = r0 / r1;
+    [r0, r1] = [r1, r0 - quotient * r1];
+    [s0, s1] = [s1, s0 - quotient * s1];
+  }
+
+  if (r0 !== 1n) {
+    throw new Error(`${a} is not invertible modulo ${n}: gcd(${a}, ${n}) = ${bigGcd(a, n)}`);
+  }
+  return reduce(s0, n);
+}
+
+/**
+ * Power of an integer modulo n; negative exponents are powers of the inverse
+ * @param base - The base
+ * @param exponent - The exponent
+ * @param n - The modulus
+ */
+export function modPower(base: bigint, exponent: bigint, n: bigint): bigint {
+  if (exponent < 0n) {
+    return modPower(modInverse(base, n), -exponent, n);
+  }
+  return reduce(modPow(reduce(base, n), exponent, n), n);
+}
+
+/**
+ * Square root modulo a prime, by the Tonelli-Shanks algorithm
+ * @param a - The integer
+ * @param p - The prime modulus
+ * @returns The smaller of the two roots
+ * @throws Error if p is not prime or a is not a square modulo p
+ */
+export function modSqrt(a: bigint, p: bigint): bigint {
+  if (!isProbablePrime(p)) {
+    throw new Error(`sqrtmod needs a prime modulus, not ${p}`);
+  }
+
+  const residue = reduce(a, p);
+  if (residue === 0n || p === 2n) {
+    return residue;
+  }
+  if (modPow(residue, (p - 1n) / 2n, p) !== 1n) {
+    throw new Error(`${a} is not a square modulo ${p}`);
+  }
+
+  // Write p - 1 as q * 2^s with q odd, and find a non-residue z
+  let q = p - 1n;
+  let s = 0n;
+  while ((q & 1n) === 0n) {
+    q >>= 1n;
+    s++;
+  }
+  let z = 2n;
+  while (modPow(z, (p - 1n) / 2n, p) !== p - 1n) {
+    z++;
+  }
+
+  let m = s;
+  let c = modPow(z, q, p);
+  let t = modPow(residue, q, p);
+  let root = modPow(residue, (q + 1n) / 2n, p);
+
+  while (t !== 1n) {
+    // Find the least i with t^(2^i) = 1
+    let i = 0n;
+    for (let square = t; square !== 1n; square = (square * square) % p) {
+      i++;
+    }
+
+    const b = modPow(c, 1n << (m - i - 1n), p);
+    m = i;
+    c = (b * b) % p;
+    t = (t * c) % p;
+    root = (root * b) % p;
+  }
+
+  return root < p - root ? root : p - root;
+}
+
+/**
+ * Solve a system of congruences x ≡ residues[k] (mod moduli[k]) by the Chinese remainder
+ * theorem. The moduli need not be coprime.
+ * @param residues - The residues
+ * @param moduli - The moduli
+ * @returns The least non-negative solution and the modulus it is unique to
+ * @throws Error if the congruences contradict each other
+ */
+export function chineseRemainder(residues: bigint[], moduli: bigint[]): [bigint, bigint] {
+  let solution = 0n;
+  let modulus = 1n;
+
+  residues.forEach((residue, index) => {
+    const n = moduli[index];
+    const g = bigGcd(modulus, n);
+    const difference = residue - solution;
+
+    if (difference % g !== 0n) {
+      throw new Error(`x ≡ ${residue} (mod ${n}) contradicts the congruences before it`);
+    }
+
+    // Solve solution + modulus * t ≡ residue (mod n) for t
+    const step = reduce((difference / g) * modInverse(modulus / g, n / g), n / g);
+    solution += modulus * step;
+    modulus = (modulus / g) * n;
+    solution = reduce(solution, modulus);
+  });
+
+  return [solution, modulus];
+}
+
+/**
+ * Apply an operator of a modular context to two scalar values
+ * @param operator - One of the modular operators
+ * @param left - The left operand
+ * @param right - The right operand, which is an ordinary integer for '^'
+ * @param modulus - The modulus of the context
+ * @returns The residue, or the truth value of a congruence for '==' and '!='
+ */
+export function applyModularOperator(
+  operator: string,
+  left: ExpressionValue,
+  right: ExpressionValue,
+  modulus: NumericValue
+): ExpressionValue {
+  const n = toInteger(modulus);
+  const a = reduce(toInteger(left), n);
+  const result = (value: bigint) => fromInteger(value, [left, right, modulus]);
+
+  if (operator === '^') {
+    return result(modPower(a, toInteger(right), n));
+  }
+
+  const b = reduce(toInteger(right), n);
+
+  switch (operator) {
+    case '+': return result(reduce(a + b, n));
+    case '-': return result(reduce(a - b, n));
+    case '*': return result(reduce(a * b, n));
+    case '/': return result(reduce(a * modInverse(toInteger(right), n), n));
+    case '==': return a === b;
+    case '!=': return a !== b;
+    default:
+      throw new Error(`Unknown modular operator: ${operator}`);
+  }
+}
+
+/**
+ * Reduce the value of a modular expression to its least non-negative residue. Truth values
+ * of congruences are left as they are.
+ * @param value - A scalar value
+ * @param modulus - The modulus
+ */
+export function reduceModulo(value: ExpressionValue, modulus: NumericValue): ExpressionValue {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  return fromInteger(reduce(toInteger(value), toInteger(modulus)), [value, modulus]);
+}
@@ -0,0 +1,625 @@
+/**
+ * Numeric tower for the expression engine
+ *
+ * Values are held in the cheapest representation that is still exact: BigInt integers,
+ * then reduced rationals, then JavaScript floats. Binary operations promote both operands
+ * to the higher of their two levels. Values are plain data so they survive structured
+ * cloning to and from the computation workers.
+ */
+
+import { NumericPrecision } from './types';
+
+/**
+ * Exact rational number, always reduced with a denominator greater than one
+ */
+export interface RationalValue {
+  type: 'rational';
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/**
+ * Any value of the numeric tower
+ */
+export type NumericValue = number | bigint | RationalValue;
+
+/**
+ * Levels of the numeric tower, from most to least exact
+ */
+export enum NumericLevel {
+  Integer = 0,
+  Rational = 1,
+  Float = 2,
+}
+
+/**
+ * Largest exact result (in bits) that integer powers and factorials may produce
+ */
+export const MAX_EXACT_BITS = 1 << 20;
+
+/**
+ * Check whether a value is a rational
+ * @param value - The value to check
+ */
+export function isRational(value: unknown): value is RationalValue {
+  return typeof value === 'object' && value !== null && (value as RationalValue).type === 'rational';
+}
+
+/**
+ * Check whether a value belongs to the numeric tower
+ * @param value - The value to check
+ */
+export function isNumeric(value: unknown): value is NumericValue {
+  return typeof value === 'number' || typeof value === 'bigint' || isRational(value);
+}
+
+/**
+ * Check whether a value is held exactly (integer or rational)
+ * @param value - The value to check
+ */
+export function isExact(value: unknown): value is bigint | RationalValue {
+  return typeof value === 'bigint' || isRational(value);
+}
+
+/**
+ * Get the tower level of a numeric value
+ * @param value - The numeric value
+ */
+export function levelOf(value: NumericValue): NumericLevel {
+  if (typeof value === 'bigint') return NumericLevel.Integer;
+  if (typeof value === 'number') return NumericLevel.Float;
+  return NumericLevel.Rational;
+}
+
+/**
+ * Number of bits needed to represent the magnitude of a BigInt
+ * @param n - The integer
+ */
+export function bitLength(n: bigint): number {
+  return n === 0n ? 0 : (n < 0n ? -n : n).toString(2).length;
+}
+
+/**
+ * Greatest common divisor of two BigInts (always non-negative)
+ */
+export function bigGcd(a: bigint, b: bigint): bigint {
+  let x = a < 0n ? -a : a;
+  let y = b < 0n ? -b : b;
+
+  while (y > 0n) {
+    [x, y] = [y, x % y];
+  }
+
+  return x;
+}
+
+/**
+ * Integer square root (floor) of a non-negative BigInt
+ * @param n - The integer
+ */
+export function integerSqrt(n: bigint): bigint {
+  if (n < 0n) {
+    throw new Error('Square root of a negative integer');
+  }
+  if (n < 2n) {
+    return n;
+  }
+
+  // Newton's iteration from an initial guess above the root
+  let x = 1n << BigInt(Math.ceil(bitLength(n) / 2));
+  for (;;) {
+    const y = (x + n / x) >> 1n;
+    if (y >= x) {
+      return x;
+    }
+    x = y;
+  }
+}
+
+/**
+ * Create a reduced rational, collapsing to an integer when the denominator divides out
+ * @param numerator - The numerator
+ * @param denominator - The denominator
+ * @returns The reduced value
+ */
+export function createRational(numerator: bigint, denominator: bigint): bigint | RationalValue {
+  if (denominator === 0n) {
+    throw new Error('Division by zero');
+  }
+
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+
+  const divisor = bigGcd(numerator, denominator);
+  if (divisor > 1n) {
+    numerator /= divisor;
+    denominator /= divisor;
+  }
+
+  return denominator === 1n ? numerator : { type: 'rational', numerator, denominator };
+}
+
+/**
+ * Convert a numeric value to a float
+ * @param value - The numeric value
+ */
+export function toFloat(value: NumericValue): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+
+  const numerator = Number(value.numerator);
+  const denominator = Number(value.denominator);
+
+  if (Number.isFinite(numerator) && Number.isFinite(denominator)) {
+    return numerator / denominator;
+  }
+
+  // Drop low-order bits of very large terms so both fit in a double before dividing
+  const shift = BigInt(Math.max(bitLength(value.numerator), bitLength(value.denominator)) - 1000);
+  return Number(value.numerator >> shift) / Number(value.denominator >> shift);
+}
+
+/**
+ * Approximate a float by a fraction using its continued fraction expansion. The last
+ * convergent whose denominator stays within the limit is returned, so the result is
+ * the closest fraction with a denominator no larger than any earlier convergent.
+ * @param value - The finite float to approximate
+ * @param maxDenominator - Largest denominator to consider
+ * @returns The approximating integer or rational
+ */
+export function approximateFraction(value: number, maxDenominator: number = 1000000): bigint | RationalValue {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Cannot approximate ${value} by a fraction`);
+  }
+
+  const limit = BigInt(Math.max(1, Math.floor(maxDenominator)));
+
+  // Convergents h/k of the expansion, starting from 1/0 and 0/1
+  let [h, previousH] = [1n, 0n];
+  let [k, previousK] = [0n, 1n];
+  let remainder = value;
+
+  for (let i = 0; i < 64; i++) {
+    const term = Math.floor(remainder);
+    const a = BigInt(term);
+    const nextK = a * k + previousK;
+
+    if (nextK > limit) {
+      break;
+    }
+
+    [h, previousH] = [a * h + previousH, h];
+    [k, previousK] = [nextK, k];
+
+    const fraction = remainder - term;
+    if (fraction === 0 || toFloat(createRational(h, k)) === value) {
+      break;
+    }
+    remainder = 1 / fraction;
+  }
+
+  return createRational(h, k);
+}
+
+/**
+ * Get the numerator and denominator of an exact value
+ */
+function toFraction(value: bigint | RationalValue): [bigint, bigint] {
+  return typeof value === 'bigint' ? [value, 1n] : [value.numerator, value.denominator];
+}
+
+/**
+ * Digits of the bases from 2 to 36, in order of value
+ */
+const BASE_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Bases written with a prefix instead of a base and '#'
+ */
+const BASE_PREFIXES: Record<string, number> = { '0x': 16, '0b': 2, '0o': 8 };
+
+/**
+ * Integer literal in a base other than ten
+ */
+export interface BaseLiteral {
+  base: number;
+  digits: string;
+}
+
+/**
+ * Split an integer literal written in another base (0xff, 0b101, 0o17 or 36#zz) into
+ * its base and digits
+ * @param text - The literal text from the tokenizer
+ * @returns The base and digits, or null for a decimal literal
+ */
+export function splitBaseLiteral(text: string): BaseLiteral | null {
+  const prefixed = BASE_PREFIXES[text.slice(0, 2).toLowerCase()];
+  if (prefixed) {
+    return { base: prefixed, digits: text.slice(2) };
+  }
+
+  const separator = text.indexOf('#');
+  return separator > 0 ? { base: parseInt(text.slice(0, separator), 10), digits: text.slice(separator + 1) } : null;
+}
+
+/**
+ * Check an integer literal written in another base
+ * @param text - The literal text
+ * @returns Why the literal is invalid, or null if it is valid (or decimal)
+ */
+export function validateBaseLiteral(text: string): string | null {
+  const literal = splitBaseLiteral(text);
+  if (!literal) {
+    return null;
+  }
+
+  const { base, digits } = literal;
+  if (base < 2 || base > 36) {
+    return `The base of ${text} must be from 2 to 36`;
+  }
+
+  const invalid = [...digits.toLowerCase()].find(digit => !BASE_DIGITS.slice(0, base).includes(digit));
+  return invalid ? `Invalid digit '${invalid}' in base ${base} literal ${text}` : null;
+}
+
+/**
+ * Add the prefix of a base to digits written in it, giving a literal that reads back as the
+ * same number: 0x for hexadecimal, 0b for binary, 0o for octal and 'base#' for other bases
+ * @param digits - The digits, with an optional leading minus sign
+ * @param base - The base, from 2 to 36
+ */
+export function withBasePrefix(digits: string, base: number): string {
+  const sign = digits.startsWith('-') ? '-' : '';
+  const prefix = base === 10
+    ? ''
+    : Object.keys(BASE_PREFIXES).find(key => BASE_PREFIXES[key] === base) ?? `${base}#`;
+
+  return `${sign}${prefix}${digits.slice(sign.length)}`;
+}
+
+/**
+ * Write an integer as a literal in another base
+ * @param value - The integer
+ * @param base - The base, from 2 to 36
+ * @returns The literal, as in 0xff or 36#zz
+ */
+export function formatBaseLiteral(value: bigint, base: number): string {
+  return withBasePrefix(value.toString(base), base);
+}
+
+/**
+ * Parse a number literal according to the precision mode
+ *
+ * - standard: every literal is a float
+ * - high: integer literals (including 1e6) are exact, other literals are floats
+ * - maximum: every literal is exact, so 0.1 is the rational 1/10
+ *
+ * Integer literals in other bases (0xff, 36#zz) follow the same rules.
+ *
+ * @param text - The literal text from the tokenizer
+ * @param precision - The precision mode
+ */
+export function parseNumberLiteral(text: string, precision: NumericPrecision): NumericValue {
+  const literal = splitBaseLiteral(text);
+  if (literal) {
+    const problem = validateBaseLiteral(text);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const radix = BigInt(literal.base);
+    const value = [...literal.digits.toLowerCase()]
+      .reduce((total, digit) => total * radix + BigInt(BASE_DIGITS.indexOf(digit)), 0n);
+
+    return precision === 'standard' ? Number(value) : value;
+  }
+
+  const match = /^(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text);
+
+  if (precision === 'standard' || !match) {
+    return parseFloat(text);
+  }
+
+  const [, integerPart, fractionPart = '', exponentPart = '0'] = match;
+  const exponent = parseInt(exponentPart, 10);
+
+  // Literals this large or small are out of reach of exact arithmetic anyway
+  if (Math.abs(exponent) > 10000) {
+    return parseFloat(text);
+  }
+
+  const digits = BigInt((integerPart + fractionPart) || '0');
+  const scale = fractionPart.length - exponent;
+  const value = scale <= 0 ? digits * 10n ** BigInt(-scale) : createRational(digits, 10n ** BigInt(scale));
+
+  if (precision === 'high' && typeof value !== 'bigint') {
+    return parseFloat(text);
+  }
+
+  return value;
+}
+
+/**
+ * Promote a numeric value to the given tower level
+ * @param value - The value to promote
+ * @param level - The target level (not lower than the value's own level)
+ */
+function promote(value: NumericValue, level: NumericLevel): NumericValue {
+  if (level === NumericLevel.Float) {
+    return toFloat(value);
+  }
+  return value;
+}
+
+/**
+ * Promote two operands to a common level
+ */
+function unify(a: NumericValue, b: NumericValue): [NumericValue, NumericValue, NumericLevel] {
+  const level = Math.max(levelOf(a), levelOf(b)) as NumericLevel;
+  return [promote(a, level), promote(b, level), level];
+}
+
+/**
+ * Add two numeric values
+ */
+export function add(a: NumericValue, b: NumericValue): NumericValue {
+  const [x, y, level] = unify(a, b);
+
+  if (level === NumericLevel.Float) return (x as number) + (y as number);
+  if (level === NumericLevel.Integer) return (x as bigint) + (y as bigint);
+
+  const [xn, xd] = toFraction(x as bigint | RationalValue);
+  const [yn, yd] = toFraction(y as bigint | RationalValue);
+  return createRational(xn * yd + yn * xd, xd * yd);
+}
+
+/**
+ * Negate a numeric value
+ */
+export function negate(a: NumericValue): NumericValue {
+  if (typeof a === 'number') return -a;
+  if (typeof a === 'bigint') return -a;
+  return { type: 'rational', numerator: -a.numerator, denominator: a.denominator };
+}
+
+/**
+ * Subtract two numeric values
+ */
+export function subtract(a: NumericValue, b: NumericValue): NumericValue {
+  return add(a, negate(b));
+}
+
+/**
+ * Multiply two numeric values
+ */
+export function multiply(a: NumericValue, b: NumericValue): NumericValue {
+  const [x, y, level] = unify(a, b);
+
+  if (level === NumericLevel.Float) return (x as number) * (y as number);
+  if (level === NumericLevel.Integer) return (x as bigint) * (y as bigint);
+
+  const [xn, xd] = toFraction(x as bigint | RationalValue);
+  const [yn, yd] = toFraction(y as bigint | RationalValue);
+  return createRational(xn * yn, xd * yd);
+}
+
+/**
+ * Divide two numeric values; dividing exact values yields an exact rational
+ */
+export function divide(a: NumericValue, b: NumericValue): NumericValue {
+  if (isZero(b)) {
+    throw new Error('Division by zero');
+  }
+
+  const [x, y, level] = unify(a, b);
+
+  if (level === NumericLevel.Float) return (x as number) / (y as number);
+
+  const [xn, xd] = toFraction(x as bigint | RationalValue);
+  const [yn, yd] = toFraction(y as bigint | RationalValue);
+  return createRational(xn * yd, xd * yn);
+}
+
+/**
+ * Remainder of a division, taking the sign of the dividend like JavaScript's %
+ */
+export function modulo(a: NumericValue, b: NumericValue): NumericValue {
+  if (isZero(b)) {
+    throw new Error('Modulo by zero');
+  }
+
+  const [x, y, level] = unify(a, b);
+
+  if (level === NumericLevel.Float) return (x as number) % (y as number);
+  if (level === NumericLevel.Integer) return (x as bigint) % (y as bigint);
+
+  // a - b * trunc(a / b)
+  const quotient = divide(x, y) as bigint | RationalValue;
+  const [numerator, denominator] = toFraction(quotient);
+  const truncated = numerator / denominator;
+  return subtract(x, multiply(y, truncated));
+}
+
+/**
+ * Raise a value to a power; exact bases with integer exponents stay exact
+ */
+export function power(base: NumericValue, exponent: NumericValue): NumericValue {
+  if (typeof exponent !== 'bigint' || !isExact(base)) {
+    return Math.pow(toFloat(base), toFloat(exponent));
+  }
+
+  const [numerator, denominator] = toFraction(base);
+
+  if (exponent < 0n && numerator === 0n) {
+    throw new Error('Division by zero');
+  }
+
+  const magnitude = exponent < 0n ? -exponent : exponent;
+  const bits = Math.max(bitLength(numerator), bitLength(denominator)) * Number(magnitude);
+
+  if (bits > MAX_EXACT_BITS) {
+    throw new Error(`Exact result of ^ would exceed ${MAX_EXACT_BITS} bits`);
+  }
+
+  const top = numerator ** magnitude;
+  const bottom = denominator ** magnitude;
+
+  return exponent < 0n ? createRational(bottom, top) : createRational(top, bottom);
+}
+
+/**
+ * Compare two numeric values
+ * @returns -1, 0 or 1, or NaN when a float operand is NaN
+ */
+export function compare(a: NumericValue, b: NumericValue): number {
+  const [x, y, level] = unify(a, b);
+
+  if (level === NumericLevel.Float) {
+    const [left, right] = [x as number, y as number];
+    return left < right ? -1 : left > right ? 1 : left === right ? 0 : NaN;
+  }
+
+  const [xn, xd] = toFraction(x as bigint | RationalValue);
+  const [yn, yd] = toFraction(y as bigint | RationalValue);
+  const difference = xn * yd - yn * xd;
+
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+}
+
+/**
+ * Check two numeric values for numeric equality (1 == 1.0 across levels)
+ */
+export function equals(a: NumericValue, b: NumericValue): boolean {
+  return compare(a, b) === 0;
+}
+
+/**
+ * Check whether a numeric value is zero
+ */
+export function isZero(value: NumericValue): boolean {
+  return typeof value === 'bigint' ? value === 0n : typeof value === 'number' ? value === 0 : false;
+}
+
+/**
+ * Absolute value
+ */
+export function abs(value: NumericValue): NumericValue {
+  return compare(value, 0n) < 0 ? negate(value) : value;
+}
+
+/**
+ * Round an exact value towards negative infinity
+ */
+export function floor(value: NumericValue): NumericValue {
+  if (typeof value === 'number') return Math.floor(value);
+  if (typeof value === 'bigint') return value;
+
+  const quotient = value.numerator / value.denominator;
+  return value.numerator < 0n ? quotient - 1n : quotient;
+}
+
+/**
+ * Round an exact value towards positive infinity
+ */
+export function ceil(value: NumericValue): NumericValue {
+  if (typeof value === 'number') return Math.ceil(value);
+  return negate(floor(negate(value)));
+}
+
+/**
+ * Round to the nearest integer, with halves rounded up like Math.round
+ */
+export function round(value: NumericValue): NumericValue {
+  if (typeof value === 'number') return Math.round(value);
+  return floor(add(value, createRational(1n, 2n)));
+}
+
+/**
+ * Square root, exact for perfect squares of exact values
+ */
+export function sqrt(value: NumericValue): NumericValue {
+  if (isExact(value) && compare(value, 0n) >= 0) {
+    const [numerator, denominator] = toFraction(value);
+    const top = integerSqrt(numerator);
+    const bottom = integerSqrt(denominator);
+
+    if (top * top === numerator && bottom * bottom === denominator) {
+      return createRational(top, bottom);
+    }
+  }
+
+  return Math.sqrt(toFloat(value));
+}
+
+/**
+ * Convert an integer-valued numeric value to a BigInt
+ * @param value - The value
+ * @returns The integer, or null if the value is not an integer
+ */
+export function toBigInt(value: NumericValue): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+  return null;
+}
+
+/**
+ * Modular exponentiation on BigInts
+ */
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base %= modulus;
+
+  while (exponent > 0n) {
+    if (exponent & 1n) {
+      result = (result * base) % modulus;
+    }
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+
+  return result;
+}
+
+/**
+ * Miller-Rabin primality test. The witness set is deterministic for every n below
+ * 3.3 * 10^24 and gives a strong probable-prime answer beyond that.
+ * @param n - The integer to test
+ */
+export function isProbablePrime(n: bigint): boolean {
+  if (n < 2n) return false;
+
+  const witnesses = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n, 41n];
+
+  for (const p of witnesses) {
+    if (n === p) return true;
+    if (n % p === 0n) return false;
+  }
+
+  // Write n - 1 as d * 2^r with d odd
+  let d = n - 1n;
+  let r = 0;
+  while ((d & 1n) === 0n) {
+    d >>= 1n;
+    r++;
+  }
+
+  for (const a of witnesses) {
+    let x = modPow(a, d, n);
+    if (x === 1n || x === n - 1n) continue;
+
+    let composite = true;
+    for (let i = 1; i < r; i++) {
+      x = (x * x) % n;
+      if (x === n - 1n) {
+        composite = false;
+        break;
+      }
+    }
+
+    if (composite) return false;
+  }
+
+  return true;
+}
@@ -6,37 +6,122 @@ import {
   NumberNode,
   BinaryOperationNode,
   UnaryOperationNode,
+  PostfixOperationNode,
   FunctionCallNode,
   VariableNode,
+  ConditionalNode,
+  ListNode,
+  SetNode,
+  RangeNode,
+  ConversionNode,
+  ModularNode,
+  AssignmentNode,
+  FunctionDefinitionNode,
+  ErrorNode,
+  CustomOperationNode,
+  LiteralNode,
+  OperatorDefinition,
+  OperatorFixity,
   ParseResult,
+  QuickFix,
+  SourceRange,
   SyntaxError
 } from './types';
 import { Tokenizer } from './tokenizer';
+import { ExtensionRegistry } from './extensions';
+import { PRECEDENCE } from './printer';
+import { validateBaseLiteral } from './numeric';
 
 /**
- * Recursive descent parser for mathematical expressions
+ * Closing bracket of each kind of opening bracket
+ */
+const CLOSING_BRACKETS: Partial<Record<TokenType, { type: TokenType; value: string }>> = {
+  [TokenType.LeftParen]: { type: TokenType.RightParen, value: ')' },
+  [TokenType.LeftBracket]: { type: TokenType.RightBracket, value: ']' },
+  [TokenType.LeftBrace]: { type: TokenType.RightBrace, value: '}' }
+};
+
+/**
+ * Token types of closing brackets
+ */
+const CLOSING_TYPES = new Set([TokenType.RightParen, TokenType.RightBracket, TokenType.RightBrace]);
+
+/**
+ * Token types of opening brackets
+ */
+const OPENING_TYPES = new Set([TokenType.LeftParen, TokenType.LeftBracket, TokenType.LeftBrace]);
+
+/**
+ * Quick fix deleting a token
+ */
+const removeFix = (token: Token): QuickFix => ({
+  title: `Remove '${token.value}'`,
+  start: token.start,
+  end: token.end + 1,
+  replacement: ''
+});
+
+/**
+ * Quick fix inserting text at a position
+ */
+const insertFix = (text: string, position: number): QuickFix => ({
+  title: `Insert '${text}'`,
+  start: position,
+  end: position,
+  replacement: text
+});
+
+/**
+ * Apply a quick fix to the expression it was reported for
+ * @param expression - The expression text
+ * @param fix - The quick fix
+ * @returns The fixed expression
+ */
+export const applyQuickFix = (expression: string, fix: QuickFix): string => {
+  return expression.slice(0, fix.start) + fix.replacement + expression.slice(fix.end);
+};
+
+/**
+ * Recursive descent parser for mathematical expressions. Parsing recovers from syntax errors:
+ * stray closing brackets are dropped, missing operands are stood in for by Error nodes and
+ * unreadable tokens are skipped up to the next argument or closing bracket, so that every
+ * error is reported and a partial tree is still built.
  */
 export class Parser {
+  // Reserved words that cannot be used as variable names
+  public static readonly KEYWORDS = ['step', 'in', 'to'];
+
   private tokens: Token[] = [];
   private currentTokenIndex: number = 0;
   private errors: SyntaxError[] = [];
   private tokenizer: Tokenizer;
+  
+  // Source ranges of the function calls and arguments parsed
+  private ranges: Map<ASTNode, SourceRange> = new Map();
 
-  constructor() {
-    this.tokenizer = new Tokenizer();
+  /**
+   * Create a parser
+   * @param extensions - Operators and literals added by plugins
+   */
+  constructor(private extensions: ExtensionRegistry = new ExtensionRegistry()) {
+    this.tokenizer = new Tokenizer(extensions);
   }
 
   /**
    * Parse a mathematical expression string into an AST
    * @param expression - The expression to parse
-   * @returns Parse result including tokens, AST, and errors
+   * @returns Parse result including tokens, AST, and errors. The AST is built even when there
+   *          are errors, with Error nodes where the input could not be read.
    */
   public parse(expression: string): ParseResult {
     this.errors = [];
+    this.ranges = new Map();
     
-    // Tokenize the expression
-    this.tokens = this.tokenizer.tokenize(expression)
-      .filter(token => token.type !== TokenType.Whitespace); // Ignore whitespace tokens for parsing
+    // Tokenize the expression, ignoring whitespace tokens for parsing and
+    // dropping closing brackets that close nothing
+    this.tokens = this.matchBrackets(
+      this.tokenizer.tokenize(expression).filter(token => token.type !== TokenType.Whitespace)
+    );
     
     this.currentTokenIndex = 0;
     
@@ -44,53 +129,378 @@ export class Parser {
     if (this.tokens.length === 0) {
       return {
         tokens: this.tokenizer.tokenize(expression), // Return all tokens including whitespace
-        errors: []
+        errors: this.errors
       };
     }
 
     try {
-      // Start parsing from the expression rule
-      const ast = this.parseExpression();
+      // Start parsing from the statement rule
+      const ast = this.parseStatement();
       
-      // Check if we've consumed all tokens
-      if (this.currentTokenIndex < this.tokens.length) {
-        this.addError(`Unexpected token: ${this.tokens[this.currentTokenIndex].value}`, 
-          this.tokens[this.currentTokenIndex].start);
+      // Report tokens left after a complete expression, resuming after each one to find later errors
+      while (this.currentTokenIndex < this.tokens.length) {
+        const token = this.currentToken();
+        this.addError(`Unexpected token: ${token.value}`, token.start, token.end + 1, this.unexpectedTokenFixes(token));
+        this.advance();
+        
+        if (this.currentTokenIndex < this.tokens.length) {
+          this.parseExpression();
+        }
       }
       
+      // Brackets are matched before parsing, so their errors are reported first
       return {
         tokens: this.tokenizer.tokenize(expression), // Return all tokens including whitespace
-        ast: this.errors.length === 0 ? ast : undefined,
-        errors: this.errors
+        ast,
+        errors: this.sortedErrors(),
+        ranges: this.ranges
       };
     } catch (error) {
       // Catch any runtime errors during parsing
       const errorMessage = error instanceof Error ? error.message : 'Unknown parsing error';
-      this.addError(errorMessage, this.currentToken()?.start ?? 0);
+      const position = this.currentToken()?.start ?? 0;
+      this.addError(errorMessage, position, position);
       
       return {
         tokens: this.tokenizer.tokenize(expression),
-        errors: this.errors
+        errors: this.sortedErrors()
       };
     }
   }
 
   /**
-   * Expression parsing - lowest precedence: +, -
+   * Get the errors reported so far in the order of their positions in the input
+   */
+  private sortedErrors(): SyntaxError[] {
+    return this.errors.sort((a, b) => a.position - b.position);
+  }
+
+  /**
+   * Match brackets before parsing. A closing bracket that closes nothing is reported and dropped,
+   * and one of the wrong kind is reported and read as the expected one, so that the parser sees
+   * balanced brackets. Unclosed brackets are left to the parser, which reports them where it
+   * expects the closing bracket.
+   * @param tokens - The tokens without whitespace
+   * @returns The tokens to parse
+   */
+  private matchBrackets(tokens: Token[]): Token[] {
+    const open: Token[] = [];
+    const matched: Token[] = [];
+
+    for (const token of tokens) {
+      if (OPENING_TYPES.has(token.type)) {
+        open.push(token);
+      }
+      if (!CLOSING_TYPES.has(token.type)) {
+        matched.push(token);
+        continue;
+      }
+
+      // Close the innermost bracket of the same kind; brackets opened inside it stay unclosed
+      let index = open.length - 1;
+      while (index >= 0 && CLOSING_BRACKETS[open[index].type]?.type !== token.type) {
+        index--;
+      }
+
+      if (index >= 0) {
+        open.length = index;
+        matched.push(token);
+        continue;
+      }
+
+      const opener = open.pop();
+      if (!opener) {
+        this.addError(`Unmatched '${token.value}'`, token.start, token.end + 1, [removeFix(token)]);
+        continue;
+      }
+
+      const expected = CLOSING_BRACKETS[opener.type]!;
+      this.addError(
+        `Expected '${expected.value}' to close '${opener.value}' but found '${token.value}'`,
+        token.start,
+        token.end + 1,
+        [{ title: `Replace '${token.value}' with '${expected.value}'`, start: token.start, end: token.end + 1, replacement: expected.value }]
+      );
+      matched.push({ ...token, type: expected.type });
+    }
+
+    return matched;
+  }
+
+  /**
+   * Quick fixes for a token left after a complete expression
+   * @param token - The unexpected token
+   */
+  private unexpectedTokenFixes(token: Token): QuickFix[] | undefined {
+    if (token.type === TokenType.Operator && token.value === '=') {
+      return [{ title: `Replace '=' with '=='`, start: token.start, end: token.end + 1, replacement: '==' }];
+    }
+    if (token.type === TokenType.Unknown) {
+      return [removeFix(token)];
+    }
+    return undefined;
+  }
+
+  /**
+   * Statement parsing - assignments and function definitions, otherwise a plain expression
+   */
+  private parseStatement(): ASTNode {
+    const token = this.currentToken();
+
+    // Variable assignment: name = expression
+    if (token.type === TokenType.Variable && this.isAssignmentOperator(this.currentTokenIndex + 1)) {
+      if (Parser.KEYWORDS.includes(token.value)) {
+        this.addError(`Cannot assign to keyword '${token.value}'`, token.start, token.end + 1);
+      }
+
+      this.advance(); // Consume variable name
+      this.advance(); // Consume '='
+
+      const value = this.parseExpression();
+
+      return {
+        type: NodeType.Assignment,
+        name: token.value,
+        value
+      } as AssignmentNode;
+    }
+
+    // Function definition: name(param, ...) = expression
+    if (token.type === TokenType.Function) {
+      const parameters = this.matchParameterList(this.currentTokenIndex + 1);
+
+      if (parameters) {
+        // Skip the name, the parameter list and the '='
+        this.currentTokenIndex = parameters.endIndex + 1;
+
+        const duplicate = parameters.names.find((name, index) => parameters.names.indexOf(name) !== index);
+        if (duplicate) {
+          this.addError(`Duplicate parameter '${duplicate}' in definition of '${token.value}'`, token.start, token.end + 1);
+        }
+
+        const body = this.parseExpression();
+
+        return {
+          type: NodeType.FunctionDefinition,
+          name: token.value,
+          parameters: parameters.names,
+          body
+        } as FunctionDefinitionNode;
+      }
+    }
+
+    return this.parseExpression();
+  }
+
+  /**
+   * Check whether the token at the given index is a single '=' assignment operator
+   * @param index - The token index to check
+   */
+  private isAssignmentOperator(index: number): boolean {
+    const token = this.tokens[index];
+    return token !== undefined && token.type === TokenType.Operator && token.value === '=';
+  }
+
+  /**
+   * Look ahead for a parameter list of the form (a, b, ...) followed by '='
+   * @param index - Index of the expected left parenthesis
+   * @returns The parameter names and the index of the '=' token, or null if there is no match
+   */
+  private matchParameterList(index: number): { names: string[]; endIndex: number } | null {
+    if (this.tokens[index]?.type !== TokenType.LeftParen) {
+      return null;
+    }
+
+    const names: string[] = [];
+    let i = index + 1;
+
+    // Empty parameter list
+    if (this.tokens[i]?.type === TokenType.RightParen) {
+      return this.isAssignmentOperator(i + 1) ? { names, endIndex: i + 1 } : null;
+    }
+
+    while (i < this.tokens.length) {
+      if (this.tokens[i].type !== TokenType.Variable) {
+        return null;
+      }
+      names.push(this.tokens[i].value);
+      i++;
+
+      if (this.tokens[i]?.type === TokenType.RightParen) {
+        return this.isAssignmentOperator(i + 1) ? { names, endIndex: i + 1 } : null;
+      }
+
+      if (this.tokens[i]?.value !== ',') {
+        return null;
+      }
+      i++;
+    }
+
+    return null;
+  }
+
+  /**
+   * Expression parsing - lowest precedence: unit conversion (5 km in m, 3 h to min) and
+   * base conversion (255 to base 16), which is read as a call to toBase
    */
   private parseExpression(): ASTNode {
-    let left = this.parseTerm();
+    const start = this.currentToken()?.start ?? 0;
+    let value = this.parseExtensionLevels(PRECEDENCE.conversion, () => this.parseConditional());
 
-    while (
-      this.currentTokenIndex < this.tokens.length && 
-      this.currentToken().type === TokenType.Operator && 
-      ['+', '-'].includes(this.currentToken().value)
-    ) {
-      const operator = this.currentToken().value;
-      this.advance();
+    // Arithmetic modulo n: a^b mod n
+    if (this.isOperator(['mod'])) {
+      this.advance(); // Consume 'mod'
+      
+      value = {
+        type: NodeType.Modular,
+        body: value,
+        modulus: this.parseAdditive()
+      } as ModularNode;
+    }
+
+    if (!this.isKeyword('in') && !this.isKeyword('to')) {
+      return value;
+    }
+
+    const valueEnd = Math.max(start, (this.tokens[this.currentTokenIndex - 1]?.end ?? 0) + 1);
+    this.advance(); // Consume 'in' or 'to'
+    
+    if (this.currentToken()?.type === TokenType.Variable && this.currentToken().value === 'base') {
+      this.advance(); // Consume 'base'
+      
+      const baseStart = this.currentToken()?.start ?? this.inputEnd();
+      const base = this.parseUnary();
+      const end = Math.max(baseStart, this.tokens[this.currentTokenIndex - 1].end + 1);
+      const call = {
+        type: NodeType.FunctionCall,
+        name: 'toBase',
+        arguments: [value, base]
+      } as FunctionCallNode;
+      
+      this.ranges.set(call, { start, end });
+      this.ranges.set(value, { start, end: valueEnd });
+      this.ranges.set(base, { start: baseStart, end });
       
-      const right = this.parseTerm();
+      return call;
+    }
+    
+    const unit = this.parseTerm();
+
+    return {
+      type: NodeType.Conversion,
+      value,
+      unit
+    } as ConversionNode;
+  }
+
+  /**
+   * Conditional parsing: cond ? a : b, right-associative
+   */
+  private parseConditional(): ASTNode {
+    const condition = this.parseExtensionLevels(PRECEDENCE.conditional, () => this.parseLogicalOr());
+
+    if (!this.isOperator(['?'])) {
+      return condition;
+    }
+
+    this.advance(); // Consume '?'
+    const consequent = this.parseConditional();
+
+    if (!this.isOperator([':'])) {
+      const message = `Expected ':' in conditional expression`;
+      const position = this.currentTokenIndex < this.tokens.length ? this.currentToken().start : this.inputEnd();
+      this.addError(message, position, position);
       
+      return {
+        type: NodeType.Conditional,
+        condition,
+        consequent,
+        alternate: { type: NodeType.Error, message } as ErrorNode
+      } as ConditionalNode;
+    }
+
+    this.advance(); // Consume ':'
+    const alternate = this.parseConditional();
+
+    return {
+      type: NodeType.Conditional,
+      condition,
+      consequent,
+      alternate
+    } as ConditionalNode;
+  }
+
+  /**
+   * Logical OR parsing: ||
+   */
+  private parseLogicalOr(): ASTNode {
+    return this.parseBinaryLevel(['||'], PRECEDENCE.logicalOr, () => this.parseLogicalAnd());
+  }
+
+  /**
+   * Logical AND parsing: &&
+   */
+  private parseLogicalAnd(): ASTNode {
+    return this.parseBinaryLevel(['&&'], PRECEDENCE.logicalAnd, () => this.parseEquality());
+  }
+
+  /**
+   * Equality parsing: ==, !=
+   */
+  private parseEquality(): ASTNode {
+    return this.parseBinaryLevel(['==', '!='], PRECEDENCE.equality, () => this.parseComparison());
+  }
+
+  /**
+   * Comparison parsing: <, >, <=, >=
+   */
+  private parseComparison(): ASTNode {
+    return this.parseBinaryLevel(['<', '>', '<=', '>='], PRECEDENCE.comparison, () => this.parseRange());
+  }
+
+  /**
+   * Range parsing: start..end with an optional 'step' (non-associative)
+   */
+  private parseRange(): ASTNode {
+    const parseBound = () => this.parseExtensionLevels(PRECEDENCE.range, () => this.parseAdditive());
+    const start = parseBound();
+
+    if (!this.isOperator(['..'])) {
+      return start;
+    }
+
+    this.advance(); // Consume '..'
+    const end = parseBound();
+
+    const range: RangeNode = {
+      type: NodeType.Range,
+      start,
+      end
+    };
+
+    if (this.isKeyword('step')) {
+      this.advance(); // Consume 'step'
+      range.step = parseBound();
+    }
+
+    return range;
+  }
+
+  /**
+   * Parse a left-associative chain of binary operators at one precedence level
+   * @param operators - The operators of this level
+   * @param precedence - The precedence of this level
+   * @param parseOperand - Parser for the next-higher precedence level
+   */
+  private parseBinaryLevel(operators: string[], precedence: number, parseOperand: () => ASTNode): ASTNode {
+    let left = this.parseExtensionLevels(precedence, parseOperand);
+
+    while (this.isOperator(operators)) {
+      const operator = this.currentToken().value;
+      this.advance();
+
+      const right = this.parseExtensionLevels(precedence, parseOperand);
+
       left = {
         type: NodeType.BinaryOperation,
         operator,
@@ -103,20 +513,21 @@ export class Parser {
   }
 
   /**
-   * Term parsing - medium precedence: *, /, %
+   * Additive parsing: +, -
    */
-  private parseTerm(): ASTNode {
-    let left = this.parseFactor();
+  private parseAdditive(): ASTNode {
+    const parseOperand = () => this.parseExtensionLevels(PRECEDENCE.additive, () => this.parseTerm());
+    let left = parseOperand();
 
     while (
       this.currentTokenIndex < this.tokens.length && 
       this.currentToken().type === TokenType.Operator && 
-      ['*', '/', '%'].includes(this.currentToken().value)
+      ['+', '-'].includes(this.currentToken().value)
     ) {
       const operator = this.currentToken().value;
       this.advance();
       
-      const right = this.parseFactor();
+      const right = parseOperand();
       
       left = {
         type: NodeType.BinaryOperation,
@@ -130,24 +541,25 @@ export class Parser {
   }
 
   /**
-   * Factor parsing - high precedence: ^
+   * Term parsing - medium precedence: *, /, %
    */
-  private parseFactor(): ASTNode {
-    let left = this.parsePrimary();
+  private parseTerm(): ASTNode {
+    return this.parseBinaryLevel(['*', '/', '%'], PRECEDENCE.multiplicative, () => this.parseImplicitProduct());
+  }
+
+  /**
+   * Implicit multiplication parsing: juxtaposed operands (2pi, 3(x+1), 9.81 m). A
+   * juxtaposition binds tighter than an explicit operator, so 3 m / 2 s divides by 2 s.
+   */
+  private parseImplicitProduct(): ASTNode {
+    let left = this.parseUnary();
+
+    while (this.currentTokenIndex < this.tokens.length && this.startsImplicitOperand(this.currentToken())) {
+      const right = this.parseUnary();
 
-    while (
-      this.currentTokenIndex < this.tokens.length && 
-      this.currentToken().type === TokenType.Operator && 
-      this.currentToken().value === '^'
-    ) {
-      const operator = this.currentToken().value;
-      this.advance();
-      
-      const right = this.parsePrimary();
-      
       left = {
         type: NodeType.BinaryOperation,
-        operator,
+        operator: '*',
         left,
         right
       } as BinaryOperationNode;
@@ -157,18 +569,48 @@ export class Parser {
   }
 
   /**
-   * Primary expression parsing - highest precedence: atoms (numbers, variables, functions, parenthesized expressions)
+   * Check whether a token directly following an operand starts an implicitly multiplied operand.
+   * A number can never be the right-hand side of a juxtaposition ("2 3", "x 2", "(a)2"), since
+   * that is more likely a missing operator than a product, so it is reported as ambiguous.
+   * @param token - The token following the left operand
    */
-  private parsePrimary(): ASTNode {
-    const token = this.currentToken();
+  private startsImplicitOperand(token: Token): boolean {
+    if (token.type === TokenType.Number) {
+      this.addError(
+        `Ambiguous implicit multiplication before '${token.value}': use '*' to multiply by a number`,
+        token.start,
+        token.end + 1,
+        [insertFix('*', token.start)]
+      );
+      return true;
+    }
+
+    return (
+      (token.type === TokenType.Variable && !Parser.KEYWORDS.includes(token.value)) ||
+      token.type === TokenType.Function ||
+      token.type === TokenType.LeftParen
+    );
+  }
 
-    // Handle unary operators: +, -
-    if (token.type === TokenType.Operator && ['+', '-'].includes(token.value)) {
-      const operator = token.value;
+  /**
+   * Unary parsing: prefix +, -, ! (binds looser than ^, so -2^2 is -(2^2))
+   */
+  private parseUnary(): ASTNode {
+    if (this.isOperator(['+', '-', '!', '!!'])) {
+      const operator = this.currentToken().value;
       this.advance();
-      
-      const argument = this.parsePrimary();
-      
+
+      const argument = this.parseUnary();
+
+      // A prefix '!!' is a double logical negation
+      if (operator === '!!') {
+        return {
+          type: NodeType.UnaryOperation,
+          operator: '!',
+          argument: { type: NodeType.UnaryOperation, operator: '!', argument } as UnaryOperationNode
+        } as UnaryOperationNode;
+      }
+
       return {
         type: NodeType.UnaryOperation,
         operator,
@@ -176,20 +618,233 @@ export class Parser {
       } as UnaryOperationNode;
     }
 
-    // Handle numbers
+    return this.parseExtensionLevels(PRECEDENCE.unary, () => this.parsePower());
+  }
+
+  /**
+   * Power parsing - high precedence: ^, right-associative (2^3^2 is 2^(3^2))
+   */
+  private parsePower(): ASTNode {
+    const base = this.parseExtensionLevels(PRECEDENCE.power, () => this.parsePostfix());
+
+    if (!this.isOperator(['^'])) {
+      return base;
+    }
+
+    this.advance(); // Consume '^'
+
+    // The exponent may carry its own sign (2^-1) and recurses for right associativity
+    const exponent = this.parseUnary();
+
+    return {
+      type: NodeType.BinaryOperation,
+      operator: '^',
+      left: base,
+      right: exponent
+    } as BinaryOperationNode;
+  }
+
+  /**
+   * Postfix parsing: factorial n! and double factorial n!!
+   */
+  private parsePostfix(): ASTNode {
+    let argument = this.parseExtensionLevels(PRECEDENCE.postfix, () => this.parsePrimary());
+
+    while (this.isOperator(['!', '!!'])) {
+      const operator = this.currentToken().value;
+      this.advance();
+
+      argument = {
+        type: NodeType.PostfixOperation,
+        operator,
+        argument
+      } as PostfixOperationNode;
+    }
+
+    return argument;
+  }
+
+  /**
+   * Parse the levels of the extension operators whose precedence lies from a built-in level
+   * up to the next, in increasing order of precedence, above the next built-in level
+   * @param precedence - The precedence of the built-in level whose operand is parsed
+   * @param parseOperand - Parser for the next built-in level
+   */
+  private parseExtensionLevels(precedence: number, parseOperand: () => ASTNode): ASTNode {
+    const levels = this.extensions.getPrecedences(precedence, precedence + 1);
+    const parseLevel = (index: number): ASTNode => index === levels.length
+      ? parseOperand()
+      : this.parseExtensionLevel(levels[index], () => parseLevel(index + 1));
+
+    return parseLevel(0);
+  }
+
+  /**
+   * Parse the extension operators of one precedence: prefix operators before an operand,
+   * then any chain of postfix and infix operators after it
+   * @param precedence - The precedence of the operators
+   * @param parseOperand - Parser for the next-higher precedence level
+   */
+  private parseExtensionLevel(precedence: number, parseOperand: () => ASTNode): ASTNode {
+    const prefix = this.extensionOperator('prefix', precedence);
+    if (prefix) {
+      this.advance();
+      return this.customOperation(prefix, [this.parseExtensionLevel(precedence, parseOperand)]);
+    }
+
+    let left = parseOperand();
+
+    for (;;) {
+      const postfix = this.extensionOperator('postfix', precedence);
+      if (postfix) {
+        this.advance();
+        left = this.customOperation(postfix, [left]);
+        continue;
+      }
+
+      const infix = this.extensionOperator('infix', precedence);
+      if (!infix) {
+        return left;
+      }
+      this.advance();
+
+      // A right-associative operator takes the rest of the chain as its right operand
+      const right = infix.associativity === 'right'
+        ? this.parseExtensionLevel(precedence, parseOperand)
+        : parseOperand();
+      left = this.customOperation(infix, [left, right]);
+    }
+  }
+
+  /**
+   * Get the extension operator at the current token, if it has a fixity and precedence
+   * @param fixity - The fixity the operator must have
+   * @param precedence - The precedence the operator must have
+   */
+  private extensionOperator(fixity: OperatorFixity, precedence: number): OperatorDefinition | undefined {
+    const token = this.currentToken();
+    const operator = token?.type === TokenType.Operator ? this.extensions.findOperator(token.value, fixity) : undefined;
+
+    // A prefix mod of an extension, as in a ≡ b (mod n), leaves mod(n) { ... } to the grammar
+    if (fixity === 'prefix' && this.opensModularBlock()) {
+      return undefined;
+    }
+
+    return operator?.precedence === precedence ? operator : undefined;
+  }
+
+  /**
+   * Check whether a modular block, mod(n) { ... }, starts at the current token
+   */
+  private opensModularBlock(): boolean {
+    const token = this.currentToken();
+    if (token?.type !== TokenType.Operator || token.value !== 'mod') {
+      return false;
+    }
+
+    // Find the bracket closing the modulus
+    let close = this.currentTokenIndex + 1;
+    for (let depth = 0; close < this.tokens.length; close++) {
+      const { type } = this.tokens[close];
+      depth += type === TokenType.LeftParen ? 1 : type === TokenType.RightParen ? -1 : 0;
+      if (depth === 0) {
+        break;
+      }
+    }
+
+    return this.tokens[this.currentTokenIndex + 1]?.type === TokenType.LeftParen
+      && this.tokens[close + 1]?.type === TokenType.LeftBrace;
+  }
+
+  /**
+   * Build the node of an extension operation
+   * @param operator - The operator definition
+   * @param operands - The operand nodes
+   */
+  private customOperation(operator: OperatorDefinition, operands: ASTNode[]): CustomOperationNode {
+    return {
+      type: NodeType.CustomOperation,
+      operator: operator.symbol,
+      fixity: operator.fixity,
+      precedence: operator.precedence,
+      associativity: operator.associativity ?? 'left',
+      operands
+    };
+  }
+
+  /**
+   * Primary expression parsing - highest precedence: atoms (numbers, variables, functions, parenthesized expressions)
+   */
+  private parsePrimary(): ASTNode {
+    const token = this.currentToken();
+
+    // Operand missing at the end of the input (e.g. "2^" or "3 +")
+    if (!token) {
+      return this.missingOperand('Unexpected end of expression', this.inputEnd(), this.inputEnd());
+    }
+
+    // Arithmetic modulo n in a block: mod(n) { body }
+    if (token.type === TokenType.Operator && token.value === 'mod'
+      && this.tokens[this.currentTokenIndex + 1]?.type === TokenType.LeftParen) {
+      this.advance();
+      return this.parseModularBlock(token);
+    }
+
+    // Operand missing before an operator, comma or closing bracket (e.g. "2 + * 3" or "(1 + )").
+    // The token is left to the enclosing rule, which continues after it.
+    if (
+      token.type === TokenType.Operator ||
+      token.type === TokenType.Comma ||
+      CLOSING_TYPES.has(token.type)
+    ) {
+      return this.missingOperand(`Missing operand before '${token.value}'`, token.start, token.end + 1);
+    }
+
+    // Handle numbers, reporting digits outside the base of the literal
     if (token.type === TokenType.Number) {
       this.advance();
       
+      const problem = validateBaseLiteral(token.value);
+      if (problem) {
+        this.addError(problem, token.start, token.end + 1);
+        
+        return {
+          type: NodeType.Error,
+          message: problem
+        } as ErrorNode;
+      }
+      
       return {
         type: NodeType.Number,
         value: token.value
       } as NumberNode;
     }
 
+    // Handle literals in syntaxes added by extensions
+    if (token.type === TokenType.Literal) {
+      this.advance();
+      
+      return {
+        type: NodeType.Literal,
+        name: this.extensions.readLiteral(token.value, 0)?.name ?? '',
+        text: token.value
+      } as LiteralNode;
+    }
+
     // Handle variables
     if (token.type === TokenType.Variable) {
       const name = token.value;
       this.advance();
+
+      if (Parser.KEYWORDS.includes(name)) {
+        const message = `Unexpected keyword: ${name}`;
+        this.addError(message, token.start, token.end + 1);
+        
+        return {
+          type: NodeType.Error,
+          message
+        } as ErrorNode;
+      }
       
       return {
         type: NodeType.Variable,
@@ -205,8 +860,8 @@ export class Parser {
       // Expect left parenthesis
       if (this.currentTokenIndex >= this.tokens.length || 
           this.currentToken().type !== TokenType.LeftParen) {
-        this.addError(`Expected '(' after function name '${name}'`, 
-          this.currentTokenIndex < this.tokens.length ? this.currentToken().start : token.end + 1);
+        const position = this.currentTokenIndex < this.tokens.length ? this.currentToken().start : token.end + 1;
+        this.addError(`Expected '(' after function name '${name}'`, position, position);
         
         // Return a partial function call node to continue parsing
         return {
@@ -218,49 +873,51 @@ export class Parser {
       
       this.advance(); // Consume left parenthesis
       
-      // Parse function arguments
+      // Parse function arguments separated by commas, unless the list is empty
       const args: ASTNode[] = [];
+      let closed = this.currentToken()?.type === TokenType.RightParen;
       
-      // Empty argument list
-      if (this.currentTokenIndex < this.tokens.length && 
-          this.currentToken().type === TokenType.RightParen) {
-        this.advance(); // Consume right parenthesis
+      while (!closed) {
+        args.push(this.parseArgument());
         
-        return {
-          type: NodeType.FunctionCall,
-          name,
-          arguments: args
-        } as FunctionCallNode;
-      }
-      
-      // Parse arguments separated by commas
-      let continueParsingArgs = true;
-      while (continueParsingArgs) {
-        args.push(this.parseExpression());
+        // Skip anything else up to the next argument or the end of the call
+        if (
+          this.currentTokenIndex < this.tokens.length &&
+          this.currentToken().type !== TokenType.RightParen &&
+          this.currentToken().value !== ','
+        ) {
+          const start = this.currentToken().start;
+          this.addError(`Expected ',' between function arguments`, start, this.synchronize(true));
+        }
         
         // Check for comma or right parenthesis
         if (this.currentTokenIndex >= this.tokens.length) {
-          this.addError(`Expected ')' or ',' in function arguments`, token.end + 1);
+          this.addError(`Expected ')' or ',' in function arguments`, token.end + 1, this.inputEnd(),
+            [insertFix(')', this.inputEnd())]);
           break;
         }
         
         if (this.currentToken().type === TokenType.RightParen) {
-          this.advance(); // Consume right parenthesis
-          continueParsingArgs = false;
-        } else if (this.currentToken().value === ',') {
-          this.advance(); // Consume comma
+          closed = true;
         } else {
-          this.addError(`Expected ',' between function arguments`, this.currentToken().start);
-          // Try to recover by assuming a comma
-          continueParsingArgs = false;
+          this.advance(); // Consume comma
         }
       }
       
-      return {
+      const end = closed ? this.currentToken().end + 1 : this.inputEnd();
+      if (closed) {
+        this.advance(); // Consume right parenthesis
+      }
+      
+      const call = {
         type: NodeType.FunctionCall,
         name,
         arguments: args
       } as FunctionCallNode;
+      
+      this.ranges.set(call, { start: token.start, end });
+      
+      return call;
     }
 
     // Handle parenthesized expressions
@@ -269,27 +926,229 @@ export class Parser {
       
       const expr = this.parseExpression();
       
-      // Expect right parenthesis
-      if (this.currentTokenIndex >= this.tokens.length || 
+      // Skip anything else before the right parenthesis
+      if (this.currentTokenIndex < this.tokens.length && 
           this.currentToken().type !== TokenType.RightParen) {
-        this.addError(`Expected ')'`, 
-          this.currentTokenIndex < this.tokens.length ? this.currentToken().start : token.end + 1);
-      } else {
+        const start = this.currentToken().start;
+        const end = this.synchronize(false);
+        
+        // Stopped at once by the bracket closing an enclosing one, as in "[(1]"
+        this.addError(`Expected ')'`, start, end, end === start ? [insertFix(')', start)] : undefined);
+      }
+      
+      // Expect right parenthesis
+      if (this.currentTokenIndex >= this.tokens.length) {
+        this.addError(`Expected ')'`, token.end + 1, this.inputEnd(), [insertFix(')', this.inputEnd())]);
+      } else if (this.currentToken().type === TokenType.RightParen) {
         this.advance(); // Consume right parenthesis
       }
       
       return expr;
     }
 
-    // Unexpected token
-    this.addError(`Unexpected token: ${token.value}`, token.start);
-    this.advance(); // Skip the problematic token to try to continue parsing
+    // Handle list literals
+    if (token.type === TokenType.LeftBracket) {
+      return {
+        type: NodeType.List,
+        elements: this.parseElements(token, TokenType.RightBracket, ']')
+      } as ListNode;
+    }
+
+    // Handle set literals
+    if (token.type === TokenType.LeftBrace) {
+      return {
+        type: NodeType.Set,
+        elements: this.parseElements(token, TokenType.RightBrace, '}')
+      } as SetNode;
+    }
+
+    // Skip a token that cannot start an operand and read the operand after it
+    this.addError(`Unexpected token: ${token.value}`, token.start, token.end + 1, [removeFix(token)]);
+    this.advance();
+    
+    return this.parsePrimary();
+  }
+
+  /**
+   * Parse a modular block after 'mod': (n) { body }
+   * @param keyword - The 'mod' token
+   * @returns The modular node
+   */
+  private parseModularBlock(keyword: Token): ModularNode {
+    const modulus = this.parsePrimary(); // The parenthesized modulus
+    const open = this.currentToken();
+    
+    if (open?.type !== TokenType.LeftBrace) {
+      const position = open?.start ?? this.inputEnd();
+      const message = `Expected '{' to open the body of 'mod'`;
+      this.addError(message, position, position);
+      
+      return {
+        type: NodeType.Modular,
+        body: { type: NodeType.Error, message } as ErrorNode,
+        modulus
+      } as ModularNode;
+    }
+    
+    const elements = this.parseElements(open, TokenType.RightBrace, '}');
+    const end = this.tokens[this.currentTokenIndex - 1].end + 1;
+    const message = `Expected a single expression in the body of 'mod'`;
+    
+    if (elements.length !== 1) {
+      this.addError(message, keyword.start, end);
+    }
     
-    // Return a placeholder node to continue parsing
     return {
-      type: NodeType.Number,
-      value: '0'
-    } as NumberNode;
+      type: NodeType.Modular,
+      body: elements.length === 1 ? elements[0] : { type: NodeType.Error, message } as ErrorNode,
+      modulus
+    } as ModularNode;
+  }
+
+  /**
+   * Report a missing operand and stand in for it with an Error node. The quick fix removes
+   * the operator or comma left without an operand.
+   * @param message - The error message
+   * @param start - Start of the range to report
+   * @param end - End of the range to report
+   * @returns The Error node
+   */
+  private missingOperand(message: string, start: number, end: number): ErrorNode {
+    const dangling = [this.tokens[this.currentTokenIndex - 1], this.currentToken()]
+      .find(token => token?.type === TokenType.Operator || token?.type === TokenType.Comma);
+
+    this.addError(message, start, end, dangling ? [removeFix(dangling)] : undefined);
+
+    return {
+      type: NodeType.Error,
+      message
+    } as ErrorNode;
+  }
+
+  /**
+   * Parse a function argument, recording its source range
+   * @returns The argument node
+   */
+  private parseArgument(): ASTNode {
+    const start = this.currentToken()?.start ?? this.inputEnd();
+    const argument = this.parseExpression();
+    const last = this.tokens[this.currentTokenIndex - 1];
+    
+    this.ranges.set(argument, { start, end: Math.max(start, last ? last.end + 1 : start) });
+    
+    return argument;
+  }
+
+  /**
+   * Parse the comma-separated elements of a list or set literal
+   * @param open - The opening bracket or brace token
+   * @param closingType - Token type of the closing delimiter
+   * @param closing - The closing delimiter character, for error messages
+   * @returns The element nodes
+   */
+  private parseElements(open: Token, closingType: TokenType, closing: string): ASTNode[] {
+    this.advance(); // Consume the opening delimiter
+
+    const elements: ASTNode[] = [];
+    const message = `Expected ',' or '${closing}' to close '${open.value}'`;
+
+    // Empty literal
+    if (this.currentToken()?.type === closingType) {
+      this.advance();
+      return elements;
+    }
+
+    while (this.currentTokenIndex < this.tokens.length) {
+      elements.push(this.parseExpression());
+
+      // Skip anything else up to the next element or the closing delimiter
+      if (
+        this.currentTokenIndex < this.tokens.length &&
+        this.currentToken().type !== closingType &&
+        this.currentToken().type !== TokenType.Comma
+      ) {
+        const start = this.currentToken().start;
+        this.addError(message, start, this.synchronize(true));
+      }
+
+      if (this.currentToken()?.type === closingType) {
+        this.advance();
+        return elements;
+      }
+
+      if (this.currentToken()?.type !== TokenType.Comma) {
+        break;
+      }
+      this.advance(); // Consume comma
+    }
+
+    // The input ended before the closing delimiter
+    if (this.currentTokenIndex >= this.tokens.length) {
+      this.addError(message, this.inputEnd(), this.inputEnd(), [insertFix(closing, this.inputEnd())]);
+    }
+
+    return elements;
+  }
+
+  /**
+   * Panic-mode recovery: skip tokens up to the next closing bracket, or optionally the next
+   * comma, outside of the brackets opened while skipping
+   * @param stopAtComma - Whether a comma also ends the skipped tokens
+   * @returns The position after the last skipped token
+   */
+  private synchronize(stopAtComma: boolean): number {
+    let end = this.currentToken().start;
+    let depth = 0;
+
+    while (this.currentTokenIndex < this.tokens.length) {
+      const token = this.currentToken();
+
+      if (depth === 0 && (CLOSING_TYPES.has(token.type) || (stopAtComma && token.value === ','))) {
+        break;
+      }
+
+      if (OPENING_TYPES.has(token.type)) {
+        depth++;
+      } else if (CLOSING_TYPES.has(token.type)) {
+        depth--;
+      }
+
+      end = token.end + 1;
+      this.advance();
+    }
+
+    return end;
+  }
+
+  /**
+   * Position just after the last token of the input
+   */
+  private inputEnd(): number {
+    return this.tokens[this.tokens.length - 1].end + 1;
+  }
+
+  /**
+   * Check whether the current token is the given keyword
+   * @param keyword - The keyword to match
+   */
+  private isKeyword(keyword: string): boolean {
+    return (
+      this.currentTokenIndex < this.tokens.length &&
+      this.currentToken().type === TokenType.Variable &&
+      this.currentToken().value === keyword
+    );
+  }
+
+  /**
+   * Check whether the current token is one of the given operators
+   * @param operators - The operator values to match
+   */
+  private isOperator(operators: string[]): boolean {
+    return (
+      this.currentTokenIndex < this.tokens.length &&
+      this.currentToken().type === TokenType.Operator &&
+      operators.includes(this.currentToken().value)
+    );
   }
 
   /**
@@ -308,8 +1167,12 @@ export class Parser {
 
   /**
    * Add a syntax error
+   * @param message - The error message
+   * @param position - Start of the offending range
+   * @param end - End of the offending range (exclusive)
+   * @param fixes - Quick fixes resolving the error
    */
-  private addError(message: string, position: number): void {
-    this.errors.push({ message, position });
+  private addError(message: string, position: number, end: number, fixes?: QuickFix[]): void {
+    this.errors.push(fixes ? { message, position, end, fixes } : { message, position, end });
   }
 }
\ No newline at end of file
@@ -0,0 +1,228 @@
+import {
+  ASTNode,
+  NodeType,
+  NumberNode,
+  BinaryOperationNode,
+  UnaryOperationNode,
+  PostfixOperationNode,
+  FunctionCallNode,
+  VariableNode,
+  ConditionalNode,
+  ListNode,
+  SetNode,
+  RangeNode,
+  ConversionNode,
+  ModularNode,
+  AssignmentNode,
+  FunctionDefinitionNode,
+  CustomOperationNode,
+  LiteralNode
+} from './types';
+
+/**
+ * Binding strength of each binary operator, mirroring the parser's precedence levels
+ */
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 2,
+  '&&': 3,
+  '==': 4,
+  '!=': 4,
+  '<': 5,
+  '>': 5,
+  '<=': 5,
+  '>=': 5,
+  '+': 7,
+  '-': 7,
+  '*': 8,
+  '/': 8,
+  '%': 8,
+  '^': 10
+};
+
+export const CONVERSION_PRECEDENCE = 0;
+export const CONDITIONAL_PRECEDENCE = 1;
+export const RANGE_PRECEDENCE = 6;
+export const UNARY_PRECEDENCE = 9;
+export const POSTFIX_PRECEDENCE = 11;
+export const PRIMARY_PRECEDENCE = 12;
+
+/**
+ * Precedence of each built-in level, from the loosest to the tightest, on the scale that
+ * extension operators are placed on
+ */
+export const PRECEDENCE = {
+  conversion: CONVERSION_PRECEDENCE,
+  conditional: CONDITIONAL_PRECEDENCE,
+  logicalOr: BINARY_PRECEDENCE['||'],
+  logicalAnd: BINARY_PRECEDENCE['&&'],
+  equality: BINARY_PRECEDENCE['=='],
+  comparison: BINARY_PRECEDENCE['<'],
+  range: RANGE_PRECEDENCE,
+  additive: BINARY_PRECEDENCE['+'],
+  multiplicative: BINARY_PRECEDENCE['*'],
+  unary: UNARY_PRECEDENCE,
+  power: BINARY_PRECEDENCE['^'],
+  postfix: POSTFIX_PRECEDENCE
+} as const;
+
+/**
+ * Get the binding strength of a node when it appears as an operand
+ * @param node - The node
+ * @returns The precedence level
+ */
+export function getPrecedence(node: ASTNode): number {
+  switch (node.type) {
+    case NodeType.BinaryOperation:
+      return BINARY_PRECEDENCE[(node as BinaryOperationNode).operator] ?? PRIMARY_PRECEDENCE;
+    case NodeType.UnaryOperation:
+      return UNARY_PRECEDENCE;
+    case NodeType.PostfixOperation:
+      return POSTFIX_PRECEDENCE;
+    case NodeType.Range:
+      return RANGE_PRECEDENCE;
+    case NodeType.Conversion:
+    case NodeType.Modular:
+      return CONVERSION_PRECEDENCE;
+    case NodeType.Conditional:
+    case NodeType.Assignment:
+    case NodeType.FunctionDefinition:
+      return CONDITIONAL_PRECEDENCE;
+    case NodeType.CustomOperation:
+      return (node as CustomOperationNode).precedence;
+    default:
+      return PRIMARY_PRECEDENCE;
+  }
+}
+
+/**
+ * Print an AST back to expression text that parses to the same tree, using as few
+ * parentheses as the precedence rules allow
+ * @param node - The node to print
+ * @returns The expression text
+ */
+export function printExpression(node: ASTNode): string {
+  switch (node.type) {
+    case NodeType.Number:
+      return (node as NumberNode).value;
+
+    case NodeType.Variable:
+      return (node as VariableNode).name;
+
+    case NodeType.BinaryOperation: {
+      const { operator, left, right } = node as BinaryOperationNode;
+      const precedence = getPrecedence(node);
+
+      // Powers associate to the right, every other operator to the left
+      const rightAssociative = operator === '^';
+      const leftText = printOperand(left, rightAssociative ? precedence + 1 : precedence);
+      const rightText = printOperand(right, rightAssociative ? precedence : precedence + 1);
+
+      return operator === '^' ? `${leftText}^${rightText}` : `${leftText} ${operator} ${rightText}`;
+    }
+
+    case NodeType.UnaryOperation: {
+      const { operator, argument } = node as UnaryOperationNode;
+      // Nested unary operators are parenthesised so that - -x never prints as --x
+      return `${operator}${printOperand(argument, UNARY_PRECEDENCE + 1)}`;
+    }
+
+    case NodeType.PostfixOperation: {
+      const { operator, argument } = node as PostfixOperationNode;
+      return `${printOperand(argument, PRIMARY_PRECEDENCE)}${operator}`;
+    }
+
+    case NodeType.FunctionCall: {
+      const { name, arguments: args } = node as FunctionCallNode;
+      return `${name}(${args.map(printExpression).join(', ')})`;
+    }
+
+    case NodeType.Conditional: {
+      const { condition, consequent, alternate } = node as ConditionalNode;
+      return `${printOperand(condition, CONDITIONAL_PRECEDENCE + 1)} ? ${printOperand(consequent, CONDITIONAL_PRECEDENCE)} : ${printOperand(alternate, CONDITIONAL_PRECEDENCE)}`;
+    }
+
+    case NodeType.List:
+      return `[${(node as ListNode).elements.map(printExpression).join(', ')}]`;
+
+    case NodeType.Set:
+      return `{${(node as SetNode).elements.map(printExpression).join(', ')}}`;
+
+    case NodeType.Range: {
+      const { start, end, step } = node as RangeNode;
+      const range = `${printOperand(start, RANGE_PRECEDENCE + 1)}..${printOperand(end, RANGE_PRECEDENCE + 1)}`;
+      return step ? `${range} step ${printOperand(step, RANGE_PRECEDENCE + 1)}` : range;
+    }
+
+    case NodeType.Conversion: {
+      const { value, unit } = node as ConversionNode;
+      return `${printOperand(value, CONDITIONAL_PRECEDENCE)} in ${printOperand(unit, BINARY_PRECEDENCE['*'])}`;
+    }
+
+    // Blocks print as the equivalent mod operator
+    case NodeType.Modular: {
+      const { body, modulus } = node as ModularNode;
+      return `${printOperand(body, CONDITIONAL_PRECEDENCE)} mod ${printOperand(modulus, BINARY_PRECEDENCE['+'])}`;
+    }
+
+    case NodeType.Assignment: {
+      const { name, value } = node as AssignmentNode;
+      return `${name} = ${printExpression(value)}`;
+    }
+
+    case NodeType.FunctionDefinition: {
+      const { name, parameters, body } = node as FunctionDefinitionNode;
+      return `${name}(${parameters.join(', ')}) = ${printExpression(body)}`;
+    }
+
+    case NodeType.CustomOperation: {
+      const operation = node as CustomOperationNode;
+      const [first, second] = customOperandPrecedences(operation).map(
+        (precedence, index) => printOperand(operation.operands[index], precedence)
+      );
+      // Word operators such as mod are set apart from their operands
+      const operator = /\w/.test(operation.operator) ? ` ${operation.operator} ` : operation.operator;
+
+      switch (operation.fixity) {
+        case 'prefix':
+          return `${operator.trimStart()}${first}`;
+        case 'postfix':
+          return `${first}${operator.trimEnd()}`;
+        default:
+          return `${first} ${operator.trim()} ${second}`;
+      }
+    }
+
+    case NodeType.Literal:
+      return (node as LiteralNode).text;
+
+    default:
+      throw new Error(`Cannot print node type: ${node.type}`);
+  }
+}
+
+/**
+ * Get the precedence each operand of an extension operator requires. An operand binding no
+ * tighter than the operator is parenthesised, except on the side the operator associates to.
+ * Precedences may lie between the built-in levels, so the next whole level is required.
+ * @param node - The operation
+ * @returns The required precedence of every operand
+ */
+export function customOperandPrecedences(node: CustomOperationNode): number[] {
+  const tighter = Math.floor(node.precedence) + 1;
+
+  if (node.fixity !== 'infix') {
+    return [tighter];
+  }
+  return node.associativity === 'right' ? [tighter, node.precedence] : [node.precedence, tighter];
+}
+
+/**
+ * Print an operand, adding parentheses when it binds less tightly than required
+ * @param node - The operand
+ * @param minimumPrecedence - The precedence the operand position requires
+ * @returns The operand text
+ */
+function printOperand(node: ASTNode, minimumPrecedence: number): string {
+  const text = printExpression(node);
+  return getPrecedence(node) < minimumPrecedence ? `(${text})` : text;
+}
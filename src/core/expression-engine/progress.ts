@@ -0,0 +1,176 @@
+/**
+ * Progress of long computations
+ *
+ * Functions that run for a while, such as the prime sieve, the binders and the for loops of
+ * the evaluator, call reportProgress with the fraction of their work done. While an
+ * evaluation is tracked, the reports reach its listener at most once per interval, with an
+ * estimate of the time left. Work done in one step of an enclosing computation, such as a
+ * sieve run for every term of a sum, reports into the range of the overall progress that
+ * step covers, so nested reports never make the progress jump back. Asynchronous work, such
+ * as the methods of plugins, reports through a reporter of its own instead.
+ */
+
+import { ProgressUpdate } from './types';
+
+/**
+ * Shortest time between two reports passed to the listener, in milliseconds
+ */
+export const PROGRESS_INTERVAL = 100;
+
+/**
+ * Computation being tracked
+ */
+interface ProgressTracker {
+  listener: (update: ProgressUpdate) => void;
+  interval: number;
+  startTime: number;
+  // Time and overall progress of the last report passed to the listener
+  reportTime: number;
+  progress: number;
+  // Range of the overall progress covered by the work reporting, from start to start + span
+  start: number;
+  span: number;
+}
+
+// Computations run synchronously, so only the innermost tracked one receives reports
+let tracker: ProgressTracker | undefined;
+
+/**
+ * Start tracking a computation
+ * @param listener - Called with the progress
+ * @param interval - Shortest time between two calls of the listener, in milliseconds
+ */
+function createTracker(listener: (update: ProgressUpdate) => void, interval: number): ProgressTracker {
+  return {
+    listener,
+    interval,
+    startTime: Date.now(),
+    reportTime: -Infinity,
+    progress: 0,
+    start: 0,
+    span: 1
+  };
+}
+
+/**
+ * Run a computation, passing the progress reported while it runs to a listener
+ * @param listener - Called with the progress, at most once per interval, and always once
+ * the progress reaches 1
+ * @param run - The computation
+ * @param interval - Shortest time between two calls of the listener, in milliseconds
+ * @returns The value of the computation
+ */
+export function withProgress<T>(
+  listener: (update: ProgressUpdate) => void,
+  run: () => T,
+  interval: number = PROGRESS_INTERVAL
+): T {
+  const enclosing = tracker;
+  tracker = createTracker(listener, interval);
+
+  try {
+    return run();
+  } finally {
+    tracker = enclosing;
+  }
+}
+
+/**
+ * Report the progress of the work in progress. Reports are dropped when no computation is
+ * tracked, when they come sooner than the interval after the last one, and when they would
+ * move the progress back.
+ * @param fraction - The fraction of the work done, from 0 to 1
+ * @param message - What the work is doing, such as "Sieving primes up to 1000000"
+ */
+export function reportProgress(fraction: number, message?: string): void {
+  if (tracker) {
+    report(tracker, fraction, message);
+  }
+}
+
+/**
+ * Create a reporter for work that is not tracked as it runs, such as an asynchronous call,
+ * which passes its reports to a listener as reportProgress does for tracked computations
+ * @param listener - Called with the progress, at most once per interval, and always once
+ * the progress reaches 1
+ * @param interval - Shortest time between two calls of the listener, in milliseconds
+ * @returns The reporter, called with the fraction of the work done and what it is doing
+ */
+export function createProgressReporter(
+  listener: (update: ProgressUpdate) => void,
+  interval: number = PROGRESS_INTERVAL
+): (fraction: number, message?: string) => void {
+  const computation = createTracker(listener, interval);
+
+  return (fraction, message) => report(computation, fraction, message);
+}
+
+/**
+ * Pass a report to the listener of a computation, unless it comes sooner than the interval
+ * after the last one or would move the progress back
+ * @param computation - The computation
+ * @param fraction - The fraction of the work done, from 0 to 1
+ * @param message - What the work is doing
+ */
+function report(computation: ProgressTracker, fraction: number, message?: string): void {
+  const progress = computation.start + computation.span * Math.min(Math.max(fraction, 0), 1);
+  const now = Date.now();
+
+  if (progress < computation.progress || (progress < 1 && now - computation.reportTime < computation.interval)) {
+    return;
+  }
+
+  computation.reportTime = now;
+  computation.progress = progress;
+
+  // The rest of the work is assumed to go at the pace of the work done so far
+  const elapsed = now - computation.startTime;
+  const eta = progress > 0 ? Math.round(elapsed * (1 - progress) / progress) : undefined;
+
+  computation.listener({ progress, eta, message });
+}
+
+/**
+ * Run part of the work in progress, scaling the progress reported within it into its share
+ * of the work
+ * @param from - The fraction of the work done when the part starts
+ * @param to - The fraction of the work done when the part ends
+ * @param run - The part of the work
+ * @returns The value of the part
+ */
+export function trackProgress<T>(from: number, to: number, run: () => T): T {
+  const current = tracker;
+
+  if (!current) {
+    return run();
+  }
+
+  const { start, span } = current;
+  current.start = start + span * from;
+  current.span = span * (to - from);
+
+  try {
+    return run();
+  } finally {
+    current.start = start;
+    current.span = span;
+  }
+}
+
+/**
+ * Run one of a known number of equal steps of the work in progress, such as an iteration
+ * of a loop, reporting the steps done before it starts
+ * @param step - The index of the step, from 0
+ * @param count - The number of steps
+ * @param run - The step
+ * @param message - What the work is doing
+ * @returns The value of the step
+ */
+export function trackStep<T>(step: number, count: number, run: () => T, message?: string): T {
+  if (!tracker) {
+    return run();
+  }
+
+  reportProgress(step / count, message);
+  return trackProgress(step / count, (step + 1) / count, run);
+}
@@ -0,0 +1,617 @@
+import {
+  ASTNode,
+  Token,
+  TokenType,
+  NodeType,
+  ErrorNode,
+  BlockNode,
+  LetNode,
+  IfNode,
+  ForNode,
+  WhileNode,
+  ReturnNode,
+  FunctionDefinitionNode,
+  ModularNode,
+  ParseResult,
+  SourceLocation,
+  SyntaxError
+} from './types';
+import { Tokenizer } from './tokenizer';
+import { ExtensionRegistry } from './extensions';
+import { Parser } from './parser';
+
+/**
+ * Words that start a statement and cannot be used as variable names in scripts
+ */
+export const STATEMENT_KEYWORDS = ['let', 'if', 'else', 'for', 'while', 'return'];
+
+/**
+ * Line comments, from // to the end of the line
+ */
+const LINE_COMMENT = /\/\/[^\n]*/g;
+
+/**
+ * Check whether a token at the end of a line continues the expression on the next line:
+ * a comma or a binary operator, but not the postfix factorial
+ * @param token - The last token on the line
+ */
+const continuesLine = (token: Token): boolean => {
+  return token.type === TokenType.Comma
+    || (token.type === TokenType.Operator && token.value !== '!' && token.value !== '!!');
+};
+
+/**
+ * Check whether a token separates statements on one line
+ * @param token - The token to check
+ */
+const isSeparator = (token: Token | undefined): boolean => {
+  return token !== undefined && token.type === TokenType.Unknown && token.value === ';';
+};
+
+/**
+ * Find the line and column of a position in a source text
+ * @param source - The source text
+ * @param position - The character offset
+ * @returns The line and column, both starting at 1
+ */
+export function locate(source: string, position: number): SourceLocation {
+  const before = source.slice(0, position);
+
+  return {
+    line: before.split('\n').length,
+    column: position - before.lastIndexOf('\n')
+  };
+}
+
+/**
+ * Prefix an error message with the line and column it occurred at
+ * @param message - The error message
+ * @param location - The location, if known
+ * @returns The message, e.g. "Line 3, column 5: Unknown variable: y"
+ */
+export function formatScriptError(message: string, location?: SourceLocation): string {
+  return location ? `Line ${location.line}, column ${location.column}: ${message}` : message;
+}
+
+/**
+ * Check whether input should be run as a script: it spans several lines, separates
+ * statements with ';' or starts with a statement keyword
+ * @param input - The raw input
+ */
+export function isScriptInput(input: string): boolean {
+  return /[\n;]/.test(input.trim()) || new RegExp(`^\\s*(?:${STATEMENT_KEYWORDS.join('|')})\\b`).test(input);
+}
+
+/**
+ * Parser for scripts of statements separated by new lines or ';'. Besides the assignments,
+ * definitions and expressions of single-line input, a statement may be a let declaration,
+ * if/else, a for ... in or while loop, a return or a { block }, and a function definition
+ * whose body starts with '{' takes a block: gcd(a, b) = { ... }. Expressions are handed to
+ * the expression parser, and continue on the next line only inside brackets or after an
+ * operator or comma.
+ */
+export class ScriptParser {
+  private source = '';
+  private tokens: Token[] = [];
+  private currentTokenIndex = 0;
+  private errors: SyntaxError[] = [];
+  private tokenizer: Tokenizer;
+  private parser: Parser;
+
+  /**
+   * Create a script parser
+   * @param extensions - Operators and literals added by plugins
+   */
+  constructor(extensions: ExtensionRegistry = new ExtensionRegistry()) {
+    this.tokenizer = new Tokenizer(extensions);
+    this.parser = new Parser(extensions);
+  }
+
+  /**
+   * Parse a script into a block of statements
+   * @param script - The script source
+   * @returns Parse result whose tree is a block node, in which statements that failed to
+   * parse are error nodes, with error positions in the source
+   */
+  public parse(script: string): ParseResult {
+    // Blank out comments, keeping every other character at its position
+    this.source = script.replace(LINE_COMMENT, comment => ' '.repeat(comment.length));
+    this.errors = [];
+    this.currentTokenIndex = 0;
+
+    const tokens = this.tokenizer.tokenize(this.source);
+    this.tokens = tokens.filter(token => token.type !== TokenType.Whitespace);
+
+    return {
+      tokens,
+      ast: this.parseStatements(null),
+      errors: this.errors
+    };
+  }
+
+  /**
+   * Parse statements up to the '}' closing a block, or to the end of the script
+   * @param open - The '{' opening the block, or null at the top level
+   * @returns The block node
+   */
+  private parseStatements(open: Token | null): BlockNode {
+    const statements: ASTNode[] = [];
+    const locations: SourceLocation[] = [];
+
+    for (;;) {
+      while (isSeparator(this.currentToken())) {
+        this.advance();
+      }
+
+      const token = this.currentToken();
+
+      if (!token) {
+        if (open) {
+          const { line } = locate(this.source, open.start);
+          this.addError(`Expected '}' to close the block opened on line ${line}`, this.endPosition());
+        }
+        break;
+      }
+
+      if (token.type === TokenType.RightBrace) {
+        this.advance();
+        if (open) {
+          break;
+        }
+        this.addError('Unexpected token: }', token.start);
+        continue;
+      }
+
+      locations.push(locate(this.source, token.start));
+      statements.push(this.parseStatement());
+      this.expectStatementEnd();
+    }
+
+    return {
+      type: NodeType.Block,
+      statements,
+      locations
+    } as BlockNode;
+  }
+
+  /**
+   * Parse a single statement
+   */
+  private parseStatement(): ASTNode {
+    const token = this.currentToken();
+
+    switch (this.keywordOf(token)) {
+      case 'let':
+        return this.parseLet();
+      case 'if':
+        return this.parseIf();
+      case 'for':
+        return this.parseFor();
+      case 'while':
+        return this.parseWhile();
+      case 'return':
+        return this.parseReturn();
+      case 'else':
+        this.skipStatement();
+        return this.failure(`Unexpected 'else' without a matching 'if'`, token.start);
+    }
+
+    if (token.type === TokenType.LeftBrace) {
+      return this.parseBlock(token);
+    }
+
+    const modular = this.parseModularBlock();
+    if (modular) {
+      return modular;
+    }
+
+    const definition = this.parseBlockDefinition();
+    if (definition) {
+      return definition;
+    }
+
+    // Assignments, single-expression definitions and expressions
+    const start = this.currentTokenIndex;
+    this.currentTokenIndex = this.findExpressionEnd(start, false);
+
+    return this.parseTokens(start, this.currentTokenIndex);
+  }
+
+  /**
+   * Parse a local variable declaration: let name = value
+   */
+  private parseLet(): ASTNode {
+    const keyword = this.currentToken();
+    this.advance();
+
+    const name = this.currentToken();
+    const equals = this.tokens[this.currentTokenIndex + 1];
+
+    if (name?.type !== TokenType.Variable || equals?.type !== TokenType.Operator || equals.value !== '=') {
+      this.skipStatement();
+      return this.failure(`Expected 'name = value' after 'let'`, name?.start ?? keyword.end + 1);
+    }
+
+    this.checkName(name);
+    this.advance(); // Consume the name
+    this.advance(); // Consume '='
+
+    return {
+      type: NodeType.Let,
+      name: name.value,
+      value: this.parseExpression(equals, false)
+    } as LetNode;
+  }
+
+  /**
+   * Parse an if statement with optional else and else if branches
+   */
+  private parseIf(): IfNode {
+    const keyword = this.currentToken();
+    this.advance();
+
+    const node: IfNode = {
+      type: NodeType.If,
+      condition: this.parseExpression(keyword, true),
+      consequent: this.parseBlock(keyword)
+    };
+
+    // 'else' may follow the closing brace on the next line
+    const alternative = this.currentToken();
+    if (this.keywordOf(alternative) === 'else') {
+      this.advance();
+      node.alternate = this.keywordOf(this.currentToken()) === 'if'
+        ? this.parseIf()
+        : this.parseBlock(alternative);
+    }
+
+    return node;
+  }
+
+  /**
+   * Parse a for loop over a list, set or range: for k in 1..n { ... }
+   */
+  private parseFor(): ASTNode {
+    const keyword = this.currentToken();
+    this.advance();
+
+    const variable = this.currentToken();
+    const separator = this.tokens[this.currentTokenIndex + 1];
+
+    if (variable?.type !== TokenType.Variable || separator?.type !== TokenType.Variable || separator.value !== 'in') {
+      this.skipStatement();
+      return this.failure(`Expected 'variable in collection' after 'for'`, variable?.start ?? keyword.end + 1);
+    }
+
+    this.checkName(variable);
+    this.advance(); // Consume the variable
+    this.advance(); // Consume 'in'
+
+    const collection = this.parseExpression(separator, true);
+
+    return {
+      type: NodeType.For,
+      variable: variable.value,
+      collection,
+      body: this.parseBlock(keyword)
+    } as ForNode;
+  }
+
+  /**
+   * Parse a while loop: while condition { ... }
+   */
+  private parseWhile(): WhileNode {
+    const keyword = this.currentToken();
+    this.advance();
+
+    const condition = this.parseExpression(keyword, true);
+
+    return {
+      type: NodeType.While,
+      condition,
+      body: this.parseBlock(keyword)
+    };
+  }
+
+  /**
+   * Parse a return statement with an optional value
+   */
+  private parseReturn(): ReturnNode {
+    const keyword = this.currentToken();
+    this.advance();
+
+    const next = this.currentToken();
+    if (!next || isSeparator(next) || next.type === TokenType.RightBrace || this.startsLine(this.currentTokenIndex)) {
+      return { type: NodeType.Return };
+    }
+
+    return {
+      type: NodeType.Return,
+      value: this.parseExpression(keyword, false)
+    };
+  }
+
+  /**
+   * Parse a block: { statement; ... }
+   * @param owner - The token the block belongs to, for error messages
+   */
+  private parseBlock(owner: Token): BlockNode {
+    const open = this.currentToken();
+
+    if (open?.type !== TokenType.LeftBrace) {
+      this.addError(`Expected '{' to open the body of '${owner.value}'`, this.endPosition());
+      return { type: NodeType.Block, statements: [], locations: [] };
+    }
+
+    this.advance(); // Consume '{'
+
+    return this.parseStatements(open);
+  }
+
+  /**
+   * Parse a block of statements evaluated modulo n, mod(n) { ... }, if one starts at the
+   * current token
+   * @returns The modular node, or null if the current statement is not one
+   */
+  private parseModularBlock(): ModularNode | null {
+    const keyword = this.currentToken();
+
+    if (keyword.type !== TokenType.Operator || keyword.value !== 'mod'
+      || this.tokens[this.currentTokenIndex + 1]?.type !== TokenType.LeftParen) {
+      return null;
+    }
+
+    // Find the bracket closing the modulus
+    let close = this.currentTokenIndex + 1;
+    for (let depth = 0; close < this.tokens.length; close++) {
+      const { type } = this.tokens[close];
+      depth += type === TokenType.LeftParen ? 1 : type === TokenType.RightParen ? -1 : 0;
+      if (depth === 0) {
+        break;
+      }
+    }
+
+    if (this.tokens[close + 1]?.type !== TokenType.LeftBrace) {
+      return null;
+    }
+
+    const modulus = this.parseTokens(this.currentTokenIndex + 1, close + 1);
+    this.currentTokenIndex = close + 1;
+
+    return {
+      type: NodeType.Modular,
+      modulus,
+      body: this.parseBlock(keyword)
+    } as ModularNode;
+  }
+
+  /**
+   * Parse a function definition whose body is a block, name(a, b) = { ... }, if one starts
+   * at the current token
+   * @returns The definition, or null if the current statement is not one
+   */
+  private parseBlockDefinition(): FunctionDefinitionNode | null {
+    const name = this.currentToken();
+
+    if (name.type !== TokenType.Function || this.tokens[this.currentTokenIndex + 1]?.type !== TokenType.LeftParen) {
+      return null;
+    }
+
+    const parameters: string[] = [];
+    let index = this.currentTokenIndex + 2;
+
+    while (this.tokens[index]?.type === TokenType.Variable) {
+      parameters.push(this.tokens[index].value);
+      index++;
+
+      if (this.tokens[index]?.type !== TokenType.Comma) {
+        break;
+      }
+      index++;
+    }
+
+    const equals = this.tokens[index + 1];
+    if (
+      this.tokens[index]?.type !== TokenType.RightParen
+      || equals?.type !== TokenType.Operator || equals.value !== '='
+      || this.tokens[index + 2]?.type !== TokenType.LeftBrace
+    ) {
+      return null;
+    }
+
+    const duplicate = parameters.find((parameter, position) => parameters.indexOf(parameter) !== position);
+    if (duplicate) {
+      this.addError(`Duplicate parameter '${duplicate}' in definition of '${name.value}'`, name.start);
+    }
+
+    this.currentTokenIndex = index + 2;
+
+    return {
+      type: NodeType.FunctionDefinition,
+      name: name.value,
+      parameters,
+      body: this.parseBlock(equals)
+    } as FunctionDefinitionNode;
+  }
+
+  /**
+   * Parse the expression from the current token to the end of the statement
+   * @param previous - The token before the expression, for error messages
+   * @param beforeBlock - Whether the expression ends at the '{' opening a block
+   * @returns The expression tree
+   */
+  private parseExpression(previous: Token, beforeBlock: boolean): ASTNode {
+    const start = this.currentTokenIndex;
+    this.currentTokenIndex = this.findExpressionEnd(start, beforeBlock);
+
+    if (this.currentTokenIndex === start) {
+      return this.failure(`Expected an expression after '${previous.value}'`, this.endPosition());
+    }
+
+    const expression = this.parseTokens(start, this.currentTokenIndex);
+
+    if (expression.type === NodeType.Assignment || expression.type === NodeType.FunctionDefinition) {
+      this.addError(`Expected an expression but found an assignment (use '==' to compare)`, this.tokens[start].start);
+    }
+
+    return expression;
+  }
+
+  /**
+   * Parse a run of tokens with the expression parser
+   * @param start - Index of the first token
+   * @param end - Index after the last token
+   * @returns The tree, with syntax errors moved to their position in the script
+   */
+  private parseTokens(start: number, end: number): ASTNode {
+    const offset = this.tokens[start].start;
+    const result = this.parser.parse(this.source.slice(offset, this.tokens[end - 1].end + 1));
+
+    result.errors.forEach(error => this.errors.push({
+      ...error,
+      position: error.position + offset,
+      end: error.end + offset,
+      fixes: error.fixes?.map(fix => ({ ...fix, start: fix.start + offset, end: fix.end + offset }))
+    }));
+
+    const [error] = result.errors;
+    return result.ast ?? this.failure(error?.message ?? 'Invalid expression', (error?.position ?? 0) + offset, false);
+  }
+
+  /**
+   * Find where the expression starting at a token ends: at a ';', at a '}' closing the
+   * enclosing block, optionally at a '{' opening a block, or at a line break outside of
+   * brackets that does not follow an operator or comma
+   * @param start - Index of the first token
+   * @param beforeBlock - Whether a '{' ends the expression
+   * @returns Index after the last token of the expression
+   */
+  private findExpressionEnd(start: number, beforeBlock: boolean): number {
+    let depth = 0;
+
+    for (let index = start; index < this.tokens.length; index++) {
+      const token = this.tokens[index];
+
+      if (depth === 0 && (
+        (index > start && this.startsLine(index) && !continuesLine(this.tokens[index - 1]))
+        || isSeparator(token)
+        || token.type === TokenType.RightBrace
+        || (beforeBlock && token.type === TokenType.LeftBrace)
+      )) {
+        return index;
+      }
+
+      if ([TokenType.LeftParen, TokenType.LeftBracket, TokenType.LeftBrace].includes(token.type)) {
+        depth++;
+      } else if ([TokenType.RightParen, TokenType.RightBracket, TokenType.RightBrace].includes(token.type) && depth > 0) {
+        depth--;
+      }
+    }
+
+    return this.tokens.length;
+  }
+
+  /**
+   * Require the end of a statement: a ';', a line break, a '}' or the end of the script
+   */
+  private expectStatementEnd(): void {
+    const token = this.currentToken();
+
+    if (!token || isSeparator(token) || token.type === TokenType.RightBrace || this.startsLine(this.currentTokenIndex)) {
+      return;
+    }
+
+    this.addError(`Expected a new line or ';' before '${token.value}'`, token.start);
+    this.skipStatement();
+  }
+
+  /**
+   * Skip the rest of a statement that failed to parse, including any block it opens
+   */
+  private skipStatement(): void {
+    this.currentTokenIndex = this.findExpressionEnd(this.currentTokenIndex, false);
+  }
+
+  /**
+   * Check that a declared name is not a keyword
+   * @param token - The name token
+   */
+  private checkName(token: Token): void {
+    if (STATEMENT_KEYWORDS.includes(token.value) || Parser.KEYWORDS.includes(token.value)) {
+      this.addError(`Cannot use keyword '${token.value}' as a variable name`, token.start);
+    }
+  }
+
+  /**
+   * Get the statement keyword a token spells, if any. Keywords followed by '(' are
+   * tokenized as function names, as in if(x > 0).
+   * @param token - The token
+   */
+  private keywordOf(token: Token | undefined): string | undefined {
+    return token && (token.type === TokenType.Variable || token.type === TokenType.Function)
+      && STATEMENT_KEYWORDS.includes(token.value)
+      ? token.value
+      : undefined;
+  }
+
+  /**
+   * Check whether the token at an index is the first on its line
+   * @param index - The token index
+   */
+  private startsLine(index: number): boolean {
+    return index > 0 && this.source.slice(this.tokens[index - 1].end + 1, this.tokens[index].start).includes('\n');
+  }
+
+  /**
+   * Position of the current token, or just past the last token at the end of the script
+   */
+  private endPosition(): number {
+    const token = this.currentToken();
+    if (token) {
+      return token.start;
+    }
+
+    return this.tokens.length > 0 ? this.tokens[this.tokens.length - 1].end + 1 : 0;
+  }
+
+  /**
+   * Get the current token
+   */
+  private currentToken(): Token {
+    return this.tokens[this.currentTokenIndex];
+  }
+
+  /**
+   * Advance to the next token
+   */
+  private advance(): void {
+    this.currentTokenIndex++;
+  }
+
+  /**
+   * Add a syntax error
+   */
+  private addError(message: string, position: number): void {
+    this.errors.push({ message, position, end: position });
+  }
+
+  /**
+   * Report a statement or expression that failed to parse, and stand in for it with an error
+   * node located where it failed, so that parsing can continue
+   * @param message - The error message
+   * @param position - The position of the offending token
+   * @param report - Whether to add the error, which parsed expressions have reported already
+   * @returns The error node
+   */
+  private failure(message: string, position: number, report = true): ErrorNode {
+    if (report) {
+      this.addError(message, position);
+    }
+
+    return {
+      type: NodeType.Error,
+      message,
+      location: locate(this.source, position)
+    } as ErrorNode;
+  }
+}
@@ -0,0 +1,659 @@
+/**
+ * LaTeX and MathML serializers for expression ASTs
+ *
+ * Both serializers share the printer's precedence rules, so an operand is grouped
+ * exactly when the plain-text printer would parenthesise it. Divisions render as
+ * stacked fractions, which need no grouping of their own operands.
+ */
+
+import {
+  ASTNode,
+  NodeType,
+  NumberNode,
+  BinaryOperationNode,
+  UnaryOperationNode,
+  PostfixOperationNode,
+  FunctionCallNode,
+  VariableNode,
+  ConditionalNode,
+  ListNode,
+  SetNode,
+  RangeNode,
+  ConversionNode,
+  ModularNode,
+  AssignmentNode,
+  FunctionDefinitionNode,
+  CustomOperationNode,
+  LiteralNode
+} from './types';
+import {
+  getPrecedence,
+  customOperandPrecedences,
+  CONDITIONAL_PRECEDENCE,
+  RANGE_PRECEDENCE,
+  UNARY_PRECEDENCE,
+  POSTFIX_PRECEDENCE,
+  PRIMARY_PRECEDENCE
+} from './printer';
+import { splitBaseLiteral } from './numeric';
+
+/**
+ * MathML rendering mode: inline within text, or a displayed block
+ */
+export type MathMLDisplay = 'inline' | 'block';
+
+/**
+ * Greek letter names written as identifiers, with their Unicode characters
+ */
+export const GREEK_LETTERS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', zeta: 'ζ',
+  eta: 'η', theta: 'θ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ',
+  nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ',
+  upsilon: 'υ', phi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π',
+  Sigma: 'Σ', Upsilon: 'Υ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω'
+};
+
+/**
+ * Functions typeset upright under their conventional names
+ */
+const FUNCTION_NAMES: Record<string, string> = {
+  sin: 'sin', cos: 'cos', tan: 'tan',
+  asin: 'arcsin', acos: 'arccos', atan: 'arctan',
+  sinh: 'sinh', cosh: 'cosh', tanh: 'tanh',
+  ln: 'ln', log: 'log', exp: 'exp',
+  arg: 'arg', gcd: 'gcd', re: 'Re', im: 'Im'
+};
+
+/**
+ * Functions with a dedicated LaTeX command
+ */
+const LATEX_COMMANDS = new Set(['sin', 'cos', 'tan', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh', 'ln', 'log', 'exp', 'arg', 'gcd']);
+
+const LATEX_OPERATORS: Record<string, string> = {
+  '||': '\\lor',
+  '&&': '\\land',
+  '==': '=',
+  '!=': '\\neq',
+  '<': '<',
+  '>': '>',
+  '<=': '\\leq',
+  '>=': '\\geq',
+  '+': '+',
+  '-': '-',
+  '*': '\\cdot',
+  '%': '\\bmod'
+};
+
+const MATHML_OPERATORS: Record<string, string> = {
+  '||': '∨',
+  '&&': '∧',
+  '==': '=',
+  '!=': '≠',
+  '<': '&lt;',
+  '>': '&gt;',
+  '<=': '≤',
+  '>=': '≥',
+  '+': '+',
+  '-': '−',
+  '*': '⋅',
+  '%': 'mod'
+};
+
+/**
+ * Delimiters drawn around the single argument of a function
+ */
+const BRACKET_FUNCTIONS: Record<string, [string, string, string, string]> = {
+  // name: [LaTeX open, LaTeX close, MathML open, MathML close]
+  abs: ['\\left|', '\\right|', '|', '|'],
+  floor: ['\\left\\lfloor ', '\\right\\rfloor', '⌊', '⌋'],
+  ceil: ['\\left\\lceil ', '\\right\\rceil', '⌈', '⌉']
+};
+
+/**
+ * Binder functions drawn as big operators when they run over integer bounds
+ */
+const BIG_OPERATORS = new Map<string, [string, string]>([
+  // name: [LaTeX command, MathML operator]
+  ['sum', ['\\sum', '∑']],
+  ['prod', ['\\prod', '∏']]
+]);
+
+/**
+ * Precedence of a big operator. Its body extends over a product, so the whole
+ * operator binds like one.
+ */
+const BIG_OPERATOR_PRECEDENCE = UNARY_PRECEDENCE - 1;
+
+/**
+ * Precedence of a node once typeset. A fraction is drawn as a single block, so it only
+ * needs grouping where a power base or postfix operand is expected.
+ * @param node - The node
+ */
+function typesetPrecedence(node: ASTNode): number {
+  if (node.type === NodeType.BinaryOperation && (node as BinaryOperationNode).operator === '/') {
+    return POSTFIX_PRECEDENCE - 1;
+  }
+  if (isBigOperator(node)) {
+    return BIG_OPERATOR_PRECEDENCE;
+  }
+  return getPrecedence(node);
+}
+
+/**
+ * Check whether a node is a binder call over integer bounds, like sum(k, 1, n, k^2)
+ * @param node - The node
+ */
+function isBigOperator(node: ASTNode): node is FunctionCallNode {
+  if (node.type !== NodeType.FunctionCall) {
+    return false;
+  }
+  const { name, arguments: args } = node as FunctionCallNode;
+  return BIG_OPERATORS.has(name) && args.length === 4 && args[0].type === NodeType.Variable;
+}
+
+/**
+ * Split a number literal into its mantissa and decimal exponent
+ * @param value - The literal text
+ */
+function splitScientific(value: string): { mantissa: string; exponent: string | null } {
+  // The letter e is a digit in bases above 14
+  if (splitBaseLiteral(value)) {
+    return { mantissa: value, exponent: null };
+  }
+
+  const match = /^([^eE]+)[eE]\+?(-?\d+)$/.exec(value);
+  return match ? { mantissa: match[1], exponent: match[2] } : { mantissa: value, exponent: null };
+}
+
+/**
+ * Check whether a product reads naturally without a multiplication sign, as in 2x or 3sin(x)
+ * @param left - The left factor
+ * @param right - The right factor
+ */
+function isImplicitProduct(left: ASTNode, right: ASTNode): boolean {
+  if (left.type !== NodeType.Number || splitScientific((left as NumberNode).value).exponent !== null) {
+    return false;
+  }
+
+  let factor = right;
+  if (factor.type === NodeType.BinaryOperation && (factor as BinaryOperationNode).operator === '^') {
+    factor = (factor as BinaryOperationNode).left;
+  }
+
+  return factor.type === NodeType.Variable || factor.type === NodeType.FunctionCall;
+}
+
+/**
+ * Get the derivative variable and order of a diff call, or null when the call is not a derivative
+ * @param args - The call arguments
+ */
+function derivativeParts(args: ASTNode[]): { variable: string; order: ASTNode | null } | null {
+  if ((args.length !== 2 && args.length !== 3) || args[1].type !== NodeType.Variable) {
+    return null;
+  }
+  return { variable: (args[1] as VariableNode).name, order: args[2] ?? null };
+}
+
+/**
+ * Serialize an AST to LaTeX
+ * @param node - The node to serialize
+ * @returns LaTeX source for math mode
+ */
+export function toLatex(node: ASTNode): string {
+  switch (node.type) {
+    case NodeType.Number: {
+      // Literals in other bases are written with the base as a subscript, as in ff₁₆
+      const literal = splitBaseLiteral((node as NumberNode).value);
+      if (literal) {
+        return `\\mathrm{${literal.digits}}_{${literal.base}}`;
+      }
+
+      const { mantissa, exponent } = splitScientific((node as NumberNode).value);
+      return exponent === null ? mantissa : `${mantissa} \\times 10^{${exponent}}`;
+    }
+
+    case NodeType.Variable:
+      return latexIdentifier((node as VariableNode).name);
+
+    case NodeType.BinaryOperation: {
+      const { operator, left, right } = node as BinaryOperationNode;
+
+      if (operator === '/') {
+        return `\\frac{${toLatex(left)}}{${toLatex(right)}}`;
+      }
+
+      if (operator === '^') {
+        // The exponent is raised into its own group, so only the base may need grouping
+        return `${latexOperand(left, POSTFIX_PRECEDENCE)}^{${toLatex(right)}}`;
+      }
+
+      const precedence = getPrecedence(node);
+      const leftText = latexOperand(left, precedence);
+      const rightText = latexOperand(right, precedence + 1);
+
+      if (operator === '*' && isImplicitProduct(left, right)) {
+        return `${leftText} ${rightText}`;
+      }
+
+      return `${leftText} ${LATEX_OPERATORS[operator] ?? operator} ${rightText}`;
+    }
+
+    case NodeType.UnaryOperation: {
+      const { operator, argument } = node as UnaryOperationNode;
+      const argumentText = latexOperand(argument, UNARY_PRECEDENCE + 1);
+      return operator === '!' ? `\\lnot ${argumentText}` : `${operator}${argumentText}`;
+    }
+
+    case NodeType.PostfixOperation: {
+      const { operator, argument } = node as PostfixOperationNode;
+      return `${latexOperand(argument, PRIMARY_PRECEDENCE)}${operator}`;
+    }
+
+    case NodeType.FunctionCall:
+      return latexFunctionCall(node as FunctionCallNode);
+
+    case NodeType.Conditional: {
+      const { condition, consequent, alternate } = node as ConditionalNode;
+      return `\\begin{cases} ${toLatex(consequent)} & \\text{if } ${toLatex(condition)} \\\\ ${toLatex(alternate)} & \\text{otherwise} \\end{cases}`;
+    }
+
+    case NodeType.List:
+      return `\\left[${(node as ListNode).elements.map(toLatex).join(', ')}\\right]`;
+
+    case NodeType.Set:
+      return `\\left\\{${(node as SetNode).elements.map(toLatex).join(', ')}\\right\\}`;
+
+    case NodeType.Range: {
+      const { start, end, step } = node as RangeNode;
+      const range = `${latexOperand(start, RANGE_PRECEDENCE + 1)} \\ldots ${latexOperand(end, RANGE_PRECEDENCE + 1)}`;
+      return step ? `${range} \\text{ step } ${latexOperand(step, RANGE_PRECEDENCE + 1)}` : range;
+    }
+
+    case NodeType.Conversion: {
+      const { value, unit } = node as ConversionNode;
+      return `${toLatex(value)} \\text{ in } ${toLatex(unit)}`;
+    }
+
+    case NodeType.Modular: {
+      const { body, modulus } = node as ModularNode;
+      return `${latexOperand(body, CONDITIONAL_PRECEDENCE)} \\bmod ${latexOperand(modulus, RANGE_PRECEDENCE + 1)}`;
+    }
+
+    case NodeType.Assignment: {
+      const { name, value } = node as AssignmentNode;
+      return `${latexIdentifier(name)} = ${toLatex(value)}`;
+    }
+
+    case NodeType.FunctionDefinition: {
+      const { name, parameters, body } = node as FunctionDefinitionNode;
+      return `${latexFunctionName(name)}\\left(${parameters.map(latexIdentifier).join(', ')}\\right) = ${toLatex(body)}`;
+    }
+
+    case NodeType.CustomOperation: {
+      const operation = node as CustomOperationNode;
+      const [first, second] = customOperandPrecedences(operation).map(
+        (precedence, index) => latexOperand(operation.operands[index], precedence)
+      );
+      // Word operators such as mod are set upright
+      const operator = /\w/.test(operation.operator) ? `\\operatorname{${operation.operator}}` : operation.operator;
+
+      switch (operation.fixity) {
+        case 'prefix':
+          return `${operator} ${first}`;
+        case 'postfix':
+          return `${first}${operator}`;
+        default:
+          return `${first} ${operator} ${second}`;
+      }
+    }
+
+    case NodeType.Literal:
+      return `\\text{${(node as LiteralNode).text}}`;
+
+    default:
+      throw new Error(`Cannot serialize node type: ${node.type}`);
+  }
+}
+
+/**
+ * Serialize an operand, grouping it in brackets when it binds less tightly than required
+ * @param node - The operand
+ * @param minimumPrecedence - The precedence the operand position requires
+ */
+function latexOperand(node: ASTNode, minimumPrecedence: number): string {
+  const text = toLatex(node);
+  return typesetPrecedence(node) < minimumPrecedence ? `\\left(${text}\\right)` : text;
+}
+
+/**
+ * Typeset an identifier: Greek letter names become symbols, trailing digits and
+ * underscore suffixes become subscripts and longer names are set upright
+ * @param name - The identifier
+ */
+function latexIdentifier(name: string): string {
+  if (GREEK_LETTERS[name]) {
+    return `\\${name}`;
+  }
+
+  const underscore = name.indexOf('_');
+  if (underscore > 0 && underscore < name.length - 1) {
+    return `${latexIdentifier(name.slice(0, underscore))}_{${latexIdentifier(name.slice(underscore + 1))}}`;
+  }
+
+  const indexed = /^([A-Za-z]+)(\d+)$/.exec(name);
+  if (indexed) {
+    return `${latexIdentifier(indexed[1])}_{${indexed[2]}}`;
+  }
+
+  return name.length === 1 ? name : `\\mathrm{${name.replace(/_/g, '\\_')}}`;
+}
+
+/**
+ * Typeset the name of a function
+ * @param name - The function name
+ */
+function latexFunctionName(name: string): string {
+  const conventional = FUNCTION_NAMES[name];
+
+  if (conventional) {
+    return LATEX_COMMANDS.has(conventional) ? `\\${conventional}` : `\\operatorname{${conventional}}`;
+  }
+
+  return name.length === 1 ? name : `\\operatorname{${name.replace(/_/g, '\\_')}}`;
+}
+
+/**
+ * Serialize a function call, using the conventional notation where one exists
+ * @param node - The call
+ */
+function latexFunctionCall(node: FunctionCallNode): string {
+  const { name, arguments: args } = node;
+
+  if (args.length === 1) {
+    const [argument] = args;
+
+    if (name === 'sqrt') {
+      return `\\sqrt{${toLatex(argument)}}`;
+    }
+    if (BRACKET_FUNCTIONS[name]) {
+      const [open, close] = BRACKET_FUNCTIONS[name];
+      return `${open}${toLatex(argument)}${close}`;
+    }
+    if (name === 'conj') {
+      return `\\overline{${toLatex(argument)}}`;
+    }
+    if (name === 'factorial' || name === 'doubleFactorial') {
+      return `${latexOperand(argument, PRIMARY_PRECEDENCE)}${name === 'factorial' ? '!' : '!!'}`;
+    }
+    if (name === 'log2') {
+      return `\\log_{2}\\left(${toLatex(argument)}\\right)`;
+    }
+  }
+
+  if (name === 'diff') {
+    const derivative = derivativeParts(args);
+
+    if (derivative) {
+      const variable = latexIdentifier(derivative.variable);
+      const order = derivative.order ? toLatex(derivative.order) : null;
+      const operator = order
+        ? `\\frac{d^{${order}}}{d${variable}^{${order}}}`
+        : `\\frac{d}{d${variable}}`;
+      return `${operator}\\left(${toLatex(args[0])}\\right)`;
+    }
+  }
+
+  if (isBigOperator(node)) {
+    const [variable, from, to, body] = args;
+    const [command] = BIG_OPERATORS.get(name) as [string, string];
+    return `${command}_{${toLatex(variable)}=${toLatex(from)}}^{${toLatex(to)}} ${latexOperand(body, BIG_OPERATOR_PRECEDENCE)}`;
+  }
+
+  return `${latexFunctionName(name)}\\left(${args.map(toLatex).join(', ')}\\right)`;
+}
+
+/**
+ * Serialize an AST to presentation MathML
+ * @param node - The node to serialize
+ * @param display - Whether the formula is inline or a displayed block
+ * @returns A complete <math> element
+ */
+export function toMathML(node: ASTNode, display: MathMLDisplay = 'inline'): string {
+  const displayAttribute = display === 'block' ? ' display="block"' : '';
+  return `<math xmlns="http://www.w3.org/1998/Math/MathML"${displayAttribute}>${mathmlNode(node)}</math>`;
+}
+
+/**
+ * Serialize a node to MathML content without the enclosing <math> element
+ * @param node - The node to serialize
+ */
+function mathmlNode(node: ASTNode): string {
+  switch (node.type) {
+    case NodeType.Number: {
+      const literal = splitBaseLiteral((node as NumberNode).value);
+      if (literal) {
+        return `<msub><mn>${literal.digits}</mn><mn>${literal.base}</mn></msub>`;
+      }
+
+      const { mantissa, exponent } = splitScientific((node as NumberNode).value);
+
+      if (exponent === null) {
+        return `<mn>${mantissa}</mn>`;
+      }
+
+      const power = exponent.startsWith('-')
+        ? `<mrow><mo>−</mo><mn>${exponent.slice(1)}</mn></mrow>`
+        : `<mn>${exponent}</mn>`;
+      return `<mrow><mn>${mantissa}</mn><mo>×</mo><msup><mn>10</mn>${power}</msup></mrow>`;
+    }
+
+    case NodeType.Variable:
+      return mathmlIdentifier((node as VariableNode).name);
+
+    case NodeType.BinaryOperation: {
+      const { operator, left, right } = node as BinaryOperationNode;
+
+      if (operator === '/') {
+        return `<mfrac>${mathmlNode(left)}${mathmlNode(right)}</mfrac>`;
+      }
+
+      if (operator === '^') {
+        return `<msup>${mathmlOperand(left, POSTFIX_PRECEDENCE)}${mathmlNode(right)}</msup>`;
+      }
+
+      const precedence = getPrecedence(node);
+      const leftContent = mathmlOperand(left, precedence);
+      const rightContent = mathmlOperand(right, precedence + 1);
+
+      // U+2062 INVISIBLE TIMES marks a product written by juxtaposition
+      const symbol = operator === '*' && isImplicitProduct(left, right)
+        ? '&#x2062;'
+        : MATHML_OPERATORS[operator] ?? operator;
+
+      return `<mrow>${leftContent}<mo>${symbol}</mo>${rightContent}</mrow>`;
+    }
+
+    case NodeType.UnaryOperation: {
+      const { operator, argument } = node as UnaryOperationNode;
+      const symbol = operator === '!' ? '¬' : operator === '-' ? '−' : operator;
+      return `<mrow><mo>${symbol}</mo>${mathmlOperand(argument, UNARY_PRECEDENCE + 1)}</mrow>`;
+    }
+
+    case NodeType.PostfixOperation: {
+      const { operator, argument } = node as PostfixOperationNode;
+      return `<mrow>${mathmlOperand(argument, PRIMARY_PRECEDENCE)}<mo>${operator}</mo></mrow>`;
+    }
+
+    case NodeType.FunctionCall:
+      return mathmlFunctionCall(node as FunctionCallNode);
+
+    case NodeType.Conditional: {
+      const { condition, consequent, alternate } = node as ConditionalNode;
+      return '<mrow><mo>{</mo><mtable columnalign="left">'
+        + `<mtr><mtd>${mathmlNode(consequent)}</mtd><mtd><mtext>if&#xA0;</mtext>${mathmlNode(condition)}</mtd></mtr>`
+        + `<mtr><mtd>${mathmlNode(alternate)}</mtd><mtd><mtext>otherwise</mtext></mtd></mtr>`
+        + '</mtable></mrow>';
+    }
+
+    case NodeType.List:
+      return mathmlFenced('[', ']', (node as ListNode).elements);
+
+    case NodeType.Set:
+      return mathmlFenced('{', '}', (node as SetNode).elements);
+
+    case NodeType.Range: {
+      const { start, end, step } = node as RangeNode;
+      const range = `${mathmlOperand(start, RANGE_PRECEDENCE + 1)}<mo>…</mo>${mathmlOperand(end, RANGE_PRECEDENCE + 1)}`;
+      const stepContent = step ? `<mtext>&#xA0;step&#xA0;</mtext>${mathmlOperand(step, RANGE_PRECEDENCE + 1)}` : '';
+      return `<mrow>${range}${stepContent}</mrow>`;
+    }
+
+    case NodeType.Conversion: {
+      const { value, unit } = node as ConversionNode;
+      return `<mrow>${mathmlNode(value)}<mtext>&#xA0;in&#xA0;</mtext>${mathmlNode(unit)}</mrow>`;
+    }
+
+    case NodeType.Modular: {
+      const { body, modulus } = node as ModularNode;
+      const content = `${mathmlOperand(body, CONDITIONAL_PRECEDENCE)}<mo>mod</mo>${mathmlOperand(modulus, RANGE_PRECEDENCE + 1)}`;
+      return `<mrow>${content}</mrow>`;
+    }
+
+    case NodeType.Assignment: {
+      const { name, value } = node as AssignmentNode;
+      return `<mrow>${mathmlIdentifier(name)}<mo>=</mo>${mathmlNode(value)}</mrow>`;
+    }
+
+    case NodeType.FunctionDefinition: {
+      const { name, parameters, body } = node as FunctionDefinitionNode;
+      const parameterList = parameters.map(mathmlIdentifier).join('<mo>,</mo>');
+      return `<mrow>${mathmlFunctionName(name)}<mo>&#x2061;</mo><mrow><mo>(</mo>${parameterList}<mo>)</mo></mrow><mo>=</mo>${mathmlNode(body)}</mrow>`;
+    }
+
+    case NodeType.CustomOperation: {
+      const operation = node as CustomOperationNode;
+      const [first, second] = customOperandPrecedences(operation).map(
+        (precedence, index) => mathmlOperand(operation.operands[index], precedence)
+      );
+      const operator = `<mo>${operation.operator}</mo>`;
+
+      switch (operation.fixity) {
+        case 'prefix':
+          return `<mrow>${operator}${first}</mrow>`;
+        case 'postfix':
+          return `<mrow>${first}${operator}</mrow>`;
+        default:
+          return `<mrow>${first}${operator}${second}</mrow>`;
+      }
+    }
+
+    case NodeType.Literal:
+      return `<mn>${(node as LiteralNode).text}</mn>`;
+
+    default:
+      throw new Error(`Cannot serialize node type: ${node.type}`);
+  }
+}
+
+/**
+ * Serialize an operand, wrapping it in parentheses when it binds less tightly than required
+ * @param node - The operand
+ * @param minimumPrecedence - The precedence the operand position requires
+ */
+function mathmlOperand(node: ASTNode, minimumPrecedence: number): string {
+  const content = mathmlNode(node);
+  return typesetPrecedence(node) < minimumPrecedence ? `<mrow><mo>(</mo>${content}<mo>)</mo></mrow>` : content;
+}
+
+/**
+ * Serialize a comma-separated sequence between delimiters
+ * @param open - The opening delimiter
+ * @param close - The closing delimiter
+ * @param elements - The elements
+ */
+function mathmlFenced(open: string, close: string, elements: ASTNode[]): string {
+  return `<mrow><mo>${open}</mo>${elements.map(mathmlNode).join('<mo>,</mo>')}<mo>${close}</mo></mrow>`;
+}
+
+/**
+ * Typeset an identifier following the same rules as the LaTeX serializer
+ * @param name - The identifier
+ */
+function mathmlIdentifier(name: string): string {
+  if (GREEK_LETTERS[name]) {
+    return `<mi>${GREEK_LETTERS[name]}</mi>`;
+  }
+
+  const underscore = name.indexOf('_');
+  if (underscore > 0 && underscore < name.length - 1) {
+    return `<msub>${mathmlIdentifier(name.slice(0, underscore))}${mathmlIdentifier(name.slice(underscore + 1))}</msub>`;
+  }
+
+  const indexed = /^([A-Za-z]+)(\d+)$/.exec(name);
+  if (indexed) {
+    return `<msub>${mathmlIdentifier(indexed[1])}<mn>${indexed[2]}</mn></msub>`;
+  }
+
+  return `<mi>${name}</mi>`;
+}
+
+/**
+ * Typeset the name of a function
+ * @param name - The function name
+ */
+function mathmlFunctionName(name: string): string {
+  return `<mi>${FUNCTION_NAMES[name] ?? name}</mi>`;
+}
+
+/**
+ * Serialize a function call, using the conventional notation where one exists
+ * @param node - The call
+ */
+function mathmlFunctionCall(node: FunctionCallNode): string {
+  const { name, arguments: args } = node;
+
+  if (args.length === 1) {
+    const [argument] = args;
+
+    if (name === 'sqrt') {
+      return `<msqrt>${mathmlNode(argument)}</msqrt>`;
+    }
+    if (BRACKET_FUNCTIONS[name]) {
+      const [, , open, close] = BRACKET_FUNCTIONS[name];
+      return `<mrow><mo>${open}</mo>${mathmlNode(argument)}<mo>${close}</mo></mrow>`;
+    }
+    if (name === 'conj') {
+      return `<mover accent="true">${mathmlNode(argument)}<mo>¯</mo></mover>`;
+    }
+    if (name === 'factorial' || name === 'doubleFactorial') {
+      return `<mrow>${mathmlOperand(argument, PRIMARY_PRECEDENCE)}<mo>${name === 'factorial' ? '!' : '!!'}</mo></mrow>`;
+    }
+    if (name === 'log2') {
+      return `<mrow><msub><mi>log</mi><mn>2</mn></msub><mo>&#x2061;</mo>${mathmlFenced('(', ')', args)}</mrow>`;
+    }
+  }
+
+  if (name === 'diff') {
+    const derivative = derivativeParts(args);
+
+    if (derivative) {
+      const variable = mathmlIdentifier(derivative.variable);
+      const order = derivative.order ? mathmlNode(derivative.order) : null;
+      const operator = order
+        ? `<mfrac><msup><mi>d</mi>${order}</msup><mrow><mi>d</mi><msup>${variable}${order}</msup></mrow></mfrac>`
+        : `<mfrac><mi>d</mi><mrow><mi>d</mi>${variable}</mrow></mfrac>`;
+      return `<mrow>${operator}${mathmlFenced('(', ')', [args[0]])}</mrow>`;
+    }
+  }
+
+  if (isBigOperator(node)) {
+    const [variable, from, to, body] = args;
+    const [, operator] = BIG_OPERATORS.get(name) as [string, string];
+    const lower = `<mrow>${mathmlNode(variable)}<mo>=</mo>${mathmlNode(from)}</mrow>`;
+    return `<mrow><munderover><mo>${operator}</mo>${lower}${mathmlNode(to)}</munderover>${mathmlOperand(body, BIG_OPERATOR_PRECEDENCE)}</mrow>`;
+  }
+
+  // U+2061 FUNCTION APPLICATION ties the name to its argument list
+  return `<mrow>${mathmlFunctionName(name)}<mo>&#x2061;</mo>${mathmlFenced('(', ')', args)}</mrow>`;
+}
@@ -0,0 +1,794 @@
+/**
+ * Symbolic manipulation of expression trees
+ *
+ * Differentiation applies the usual rules (sum, product, quotient, power and chain rule)
+ * to the AST produced by the parser. The raw derivative is full of zeros and ones, so
+ * simplify() then folds constants, removes identities and collects like terms and
+ * factors, using exact integer and rational arithmetic for the coefficients.
+ */
+
+import {
+  ASTNode,
+  NodeType,
+  NumberNode,
+  BinaryOperationNode,
+  UnaryOperationNode,
+  PostfixOperationNode,
+  FunctionCallNode,
+  VariableNode,
+  ConditionalNode,
+  ListNode,
+  SetNode,
+  RangeNode,
+  ConversionNode,
+  ModularNode,
+  AssignmentNode,
+  FunctionDefinitionNode,
+  CustomOperationNode
+} from './types';
+import { printExpression } from './printer';
+import {
+  RationalValue,
+  parseNumberLiteral,
+  isExact,
+  isRational,
+  add,
+  multiply,
+  divide,
+  power,
+  negate,
+  compare,
+  bitLength
+} from './numeric';
+
+/**
+ * Exact constant appearing in an expression
+ */
+type Exact = bigint | RationalValue;
+
+/**
+ * Options for symbolic operations
+ */
+export interface SymbolicOptions {
+  // User-defined functions, expanded in place before differentiating
+  functions?: Record<string, FunctionDefinitionNode>;
+}
+
+/**
+ * Maximum nesting of user-defined functions that are expanded in place
+ */
+const MAX_EXPANSION_DEPTH = 32;
+
+/**
+ * Maximum number of simplification passes
+ */
+const MAX_SIMPLIFY_PASSES = 20;
+
+/**
+ * Largest exponent used when folding constant powers
+ */
+const MAX_FOLDED_EXPONENT = 256n;
+
+// Node constructors
+
+const numberNode = (value: string): ASTNode => ({ type: NodeType.Number, value } as NumberNode);
+
+const binaryNode = (operator: string, left: ASTNode, right: ASTNode): ASTNode =>
+  ({ type: NodeType.BinaryOperation, operator, left, right } as BinaryOperationNode);
+
+const unaryNode = (operator: string, argument: ASTNode): ASTNode =>
+  ({ type: NodeType.UnaryOperation, operator, argument } as UnaryOperationNode);
+
+const callNode = (name: string, args: ASTNode[]): ASTNode =>
+  ({ type: NodeType.FunctionCall, name, arguments: args } as FunctionCallNode);
+
+const ZERO = (): ASTNode => numberNode('0');
+const ONE = (): ASTNode => numberNode('1');
+
+/**
+ * Derivatives of single-argument built-in functions with respect to their argument
+ */
+const DERIVATIVES: Record<string, (u: ASTNode) => ASTNode> = {
+  sin: u => callNode('cos', [u]),
+  cos: u => unaryNode('-', callNode('sin', [u])),
+  tan: u => binaryNode('/', ONE(), binaryNode('^', callNode('cos', [u]), numberNode('2'))),
+  asin: u => binaryNode('/', ONE(), callNode('sqrt', [binaryNode('-', ONE(), binaryNode('^', u, numberNode('2')))])),
+  acos: u => unaryNode('-', binaryNode('/', ONE(), callNode('sqrt', [binaryNode('-', ONE(), binaryNode('^', u, numberNode('2')))]))),
+  atan: u => binaryNode('/', ONE(), binaryNode('+', ONE(), binaryNode('^', u, numberNode('2')))),
+  sinh: u => callNode('cosh', [u]),
+  cosh: u => callNode('sinh', [u]),
+  tanh: u => binaryNode('/', ONE(), binaryNode('^', callNode('cosh', [u]), numberNode('2'))),
+  exp: u => callNode('exp', [u]),
+  ln: u => binaryNode('/', ONE(), u),
+  log: u => binaryNode('/', ONE(), binaryNode('*', u, callNode('ln', [numberNode('10')]))),
+  log2: u => binaryNode('/', ONE(), binaryNode('*', u, callNode('ln', [numberNode('2')]))),
+  sqrt: u => binaryNode('/', ONE(), binaryNode('*', numberNode('2'), callNode('sqrt', [u]))),
+  abs: u => binaryNode('/', u, callNode('abs', [u]))
+};
+
+/**
+ * Get the direct children of a node
+ * @param node - The node
+ * @returns The child nodes
+ */
+function childrenOf(node: ASTNode): ASTNode[] {
+  switch (node.type) {
+    case NodeType.BinaryOperation:
+      return [(node as BinaryOperationNode).left, (node as BinaryOperationNode).right];
+    case NodeType.UnaryOperation:
+    case NodeType.PostfixOperation:
+      return [(node as UnaryOperationNode | PostfixOperationNode).argument];
+    case NodeType.FunctionCall:
+      return (node as FunctionCallNode).arguments;
+    case NodeType.Conditional: {
+      const { condition, consequent, alternate } = node as ConditionalNode;
+      return [condition, consequent, alternate];
+    }
+    case NodeType.List:
+    case NodeType.Set:
+      return (node as ListNode | SetNode).elements;
+    case NodeType.Range: {
+      const { start, end, step } = node as RangeNode;
+      return step ? [start, end, step] : [start, end];
+    }
+    case NodeType.Conversion:
+      // The target is a unit, not an expression in the variables
+      return [(node as ConversionNode).value];
+    case NodeType.Assignment:
+      return [(node as AssignmentNode).value];
+    case NodeType.FunctionDefinition:
+      return [(node as FunctionDefinitionNode).body];
+    case NodeType.CustomOperation:
+      return (node as CustomOperationNode).operands;
+    case NodeType.Modular: {
+      const { modulus, body } = node as ModularNode;
+      return [modulus, body];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Rebuild a node with its children transformed
+ * @param node - The node
+ * @param transform - Function applied to every child
+ * @returns A new node of the same type
+ */
+function mapChildren(node: ASTNode, transform: (child: ASTNode) => ASTNode): ASTNode {
+  switch (node.type) {
+    case NodeType.BinaryOperation: {
+      const { left, right } = node as BinaryOperationNode;
+      return { ...node, left: transform(left), right: transform(right) } as BinaryOperationNode;
+    }
+    case NodeType.UnaryOperation:
+    case NodeType.PostfixOperation:
+      return { ...node, argument: transform((node as UnaryOperationNode).argument) } as UnaryOperationNode;
+    case NodeType.FunctionCall:
+      return { ...node, arguments: (node as FunctionCallNode).arguments.map(transform) } as FunctionCallNode;
+    case NodeType.Conditional: {
+      const { condition, consequent, alternate } = node as ConditionalNode;
+      return {
+        ...node,
+        condition: transform(condition),
+        consequent: transform(consequent),
+        alternate: transform(alternate)
+      } as ConditionalNode;
+    }
+    case NodeType.List:
+    case NodeType.Set:
+      return { ...node, elements: (node as ListNode).elements.map(transform) } as ListNode;
+    case NodeType.Range: {
+      const { start, end, step } = node as RangeNode;
+      return {
+        ...node,
+        start: transform(start),
+        end: transform(end),
+        step: step ? transform(step) : undefined
+      } as RangeNode;
+    }
+    case NodeType.Conversion:
+      return { ...node, value: transform((node as ConversionNode).value) } as ConversionNode;
+    case NodeType.Assignment:
+      return { ...node, value: transform((node as AssignmentNode).value) } as AssignmentNode;
+    case NodeType.FunctionDefinition:
+      return { ...node, body: transform((node as FunctionDefinitionNode).body) } as FunctionDefinitionNode;
+    case NodeType.CustomOperation:
+      return { ...node, operands: (node as CustomOperationNode).operands.map(transform) } as CustomOperationNode;
+    case NodeType.Modular: {
+      const { modulus, body } = node as ModularNode;
+      return { ...node, modulus: transform(modulus), body: transform(body) } as ModularNode;
+    }
+    default:
+      return node;
+  }
+}
+
+/**
+ * Check whether an expression depends on a variable
+ * @param node - The expression
+ * @param variable - The variable name
+ */
+export function dependsOn(node: ASTNode, variable: string): boolean {
+  if (node.type === NodeType.Variable) {
+    return (node as VariableNode).name === variable;
+  }
+  return childrenOf(node).some(child => dependsOn(child, variable));
+}
+
+/**
+ * Replace variables by expressions
+ * @param node - The expression
+ * @param bindings - Replacement expression for each variable name
+ * @returns The expression with the variables replaced
+ */
+export function substitute(node: ASTNode, bindings: Record<string, ASTNode>): ASTNode {
+  if (node.type === NodeType.Variable) {
+    const { name } = node as VariableNode;
+    return Object.prototype.hasOwnProperty.call(bindings, name) ? bindings[name] : node;
+  }
+  return mapChildren(node, child => substitute(child, bindings));
+}
+
+/**
+ * Expand calls to user-defined functions by substituting their bodies
+ * @param node - The expression
+ * @param functions - The user-defined functions
+ * @param depth - Current expansion depth
+ * @returns The expanded expression
+ */
+function expandFunctions(
+  node: ASTNode,
+  functions: Record<string, FunctionDefinitionNode>,
+  depth: number = 0
+): ASTNode {
+  const expanded = mapChildren(node, child => expandFunctions(child, functions, depth));
+
+  if (expanded.type !== NodeType.FunctionCall) {
+    return expanded;
+  }
+
+  const { name, arguments: args } = expanded as FunctionCallNode;
+  if (!Object.prototype.hasOwnProperty.call(functions, name)) {
+    return expanded;
+  }
+
+  const definition = functions[name];
+  if (definition.parameters.length !== args.length) {
+    throw new Error(`Function ${name} expects ${definition.parameters.length} argument(s) but got ${args.length}`);
+  }
+  if (depth >= MAX_EXPANSION_DEPTH) {
+    throw new Error(`Cannot expand recursive function ${name}`);
+  }
+  if (definition.body.type === NodeType.Block) {
+    throw new Error(`Cannot expand function ${name}: its body is a script block`);
+  }
+
+  const bindings: Record<string, ASTNode> = {};
+  definition.parameters.forEach((parameter, index) => {
+    bindings[parameter] = args[index];
+  });
+
+  return expandFunctions(substitute(definition.body, bindings), functions, depth + 1);
+}
+
+/**
+ * Apply the differentiation rules to an expression without user-defined function calls
+ */
+function derive(node: ASTNode, variable: string): ASTNode {
+  if (!dependsOn(node, variable)) {
+    return ZERO();
+  }
+
+  switch (node.type) {
+    case NodeType.Variable:
+      return ONE();
+
+    case NodeType.BinaryOperation: {
+      const { operator, left, right } = node as BinaryOperationNode;
+      const dl = (): ASTNode => derive(left, variable);
+      const dr = (): ASTNode => derive(right, variable);
+
+      switch (operator) {
+        case '+':
+        case '-':
+          return binaryNode(operator, dl(), dr());
+        case '*':
+          return binaryNode('+', binaryNode('*', dl(), right), binaryNode('*', left, dr()));
+        case '/':
+          return binaryNode(
+            '/',
+            binaryNode('-', binaryNode('*', dl(), right), binaryNode('*', left, dr())),
+            binaryNode('^', right, numberNode('2'))
+          );
+        case '^':
+          // Power rule: d(u^n) = n * u^(n - 1) * u'
+          if (!dependsOn(right, variable)) {
+            return binaryNode('*', binaryNode('*', right, binaryNode('^', left, binaryNode('-', right, ONE()))), dl());
+          }
+          // Exponential rule: d(a^v) = a^v * ln(a) * v'
+          if (!dependsOn(left, variable)) {
+            return binaryNode('*', binaryNode('*', node, callNode('ln', [left])), dr());
+          }
+          // General rule: d(u^v) = u^v * (v' * ln(u) + v * u' / u)
+          return binaryNode(
+            '*',
+            node,
+            binaryNode('+', binaryNode('*', dr(), callNode('ln', [left])), binaryNode('/', binaryNode('*', right, dl()), left))
+          );
+        default:
+          throw new Error(`Cannot differentiate operator: ${operator}`);
+      }
+    }
+
+    case NodeType.UnaryOperation: {
+      const { operator, argument } = node as UnaryOperationNode;
+      if (operator === '-' || operator === '+') {
+        return unaryNode(operator, derive(argument, variable));
+      }
+      throw new Error(`Cannot differentiate operator: ${operator}`);
+    }
+
+    case NodeType.FunctionCall: {
+      const { name, arguments: args } = node as FunctionCallNode;
+      const rule = DERIVATIVES[name];
+
+      if (!rule || args.length !== 1) {
+        throw new Error(`Cannot differentiate function: ${name}`);
+      }
+
+      // Chain rule: d(f(u)) = f'(u) * u'
+      return binaryNode('*', rule(args[0]), derive(args[0], variable));
+    }
+
+    case NodeType.Conditional: {
+      const { condition, consequent, alternate } = node as ConditionalNode;
+      return {
+        type: NodeType.Conditional,
+        condition,
+        consequent: derive(consequent, variable),
+        alternate: derive(alternate, variable)
+      } as ConditionalNode;
+    }
+
+    case NodeType.List:
+      return { type: NodeType.List, elements: (node as ListNode).elements.map(element => derive(element, variable)) } as ListNode;
+
+    default:
+      throw new Error(`Cannot differentiate expression: ${printExpression(node)}`);
+  }
+}
+
+/**
+ * Get the exact value of a constant expression
+ * @param node - The expression
+ * @returns The value, or null if the expression is not an exact constant
+ */
+function constantValue(node: ASTNode): Exact | null {
+  switch (node.type) {
+    case NodeType.Number: {
+      const value = parseNumberLiteral((node as NumberNode).value, 'maximum');
+      return isExact(value) ? value : null;
+    }
+
+    case NodeType.UnaryOperation: {
+      const { operator, argument } = node as UnaryOperationNode;
+      const value = operator === '-' || operator === '+' ? constantValue(argument) : null;
+      return value === null ? null : operator === '-' ? negate(value) as Exact : value;
+    }
+
+    case NodeType.BinaryOperation: {
+      const { operator, left, right } = node as BinaryOperationNode;
+      const l = constantValue(left);
+      const r = l === null ? null : constantValue(right);
+      if (l === null || r === null) {
+        return null;
+      }
+
+      switch (operator) {
+        case '+': return add(l, r) as Exact;
+        case '-': return add(l, negate(r)) as Exact;
+        case '*': return multiply(l, r) as Exact;
+        case '/': return isZero(r) ? null : divide(l, r) as Exact;
+        case '^':
+          // Only small integer powers are folded, so 2^(1/2) stays symbolic
+          if (typeof r !== 'bigint' || r > MAX_FOLDED_EXPONENT || r < -MAX_FOLDED_EXPONENT || (isZero(l) && r < 0n)) {
+            return null;
+          }
+          if (bitLength(isRational(l) ? l.numerator * l.denominator : l) * Number(r < 0n ? -r : r) > 4096) {
+            return null;
+          }
+          return power(l, r) as Exact;
+        default:
+          return null;
+      }
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check whether an exact value is zero
+ */
+function isZero(value: Exact): boolean {
+  return value === 0n;
+}
+
+/**
+ * Check whether an exact value is one
+ */
+function isOne(value: Exact): boolean {
+  return value === 1n;
+}
+
+/**
+ * Build an expression for an exact constant
+ * @param value - The constant
+ * @returns A number, a fraction, or the negation of either
+ */
+function constantNode(value: Exact): ASTNode {
+  if (compare(value, 0n) < 0) {
+    return unaryNode('-', constantNode(negate(value) as Exact));
+  }
+  if (isRational(value)) {
+    return binaryNode('/', numberNode(value.numerator.toString()), numberNode(value.denominator.toString()));
+  }
+  return numberNode(value.toString());
+}
+
+/**
+ * A product split into an exact coefficient and its remaining factors
+ */
+interface Term {
+  coefficient: Exact;
+  factors: ASTNode[];
+}
+
+/**
+ * Split an expression into a coefficient and factors
+ * @param node - The expression
+ * @returns The term
+ */
+function splitTerm(node: ASTNode): Term {
+  const value = constantValue(node);
+  if (value !== null) {
+    return { coefficient: value, factors: [] };
+  }
+
+  if (node.type === NodeType.UnaryOperation && (node as UnaryOperationNode).operator === '-') {
+    const term = splitTerm((node as UnaryOperationNode).argument);
+    return { coefficient: negate(term.coefficient) as Exact, factors: term.factors };
+  }
+
+  if (node.type === NodeType.BinaryOperation) {
+    const { operator, left, right } = node as BinaryOperationNode;
+
+    if (operator === '*') {
+      const l = splitTerm(left);
+      const r = splitTerm(right);
+      return { coefficient: multiply(l.coefficient, r.coefficient) as Exact, factors: [...l.factors, ...r.factors] };
+    }
+
+    if (operator === '/') {
+      const l = splitTerm(left);
+      const r = splitTerm(right);
+      
+      if (!isZero(r.coefficient)) {
+        // Divisor factors become negative powers, which buildProduct moves below the line
+        return {
+          coefficient: divide(l.coefficient, r.coefficient) as Exact,
+          factors: [...l.factors, ...r.factors.map(factor => binaryNode('^', factor, constantNode(-1n)))]
+        };
+      }
+    }
+  }
+
+  return { coefficient: 1n, factors: [node] };
+}
+
+/**
+ * Build a product from a coefficient and factors, collecting repeated factors into
+ * powers and moving negative powers and the coefficient's denominator below a division
+ * @param coefficient - The exact coefficient
+ * @param factors - The factors
+ * @returns The product expression
+ */
+function buildProduct(coefficient: Exact, factors: ASTNode[]): ASTNode {
+  if (isZero(coefficient)) {
+    return ZERO();
+  }
+  if (compare(coefficient, 0n) < 0) {
+    return negateLeading(buildProduct(negate(coefficient) as Exact, factors));
+  }
+
+  // Group factors with the same base, adding their exponents
+  const groups = new Map<string, { base: ASTNode; exponent: Exact }>();
+  for (const factor of factors) {
+    let base = factor;
+    let exponent: Exact = 1n;
+
+    if (factor.type === NodeType.BinaryOperation && (factor as BinaryOperationNode).operator === '^') {
+      const value = constantValue((factor as BinaryOperationNode).right);
+      if (value !== null) {
+        base = (factor as BinaryOperationNode).left;
+        exponent = value;
+      }
+    }
+
+    const key = printExpression(base);
+    const group = groups.get(key);
+    if (group) {
+      group.exponent = add(group.exponent, exponent) as Exact;
+    } else {
+      groups.set(key, { base, exponent });
+    }
+  }
+
+  const [numerator, denominator] = isRational(coefficient)
+    ? [coefficient.numerator, coefficient.denominator]
+    : [coefficient, 1n];
+
+  const raise = (base: ASTNode, exponent: Exact): ASTNode =>
+    isOne(exponent) ? base : binaryNode('^', base, constantNode(exponent));
+
+  const upper: ASTNode[] = numerator === 1n ? [] : [numberNode(numerator.toString())];
+  const lower: ASTNode[] = denominator === 1n ? [] : [numberNode(denominator.toString())];
+
+  for (const { base, exponent } of groups.values()) {
+    const sign = compare(exponent, 0n);
+    if (sign > 0) {
+      upper.push(raise(base, exponent));
+    } else if (sign < 0) {
+      lower.push(raise(base, negate(exponent) as Exact));
+    }
+  }
+
+  const multiplyAll = (nodes: ASTNode[]): ASTNode =>
+    nodes.length === 0 ? ONE() : nodes.reduce((product, node) => binaryNode('*', product, node));
+
+  return lower.length === 0 ? multiplyAll(upper) : binaryNode('/', multiplyAll(upper), multiplyAll(lower));
+}
+
+/**
+ * Negate a product by negating its leading factor, so -2 * x prints as such rather
+ * than as -(2 * x)
+ */
+function negateLeading(node: ASTNode): ASTNode {
+  if (node.type === NodeType.BinaryOperation) {
+    const binary = node as BinaryOperationNode;
+    if (binary.operator === '*' || binary.operator === '/') {
+      return { ...binary, left: negateLeading(binary.left) } as BinaryOperationNode;
+    }
+  }
+  return unaryNode('-', node);
+}
+
+/**
+ * Flatten a sum into signed terms
+ */
+function collectSumTerms(node: ASTNode, sign: bigint, terms: Term[]): void {
+  if (node.type === NodeType.BinaryOperation) {
+    const { operator, left, right } = node as BinaryOperationNode;
+    if (operator === '+' || operator === '-') {
+      collectSumTerms(left, sign, terms);
+      collectSumTerms(right, operator === '-' ? -sign : sign, terms);
+      return;
+    }
+  }
+
+  if (node.type === NodeType.UnaryOperation && (node as UnaryOperationNode).operator === '-') {
+    collectSumTerms((node as UnaryOperationNode).argument, -sign, terms);
+    return;
+  }
+
+  const term = splitTerm(node);
+  terms.push({ coefficient: multiply(term.coefficient, sign) as Exact, factors: term.factors });
+}
+
+/**
+ * Simplify a sum by collecting like terms
+ */
+function simplifySum(node: ASTNode): ASTNode {
+  const terms: Term[] = [];
+  collectSumTerms(node, 1n, terms);
+
+  // Terms are alike when they have the same factors in any order
+  const groups = new Map<string, Term>();
+  let constant: Exact = 0n;
+
+  for (const term of terms) {
+    if (term.factors.length === 0) {
+      constant = add(constant, term.coefficient) as Exact;
+      continue;
+    }
+
+    const key = term.factors.map(printExpression).sort().join(' * ');
+    const group = groups.get(key);
+    if (group) {
+      group.coefficient = add(group.coefficient, term.coefficient) as Exact;
+    } else {
+      groups.set(key, { ...term });
+    }
+  }
+
+  const collected = [...groups.values()].filter(term => !isZero(term.coefficient));
+  if (!isZero(constant)) {
+    collected.push({ coefficient: constant, factors: [] });
+  }
+
+  if (collected.length === 0) {
+    return ZERO();
+  }
+
+  return collected.reduce<ASTNode | null>((sum, term) => {
+    const negative = compare(term.coefficient, 0n) < 0;
+    if (sum === null) {
+      return buildProduct(term.coefficient, term.factors);
+    }
+    const magnitude = negative ? negate(term.coefficient) as Exact : term.coefficient;
+    return binaryNode(negative ? '-' : '+', sum, buildProduct(magnitude, term.factors));
+  }, null) as ASTNode;
+}
+
+/**
+ * Simplify a power
+ */
+function simplifyPower(node: BinaryOperationNode): ASTNode {
+  const { left, right } = node;
+  const exponent = constantValue(right);
+  const base = constantValue(left);
+
+  if (exponent !== null && isZero(exponent)) {
+    return ONE();
+  }
+  if (exponent !== null && isOne(exponent)) {
+    return left;
+  }
+  if (base !== null && isOne(base)) {
+    return ONE();
+  }
+  if (base !== null && isZero(base) && exponent !== null && compare(exponent, 0n) > 0) {
+    return ZERO();
+  }
+
+  // (u^a)^b = u^(a*b) for constant exponents
+  if (exponent !== null && left.type === NodeType.BinaryOperation && (left as BinaryOperationNode).operator === '^') {
+    const inner = constantValue((left as BinaryOperationNode).right);
+    if (inner !== null) {
+      return binaryNode('^', (left as BinaryOperationNode).left, constantNode(multiply(inner, exponent) as Exact));
+    }
+  }
+
+  return node;
+}
+
+/**
+ * Simplify calls with known values (e.g. ln(1), exp(0)) and inverse pairs
+ */
+function simplifyCall(node: FunctionCallNode): ASTNode {
+  const [argument] = node.arguments;
+  if (node.arguments.length !== 1) {
+    return node;
+  }
+
+  const value = constantValue(argument);
+  if (value !== null && isZero(value) && ['sin', 'tan', 'asin', 'atan', 'sinh', 'tanh', 'sqrt', 'abs'].includes(node.name)) {
+    return ZERO();
+  }
+  if (value !== null && isZero(value) && ['cos', 'cosh', 'exp'].includes(node.name)) {
+    return ONE();
+  }
+  if (value !== null && isOne(value) && ['ln', 'log', 'log2', 'sqrt', 'abs'].includes(node.name)) {
+    return node.name === 'sqrt' || node.name === 'abs' ? ONE() : ZERO();
+  }
+
+  if (node.name === 'ln' && argument.type === NodeType.Variable && (argument as VariableNode).name === 'e') {
+    return ONE();
+  }
+
+  if (argument.type === NodeType.FunctionCall) {
+    const inner = argument as FunctionCallNode;
+    if ((node.name === 'ln' && inner.name === 'exp') || (node.name === 'exp' && inner.name === 'ln')) {
+      return inner.arguments[0];
+    }
+  }
+
+  return node;
+}
+
+/**
+ * Apply one bottom-up simplification pass
+ */
+function simplifyOnce(node: ASTNode): ASTNode {
+  const simplified = mapChildren(node, simplifyOnce);
+
+  const value = constantValue(simplified);
+  if (value !== null) {
+    return constantNode(value);
+  }
+
+  switch (simplified.type) {
+    case NodeType.UnaryOperation: {
+      const { operator, argument } = simplified as UnaryOperationNode;
+      if (operator === '+') {
+        return argument;
+      }
+      if (operator === '-') {
+        return simplifySum(simplified);
+      }
+      return simplified;
+    }
+
+    case NodeType.BinaryOperation: {
+      const binary = simplified as BinaryOperationNode;
+      switch (binary.operator) {
+        case '+':
+        case '-':
+        case '*':
+        case '/':
+          return simplifySum(binary);
+        case '^':
+          return simplifyPower(binary);
+        default:
+          return binary;
+      }
+    }
+
+    case NodeType.FunctionCall:
+      return simplifyCall(simplified as FunctionCallNode);
+
+    default:
+      return simplified;
+  }
+}
+
+/**
+ * Simplify an expression: fold constants, remove identities such as x + 0, x * 1 and
+ * x^1, and collect like terms and repeated factors. Passes are repeated until the
+ * expression stops changing.
+ * @param node - The expression
+ * @returns The simplified expression
+ */
+export function simplify(node: ASTNode): ASTNode {
+  let current = node;
+  let text = printExpression(current);
+
+  for (let pass = 0; pass < MAX_SIMPLIFY_PASSES; pass++) {
+    const next = simplifyOnce(current);
+    const nextText = printExpression(next);
+
+    if (nextText === text) {
+      return next;
+    }
+
+    current = next;
+    text = nextText;
+  }
+
+  return current;
+}
+
+/**
+ * Differentiate an expression and simplify the result
+ * @param node - The expression
+ * @param variable - The variable to differentiate by
+ * @param order - How many times to differentiate
+ * @param options - Symbolic options
+ * @returns The simplified derivative
+ */
+export function differentiate(
+  node: ASTNode,
+  variable: string,
+  order: number = 1,
+  options: SymbolicOptions = {}
+): ASTNode {
+  let result = options.functions ? expandFunctions(node, options.functions) : node;
+
+  for (let i = 0; i < order; i++) {
+    result = simplify(derive(result, variable));
+  }
+
+  return result;
+}
@@ -5,16 +5,29 @@ import { Token, TokenType, SyntaxStyles, TokenWithStyle, SyntaxError } from './t
  */
 export const defaultSyntaxStyles: SyntaxStyles = {
   [TokenType.Number]: 'expression-number',
+  [TokenType.Literal]: 'expression-literal',
   [TokenType.Operator]: 'expression-operator',
   [TokenType.Function]: 'expression-function',
   [TokenType.LeftParen]: 'expression-paren',
   [TokenType.RightParen]: 'expression-paren',
+  [TokenType.LeftBracket]: 'expression-paren',
+  [TokenType.RightBracket]: 'expression-paren',
+  [TokenType.LeftBrace]: 'expression-paren',
+  [TokenType.RightBrace]: 'expression-paren',
+  [TokenType.Comma]: 'expression-separator',
   [TokenType.Variable]: 'expression-variable',
   [TokenType.Unknown]: 'expression-unknown',
   [TokenType.Whitespace]: 'expression-whitespace',
   error: 'expression-error'
 };
 
+/**
+ * Escape text for use in an HTML attribute value
+ */
+const escapeAttribute = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
 /**
  * Syntax highlighter for mathematical expressions
  */
@@ -33,31 +46,53 @@ export class SyntaxHighlighter {
    * Highlight a tokenized expression
    * @param tokens - The tokens to highlight
    * @param errors - Optional syntax errors to mark
-   * @returns Tokens with style information
+   * @returns Tokens with style information, where the tokens in the range of each
+   *          syntax error are marked with that error
    */
   public highlight(tokens: Token[], errors: SyntaxError[] = []): TokenWithStyle[] | string {
-    // Map tokens to positions with errors
-    const errorPositions: Record<number, boolean> = {};
+    // Map tokens to the error underlining them that starts nearest to them, so an error
+    // spanning the rest of the expression leaves the later errors their own tokens
+    const tokenErrors = new Map<Token, SyntaxError>();
     
     for (const error of errors) {
-      errorPositions[error.position] = true;
+      for (const token of this.underlinedTokens(tokens, error)) {
+        const current = tokenErrors.get(token);
+        
+        if (!current || error.position > current.position) {
+          tokenErrors.set(token, error);
+        }
+      }
     }
 
     // Apply styles to tokens
     return tokens.map(token => {
-      // Check if any position in the token's range is marked as an error
-      const hasError = Array.from(
-        { length: token.end - token.start + 1 }, 
-        (_, i) => token.start + i
-      ).some(pos => errorPositions[pos]);
+      const error = tokenErrors.get(token);
       
-      return {
-        ...token,
-        style: hasError ? this.styles.error : this.styles[token.type]
-      };
+      return error
+        ? { ...token, style: this.styles.error, error }
+        : { ...token, style: this.styles[token.type] };
     });
   }
 
+  /**
+   * Find the tokens a syntax error underlines: those overlapping its range, or for an empty
+   * range between tokens (such as a missing operand at the end), the token before it
+   * @param tokens - The tokens of the expression
+   * @param error - The syntax error
+   * @returns The underlined tokens
+   */
+  private underlinedTokens(tokens: Token[], error: SyntaxError): Token[] {
+    const visible = tokens.filter(token => token.type !== TokenType.Whitespace);
+    const end = Math.max(error.end, error.position + 1);
+    const overlapping = visible.filter(token => token.start < end && token.end >= error.position);
+    
+    if (overlapping.length > 0) {
+      return overlapping;
+    }
+    
+    return visible.filter(token => token.end < error.position).slice(-1);
+  }
+
   /**
    * Render highlighted expression as HTML
    * @param expression - The original expression
@@ -78,8 +113,9 @@ export class SyntaxHighlighter {
         html += expression.substring(lastEnd, token.start);
       }
       
-      // Add styled token
-      html += `<span class="${token.style}">${expression.substring(token.start, token.end + 1)}</span>`;
+      // Add styled token, titled with the message of the error it is underlined for
+      const title = token.error ? ` title="${escapeAttribute(token.error.message)}"` : '';
+      html += `<span class="${token.style}"${title}>${expression.substring(token.start, token.end + 1)}</span>`;
       lastEnd = token.end + 1;
     }
     
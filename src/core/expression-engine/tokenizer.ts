@@ -1,18 +1,35 @@
 import { Token, TokenType } from './types';
+import { ExtensionRegistry } from './extensions';
 
 /**
  * Tokenizer for mathematical expressions
  */
 export class Tokenizer {
-  private static readonly OPERATORS = ['+', '-', '*', '/', '^', '%', '=', '!', '<', '>', '&', '|'];
+  private static readonly OPERATORS = ['+', '-', '*', '/', '^', '%', '=', '!', '<', '>', '&', '|', '?', ':'];
+  private static readonly PUNCTUATION: Record<string, TokenType> = {
+    '[': TokenType.LeftBracket,
+    ']': TokenType.RightBracket,
+    '{': TokenType.LeftBrace,
+    '}': TokenType.RightBrace,
+    ',': TokenType.Comma
+  };
   private static readonly WHITESPACE = /\s/;
   private static readonly DIGIT = /[0-9]/;
   private static readonly LETTER = /[a-zA-Z]/;
+  // Integers in other bases: a prefix and a digit of its base, or a decimal base and '#',
+  // followed by any letters and digits (checked by the parser)
+  private static readonly BASE_LITERAL = /0x[0-9a-f][0-9a-z]*|0b[01][0-9a-z]*|0o[0-7][0-9a-z]*|\d+#[0-9a-z]+/iy;
   private static readonly KNOWN_FUNCTIONS = [
     'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'sinh', 'cosh', 'tanh',
     'log', 'ln', 'exp', 'sqrt', 'abs', 'floor', 'ceil', 'round', 'gcd', 'lcm'
   ];
 
+  /**
+   * Create a tokenizer
+   * @param extensions - Literals and operators added by plugins, read before the built-in tokens
+   */
+  constructor(private extensions: ExtensionRegistry = new ExtensionRegistry()) {}
+
   /**
    * Tokenize an expression string into tokens
    * @param expression - The expression to tokenize
@@ -40,6 +57,46 @@ export class Tokenizer {
         continue;
       }
 
+      // Process literals added by extensions
+      const literal = this.extensions.readLiteral(expression, pos);
+      if (literal) {
+        tokens.push({
+          type: TokenType.Literal,
+          value: literal.text,
+          start: pos,
+          end: pos + literal.text.length - 1
+        });
+        pos += literal.text.length;
+        continue;
+      }
+
+      // Process operator symbols added by extensions, which may start with a built-in operator
+      const symbol = this.extensions.readOperatorSymbol(expression, pos);
+      if (symbol) {
+        tokens.push({
+          type: TokenType.Operator,
+          value: symbol,
+          start: pos,
+          end: pos + symbol.length - 1
+        });
+        pos += symbol.length;
+        continue;
+      }
+
+      // Process integers in other bases (0xff, 0b101, 0o17, 36#zz)
+      Tokenizer.BASE_LITERAL.lastIndex = pos;
+      const baseLiteral = Tokenizer.BASE_LITERAL.exec(expression);
+      if (baseLiteral) {
+        tokens.push({
+          type: TokenType.Number,
+          value: baseLiteral[0],
+          start: pos,
+          end: pos + baseLiteral[0].length - 1
+        });
+        pos += baseLiteral[0].length;
+        continue;
+      }
+
       // Process numbers
       if (Tokenizer.DIGIT.test(char) || (char === '.' && pos + 1 < expression.length && Tokenizer.DIGIT.test(expression[pos + 1]))) {
         const start = pos;
@@ -47,11 +104,11 @@ export class Tokenizer {
         
         pos++; // Move past the first digit or decimal point
         
-        // Continue reading digits and at most one decimal point
+        // Continue reading digits and at most one decimal point (a '..' range operator ends the number)
         while (
           pos < expression.length && 
           (Tokenizer.DIGIT.test(expression[pos]) || 
-           (!hasDecimal && expression[pos] === '.'))
+           (!hasDecimal && expression[pos] === '.' && expression[pos + 1] !== '.'))
         ) {
           if (expression[pos] === '.') {
             hasDecimal = true;
@@ -90,7 +147,7 @@ export class Tokenizer {
 
       // Process operators
       if (Tokenizer.OPERATORS.includes(char)) {
-        // Check for multi-character operators (e.g., '<=', '>=', '==', '!=', '&&', '||')
+        // Check for multi-character operators (e.g., '<=', '>=', '==', '!=', '&&', '||', '!!')
         let operatorLength = 1;
         const nextChar = expression[pos + 1];
         
@@ -100,6 +157,7 @@ export class Tokenizer {
             (char === '>' && nextChar === '=') ||
             (char === '=' && nextChar === '=') ||
             (char === '!' && nextChar === '=') ||
+            (char === '!' && nextChar === '!') ||
             (char === '&' && nextChar === '&') ||
             (char === '|' && nextChar === '|')
         )) {
@@ -117,6 +175,30 @@ export class Tokenizer {
         continue;
       }
 
+      // Process the range operator '..'
+      if (char === '.' && expression[pos + 1] === '.') {
+        tokens.push({
+          type: TokenType.Operator,
+          value: '..',
+          start: pos,
+          end: pos + 1
+        });
+        pos += 2;
+        continue;
+      }
+
+      // Process brackets, braces and commas
+      if (Tokenizer.PUNCTUATION[char]) {
+        tokens.push({
+          type: Tokenizer.PUNCTUATION[char],
+          value: char,
+          start: pos,
+          end: pos
+        });
+        pos++;
+        continue;
+      }
+
       // Process parentheses
       if (char === '(') {
         tokens.push({
@@ -155,6 +237,17 @@ export class Tokenizer {
         
         const identifier = expression.substring(start, pos);
         
+        // Word operators of the grammar and of extensions
+        if (this.extensions.isWordOperator(identifier)) {
+          tokens.push({
+            type: TokenType.Operator,
+            value: identifier,
+            start,
+            end: pos - 1
+          });
+          continue;
+        }
+        
         // Check if this is a known function followed by a left parenthesis
         // Skip any whitespace between function name and opening parenthesis
         let currentPos = pos;
@@ -165,6 +258,9 @@ export class Tokenizer {
         const isFunction = 
           currentPos < expression.length && 
           expression[currentPos] === '(' && 
+          // A bracket opening with a prefix word operator of an extension is an operand,
+          // as in b (op n)
+          !this.opensWithPrefixWord(expression, currentPos + 1) &&
           (Tokenizer.KNOWN_FUNCTIONS.includes(identifier) || 
            // Consider any identifier followed by an opening parenthesis as a function
            true);
@@ -191,4 +287,17 @@ export class Tokenizer {
 
     return tokens;
   }
+
+  /**
+   * Check whether the input continues with a prefix word operator added by an extension
+   * @param expression - The input
+   * @param pos - The position to look from, skipping whitespace
+   */
+  private opensWithPrefixWord(expression: string, pos: number): boolean {
+    const word = /\s*([a-zA-Z_]\w*)/y;
+    word.lastIndex = pos;
+    const match = word.exec(expression);
+
+    return match !== null && this.extensions.findOperator(match[1], 'prefix') !== undefined;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,356 @@
+/**
+ * Static checking of function calls
+ *
+ * Runs over the AST after parsing and before evaluation, so that calls to unknown functions,
+ * wrong argument counts and arguments of the wrong type are reported with the other syntax
+ * errors instead of failing at runtime. The types of subexpressions are inferred bottom-up;
+ * variables and anything else that is only known at runtime have type 'any', which every
+ * parameter accepts.
+ */
+
+import {
+  ASTNode,
+  NodeType,
+  BinaryOperationNode,
+  UnaryOperationNode,
+  PostfixOperationNode,
+  FunctionCallNode,
+  ConditionalNode,
+  ListNode,
+  SetNode,
+  RangeNode,
+  ConversionNode,
+  ModularNode,
+  AssignmentNode,
+  FunctionDefinitionNode,
+  CustomOperationNode,
+  FunctionSignature,
+  FunctionParameter,
+  QuickFix,
+  SourceRange,
+  SyntaxError,
+  ValueType
+} from './types';
+
+/**
+ * Number of arguments a function accepts, with an infinite maximum for variadic functions
+ */
+export interface FunctionArity {
+  min: number;
+  max: number;
+}
+
+/**
+ * Operators whose result is a truth value
+ */
+const BOOLEAN_OPERATORS = new Set(['==', '!=', '<', '>', '<=', '>=', '&&', '||']);
+
+/**
+ * Ordinal words for argument positions in error messages
+ */
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+/**
+ * Phrase naming a value of a type, as in "a number" or "an expression"
+ */
+const describeType = (type: ValueType): string => {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+};
+
+/**
+ * Get the number of arguments a signature accepts
+ * @param signature - The function signature
+ * @returns The smallest and largest number of arguments
+ */
+export const arityOf = (signature: FunctionSignature): FunctionArity => ({
+  min: signature.parameters.filter(parameter => !parameter.optional).length,
+  max: signature.variadic ? Infinity : signature.parameters.length
+});
+
+/**
+ * Describe the number of arguments a function accepts, as in "2", "2 or 3" or "at least 1"
+ */
+export const describeArity = ({ min, max }: FunctionArity): string => {
+  if (min === max) {
+    return `${min}`;
+  }
+  if (max === Infinity) {
+    return `at least ${min}`;
+  }
+  return max === min + 1 ? `${min} or ${max}` : `${min} to ${max}`;
+};
+
+/**
+ * Levenshtein distance between two names
+ */
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Find the known name closest to a misspelled one, allowing one edit per two characters
+ * and at most two edits
+ * @param name - The unknown name
+ * @param candidates - The known names
+ * @returns The closest name, or undefined if none is close enough
+ */
+const closestName = (name: string, candidates: Iterable<string>): string | undefined => {
+  let best: string | undefined;
+  let bestDistance = Math.min(2, Math.floor(name.length / 2)) + 1;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Type of an operation applied element-wise: a list when an operand is a list, unknown
+ * when an operand may be one, and the scalar type otherwise
+ * @param operands - The types of the operands
+ * @param scalar - The type of the result for scalar operands
+ */
+const elementWise = (operands: ValueType[], scalar: ValueType): ValueType => {
+  if (operands.includes('list')) {
+    return 'list';
+  }
+  return operands.includes('any') ? 'any' : scalar;
+};
+
+/**
+ * Checks the function calls in an expression against the signatures of the known functions
+ */
+class TypeChecker {
+  private errors: SyntaxError[] = [];
+
+  // The function whose definition is being checked, which its body may call recursively
+  private definition: { name: string; signature: FunctionSignature } | null = null;
+
+  constructor(
+    private signatures: Record<string, FunctionSignature>,
+    private ranges: Map<ASTNode, SourceRange>
+  ) {}
+
+  /**
+   * Check an expression
+   * @param node - The root node
+   * @returns The errors found
+   */
+  public check(node: ASTNode): SyntaxError[] {
+    this.infer(node);
+    return this.errors;
+  }
+
+  /**
+   * Infer the type of a node, checking the calls inside it
+   * @param node - The node
+   * @returns The type of its value
+   */
+  private infer(node: ASTNode): ValueType {
+    switch (node.type) {
+      case NodeType.Number:
+        return 'number';
+
+      case NodeType.BinaryOperation: {
+        const { operator, left, right } = node as BinaryOperationNode;
+        const operands = [this.infer(left), this.infer(right)];
+
+        // Logical operators combine truth values whole instead of element-wise
+        if (operator === '&&' || operator === '||') {
+          return 'boolean';
+        }
+        return elementWise(operands, BOOLEAN_OPERATORS.has(operator) ? 'boolean' : 'number');
+      }
+
+      case NodeType.UnaryOperation: {
+        const { operator, argument } = node as UnaryOperationNode;
+        return elementWise([this.infer(argument)], operator === '!' ? 'boolean' : 'number');
+      }
+
+      case NodeType.PostfixOperation:
+        return elementWise([this.infer((node as PostfixOperationNode).argument)], 'number');
+
+      case NodeType.FunctionCall:
+        return this.inferCall(node as FunctionCallNode);
+
+      case NodeType.Conditional: {
+        const { condition, consequent, alternate } = node as ConditionalNode;
+        this.infer(condition);
+        const type = this.infer(consequent);
+        return this.infer(alternate) === type ? type : 'any';
+      }
+
+      case NodeType.List:
+      case NodeType.Set:
+        (node as ListNode | SetNode).elements.forEach(element => this.infer(element));
+        return 'list';
+
+      case NodeType.Range: {
+        const { start, end, step } = node as RangeNode;
+        [start, end, ...(step ? [step] : [])].forEach(bound => this.infer(bound));
+        return 'list';
+      }
+
+      case NodeType.Conversion:
+        return this.infer((node as ConversionNode).value);
+
+      case NodeType.Modular: {
+        const { body, modulus } = node as ModularNode;
+        this.infer(modulus);
+        return this.infer(body);
+      }
+
+      case NodeType.Assignment:
+        return this.infer((node as AssignmentNode).value);
+
+      case NodeType.FunctionDefinition: {
+        const { name, parameters, body } = node as FunctionDefinitionNode;
+        this.definition = {
+          name,
+          signature: { parameters: parameters.map(parameter => ({ name: parameter, type: 'any' })), returns: 'any' }
+        };
+        this.infer(body);
+        this.definition = null;
+        return 'any';
+      }
+
+      // Operators added by extensions may return values of any type
+      case NodeType.CustomOperation:
+        (node as CustomOperationNode).operands.forEach(operand => this.infer(operand));
+        return 'any';
+
+      default:
+        return 'any';
+    }
+  }
+
+  /**
+   * Check a function call and infer the type of its result. Arguments of expression and
+   * variable parameters are not evaluated, so their own calls are still checked but their
+   * types do not matter.
+   * @param node - The function call node
+   * @returns The return type, which is a list when a number parameter receives a list
+   */
+  private inferCall(node: FunctionCallNode): ValueType {
+    const argumentTypes = node.arguments.map(argument => this.infer(argument));
+    const signature = this.definition?.name === node.name
+      ? this.definition.signature
+      : this.signatures[node.name];
+    const range = this.rangeOf(node);
+
+    if (!signature) {
+      // Functions called in a definition only have to exist once it is called
+      if (!this.definition) {
+        const nameEnd = range.start + node.name.length;
+        const closest = closestName(node.name, Object.keys(this.signatures));
+        this.addError(`Unknown function: ${node.name}`, { start: range.start, end: nameEnd }, closest
+          ? [{ title: `Did you mean '${closest}'?`, start: range.start, end: nameEnd, replacement: closest }]
+          : undefined);
+      }
+      return 'any';
+    }
+
+    const arity = arityOf(signature);
+    if (node.arguments.length < arity.min || node.arguments.length > arity.max) {
+      this.addError(
+        `Function ${node.name} expects ${describeArity(arity)} argument(s) but got ${node.arguments.length}`,
+        range
+      );
+      return signature.returns;
+    }
+
+    const elementTypes: ValueType[] = [];
+    node.arguments.forEach((argument, index) => {
+      const parameterType = this.parameterType(signature.parameters[index], signature.variadic);
+      const argumentType = argumentTypes[index];
+
+      if (parameterType === 'variable') {
+        if (argument.type !== NodeType.Variable) {
+          this.addError(`The ${this.ordinal(index)} argument of ${node.name} must be a variable`, this.rangeOf(argument));
+        }
+        return;
+      }
+      if (parameterType === 'number' && (argumentType === 'list' || argumentType === 'any')) {
+        elementTypes.push(argumentType);
+        return;
+      }
+      if (parameterType !== 'any' && parameterType !== 'expression' && argumentType !== 'any' && argumentType !== parameterType) {
+        this.addError(
+          `The ${this.ordinal(index)} argument of ${node.name} must be ${describeType(parameterType)}, not ${describeType(argumentType)}`,
+          this.rangeOf(argument)
+        );
+      }
+    });
+
+    // Functions with a list parameter receive lists whole; others are applied element-wise
+    const takesLists = signature.parameters.some(parameter => parameter.type === 'list');
+    return takesLists ? signature.returns : elementWise(elementTypes, signature.returns);
+  }
+
+  /**
+   * Get the type of the parameter an argument is passed to
+   * @param parameter - The declared parameter, if the argument is not a variadic one
+   * @param variadic - The type of variadic arguments
+   */
+  private parameterType(parameter: FunctionParameter | undefined, variadic?: ValueType): ValueType {
+    return parameter?.type ?? variadic ?? 'any';
+  }
+
+  /**
+   * Name an argument position, as in "first" or "argument 12"
+   * @param index - The argument index
+   */
+  private ordinal(index: number): string {
+    return ORDINALS[index] ?? `argument ${index + 1}`;
+  }
+
+  /**
+   * Get the source range of a node, or the start of the input when it was not recorded,
+   * as for LaTeX input
+   * @param node - The node
+   */
+  private rangeOf(node: ASTNode): SourceRange {
+    return this.ranges.get(node) ?? { start: 0, end: 0 };
+  }
+
+  /**
+   * Add an error covering a source range
+   */
+  private addError(message: string, { start, end }: SourceRange, fixes?: QuickFix[]): void {
+    this.errors.push(fixes ? { message, position: start, end, fixes } : { message, position: start, end });
+  }
+}
+
+/**
+ * Check the function calls in an expression: calls to unknown functions, wrong argument
+ * counts and arguments whose type the parameter does not accept. Unknown functions are
+ * allowed in function definitions, which may call functions defined later, and a definition
+ * may call itself with as many arguments as it has parameters.
+ * @param ast - The expression tree
+ * @param signatures - The signature of every known function by name
+ * @param ranges - Source ranges of the calls and arguments, as recorded by the parser
+ * @returns The errors found, in the order of the calls' closing brackets
+ */
+export function checkTypes(
+  ast: ASTNode,
+  signatures: Record<string, FunctionSignature>,
+  ranges: Map<ASTNode, SourceRange> = new Map()
+): SyntaxError[] {
+  return new TypeChecker(signatures, ranges).check(ast);
+}
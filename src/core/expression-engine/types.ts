@@ -9,7 +9,13 @@ export enum TokenType {
   Function = 'FUNCTION',
   LeftParen = 'LEFT_PAREN',
   RightParen = 'RIGHT_PAREN',
+  LeftBracket = 'LEFT_BRACKET',
+  RightBracket = 'RIGHT_BRACKET',
+  LeftBrace = 'LEFT_BRACE',
+  RightBrace = 'RIGHT_BRACE',
+  Comma = 'COMMA',
   Variable = 'VARIABLE',
+  Literal = 'LITERAL',
   Whitespace = 'WHITESPACE',
   Unknown = 'UNKNOWN',
 }
@@ -29,7 +35,13 @@ export interface SyntaxStyles {
   [TokenType.Function]: string;
   [TokenType.LeftParen]: string;
   [TokenType.RightParen]: string;
+  [TokenType.LeftBracket]: string;
+  [TokenType.RightBracket]: string;
+  [TokenType.LeftBrace]: string;
+  [TokenType.RightBrace]: string;
+  [TokenType.Comma]: string;
   [TokenType.Variable]: string;
+  [TokenType.Literal]: string;
   [TokenType.Unknown]: string;
   [TokenType.Whitespace]: string;
   error: string;
@@ -38,6 +50,8 @@ export interface SyntaxStyles {
 // Token with syntax highlighting information
 export interface TokenWithStyle extends Token {
   style: string;
+  // The syntax error underlined at this token, if any
+  error?: SyntaxError;
 }
 
 // AST node types
@@ -45,8 +59,27 @@ export enum NodeType {
   Number = 'NUMBER',
   BinaryOperation = 'BINARY_OPERATION',
   UnaryOperation = 'UNARY_OPERATION',
+  PostfixOperation = 'POSTFIX_OPERATION',
   FunctionCall = 'FUNCTION_CALL',
   Variable = 'VARIABLE',
+  Assignment = 'ASSIGNMENT',
+  FunctionDefinition = 'FUNCTION_DEFINITION',
+  Conditional = 'CONDITIONAL',
+  List = 'LIST',
+  Set = 'SET',
+  Range = 'RANGE',
+  Conversion = 'CONVERSION',
+  Modular = 'MODULAR',
+  Block = 'BLOCK',
+  Let = 'LET',
+  If = 'IF',
+  For = 'FOR',
+  While = 'WHILE',
+  Return = 'RETURN',
+  Error = 'ERROR',
+  Value = 'VALUE',
+  CustomOperation = 'CUSTOM_OPERATION',
+  Literal = 'LITERAL',
 }
 
 // Base AST node
@@ -75,6 +108,13 @@ export interface UnaryOperationNode extends ASTNode {
   argument: ASTNode;
 }
 
+// Postfix operation node (factorial n!, double factorial n!!)
+export interface PostfixOperationNode extends ASTNode {
+  type: NodeType.PostfixOperation;
+  operator: string;
+  argument: ASTNode;
+}
+
 // Function call node
 export interface FunctionCallNode extends ASTNode {
   type: NodeType.FunctionCall;
@@ -88,10 +128,166 @@ export interface VariableNode extends ASTNode {
   name: string;
 }
 
-// Expression syntax error
+// List literal node: [a, b, c]
+export interface ListNode extends ASTNode {
+  type: NodeType.List;
+  elements: ASTNode[];
+}
+
+// Set literal node: {a, b, c}
+export interface SetNode extends ASTNode {
+  type: NodeType.Set;
+  elements: ASTNode[];
+}
+
+// Range node: start..end or start..end step s (end inclusive)
+export interface RangeNode extends ASTNode {
+  type: NodeType.Range;
+  start: ASTNode;
+  end: ASTNode;
+  step?: ASTNode;
+}
+
+// Unit conversion node: value in unit (or value to unit)
+export interface ConversionNode extends ASTNode {
+  type: NodeType.Conversion;
+  value: ASTNode;
+  unit: ASTNode;
+}
+
+// Expression evaluated in Z/nZ: body mod n, or mod(n) { body }
+export interface ModularNode extends ASTNode {
+  type: NodeType.Modular;
+  body: ASTNode;
+  modulus: ASTNode;
+}
+
+// Conditional (ternary) node: condition ? consequent : alternate
+export interface ConditionalNode extends ASTNode {
+  type: NodeType.Conditional;
+  condition: ASTNode;
+  consequent: ASTNode;
+  alternate: ASTNode;
+}
+
+// Variable assignment node (e.g. x = 42)
+export interface AssignmentNode extends ASTNode {
+  type: NodeType.Assignment;
+  name: string;
+  value: ASTNode;
+}
+
+// User-defined function node (e.g. f(n) = n^2 + 1), whose body is a block in scripts
+export interface FunctionDefinitionNode extends ASTNode {
+  type: NodeType.FunctionDefinition;
+  name: string;
+  parameters: string[];
+  body: ASTNode;
+}
+
+// Line and column (both starting at 1) of a statement in a script
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+// Statement block node: { statement; ... }, evaluating to the value of its last statement
+export interface BlockNode extends ASTNode {
+  type: NodeType.Block;
+  statements: ASTNode[];
+  locations: SourceLocation[];
+}
+
+// Local variable declaration node (e.g. let r = n % 2)
+export interface LetNode extends ASTNode {
+  type: NodeType.Let;
+  name: string;
+  value: ASTNode;
+}
+
+// If statement node: if condition { ... } else { ... }, where the alternate may be another if
+export interface IfNode extends ASTNode {
+  type: NodeType.If;
+  condition: ASTNode;
+  consequent: BlockNode;
+  alternate?: BlockNode | IfNode;
+}
+
+// For loop node: for k in collection { ... }
+export interface ForNode extends ASTNode {
+  type: NodeType.For;
+  variable: string;
+  collection: ASTNode;
+  body: BlockNode;
+}
+
+// While loop node: while condition { ... }
+export interface WhileNode extends ASTNode {
+  type: NodeType.While;
+  condition: ASTNode;
+  body: BlockNode;
+}
+
+// Return statement node, leaving the enclosing function or script
+export interface ReturnNode extends ASTNode {
+  type: NodeType.Return;
+  value?: ASTNode;
+}
+
+// Placeholder for input the parser could not read, kept so the rest of the tree is still built
+export interface ErrorNode extends ASTNode {
+  type: NodeType.Error;
+  message: string;
+  // Where a script statement that failed to parse went wrong
+  location?: SourceLocation;
+}
+
+// Value that has already been computed, standing in for the sub-tree it was computed from
+// while the asynchronous evaluator evaluates the rest of the tree
+export interface ValueNode extends ASTNode {
+  type: NodeType.Value;
+  value: ExpressionValue;
+}
+
+// Operation with an operator added by an extension (e.g. a ≡ b), keeping the operator's
+// precedence and associativity for printing
+export interface CustomOperationNode extends ASTNode {
+  type: NodeType.CustomOperation;
+  operator: string;
+  fixity: OperatorFixity;
+  precedence: number;
+  associativity: OperatorAssociativity;
+  operands: ASTNode[];
+}
+
+// Literal in a syntax added by an extension, read by the literal definition of that name
+export interface LiteralNode extends ASTNode {
+  type: NodeType.Literal;
+  name: string;
+  text: string;
+}
+
+// Edit that resolves a syntax error by replacing the source from start up to (excluding) end
+export interface QuickFix {
+  title: string;
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+// Expression syntax error, covering the source from position up to (excluding) end.
+// An empty range marks a point, such as a missing operand at the end of the input.
 export interface SyntaxError {
   message: string;
   position: number;
+  end: number;
+  fixes?: QuickFix[];
+}
+
+// Source range of a node, from start up to (excluding) end
+export interface SourceRange {
+  start: number;
+  end: number;
 }
 
 // Parser result
@@ -99,28 +295,213 @@ export interface ParseResult {
   tokens: Token[];
   ast?: ASTNode;
   errors: SyntaxError[];
+  // Source ranges of function calls and their arguments, for reporting type errors
+  ranges?: Map<ASTNode, SourceRange>;
 }
 
 // Expression result type
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type ExpressionValue = number | string | boolean | Promise<any> | Record<string, any> | null;
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export type ExpressionValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | Promise<any>
+  | Record<string, any>
+  | null
+  | ExpressionValue[];
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+// Numeric precision mode, matching settings.calculation.precision
+export type NumericPrecision = 'standard' | 'high' | 'maximum';
+
+// Number display notation, matching settings.display.numberFormat
+export type NumberNotation = 'decimal' | 'scientific' | 'engineering' | 'fraction';
+
+// Complex number display form, matching settings.display.complexFormat
+export type ComplexNotation = 'rectangular' | 'polar';
+
+// Options for formatting values for display, matching settings.display
+export interface ValueFormatOptions {
+  numberFormat: NumberNotation;
+  complexFormat?: ComplexNotation;
+  decimalPlaces: number;
+  useGrouping: boolean;
+}
+
+// Value of a stored result as plain data, formatted with the display settings in effect
+// whenever it is shown. Integers and fractions keep their exact digits as strings so that
+// the store stays serializable; values other than numbers keep the text they were shown with.
+export type StoredValue =
+  | { kind: 'number'; value: number }
+  | { kind: 'integer'; digits: string }
+  | { kind: 'rational'; numerator: string; denominator: string }
+  | { kind: 'complex'; re: number; im: number }
+  | { kind: 'quantity'; value: StoredValue; units: string }
+  | { kind: 'list'; elements: StoredValue[] }
+  | { kind: 'text'; text: string };
+
+// Static type of a value or parameter. Number parameters also accept lists, over which
+// the function is applied element-wise; expression and variable parameters receive the
+// unevaluated argument, which for variable parameters must be a plain name.
+export type ValueType = 'number' | 'boolean' | 'string' | 'list' | 'expression' | 'variable' | 'any';
+
+// Declared parameter of a function
+export interface FunctionParameter {
+  name: string;
+  type: ValueType;
+  optional?: boolean;
+}
+
+// Parameters and return type of a function, with the type of any further arguments for
+// variadic functions
+export interface FunctionSignature {
+  parameters: FunctionParameter[];
+  variadic?: ValueType;
+  returns: ValueType;
+}
+
+// Signature a plugin declares in its manifest for a method that expressions can call
+export interface PluginMethodSignature extends FunctionSignature {
+  description?: string;
+}
+
+// Function in the evaluation context, with its signature. Asynchronous functions return
+// promises, which only the asynchronous evaluator awaits.
+export interface RegisteredFunction extends FunctionSignature {
+  implementation: (...args: ExpressionValue[]) => ExpressionValue;
+  async?: boolean;
+}
 
 // Expression evaluation context
 export interface EvaluationContext {
   variables: Record<string, ExpressionValue>;
-  functions: Record<string, (...args: ExpressionValue[]) => ExpressionValue>;
+  functions: Record<string, RegisteredFunction>;
+}
+
+// Session scope holding user-defined variables and functions
+export interface EvaluationScope {
+  variables: Record<string, ExpressionValue>;
+  functions: Record<string, FunctionDefinitionNode>;
+}
+
+// Result of a symbolic operation such as simplification
+export interface SymbolicResult {
+  ast: ASTNode | null;
+  expression: string;
+  error?: string;
 }
 
 // Expression evaluation result
 export interface EvaluationResult {
   value: ExpressionValue;
   error?: string;
+  // Location of the statement that failed, for scripts
+  location?: SourceLocation;
+}
+
+// Cancellation request checked by the evaluator, such as a computation's cancel token.
+// onCancel calls the listener once the request is cancelled and returns an unsubscribe function.
+export interface CancellationSignal {
+  readonly isCancelled: boolean;
+  readonly cancelReason?: string;
+  onCancel(listener: () => void): () => void;
+}
+
+// Progress of a long computation: the fraction of its work done, the estimated milliseconds
+// until it ends and what it is doing
+export interface ProgressUpdate {
+  progress: number;
+  eta?: number;
+  message?: string;
+}
+
+// Options of an evaluation
+export interface EvaluationOptions {
+  cancelToken?: CancellationSignal;
+  // Called with the progress reported by the functions evaluated, throttled
+  onProgress?: (update: ProgressUpdate) => void;
+}
+
+// Options of an asynchronous evaluation, whose progress is not tracked since the reports of
+// concurrent sub-trees would mix
+export type AsyncEvaluationOptions = Omit<EvaluationOptions, 'onProgress'>;
+
+// Expression compiled for repeated evaluation, evaluated with one argument per parameter.
+// Unlike evaluate, its evaluate throws the errors of the evaluation.
+export interface CompiledExpression {
+  parameters: string[];
+  evaluate: (...args: ExpressionValue[]) => ExpressionValue;
+}
+
+// Position of an operator relative to its operands
+export type OperatorFixity = 'infix' | 'prefix' | 'postfix';
+
+// Grouping of a chain of infix operators of the same precedence
+export type OperatorAssociativity = 'left' | 'right';
+
+// Operator added to the grammar by an extension. Precedences use the scale of the built-in
+// operators, from 0 for conversions to 11 for postfix operators (see PRECEDENCE); an operator
+// binds tighter than the built-in operators of the same or a lower precedence. The operands
+// are evaluated first, and the operator is applied element-wise over lists.
+export interface OperatorDefinition {
+  symbol: string;
+  fixity: OperatorFixity;
+  precedence: number;
+  associativity?: OperatorAssociativity;
+  evaluate: (...operands: ExpressionValue[]) => ExpressionValue;
+}
+
+// Literal syntax added by an extension, matched before the built-in tokens. The pattern is
+// matched at the current position of the input and must not match an empty string.
+export interface LiteralDefinition {
+  name: string;
+  pattern: RegExp;
+  parse: (text: string) => ExpressionValue;
+}
+
+// Value type added by an extension, with its display format and the built-in binary
+// operators it overloads, which are called when either operand is of the type
+export interface ValueTypeDefinition {
+  name: string;
+  is: (value: ExpressionValue) => boolean;
+  format: (value: ExpressionValue, options?: ValueFormatOptions) => string;
+  operators?: Record<string, (left: ExpressionValue, right: ExpressionValue) => ExpressionValue>;
+}
+
+// Operators, literal syntaxes, value types and functions added to the expression language
+// by a plugin
+export interface ExpressionExtension {
+  operators?: OperatorDefinition[];
+  literals?: LiteralDefinition[];
+  valueTypes?: ValueTypeDefinition[];
+  functions?: Record<string, RegisteredFunction>;
 }
 
 // Expression suggestion
 export interface ExpressionSuggestion {
   text: string;
   displayText: string;
-  type: 'function' | 'variable' | 'operator' | 'constant';
+  type: 'function' | 'variable' | 'operator' | 'constant' | 'unit';
+  description?: string;
+  // Parameter names of a function, for its signature
+  parameters?: string[];
+}
+
+// What the cursor position in an expression expects, derived from the tokens before it
+export interface CompletionContext {
+  // The identifier typed up to the cursor, or '' between tokens
+  prefix: string;
+  // An operand after an operator, an operator or unit after a value, or a unit after 'in'
+  expects: 'anything' | 'operand' | 'operator' | 'unit';
+  // The innermost function call around the cursor and the index of the argument being typed
+  call?: { name: string; argumentIndex: number };
+}
+
+// Signature of the function call around the cursor
+export interface SignatureHelp {
+  name: string;
+  parameters: string[];
+  argumentIndex: number;
   description?: string;
 }
\ No newline at end of file
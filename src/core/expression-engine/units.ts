@@ -0,0 +1,447 @@
+/**
+ * Physical units and dimensional analysis for the expression engine
+ *
+ * A quantity is a real number together with the units it was written in, so km/h stays
+ * km/h until it is converted. Units are compared through their dimensions (the exponents
+ * of the seven SI base dimensions) and converted through their size in SI base units.
+ * Quantities whose units cancel collapse back to plain numbers.
+ */
+
+import {
+  NumericValue,
+  isNumeric,
+  add,
+  subtract,
+  multiply,
+  divide,
+  negate,
+  power,
+  compare,
+  isZero,
+  toFloat
+} from './numeric';
+
+/**
+ * Exponents of the SI base dimensions, in the order of BASE_UNITS
+ */
+export type Dimension = number[];
+
+/**
+ * Units of a quantity: the exponent of each unit symbol, in the order they were written
+ */
+export type UnitPowers = Record<string, number>;
+
+/**
+ * Real number with units
+ */
+export interface QuantityValue {
+  type: 'quantity';
+  value: NumericValue;
+  units: UnitPowers;
+}
+
+/**
+ * Unit of measurement
+ */
+export interface UnitDefinition {
+  symbol: string;
+  name: string;
+  // What the unit measures, e.g. 'length'
+  quantity: string;
+  // Size of the unit in SI base units
+  factor: number;
+  dimension: Dimension;
+  // Whether SI prefixes apply (km, mA, GHz)
+  prefixable: boolean;
+}
+
+/**
+ * SI base units, one per base dimension
+ */
+const BASE_UNITS = ['m', 'kg', 's', 'A', 'K', 'mol', 'cd'];
+
+/**
+ * SI prefixes with their names and factors
+ */
+const PREFIXES: Record<string, [string, number]> = {
+  T: ['tera', 1e12],
+  G: ['giga', 1e9],
+  M: ['mega', 1e6],
+  k: ['kilo', 1e3],
+  h: ['hecto', 1e2],
+  d: ['deci', 1e-1],
+  c: ['centi', 1e-2],
+  m: ['milli', 1e-3],
+  u: ['micro', 1e-6],
+  n: ['nano', 1e-9],
+  p: ['pico', 1e-12]
+};
+
+/**
+ * Prefixed units offered by auto-completion alongside the catalogue
+ */
+const COMMON_PREFIXED_UNITS = [
+  'km', 'cm', 'mm', 'kg', 'mg', 'ms', 'mA', 'kN', 'kJ', 'kW', 'kWh', 'kPa', 'kHz', 'MHz', 'GHz', 'mL', 'kV'
+];
+
+/**
+ * Define a unit
+ * @param symbol - The unit symbol
+ * @param name - The unit name
+ * @param quantity - What the unit measures
+ * @param factor - Size of the unit in SI base units
+ * @param base - Exponents of the SI base units, e.g. { kg: 1, m: 1, s: -2 }
+ * @param prefixable - Whether SI prefixes apply
+ */
+function defineUnit(
+  symbol: string,
+  name: string,
+  quantity: string,
+  factor: number,
+  base: Record<string, number>,
+  prefixable: boolean = false
+): UnitDefinition {
+  return {
+    symbol,
+    name,
+    quantity,
+    factor,
+    dimension: BASE_UNITS.map(unit => base[unit] ?? 0),
+    prefixable
+  };
+}
+
+/**
+ * Unit catalogue
+ */
+const UNITS = new Map<string, UnitDefinition>([
+  // SI base units (the kilogram is the prefixed gram)
+  defineUnit('m', 'metre', 'length', 1, { m: 1 }, true),
+  defineUnit('g', 'gram', 'mass', 1e-3, { kg: 1 }, true),
+  defineUnit('s', 'second', 'time', 1, { s: 1 }, true),
+  defineUnit('A', 'ampere', 'electric current', 1, { A: 1 }, true),
+  defineUnit('K', 'kelvin', 'temperature', 1, { K: 1 }, true),
+  defineUnit('mol', 'mole', 'amount of substance', 1, { mol: 1 }, true),
+  defineUnit('cd', 'candela', 'luminous intensity', 1, { cd: 1 }, true),
+
+  // Derived SI units
+  defineUnit('N', 'newton', 'force', 1, { kg: 1, m: 1, s: -2 }, true),
+  defineUnit('J', 'joule', 'energy', 1, { kg: 1, m: 2, s: -2 }, true),
+  defineUnit('W', 'watt', 'power', 1, { kg: 1, m: 2, s: -3 }, true),
+  defineUnit('Pa', 'pascal', 'pressure', 1, { kg: 1, m: -1, s: -2 }, true),
+  defineUnit('Hz', 'hertz', 'frequency', 1, { s: -1 }, true),
+  defineUnit('C', 'coulomb', 'electric charge', 1, { A: 1, s: 1 }, true),
+  defineUnit('V', 'volt', 'voltage', 1, { kg: 1, m: 2, s: -3, A: -1 }, true),
+  defineUnit('ohm', 'ohm', 'resistance', 1, { kg: 1, m: 2, s: -3, A: -2 }, true),
+
+  // Other metric units
+  defineUnit('L', 'litre', 'volume', 1e-3, { m: 3 }, true),
+  defineUnit('Wh', 'watt-hour', 'energy', 3600, { kg: 1, m: 2, s: -2 }, true),
+  defineUnit('eV', 'electronvolt', 'energy', 1.602176634e-19, { kg: 1, m: 2, s: -2 }, true),
+  defineUnit('cal', 'calorie', 'energy', 4.184, { kg: 1, m: 2, s: -2 }, true),
+  defineUnit('bar', 'bar', 'pressure', 1e5, { kg: 1, m: -1, s: -2 }, true),
+  defineUnit('atm', 'standard atmosphere', 'pressure', 101325, { kg: 1, m: -1, s: -2 }),
+
+  // Time
+  defineUnit('min', 'minute', 'time', 60, { s: 1 }),
+  defineUnit('h', 'hour', 'time', 3600, { s: 1 }),
+  defineUnit('day', 'day', 'time', 86400, { s: 1 }),
+  defineUnit('week', 'week', 'time', 604800, { s: 1 }),
+  defineUnit('year', 'Julian year', 'time', 31557600, { s: 1 }),
+
+  // Imperial and US customary units
+  defineUnit('inch', 'inch', 'length', 0.0254, { m: 1 }),
+  defineUnit('ft', 'foot', 'length', 0.3048, { m: 1 }),
+  defineUnit('yd', 'yard', 'length', 0.9144, { m: 1 }),
+  defineUnit('mi', 'mile', 'length', 1609.344, { m: 1 }),
+  defineUnit('lb', 'pound', 'mass', 0.45359237, { kg: 1 }),
+  defineUnit('oz', 'ounce', 'mass', 0.028349523125, { kg: 1 }),
+  defineUnit('gal', 'US gallon', 'volume', 3.785411784e-3, { m: 3 }),
+  defineUnit('mph', 'mile per hour', 'speed', 0.44704, { m: 1, s: -1 }),
+  defineUnit('psi', 'pound per square inch', 'pressure', 6894.757293168361, { kg: 1, m: -1, s: -2 }),
+
+  // Angles are dimensionless, and plain numbers are radians
+  defineUnit('deg', 'degree', 'angle', Math.PI / 180, {})
+].map(unit => [unit.symbol, unit]));
+
+/**
+ * Look up a unit by its symbol, which may carry an SI prefix (km, mA, GHz)
+ * @param symbol - The unit symbol
+ * @returns The unit, or undefined if the symbol is not a unit
+ */
+export function findUnit(symbol: string): UnitDefinition | undefined {
+  const unit = UNITS.get(symbol);
+  if (unit) {
+    return unit;
+  }
+
+  const prefix = Object.prototype.hasOwnProperty.call(PREFIXES, symbol[0]) ? PREFIXES[symbol[0]] : undefined;
+  const base = UNITS.get(symbol.slice(1));
+
+  if (!prefix || !base?.prefixable) {
+    return undefined;
+  }
+
+  const [prefixName, prefixFactor] = prefix;
+  return {
+    ...base,
+    symbol,
+    name: `${prefixName}${base.name}`,
+    factor: prefixFactor * base.factor,
+    prefixable: false
+  };
+}
+
+/**
+ * Get the units offered for auto-completion: the catalogue and common prefixed units
+ * @returns The unit definitions
+ */
+export function getUnitCatalogue(): UnitDefinition[] {
+  return [
+    ...UNITS.values(),
+    ...COMMON_PREFIXED_UNITS.map(symbol => findUnit(symbol) as UnitDefinition)
+  ];
+}
+
+/**
+ * Check whether a value is a quantity with units
+ * @param value - The value to check
+ */
+export function isQuantity(value: unknown): value is QuantityValue {
+  return typeof value === 'object' && value !== null && (value as QuantityValue).type === 'quantity';
+}
+
+/**
+ * Get the definition of a unit symbol used in a quantity
+ */
+function unitOf(symbol: string): UnitDefinition {
+  const unit = findUnit(symbol);
+  if (!unit) {
+    throw new Error(`Unknown unit: ${symbol}`);
+  }
+  return unit;
+}
+
+/**
+ * Get the dimension of a combination of units
+ * @param units - The units
+ */
+export function unitDimension(units: UnitPowers): Dimension {
+  return Object.entries(units).reduce(
+    (dimension, [symbol, exponent]) =>
+      dimension.map((value, index) => value + exponent * unitOf(symbol).dimension[index]),
+    BASE_UNITS.map(() => 0)
+  );
+}
+
+/**
+ * Get the size of a combination of units in SI base units
+ * @param units - The units
+ */
+export function unitFactor(units: UnitPowers): number {
+  return Object.entries(units).reduce(
+    (factor, [symbol, exponent]) => factor * unitOf(symbol).factor ** exponent,
+    1
+  );
+}
+
+/**
+ * Check whether two combinations of units measure the same dimension
+ */
+function sameDimension(a: UnitPowers, b: UnitPowers): boolean {
+  const dimension = unitDimension(b);
+  return unitDimension(a).every((exponent, index) => Math.abs(exponent - dimension[index]) < 1e-9);
+}
+
+/**
+ * Multiply two combinations of units, raising the second to a power first
+ * @param a - The first units
+ * @param b - The second units
+ * @param exponent - Power of the second units (-1 divides)
+ */
+export function combineUnits(a: UnitPowers, b: UnitPowers, exponent: number = 1): UnitPowers {
+  const units = { ...a };
+
+  for (const [symbol, power] of Object.entries(b)) {
+    units[symbol] = (units[symbol] ?? 0) + power * exponent;
+  }
+
+  return units;
+}
+
+/**
+ * Create a quantity, dropping cancelled units. A quantity without dimension collapses
+ * to a plain number (3 km / 1 m is 3000, 90 deg is pi/2).
+ * @param value - The number
+ * @param units - The units
+ * @returns The quantity, or a plain number
+ */
+export function createQuantity(value: NumericValue, units: UnitPowers): NumericValue | QuantityValue {
+  const remaining = Object.fromEntries(Object.entries(units).filter(([, exponent]) => exponent !== 0));
+
+  if (unitDimension(remaining).every(exponent => exponent === 0)) {
+    return scale(value, unitFactor(remaining));
+  }
+
+  return { type: 'quantity', value, units: remaining };
+}
+
+/**
+ * Multiply a number by a conversion factor, leaving it untouched for a factor of one
+ */
+function scale(value: NumericValue, factor: number): NumericValue {
+  return factor === 1 ? value : multiply(value, factor);
+}
+
+/**
+ * Format units for display, with negative exponents after a slash: kg*m/s^2
+ * @param units - The units
+ */
+export function formatUnits(units: UnitPowers): string {
+  const entries = Object.entries(units);
+  const formatPower = (symbol: string, exponent: number): string =>
+    exponent === 1 ? symbol : `${symbol}^${exponent}`;
+
+  const numerator = entries.filter(([, exponent]) => exponent > 0).map(([symbol, exponent]) => formatPower(symbol, exponent));
+  const denominator = entries.filter(([, exponent]) => exponent < 0).map(([symbol, exponent]) => formatPower(symbol, -exponent));
+
+  if (numerator.length === 0) {
+    return entries.map(([symbol, exponent]) => formatPower(symbol, exponent)).join('*');
+  }
+  if (denominator.length === 0) {
+    return numerator.join('*');
+  }
+
+  const divisor = denominator.length === 1 ? denominator[0] : `(${denominator.join('*')})`;
+  return `${numerator.join('*')}/${divisor}`;
+}
+
+/**
+ * Describe the units of an operand for error messages
+ */
+function describeUnits(units: UnitPowers): string {
+  return Object.keys(units).length === 0 ? 'a dimensionless number' : formatUnits(units);
+}
+
+/**
+ * Treat a plain number as a quantity without units
+ * @param value - A number or quantity
+ */
+function asQuantity(value: unknown): QuantityValue {
+  if (isQuantity(value)) {
+    return value;
+  }
+  if (!isNumeric(value)) {
+    throw new Error(`Quantities can only be combined with real numbers, not ${typeof value}`);
+  }
+  return { type: 'quantity', value, units: {} };
+}
+
+/**
+ * Express the value of a quantity in other units of the same dimension
+ * @param quantity - The quantity
+ * @param units - The units to express it in
+ * @param action - What is being done, for the dimension mismatch message
+ * @returns The number of the given units
+ */
+function valueIn(quantity: QuantityValue, units: UnitPowers, action: string): NumericValue {
+  if (!sameDimension(quantity.units, units)) {
+    throw new Error(`Dimension mismatch: cannot ${action} ${describeUnits(units)} and ${describeUnits(quantity.units)}`);
+  }
+  return scale(quantity.value, unitFactor(quantity.units) / unitFactor(units));
+}
+
+/**
+ * Apply a binary operator where at least one operand is a quantity. Sums and
+ * comparisons need matching dimensions and are expressed in the units of the left
+ * operand; products and quotients combine the units.
+ * @param operator - The operator
+ * @param left - The left operand
+ * @param right - The right operand
+ * @returns The result of the operation
+ */
+export function applyQuantityOperator(operator: string, left: unknown, right: unknown): NumericValue | QuantityValue | boolean {
+  const a = asQuantity(left);
+
+  if (operator === '^') {
+    if (isQuantity(right)) {
+      throw new Error(`Exponents must be dimensionless, not ${formatUnits(right.units)}`);
+    }
+    return powerQuantity(a, asQuantity(right).value);
+  }
+
+  const b = asQuantity(right);
+
+  switch (operator) {
+    case '*':
+      return createQuantity(multiply(a.value, b.value), combineUnits(a.units, b.units));
+    case '/':
+      if (isZero(b.value)) {
+        throw new Error('Division by zero');
+      }
+      return createQuantity(divide(a.value, b.value), combineUnits(a.units, b.units, -1));
+    case '+':
+      return createQuantity(add(a.value, valueIn(b, a.units, 'add')), a.units);
+    case '-':
+      return createQuantity(subtract(a.value, valueIn(b, a.units, 'subtract')), a.units);
+    case '==':
+    case '!=':
+      // Quantities of different dimensions are never equal
+      return sameDimension(a.units, b.units)
+        ? (compare(a.value, valueIn(b, a.units, 'compare')) === 0) === (operator === '==')
+        : operator === '!=';
+    case '<': return compare(a.value, valueIn(b, a.units, 'compare')) < 0;
+    case '>': return compare(a.value, valueIn(b, a.units, 'compare')) > 0;
+    case '<=': return compare(a.value, valueIn(b, a.units, 'compare')) <= 0;
+    case '>=': return compare(a.value, valueIn(b, a.units, 'compare')) >= 0;
+    default:
+      throw new Error(`Operator ${operator} is not defined for quantities`);
+  }
+}
+
+/**
+ * Raise a quantity to a power. The unit exponents must stay whole, so sqrt(4 m^2) is
+ * 2 m but sqrt(2 m) has no units to be expressed in.
+ * @param quantity - The quantity
+ * @param exponent - The exponent
+ * @returns The power
+ */
+export function powerQuantity(quantity: QuantityValue, exponent: NumericValue): NumericValue | QuantityValue {
+  const factor = toFloat(exponent);
+  const units = Object.fromEntries(
+    Object.entries(quantity.units).map(([symbol, power]) => [symbol, power * factor])
+  );
+
+  if (Object.values(units).some(power => Math.abs(power - Math.round(power)) > 1e-9)) {
+    throw new Error(`Cannot raise a quantity in ${formatUnits(quantity.units)} to the power ${factor}`);
+  }
+
+  return createQuantity(
+    power(quantity.value, exponent),
+    Object.fromEntries(Object.entries(units).map(([symbol, power]) => [symbol, Math.round(power)]))
+  );
+}
+
+/**
+ * Negate a quantity
+ * @param quantity - The quantity
+ */
+export function negateQuantity(quantity: QuantityValue): QuantityValue {
+  return { ...quantity, value: negate(quantity.value) };
+}
+
+/**
+ * Convert a number or quantity to other units of the same dimension
+ * @param value - The number or quantity
+ * @param units - The units to convert to
+ * @returns The quantity in the given units
+ */
+export function convertQuantity(value: unknown, units: UnitPowers): QuantityValue {
+  const quantity = asQuantity(value);
+
+  if (!sameDimension(quantity.units, units)) {
+    throw new Error(`Cannot convert ${describeUnits(quantity.units)} to ${formatUnits(units)}: the dimensions differ`);
+  }
+
+  return { type: 'quantity', value: valueIn(quantity, units, 'convert'), units };
+}
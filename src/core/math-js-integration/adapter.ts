@@ -6,6 +6,7 @@
 import { UniversalNumber, PrimeMath, configure as mathJsConfigure } from 'uor-foundation-math-js';
 import { MathJsConfig, defaultConfig, UniversalNumberOptions, MathError, MathErrorType } from './types';
 import { OperationCache } from './cache';
+import { WorkerRequest, WorkerResponse } from '../computation/types';
 
 /**
  * Math-JS Adapter for integrating with the UOR Foundation's math-js library
@@ -377,6 +378,46 @@ export class MathJsAdapter {
     }
   }
   
+  /**
+   * Write a number in another base
+   * @param value - The number
+   * @param base - The base, from 2 to 36
+   * @returns Promise resolving to the digits in that base
+   */
+  public async toBase(value: UniversalNumber | number | string, base: number): Promise<string> {
+    // Generate cache key
+    const cacheKey = `toBase_${value.toString()}_${base}`;
+    
+    // Check cache first
+    const cached = this.cache.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+    
+    try {
+      // Convert to UniversalNumber if needed
+      const num = value instanceof UniversalNumber 
+        ? value 
+        : await this.createUniversalNumber(value);
+      
+      // Use worker for large numbers
+      const result = num.toString().length > 10
+        ? await this.executeInWorker<string>('universal', 'toString', { number: num, base })
+        : num.toString(base);
+      
+      // Cache result (two bytes per character)
+      this.cache.set(cacheKey, result, result.length * 2);
+      
+      return result;
+    } catch (error: any) {
+      throw new MathError(
+        error.message || 'Error converting base',
+        error.type || MathErrorType.UNKNOWN,
+        error.details
+      );
+    }
+  }
+  
   /**
    * Execute an operation in a worker
    * @param category - Operation category
@@ -385,15 +426,7 @@ export class MathJsAdapter {
    * @returns Promise resolving to the operation result
    */
   private async executeInWorker<T>(category: string, operation: string, params: any): Promise<T> {
-    // Create a computation task
-    const task = {
-      id: `math-js-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      operation: {
-        category,
-        operation,
-        params
-      }
-    };
+    const id = `math-js-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
     // Execute in worker
     const result = await new Promise<T>((resolve, reject) => {
@@ -401,28 +434,23 @@ export class MathJsAdapter {
       const worker = new Worker(this.workerPath);
       
       // Handle response
-      worker.onmessage = (event) => {
-        const { id, result, error } = event.data;
-        
-        // Ignore unrelated messages
-        if (id !== task.id && event.data.type !== 'ready') {
-          return;
-        }
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
         
         // Handle error
-        if (error) {
+        if (message.type === 'error' && message.id === id) {
           reject(new MathError(
-            error.message || 'Worker error',
-            error.type || MathErrorType.UNKNOWN,
-            error.details
+            message.error || 'Worker error',
+            (message.errorType as MathErrorType) || MathErrorType.UNKNOWN,
+            message.details
           ));
           worker.terminate();
           return;
         }
         
-        // Handle result
-        if (result) {
-          resolve(result as T);
+        // Handle result, which may be falsy, such as a number that is not prime
+        if (message.type === 'result' && message.id === id) {
+          resolve(message.result as T);
           worker.terminate();
         }
       };
@@ -437,12 +465,12 @@ export class MathJsAdapter {
       };
       
       // Send task to worker
-      worker.postMessage({
-        id: task.id,
-        category,
-        operation,
-        params
-      });
+      const request: WorkerRequest = {
+        type: 'operation',
+        id,
+        payload: { category, operation, params }
+      };
+      worker.postMessage(request);
     });
     
     return result;
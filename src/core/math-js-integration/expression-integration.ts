@@ -3,17 +3,36 @@
  */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
-import { createUniversalNumber, isPrime, factorize, gcd, lcm } from './index';
-import { ExpressionEngine, defaultContext, EvaluationContext, ExpressionSuggestion, ExpressionValue } from '../expression-engine';
+import { createUniversalNumber, isPrime, factorize, gcd, lcm, toBase } from './index';
+import {
+  ExpressionEngine,
+  defaultContext,
+  EvaluationContext,
+  ExpressionSuggestion,
+  ExpressionValue,
+  EvaluationResult,
+  AsyncEvaluationOptions,
+  RegisteredFunction,
+  isNumeric,
+  toFloat,
+  withBasePrefix
+} from '../expression-engine';
 
 /**
  * Expression function wrapper to handle async operations
  * @param fn The async function to wrap
- * @returns A sync function that returns a Promise
+ * @param parameters The parameter names
+ * @returns A registered asynchronous function, awaited by the asynchronous evaluator, whose
+ * arguments and result have no declared type
  */
-function wrapAsyncFunction<T>(fn: (...args: any[]) => Promise<T>): (...args: ExpressionValue[]) => ExpressionValue {
-  return (...args: ExpressionValue[]) => {
-    return fn(...args);
+function wrapAsyncFunction<T>(fn: (...args: any[]) => Promise<T>, parameters: string[]): RegisteredFunction {
+  return {
+    parameters: parameters.map(name => ({ name, type: 'any' })),
+    returns: 'any',
+    implementation: (...args: ExpressionValue[]) => {
+      return fn(...args);
+    },
+    async: true
   };
 }
 
@@ -32,27 +51,37 @@ export function createMathJsContext(): EvaluationContext {
       // Universal number creation
       universal: wrapAsyncFunction(async (value: any) => {
         return await createUniversalNumber(value);
-      }),
+      }, ['value']),
       
       // Prime check
       isPrime: wrapAsyncFunction(async (value: any) => {
         return await isPrime(value);
-      }),
+      }, ['value']),
       
       // Factorization
       factorize: wrapAsyncFunction(async (value: any) => {
         return await factorize(value);
-      }),
+      }, ['value']),
       
       // GCD calculation
       gcd: wrapAsyncFunction(async (a: any, b: any) => {
         return await gcd(a, b);
-      }),
+      }, ['a', 'b']),
       
       // LCM calculation
       lcm: wrapAsyncFunction(async (a: any, b: any) => {
         return await lcm(a, b);
-      })
+      }, ['a', 'b']),
+      
+      // Base conversion, through math-js for values beyond the safe integers
+      toBase: wrapAsyncFunction(async (value: any, base: any) => {
+        if (isNumeric(value) && Math.abs(toFloat(value)) <= Number.MAX_SAFE_INTEGER) {
+          return defaultContext.functions.toBase.implementation(value, base);
+        }
+        
+        const digits = await toBase(typeof value === 'bigint' ? value.toString() : value, Number(base));
+        return withBasePrefix(digits, Number(base));
+      }, ['value', 'base'])
     }
   };
 }
@@ -90,6 +119,12 @@ export const mathJsSuggestions: ExpressionSuggestion[] = [
     displayText: 'lcm', 
     type: 'function', 
     description: 'Calculate least common multiple' 
+  },
+  { 
+    text: 'toBase(', 
+    displayText: 'toBase', 
+    type: 'function', 
+    description: 'Write a number of any size in a base from 2 to 36' 
   }
 ];
 
@@ -116,23 +151,16 @@ export function initializeMathJsIntegration(): ExpressionEngine {
 }
 
 /**
- * Evaluate an expression using the math-js integrated engine
+ * Evaluate an expression using the math-js integrated engine, awaiting the results of the
+ * math-js functions wherever they are used, as in factorize(100) or isPrime(gcd(a, b) + 1)
  * @param expression - The expression to evaluate
+ * @param options - The cancel token that stops the evaluation
  * @returns Evaluation result
  */
-export async function evaluateMathJsExpression(expression: string): Promise<any> {
+export async function evaluateMathJsExpression(
+  expression: string,
+  options: AsyncEvaluationOptions = {}
+): Promise<EvaluationResult> {
   const engine = createMathJsExpressionEngine();
-  const result = engine.evaluate(expression);
-  
-  // Handle promises in results (from async math-js functions)
-  if (result.value && typeof result.value === 'object' && 'then' in result.value && typeof result.value.then === 'function') {
-    try {
-      result.value = await result.value;
-    } catch (error: any) {
-      result.error = error.message;
-      result.value = null;
-    }
-  }
-  
-  return result;
+  return engine.evaluateAsync(expression, options);
 }
\ No newline at end of file
@@ -85,4 +85,14 @@ export async function gcd(a: any, b: any) {
  */
 export async function lcm(a: any, b: any) {
   return MathJsAdapter.getInstance().lcm(a, b);
+}
+
+/**
+ * Write a number in another base
+ * @param value - The number
+ * @param base - The base, from 2 to 36
+ * @returns Promise resolving to the digits in that base
+ */
+export async function toBase(value: any, base: number) {
+  return MathJsAdapter.getInstance().toBase(value, base);
 }
\ No newline at end of file
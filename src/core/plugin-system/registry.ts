@@ -4,7 +4,14 @@
  * Manages the registration and tracking of plugins within the system.
  */
 
-import { PluginManifest, PluginInstance, PluginRegistryEntry, PluginStatus } from './types';
+import {
+  PluginManifest,
+  PluginInstance,
+  PluginRegistryEntry,
+  PluginStatus,
+  PluginExpressionMethod,
+  PluginMethodContext
+} from './types';
 
 /**
  * The PluginRegistry is responsible for tracking all plugins in the system,
@@ -139,6 +146,32 @@ export class PluginRegistry {
     return this.getAllPlugins().filter(plugin => plugin.enabled);
   }
 
+  /**
+   * Get the methods a plugin declares in its manifest for expressions to call, paired with
+   * the implementations of its instance. Methods are looked up by name, so the methods of
+   * sandboxed plugins, which a proxy serves, are found as well. They are called with a
+   * context that reaches the other methods through its prototype.
+   * 
+   * @param id The plugin ID
+   * @returns The declared methods the instance implements
+   */
+  public getExpressionMethods(id: string): PluginExpressionMethod[] {
+    const entry = this.getPlugin(id);
+    const methods = entry?.instance?.methods;
+    if (!entry?.manifest.methods || !methods) {
+      return [];
+    }
+    
+    return Object.entries(entry.manifest.methods)
+      .filter(([name]) => typeof methods[name] === 'function')
+      .map(([name, signature]) => ({
+        name,
+        signature,
+        implementation: (context: PluginMethodContext, ...args: unknown[]) =>
+          methods[name].call(Object.assign(Object.create(methods), context), ...args)
+      }));
+  }
+
   /**
    * Check if all dependencies are satisfied for a plugin
    * 
@@ -13,7 +13,8 @@ import type {
   PluginStorageAPI,
   PluginEventAPI,
   PluginUIAPI,
-  PluginPermission
+  PluginPermission,
+  PluginMethodContext
 } from '../types';
 
 // Re-export types that plugin developers need
@@ -25,7 +26,8 @@ export type {
   PluginStorageAPI,
   PluginEventAPI,
   PluginUIAPI,
-  PluginPermission
+  PluginPermission,
+  PluginMethodContext
 };
 
 /**
@@ -4,6 +4,8 @@
  * This file defines the TypeScript interfaces and types for the plugin system.
  */
 
+import { ExpressionExtension, PluginMethodSignature } from '../expression-engine/types';
+
 /**
  * Plugin manifest containing metadata and capabilities
  */
@@ -26,6 +28,8 @@ export interface PluginManifest {
   repository?: string;
   entryPoint: string;
   dependencies?: PluginDependency[];
+  // Methods of the instance that expressions can call, with their signatures
+  methods?: Record<string, PluginMethodSignature>;
   dashboard?: {
     panels?: PanelDefinition[];
     toolbarItems?: ToolbarItemDefinition[];
@@ -221,6 +225,9 @@ export interface PluginInstance {
   // Methods that extend math-js functionality
   methods?: Record<string, (...args: unknown[]) => unknown>;
   
+  // Operators, literal syntaxes and value types added to the expression language
+  expressions?: ExpressionExtension;
+  
   // Event listeners
   events?: Record<string, (event: unknown) => void>;
   
@@ -228,6 +235,26 @@ export interface PluginInstance {
   api?: Record<string, unknown>;
 }
 
+/**
+ * Context a plugin method called from an expression runs with as this, which holds the
+ * other methods of the plugin and a reporter for the progress of long methods. The methods
+ * of sandboxed plugins run in their worker, without the context.
+ */
+export interface PluginMethodContext {
+  // Report the fraction of the work done, from 0 to 1, and what the method is doing
+  reportProgress: (progress: number, message?: string) => void;
+}
+
+/**
+ * Method of a plugin instance that expressions can call, with the signature declared for it
+ */
+export interface PluginExpressionMethod {
+  name: string;
+  signature: PluginMethodSignature;
+  // Calls the method with the arguments and the context
+  implementation: (context: PluginMethodContext, ...args: unknown[]) => unknown;
+}
+
 /**
  * Plugin registry entry
  */
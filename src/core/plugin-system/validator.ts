@@ -68,6 +68,25 @@ export function validateManifest(manifest: PluginManifest): void {
     }
   }
   
+  // Validate the signatures of methods that expressions can call
+  if (manifest.methods) {
+    for (const [name, signature] of Object.entries(manifest.methods)) {
+      if (!Array.isArray(signature.parameters)) {
+        throw new Error(`Missing parameters in signature of method ${name}`);
+      }
+      
+      for (const [index, parameter] of signature.parameters.entries()) {
+        if (!parameter.name || !parameter.type) {
+          throw new Error(`Missing name or type in parameter at index ${index} of method ${name}`);
+        }
+      }
+      
+      if (!signature.returns) {
+        throw new Error(`Missing return type in signature of method ${name}`);
+      }
+    }
+  }
+  
   // Validate dashboard UI elements
   if (manifest.dashboard) {
     // Validate panels
@@ -7,17 +7,22 @@ import {
   ComputationManager, 
   ComputationTask,
   ComputationResult,
+  ExecutionOptions,
   TaskPriority,
   TaskStatus,
   CancelToken
 } from '../core/computation';
-import { ASTNode } from '../core/expression-engine/types';
+import { ASTNode, EvaluationScope, ExpressionValue, NumericPrecision, ProgressUpdate } from '../core/expression-engine/types';
+import { ExtensionRegistry } from '../core/expression-engine/extensions';
 
 interface UseComputationOptions {
   autoExecute?: boolean;
   priority?: TaskPriority;
   context?: Record<string, unknown>;
   timeout?: number;
+  scope?: EvaluationScope;
+  precision?: NumericPrecision;
+  extensions?: ExtensionRegistry;
 }
 
 interface UseComputationResult<T> {
@@ -25,8 +30,18 @@ interface UseComputationResult<T> {
   task: ComputationTask<T> | null;
   status: TaskStatus | 'idle';
   progress: number;
+  // Estimated milliseconds left and what the computation is doing, once it reports them
+  eta: number | null;
+  progressMessage: string | null;
   error: string | null;
   execute: (ast: ASTNode, context?: Record<string, unknown>) => Promise<ComputationResult<T>>;
+  runScript: (source: string, context?: Record<string, unknown>) => Promise<ComputationResult<T>>;
+  sample: (
+    ast: ASTNode,
+    variable: string,
+    values: ExpressionValue[],
+    context?: Record<string, unknown>
+  ) => Promise<ComputationResult<T>>;
   cancel: (reason?: string) => void;
   isRunning: boolean;
   isCompleted: boolean;
@@ -49,7 +64,10 @@ export function useComputation<T>(
     autoExecute = false,
     priority = TaskPriority.NORMAL,
     context = {},
-    timeout
+    timeout,
+    scope,
+    precision,
+    extensions
   } = options;
   
   // State
@@ -57,6 +75,8 @@ export function useComputation<T>(
   const [task, setTask] = useState<ComputationTask<T> | null>(null);
   const [status, setStatus] = useState<TaskStatus | 'idle'>('idle');
   const [progress, setProgress] = useState<number>(0);
+  const [eta, setEta] = useState<number | null>(null);
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   
   // References
@@ -71,14 +91,21 @@ export function useComputation<T>(
   }, []);
   
   // Progress handler
-  const handleProgress = useCallback((value: number) => {
-    setProgress(value);
+  const handleProgress = useCallback((update: ProgressUpdate) => {
+    setProgress(update.progress);
+    setEta(update.eta ?? null);
+    setProgressMessage(update.message ?? null);
   }, []);
   
-  // Execute computation
-  const execute = useCallback(async (
-    ast: ASTNode,
-    execContext?: Record<string, unknown>
+  // Status handler, so that the status shown is always the status of the task
+  const handleStatusChange = useCallback((changed: ComputationTask) => {
+    setTask({ ...changed } as ComputationTask<T>);
+    setStatus(changed.status);
+  }, []);
+  
+  // Submit a computation and track its task, progress and result
+  const run = useCallback(async (
+    submit: (manager: ComputationManager, options: ExecutionOptions) => Promise<ComputationResult<T>>
   ): Promise<ComputationResult<T>> => {
     if (!computationManagerRef.current) {
       throw new Error('Computation manager not initialized');
@@ -88,38 +115,28 @@ export function useComputation<T>(
     setResult(null);
     setError(null);
     setStatus('idle');
+    setProgress(0);
+    setEta(null);
+    setProgressMessage(null);
     
     // Create a new cancel token
     cancelTokenRef.current = computationManagerRef.current.createCancelToken();
     
     try {
-      // Set status to pending
-      setStatus(TaskStatus.PENDING);
-      
       // Execute computation
-      const computationResult = await computationManagerRef.current.execute<T>(
-        ast,
-        execContext || context,
-        {
-          priority,
-          onProgress: handleProgress,
-          cancelToken: cancelTokenRef.current,
-          timeout
-        }
-      );
+      const computationResult = await submit(computationManagerRef.current, {
+        priority,
+        onProgress: handleProgress,
+        onStatusChange: handleStatusChange,
+        cancelToken: cancelTokenRef.current,
+        timeout,
+        scope,
+        precision,
+        extensions
+      });
       
       // Update state with result
       setResult(computationResult);
-      setStatus(TaskStatus.COMPLETED);
-      
-      // Get task after execution
-      const taskId = task?.id || '';
-      if (taskId) {
-        const updatedTask = computationManagerRef.current.getTask<T>(taskId);
-        if (updatedTask) {
-          setTask(updatedTask);
-        }
-      }
       
       return computationResult;
     } catch (err) {
@@ -127,16 +144,38 @@ export function useComputation<T>(
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
       
-      // Update status based on error
-      if (cancelTokenRef.current?.isCancelled) {
-        setStatus(TaskStatus.CANCELLED);
-      } else {
-        setStatus(TaskStatus.FAILED);
-      }
-      
       throw err;
     }
-  }, [context, handleProgress, priority, task?.id, timeout]);
+  }, [handleProgress, handleStatusChange, priority, timeout, scope, precision, extensions]);
+  
+  // Execute computation
+  const execute = useCallback((
+    ast: ASTNode,
+    execContext?: Record<string, unknown>
+  ): Promise<ComputationResult<T>> => {
+    return run((manager, runOptions) => manager.execute<T>(ast, execContext || context, runOptions));
+  }, [run, context]);
+  
+  // Run a script in a worker; the variables and functions it defines are added to the scope
+  const runScript = useCallback((
+    source: string,
+    execContext?: Record<string, unknown>
+  ): Promise<ComputationResult<T>> => {
+    return run((manager, runOptions) => manager.runScript<T>(source, execContext || context, runOptions));
+  }, [run, context]);
+  
+  // Evaluate an expression at many values of a variable in a worker, as for a plot; the
+  // result holds the value at each of them, or null where the evaluation fails
+  const sample = useCallback((
+    ast: ASTNode,
+    variable: string,
+    values: ExpressionValue[],
+    execContext?: Record<string, unknown>
+  ): Promise<ComputationResult<T>> => {
+    return run((manager, runOptions) =>
+      manager.sample(ast, variable, values, execContext || context, runOptions) as Promise<ComputationResult<T>>
+    );
+  }, [run, context]);
   
   // Cancel computation
   const cancel = useCallback((reason?: string) => {
@@ -165,8 +204,12 @@ export function useComputation<T>(
     task,
     status,
     progress,
+    eta,
+    progressMessage,
     error,
     execute,
+    runScript,
+    sample,
     cancel,
     isRunning,
     isCompleted,
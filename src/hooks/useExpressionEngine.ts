@@ -1,82 +1,312 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { 
   Parser, 
+  LatexParser,
+  isLatexInput,
+  ScriptParser,
+  isScriptInput,
+  formatScriptError,
   Tokenizer, 
   SyntaxHighlighter, 
   AutoCompletion, 
-  Evaluator 
+  Evaluator,
+  createEvaluationScope,
+  ExtensionRegistry,
+  formatExpressionValue,
+  toStoredValue,
+  checkTypes,
+  createProgressReporter,
+  toLatex,
+  toMathML
 } from '../core/expression-engine';
 import { 
   ParseResult, 
   SyntaxError, 
-  ExpressionSuggestion 
+  ExpressionSuggestion,
+  SignatureHelp,
+  TokenType,
+  EvaluationScope,
+  NumericPrecision,
+  ProgressUpdate,
+  NodeType,
+  ASTNode,
+  BinaryOperationNode,
+  ExpressionValue,
+  RegisteredFunction,
+  StoredValue,
+  ValueFormatOptions
 } from '../core/expression-engine/types';
+import { pluginRegistry } from '../core/plugin-system/registry';
+import { usePluginEvent } from './usePluginEvents';
+
+/**
+ * Markup formats an expression can be serialized to
+ */
+export type SerializationFormat = 'latex' | 'mathml';
 
 interface UseExpressionEngineResult {
   parseExpression: (expression: string) => void;
-  evaluateExpression: (expression: string) => unknown;
+  evaluateExpression: (expression: string, onProgress?: (update: ProgressUpdate) => void) => Promise<unknown>;
   highlightedExpression: string;
   suggestions: ExpressionSuggestion[];
+  signatureHelp: SignatureHelp | null;
+  acceptSuggestion: (suggestion: ExpressionSuggestion) => void;
   parsedExpression: ParseResult | null;
   errors: SyntaxError[];
+  scope: EvaluationScope;
+  extensions: ExtensionRegistry;
+  serializeExpression: (expression: string, format: SerializationFormat, result?: string) => string | null;
+  formatValue: (value: ExpressionValue, options?: ValueFormatOptions) => string;
+  storeValue: (value: ExpressionValue) => StoredValue;
+  refreshUserDefinitions: () => void;
+  usesExtensions: (parseResult: ParseResult) => boolean;
 }
 
 /**
  * Hook for using the expression engine in components
+ * @param precision - Numeric precision mode for evaluation
  */
-export function useExpressionEngine(): UseExpressionEngineResult {
-  const [parser] = useState(new Parser());
-  const [tokenizer] = useState(new Tokenizer());
+export function useExpressionEngine(precision: NumericPrecision = 'standard'): UseExpressionEngineResult {
+  const [extensions] = useState(() => new ExtensionRegistry());
+  const [parser] = useState(() => new Parser(extensions));
+  const [latexParser] = useState(new LatexParser());
+  const [scriptParser] = useState(() => new ScriptParser(extensions));
+  const [tokenizer] = useState(() => new Tokenizer(extensions));
   const [highlighter] = useState(new SyntaxHighlighter());
   const [autoCompletion] = useState(new AutoCompletion());
-  const [evaluator] = useState(new Evaluator());
+  const [scope] = useState(createEvaluationScope);
+  const evaluator = useMemo(() => new Evaluator({}, scope, precision, extensions), [scope, precision, extensions]);
   
   const [parsedExpression, setParsedExpression] = useState<ParseResult | null>(null);
   const [highlightedExpression, setHighlightedExpression] = useState('');
   const [suggestions, setSuggestions] = useState<ExpressionSuggestion[]>([]);
+  const [signatureHelp, setSignatureHelp] = useState<SignatureHelp | null>(null);
   const [errors, setErrors] = useState<SyntaxError[]>([]);
   
+  // Reporter of the evaluation in progress, which the methods of plugins report to
+  const reportProgressRef = useRef<(fraction: number, message?: string) => void>();
+  
+  /**
+   * Parse input with the LaTeX front end when it starts with a backslash command and with
+   * the script parser when it holds statements, and check the function calls of single
+   * expressions against the functions known to the evaluator. Scripts are not checked ahead,
+   * since they may call functions they define; their errors come with a line and column.
+   */
+  const parseInput = useCallback((expression: string): ParseResult => {
+    if (!isLatexInput(expression) && isScriptInput(expression)) {
+      return scriptParser.parse(expression);
+    }
+    
+    const result = isLatexInput(expression) ? latexParser.parse(expression) : parser.parse(expression);
+    
+    if (result.ast) {
+      result.errors.push(...checkTypes(result.ast, evaluator.getFunctionSignatures(), result.ranges));
+    }
+    
+    return result;
+  }, [parser, latexParser, scriptParser, evaluator]);
+  
   /**
    * Parse an expression and update the state
    */
   const parseExpression = useCallback((expression: string) => {
-    // Tokenize for syntax highlighting
-    const tokens = tokenizer.tokenize(expression);
-    const highlightedTokens = highlighter.highlight(tokens, errors);
-    const htmlString = highlighter.renderToHtml('', Array.isArray(highlightedTokens) ? highlightedTokens : []);
-    setHighlightedExpression(htmlString);
-    
     // Parse for AST and errors
-    const parseResult = parser.parse(expression);
+    const parseResult = parseInput(expression);
     setParsedExpression(parseResult);
     setErrors(parseResult.errors);
     
+    // Tokenize for syntax highlighting, underlining each error
+    const tokens = isLatexInput(expression) ? latexParser.tokenize(expression) : tokenizer.tokenize(expression);
+    const highlightedTokens = highlighter.highlight(tokens, parseResult.errors);
+    const htmlString = highlighter.renderToHtml(expression, Array.isArray(highlightedTokens) ? highlightedTokens : []);
+    setHighlightedExpression(htmlString);
+    
     // Generate suggestions
     const cursorPosition = expression.length; // Default to end of expression
     const suggestions = autoCompletion.getSuggestions(expression, cursorPosition, parseResult.tokens);
     setSuggestions(suggestions);
-  }, [tokenizer, highlighter, parser, autoCompletion, errors]);
+    setSignatureHelp(autoCompletion.getSignatureHelp(expression, cursorPosition, parseResult.tokens));
+  }, [tokenizer, latexParser, highlighter, parseInput, autoCompletion]);
   
   /**
-   * Evaluate an expression and return the result
+   * Evaluate an expression and return the result. The evaluation is asynchronous, since the
+   * methods of plugins return promises, which are awaited before the values using them.
+   * The progress the methods report is passed to the listener, throttled.
    */
-  const evaluateExpression = useCallback((expression: string) => {
-    const parseResult = parser.parse(expression);
+  const evaluateExpression = useCallback(async (expression: string, onProgress?: (update: ProgressUpdate) => void) => {
+    const parseResult = parseInput(expression);
     
     if (parseResult.errors.length > 0 || !parseResult.ast) {
       throw new Error(parseResult.errors[0]?.message || 'Invalid expression');
     }
     
-    const result = evaluator.evaluate(parseResult.ast);
+    reportProgressRef.current = onProgress && createProgressReporter(onProgress);
+    const result = await evaluator.evaluateAsync(parseResult.ast).finally(() => {
+      reportProgressRef.current = undefined;
+    });
+    
+    // Scripts may define variables and functions before failing
+    const isScript = parseResult.ast.type === NodeType.Block;
+    if (isScript) {
+      autoCompletion.setUserDefinitions(scope);
+    }
+    
+    if (result.error) {
+      throw new Error(isScript ? formatScriptError(result.error, result.location) : result.error);
+    }
+    
+    // Offer new user definitions as suggestions
+    if (parseResult.ast.type === NodeType.Assignment || parseResult.ast.type === NodeType.FunctionDefinition) {
+      autoCompletion.setUserDefinitions(scope);
+    }
+    
+    // Rank the names used in successful evaluations higher
+    parseResult.tokens
+      .filter(token => token.type === TokenType.Function || token.type === TokenType.Variable)
+      .forEach(token => autoCompletion.recordUsage(token.value));
+    
     return result.value;
-  }, [parser, evaluator]);
+  }, [parseInput, evaluator, autoCompletion, scope]);
+  
+  /**
+   * Count an accepted suggestion as a use, so that it ranks higher next time
+   */
+  const acceptSuggestion = useCallback((suggestion: ExpressionSuggestion) => {
+    autoCompletion.recordUsage(suggestion.type === 'function' ? suggestion.text.replace(/\($/, '') : suggestion.text);
+  }, [autoCompletion]);
+  
+  /**
+   * Offer the methods of the enabled plugins as suggestions and add them to the language,
+   * with their operators, literals and value types. Methods are added as asynchronous
+   * functions, since the methods of sandboxed plugins answer with promises, and report
+   * their progress to the evaluation that calls them.
+   */
+  const refreshPlugins = useCallback(() => {
+    const enabled = pluginRegistry.getEnabledPlugins().map(entry => ({
+      entry,
+      methods: pluginRegistry.getExpressionMethods(entry.id)
+    }));
+    
+    autoCompletion.setPluginMethods(enabled.map(({ entry, methods }) => ({
+      name: entry.manifest.name,
+      methods: Object.fromEntries(methods.map(method => [method.name, method.signature]))
+    })));
+    
+    const extending = enabled.filter(({ entry, methods }) => entry.instance?.expressions || methods.length > 0);
+    extensions.getNames()
+      .filter(name => !extending.some(({ entry }) => entry.id === name))
+      .forEach(name => extensions.unregister(name));
+    
+    extending.forEach(({ entry, methods }) => {
+      const functions = Object.fromEntries(methods.map(({ name, signature, implementation }) => {
+        const { parameters, variadic, returns } = signature;
+        const registered: RegisteredFunction = {
+          parameters,
+          variadic,
+          returns,
+          implementation: (...args) => Promise.resolve(implementation({
+            reportProgress: (fraction, message) => reportProgressRef.current?.(fraction, message)
+          }, ...args)),
+          async: true
+        };
+        return [name, registered];
+      }));
+      
+      try {
+        extensions.register(entry.id, { ...entry.instance?.expressions, functions });
+      } catch (err) {
+        console.error(`Error adding the expressions of plugin "${entry.manifest.name}":`, err);
+      }
+    });
+  }, [autoCompletion, extensions]);
+  
+  useEffect(refreshPlugins, [refreshPlugins]);
+  usePluginEvent('dashboard:plugin-enabled', refreshPlugins);
+  usePluginEvent('dashboard:plugin-disabled', refreshPlugins);
+  usePluginEvent('dashboard:plugin-loaded', refreshPlugins);
+  usePluginEvent('dashboard:plugin-unloaded', refreshPlugins);
+  
+  /**
+   * Format a value for display, letting the value types of plugins format their values
+   */
+  const formatValue = useCallback((value: ExpressionValue, options?: ValueFormatOptions) => {
+    return formatExpressionValue(value, options, extensions.getValueTypes());
+  }, [extensions]);
+  
+  /**
+   * Offer the variables and functions of the session scope as suggestions again, once a
+   * script run elsewhere, such as in a worker, has added to them
+   */
+  const refreshUserDefinitions = useCallback(() => {
+    autoCompletion.setUserDefinitions(scope);
+  }, [autoCompletion, scope]);
+  
+  /**
+   * Keep a value for a stored result, which is formatted with the display settings when shown
+   */
+  const storeValue = useCallback((value: ExpressionValue) => {
+    return toStoredValue(value, extensions.getValueTypes());
+  }, [extensions]);
+  
+  /**
+   * Check whether an expression uses operators, literals or functions added by plugins,
+   * whose definitions only exist on the main thread
+   */
+  const usesExtensions = useCallback((parseResult: ParseResult) => {
+    return parseResult.tokens.some(token =>
+      token.type === TokenType.Literal
+      || (token.type === TokenType.Operator && extensions.isOperator(token.value))
+      || (token.type === TokenType.Function && extensions.findFunction(token.value) !== undefined)
+    );
+  }, [extensions]);
+  
+  /**
+   * Serialize an expression, optionally equated with its result, to LaTeX or MathML.
+   * Returns null when either text does not parse.
+   */
+  const serializeExpression = useCallback((expression: string, format: SerializationFormat, result?: string) => {
+    const parseResult = parseInput(expression);
+    
+    if (parseResult.errors.length > 0 || !parseResult.ast) {
+      return null;
+    }
+    
+    let node: ASTNode = parseResult.ast;
+    
+    if (result !== undefined) {
+      const resultParse = parser.parse(result);
+      
+      if (resultParse.errors.length > 0 || !resultParse.ast) {
+        return null;
+      }
+      
+      // The equality operator typesets as a plain equals sign
+      node = {
+        type: NodeType.BinaryOperation,
+        operator: '==',
+        left: node,
+        right: resultParse.ast
+      } as BinaryOperationNode;
+    }
+    
+    return format === 'latex' ? toLatex(node) : toMathML(node, 'block');
+  }, [parser, parseInput]);
   
   return {
     parseExpression,
     evaluateExpression,
     highlightedExpression,
     suggestions,
+    signatureHelp,
+    acceptSuggestion,
     parsedExpression,
-    errors
+    errors,
+    scope,
+    extensions,
+    serializeExpression,
+    formatValue,
+    storeValue,
+    refreshUserDefinitions,
+    usesExtensions
   };
 }
\ No newline at end of file
@@ -1,9 +1,12 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { StoredValue } from '../../core/expression-engine/types';
 
 interface ExpressionResult {
   id: string;
   expression: string;
   result: string;
+  // The value of the result, formatted with the display settings when shown
+  value?: StoredValue;
   timestamp: number;
   error?: string;
 }
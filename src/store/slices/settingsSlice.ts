@@ -3,6 +3,7 @@ import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 // Define settings types
 export type CalculationPrecision = 'standard' | 'high' | 'maximum';
 export type NumberFormat = 'decimal' | 'scientific' | 'engineering' | 'fraction';
+export type ComplexFormat = 'rectangular' | 'polar';
 export type ResultsHistoryLimit = number;
 
 interface SettingsState {
@@ -14,6 +15,7 @@ interface SettingsState {
   };
   display: {
     numberFormat: NumberFormat;
+    complexFormat: ComplexFormat;
     decimalPlaces: number;
     useGrouping: boolean; // whether to use thousand separators
     resultsHistoryLimit: ResultsHistoryLimit;
@@ -38,6 +40,7 @@ const initialState: SettingsState = {
   },
   display: {
     numberFormat: 'decimal',
+    complexFormat: 'rectangular',
     decimalPlaces: 10,
     useGrouping: true,
     resultsHistoryLimit: 100,
@@ -75,6 +78,9 @@ const settingsSlice = createSlice({
     setNumberFormat: (state, action: PayloadAction<NumberFormat>) => {
       state.display.numberFormat = action.payload;
     },
+    setComplexFormat: (state, action: PayloadAction<ComplexFormat>) => {
+      state.display.complexFormat = action.payload;
+    },
     setDecimalPlaces: (state, action: PayloadAction<number>) => {
       state.display.decimalPlaces = action.payload;
     },
@@ -129,6 +135,7 @@ export const {
   setAutoEvaluate,
   setWorkerCount,
   setNumberFormat,
+  setComplexFormat,
   setDecimalPlaces,
   setUseGrouping,
   setResultsHistoryLimit,
@@ -6,7 +6,7 @@
  * It handles initialization, resource monitoring, and error recovery.
  */
 
-// Import the worker implementation
+// Import the worker implementation, which reports ready once it handles messages
 import '../core/computation/computation-worker.ts';
 
 // Setup resource monitoring
@@ -37,13 +37,4 @@ if (self.performance && self.performance.memory) {
       });
     }
   }, MEMORY_CHECK_INTERVAL);
-}
-
-// Send initialization complete message
-self.postMessage({ 
-  type: 'init', 
-  status: 'ready',
-  capabilities: {
-    hasMemoryMonitoring: !!(self.performance && self.performance.memory)
-  }
-});
\ No newline at end of file
+}
\ No newline at end of file
@@ -6,10 +6,16 @@
 
 import { UniversalNumber, PrimeMath } from 'uor-foundation-math-js';
 import { MathErrorType } from '../core/math-js-integration/types';
+import { WorkerRequest, WorkerResponse } from '../core/computation/types';
 
 // Worker context
 const ctx: Worker = self as any;
 
+// Send a message to the main thread
+function post(message: WorkerResponse): void {
+  ctx.postMessage(message);
+}
+
 // Error handling
 function handleError(error: any) {
   let type = MathErrorType.UNKNOWN;
@@ -147,29 +153,43 @@ const operationHandlers: Record<string, Record<string, (params: any) => any>> =
 };
 
 // Process message from main thread
-ctx.addEventListener('message', (event) => {
-  const { id, operation, category, params } = event.data;
+ctx.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  
+  if (request.type === 'cancel') {
+    return;
+  }
   
   try {
+    if (request.type !== 'operation') {
+      throw new Error(`Unknown task type: ${request.type}`);
+    }
+    
+    const { category, operation, params } = request.payload;
+    
     if (!operationHandlers[category] || !operationHandlers[category][operation]) {
       throw new Error(`Invalid operation: ${category}.${operation}`);
     }
     
     const result = operationHandlers[category][operation](params);
     
-    ctx.postMessage({
-      id,
-      result,
-      error: null
+    post({
+      type: 'result',
+      id: request.id,
+      result
     });
   } catch (error: any) {
-    ctx.postMessage({
-      id,
-      result: null,
-      error: handleError(error)
+    const { type, message, details } = handleError(error);
+    
+    post({
+      type: 'error',
+      id: request.id,
+      error: message,
+      errorType: type,
+      details
     });
   }
 });
 
 // Signal that the worker is ready
-ctx.postMessage({ type: 'ready' });
\ No newline at end of file
+post({ type: 'ready' });
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ComputationQueue } from '@/core/computation/computation-queue';
+import { TaskStatus, TaskTransitionError, canTransition, isFinished } from '@/core/computation/types';
+
+describe('ComputationQueue', () => {
+  let queue: ComputationQueue;
+  
+  beforeEach(() => {
+    queue = new ComputationQueue();
+  });
+  
+  it('should allow only the transitions of the task lifecycle', () => {
+    expect(canTransition(TaskStatus.PENDING, TaskStatus.RUNNING)).toBe(true);
+    expect(canTransition(TaskStatus.PENDING, TaskStatus.CANCELLED)).toBe(true);
+    expect(canTransition(TaskStatus.RUNNING, TaskStatus.COMPLETED)).toBe(true);
+    expect(canTransition(TaskStatus.PENDING, TaskStatus.COMPLETED)).toBe(false);
+    expect(canTransition(TaskStatus.RUNNING, TaskStatus.PENDING)).toBe(true);
+    expect(canTransition(TaskStatus.COMPLETED, TaskStatus.PENDING)).toBe(false);
+    expect(canTransition(TaskStatus.CANCELLED, TaskStatus.FAILED)).toBe(false);
+    
+    expect(isFinished(TaskStatus.RUNNING)).toBe(false);
+    expect(isFinished(TaskStatus.FAILED)).toBe(true);
+  });
+  
+  it('should move a task through its lifecycle and report each status', () => {
+    const statuses: TaskStatus[] = [];
+    const task = queue.createTask('execute', {}, {
+      onStatusChange: changed => {
+        statuses.push(changed.status);
+      }
+    });
+    
+    queue.updateTask(task.id, { progress: 0.5 });
+    queue.updateTask(task.id, { status: TaskStatus.RUNNING });
+    queue.updateTask(task.id, { status: TaskStatus.COMPLETED, result: 42 });
+    
+    expect(statuses).toEqual([TaskStatus.PENDING, TaskStatus.RUNNING, TaskStatus.COMPLETED]);
+    expect(task.startTime).toBeDefined();
+    expect(task.endTime).toBeGreaterThanOrEqual(task.startTime!);
+  });
+  
+  it('should reject invalid transitions and leave the task unchanged', () => {
+    const task = queue.createTask('execute', {});
+    
+    expect(() => queue.updateTask(task.id, { status: TaskStatus.COMPLETED, result: 1 }))
+      .toThrow(TaskTransitionError);
+    expect(task.status).toBe(TaskStatus.PENDING);
+    expect(task.result).toBeUndefined();
+    
+    queue.updateTask(task.id, { status: TaskStatus.RUNNING });
+    queue.updateTask(task.id, { status: TaskStatus.FAILED, error: 'Division by zero' });
+    
+    expect(() => queue.updateTask(task.id, { status: TaskStatus.RUNNING }))
+      .toThrow(`Task ${task.id} cannot move from failed to running`);
+  });
+  
+  it('should cancel only tasks that have not ended', () => {
+    const onCancelled = vi.fn();
+    queue.subscribe('taskCancelled', onCancelled);
+    
+    const pending = queue.createTask('execute', {});
+    expect(queue.cancelTask(pending.id, 'Execution timed out')).toBe(pending);
+    expect(pending.status).toBe(TaskStatus.CANCELLED);
+    expect(pending.cancelToken.cancelReason).toBe('Execution timed out');
+    
+    const completed = queue.createTask('execute', {});
+    queue.updateTask(completed.id, { status: TaskStatus.RUNNING });
+    queue.updateTask(completed.id, { status: TaskStatus.COMPLETED });
+    
+    expect(queue.cancelTask(completed.id)).toBeUndefined();
+    expect(queue.cancelTask(pending.id)).toBeUndefined();
+    expect(completed.status).toBe(TaskStatus.COMPLETED);
+    expect(onCancelled).toHaveBeenCalledOnce();
+  });
+});
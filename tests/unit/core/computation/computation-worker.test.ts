@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { ComputationManager } from '@/core/computation';
+import { WorkerRequest, WorkerResponse } from '@/core/computation/types';
+import { Parser } from '@/core/expression-engine';
+import { createEvaluationScope } from '@/core/expression-engine/evaluator';
+import { ExtensionRegistry } from '@/core/expression-engine/extensions';
+
+// Worker running the computation worker module in this thread. Requests reach the module's
+// message handler, and the messages it posts come back asynchronously, as from a thread.
+class InlineWorker {
+  static handling?: InlineWorker;
+
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  constructor() {
+    this.reply({ type: 'ready' });
+  }
+
+  postMessage(request: WorkerRequest): void {
+    InlineWorker.handling = this;
+    try {
+      self.onmessage?.({ data: request } as MessageEvent);
+    } finally {
+      InlineWorker.handling = undefined;
+    }
+  }
+
+  reply(message: WorkerResponse): void {
+    setTimeout(() => this.onmessage?.({ data: message, target: this } as unknown as MessageEvent<WorkerResponse>));
+  }
+
+  terminate(): void {}
+}
+
+describe('computation worker', () => {
+  let manager: ComputationManager;
+
+  beforeAll(async () => {
+    vi.stubGlobal('Worker', InlineWorker);
+    vi.spyOn(self, 'postMessage').mockImplementation(((message: WorkerResponse) => {
+      InlineWorker.handling?.reply(message);
+    }) as typeof self.postMessage);
+
+    await import('@/core/computation/computation-worker');
+    manager = ComputationManager.getInstance('/inline-worker.js', 1);
+  });
+
+  it('should run scripts as script tasks and hand back what they define', async () => {
+    const scope = createEvaluationScope();
+    const script = 'sq(n) = n^2\nlet s = 0\nfor k in 1..3 { s = s + sq(k) }\ntotal = s\ns';
+
+    await expect(manager.runScript(script, undefined, { scope })).resolves.toMatchObject({ value: 14 });
+    expect(manager.getTasks().at(-1)).toMatchObject({ type: 'script', progress: 1 });
+    expect(scope.variables.total).toBe(14);
+    expect(Object.keys(scope.functions)).toContain('sq');
+  });
+
+  it('should sample expressions at many values as sample tasks, with null where they fail', async () => {
+    const { ast } = new Parser().parse('modinv(x, 10) + c');
+    const updates: number[] = [];
+
+    const result = await manager.sample(ast!, 'x', [1, 2, 3, 7, 9], { variables: { c: 100 } }, {
+      onProgress: ({ progress }) => updates.push(progress)
+    });
+
+    expect(result.value).toEqual([101, null, 107, 103, 109]);
+    expect(manager.getTasks().at(-1)).toMatchObject({ type: 'sample', progress: 1 });
+    expect(updates.at(-1)).toBe(1);
+  });
+
+  it('should parse scripts with the operators of plugins before sending them', async () => {
+    const extensions = new ExtensionRegistry();
+    extensions.register('towers', {
+      operators: [{ symbol: '↑', fixity: 'infix', precedence: 10.5, evaluate: (a, b) => Number(a) ** Number(b) }]
+    });
+    const tasks = manager.getTasks().length;
+
+    await expect(manager.runScript('let a = 2\na ↑ 3')).rejects.toThrow(/^Line 2, column 3: /);
+    expect(manager.getTasks()).toHaveLength(tasks);
+
+    // The worker knows no plugins, so the script parses but its operator cannot be evaluated
+    await expect(manager.runScript('let a = 2\na ↑ 3', undefined, { extensions })).rejects.toThrow('Line 2, column 1: Unknown operator: ↑');
+    expect(manager.getTasks()).toHaveLength(tasks + 1);
+  });
+
+  it('should report the line and column where a script fails', async () => {
+    await expect(manager.runScript('let a = 1\na + y')).rejects.toThrow('Line 2, column 1: Unknown variable: y');
+
+    // Syntax errors are found before the script reaches a worker
+    const tasks = manager.getTasks().length;
+    await expect(manager.runScript('let = 2')).rejects.toThrow(/^Line 1, column \d+: /);
+    expect(manager.getTasks()).toHaveLength(tasks);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ComputationExecutor } from '@/core/computation/executor';
+import { CancelToken, TaskPriority, TaskStatus } from '@/core/computation/types';
+import { NodeType, NumberNode } from '@/core/expression-engine/types';
+
+// Worker that answers only what a test sends through the executor's worker manager
+class MockWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  
+  postMessage(_message: unknown): void {}
+  
+  terminate(): void {}
+}
+
+vi.stubGlobal('Worker', MockWorker);
+
+describe('ComputationExecutor', () => {
+  const ast: NumberNode = { type: NodeType.Number, value: 1 };
+  let executor: ComputationExecutor;
+  
+  const send = (data: unknown) => {
+    // @ts-expect-error - Access private property and method for testing
+    executor.workerManager.handleWorkerMessage({ data, target: executor.workerManager.workers[0].worker } as MessageEvent);
+  };
+  
+  beforeEach(() => {
+    executor = new ComputationExecutor('/mock-worker-path.js', 1);
+    executor.initialize();
+    send({ type: 'ready' });
+  });
+  
+  it('should keep a task pending until a worker takes it', async () => {
+    const first = executor.execute({ ast });
+    const second = executor.execute({ ast });
+    
+    expect(executor.getTasks().map(task => [task.status, task.waitingFor])).toEqual([
+      [TaskStatus.RUNNING, undefined],
+      [TaskStatus.PENDING, 'worker']
+    ]);
+    
+    send({ type: 'result', id: executor.getTasks()[0].id, result: 1 });
+    await expect(first).resolves.toMatchObject({ value: 1 });
+    expect(executor.getTasks()[1].status).toBe(TaskStatus.RUNNING);
+    
+    send({ type: 'error', id: executor.getTasks()[1].id, error: 'Division by zero' });
+    await expect(second).rejects.toThrow('Division by zero');
+    expect(executor.getTasks()[1]).toMatchObject({ status: TaskStatus.FAILED, error: 'Division by zero' });
+  });
+  
+  it('should send parsed scripts to the worker as script tasks', async () => {
+    const postMessage = vi.spyOn(MockWorker.prototype, 'postMessage');
+    const execution = executor.execute({ ast, script: true });
+    const [task] = executor.getTasks();
+    
+    expect(task.type).toBe('script');
+    expect(postMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'script', id: task.id }));
+    
+    send({ type: 'result', id: task.id, result: { value: 1, scope: { variables: {}, functions: {} } } });
+    await expect(execution).resolves.toMatchObject({ value: { value: 1 } });
+    postMessage.mockRestore();
+  });
+  
+  it('should show preempted tasks as pending again', async () => {
+    const statuses: TaskStatus[] = [];
+    const low = executor.execute({ ast }, {
+      priority: TaskPriority.LOW,
+      onStatusChange: task => statuses.push(task.status)
+    });
+    const critical = executor.execute({ ast }, { priority: TaskPriority.CRITICAL });
+    const [lowTask, criticalTask] = executor.getTasks();
+    
+    expect(lowTask).toMatchObject({ status: TaskStatus.PENDING, preemptions: 1, waitingFor: 'worker' });
+    expect(criticalTask).toMatchObject({ status: TaskStatus.PENDING, waitingFor: 'worker' });
+    
+    send({ type: 'cancelled', id: lowTask.id });
+    expect(criticalTask.status).toBe(TaskStatus.RUNNING);
+    
+    send({ type: 'result', id: criticalTask.id, result: 2 });
+    send({ type: 'result', id: lowTask.id, result: 1 });
+    await Promise.all([low, critical]);
+    
+    expect(statuses).toEqual([
+      TaskStatus.PENDING,
+      TaskStatus.RUNNING,
+      TaskStatus.PENDING,
+      TaskStatus.RUNNING,
+      TaskStatus.COMPLETED
+    ]);
+  });
+  
+  it('should show the progress, time left and status message the worker reports', async () => {
+    const onProgress = vi.fn();
+    const execution = executor.execute({ ast }, { onProgress });
+    const [task] = executor.getTasks();
+    
+    send({ type: 'progress', id: task.id, progress: 0.4, eta: 1500, message: 'Sieving primes up to 1000000' });
+    expect(task).toMatchObject({ progress: 0.4, eta: 1500, progressMessage: 'Sieving primes up to 1000000' });
+    expect(onProgress).toHaveBeenLastCalledWith({ progress: 0.4, eta: 1500, message: 'Sieving primes up to 1000000' });
+    
+    send({ type: 'result', id: task.id, result: 1 });
+    await execution;
+    expect(task).toMatchObject({ progress: 1, eta: 0, progressMessage: undefined });
+    expect(onProgress).toHaveBeenLastCalledWith({ progress: 1, eta: 0, message: undefined });
+  });
+  
+  it('should cancel a task as soon as its cancel token is cancelled', async () => {
+    const cancelToken = new CancelToken();
+    const result = executor.execute({ ast }, { cancelToken });
+    const [task] = executor.getTasks();
+    
+    cancelToken.cancel('Stopped by the user');
+    
+    await expect(result).rejects.toThrow('Stopped by the user');
+    expect(task).toMatchObject({ status: TaskStatus.CANCELLED, error: 'Stopped by the user' });
+    
+    // A token cancelled beforehand cancels the task before it reaches a worker
+    await expect(executor.execute({ ast }, { cancelToken })).rejects.toThrow('Stopped by the user');
+    expect(executor.getTasks()[1].status).toBe(TaskStatus.CANCELLED);
+  });
+  
+  it('should tell cancel listeners once, at once if already cancelled', () => {
+    const cancelToken = new CancelToken();
+    const listener = vi.fn();
+    const removed = vi.fn();
+    
+    cancelToken.onCancel(listener);
+    cancelToken.onCancel(removed)();
+    cancelToken.cancel('first');
+    cancelToken.cancel('second');
+    
+    expect(listener).toHaveBeenCalledOnce();
+    expect(removed).not.toHaveBeenCalled();
+    expect(cancelToken.cancelReason).toBe('first');
+    
+    cancelToken.onCancel(removed);
+    expect(removed).toHaveBeenCalledOnce();
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { WorkerManager } from '@/core/computation/worker-manager';
+import { TaskPriority } from '@/core/computation/types';
 
 // Mock Worker class
 class MockWorker {
@@ -13,7 +14,7 @@ class MockWorker {
     if (this.onmessage) {
       setTimeout(() => {
         this.onmessage?.({
-          data: { type: 'init', status: 'ready' },
+          data: { type: 'ready' },
           target: this
         } as unknown as MessageEvent);
       }, 0);
@@ -92,6 +93,7 @@ describe('WorkerManager', () => {
     // Simulate a message directly
     const messageEvent = {
       data: {
+        type: 'result',
         id: 'test-task',
         result: { value: 'test-result' }
       },
@@ -122,6 +124,7 @@ describe('WorkerManager', () => {
     // Simulate an error message directly
     const errorEvent = {
       data: {
+        type: 'error',
         id: 'test-error-task',
         error: 'Test error message'
       },
@@ -135,6 +138,238 @@ describe('WorkerManager', () => {
     expect(task.reject).toHaveBeenCalledWith(expect.any(Error));
   });
   
+  it('should cancel queued and running tasks, replacing the worker without shared memory', async () => {
+    const sharedArrayBuffer = globalThis.SharedArrayBuffer;
+    vi.stubGlobal('SharedArrayBuffer', undefined);
+    workerManager = new WorkerManager('/mock-worker-path.js', 1);
+    workerManager.initialize();
+    
+    // @ts-expect-error - Access private property for testing
+    const [runningWorker] = workerManager.workers;
+    runningWorker.busy = false;
+    const terminate = vi.spyOn(runningWorker.worker, 'terminate');
+    
+    const running = workerManager.execute({ id: 'running', type: 'execute', payload: {} });
+    const queued = workerManager.execute({ id: 'queued', type: 'execute', payload: {} });
+    
+    expect(workerManager.cancel('queued')).toBe(true);
+    await expect(queued).rejects.toThrow('Task cancelled');
+    
+    expect(workerManager.cancel('running', 'Execution timed out')).toBe(true);
+    await expect(running).rejects.toThrow('Execution timed out');
+    expect(terminate).toHaveBeenCalled();
+    
+    // The terminated worker is replaced by a fresh one that is busy until it reports ready
+    // @ts-expect-error - Access private property for testing
+    expect(workerManager.workers[0].worker).not.toBe(runningWorker.worker);
+    // @ts-expect-error - Access private property for testing
+    expect(workerManager.workers[0].busy).toBe(true);
+    
+    expect(workerManager.cancel('running')).toBe(false);
+    
+    vi.stubGlobal('SharedArrayBuffer', sharedArrayBuffer);
+  });
+  
+  it('should stop a running task through its cancel flag in shared memory', async () => {
+    vi.useFakeTimers();
+    workerManager = new WorkerManager('/mock-worker-path.js', 1, { stopTimeout: 500 });
+    workerManager.initialize();
+    
+    // @ts-expect-error - Access private property for testing
+    const [worker] = workerManager.workers;
+    worker.busy = false;
+    const postMessage = vi.spyOn(worker.worker, 'postMessage');
+    const terminate = vi.spyOn(worker.worker, 'terminate');
+    
+    const first = workerManager.execute({ id: 'first', type: 'execute', payload: {} });
+    const second = workerManager.execute({ id: 'second', type: 'execute', payload: {} });
+    const flag = new Int32Array(postMessage.mock.calls[0][0].cancelFlag);
+    
+    expect(workerManager.cancel('first', 'Stopped by the user')).toBe(true);
+    await expect(first).rejects.toThrow('Stopped by the user');
+    expect(Atomics.load(flag, 0)).toBe(1);
+    expect(postMessage).toHaveBeenLastCalledWith({ type: 'cancel', id: 'first' });
+    
+    // The worker takes the next task once the cancelled one has stopped
+    // @ts-expect-error - Access private method for testing
+    workerManager.handleWorkerMessage({ data: { type: 'cancelled', id: 'first' }, target: worker.worker } as MessageEvent);
+    expect(worker.taskId).toBe('second');
+    expect(terminate).not.toHaveBeenCalled();
+    
+    // A task that does not stop in time loses its worker
+    workerManager.cancel('second');
+    await expect(second).rejects.toThrow('Task cancelled');
+    vi.advanceTimersByTime(500);
+    expect(terminate).toHaveBeenCalled();
+    // @ts-expect-error - Access private property for testing
+    expect(workerManager.workers[0].worker).not.toBe(worker.worker);
+    
+    vi.useRealTimers();
+  });
+  
+  it('should start tasks when a worker takes them and settle them from typed messages', async () => {
+    workerManager = new WorkerManager('/mock-worker-path.js', 1);
+    workerManager.initialize();
+    
+    // @ts-expect-error - Access private property for testing
+    const [worker] = workerManager.workers;
+    worker.busy = false;
+    const send = (data: unknown) => {
+      // @ts-expect-error - Access private method for testing
+      workerManager.handleWorkerMessage({ data, target: worker.worker } as MessageEvent);
+    };
+    
+    const onStart = vi.fn();
+    const onProgress = vi.fn();
+    const first = workerManager.execute({ id: 'first', type: 'execute', payload: {}, onProgress });
+    const second = workerManager.execute({ id: 'second', type: 'execute', payload: {}, onStart });
+    
+    // The second task waits for the only worker
+    expect(onStart).not.toHaveBeenCalled();
+    
+    // A worker that runs a task stays busy when it reports ready again
+    send({ type: 'ready' });
+    send({ type: 'progress', id: 'first', progress: 0.5, eta: 800, message: 'Sieving primes up to 1000000' });
+    expect(onProgress).toHaveBeenCalledWith({ progress: 0.5, eta: 800, message: 'Sieving primes up to 1000000' });
+    expect(onStart).not.toHaveBeenCalled();
+    
+    send({ type: 'result', id: 'first', result: false });
+    await expect(first).resolves.toBe(false);
+    expect(onStart).toHaveBeenCalledOnce();
+    
+    send({ type: 'error', id: 'second', error: 'Unknown variable: y' });
+    await expect(second).rejects.toThrow('Unknown variable: y');
+  });
+  
+  it('should fail the task of a worker that crashes', async () => {
+    workerManager = new WorkerManager('/mock-worker-path.js', 1);
+    workerManager.initialize();
+    
+    // @ts-expect-error - Access private property for testing
+    const [worker] = workerManager.workers;
+    worker.busy = false;
+    
+    const task = workerManager.execute({ id: 'crashing', type: 'execute', payload: {} });
+    
+    // @ts-expect-error - Access private method for testing
+    workerManager.handleWorkerError({ message: 'Out of memory', target: worker.worker } as ErrorEvent);
+    
+    await expect(task).rejects.toThrow('Out of memory');
+    // @ts-expect-error - Access private property for testing
+    expect(workerManager.workers[0].worker).not.toBe(worker.worker);
+  });
+  
+  it('should preempt a low priority task for a critical one and run it again afterwards', async () => {
+    workerManager = new WorkerManager('/mock-worker-path.js', 1);
+    workerManager.initialize();
+    
+    // @ts-expect-error - Access private property for testing
+    workerManager.workers[0].busy = false;
+    const send = (data: unknown) => {
+      // @ts-expect-error - Access private property and method for testing
+      workerManager.handleWorkerMessage({ data, target: workerManager.workers[0].worker } as MessageEvent);
+    };
+    
+    const onStart = vi.fn();
+    const onPreempt = vi.fn();
+    const low = workerManager.execute({ id: 'low', type: 'execute', payload: {}, priority: TaskPriority.LOW, onStart, onPreempt });
+    const normal = workerManager.execute({ id: 'normal', type: 'execute', payload: {}, priority: TaskPriority.NORMAL });
+    const critical = workerManager.execute({ id: 'critical', type: 'execute', payload: {}, priority: TaskPriority.CRITICAL });
+    
+    expect(onStart).toHaveBeenCalledOnce();
+    expect(onPreempt).toHaveBeenCalledOnce();
+    
+    // The critical task takes the worker once the low priority task stopped, then the queue
+    // resumes in priority order
+    send({ type: 'cancelled', id: 'low' });
+    // @ts-expect-error - Access private property for testing
+    expect(workerManager.workers[0].taskId).toBe('critical');
+    
+    send({ type: 'result', id: 'critical', result: 1 });
+    send({ type: 'result', id: 'normal', result: 2 });
+    expect(onStart).toHaveBeenCalledTimes(2);
+    send({ type: 'result', id: 'low', result: 3 });
+    
+    await expect(Promise.all([low, normal, critical])).resolves.toEqual([3, 2, 1]);
+  });
+  
+  it('should age queued tasks so that low priority tasks are not starved', () => {
+    vi.useFakeTimers({ now: 0 });
+    workerManager = new WorkerManager('/mock-worker-path.js', 1, { agingInterval: 1000 });
+    workerManager.initialize();
+    
+    // @ts-expect-error - Access private property for testing
+    const [worker] = workerManager.workers;
+    worker.busy = false;
+    
+    const onSchedule = vi.fn();
+    workerManager.execute({ id: 'running', type: 'execute', payload: {} }).catch(() => {});
+    workerManager.execute({ id: 'low', type: 'execute', payload: {}, priority: TaskPriority.LOW, onSchedule }).catch(() => {});
+    expect(onSchedule).toHaveBeenLastCalledWith({ effectivePriority: TaskPriority.LOW, waitingFor: 'worker' });
+    
+    vi.setSystemTime(5000);
+    workerManager.execute({ id: 'high', type: 'execute', payload: {}, priority: TaskPriority.HIGH }).catch(() => {});
+    expect(onSchedule).toHaveBeenLastCalledWith({ effectivePriority: TaskPriority.HIGH, waitingFor: 'worker' });
+    
+    // Aged up to HIGH, the low priority task has waited longest
+    // @ts-expect-error - Access private method for testing
+    workerManager.handleWorkerMessage({ data: { type: 'result', id: 'running', result: 0 }, target: worker.worker } as MessageEvent);
+    expect(worker.taskId).toBe('low');
+    
+    vi.useRealTimers();
+  });
+  
+  it('should age queued tasks while nothing else happens in the queue', () => {
+    vi.useFakeTimers({ now: 0 });
+    workerManager = new WorkerManager('/mock-worker-path.js', 1, { agingInterval: 1000 });
+    workerManager.initialize();
+    
+    // @ts-expect-error - Access private property for testing
+    workerManager.workers[0].busy = false;
+    
+    const onSchedule = vi.fn();
+    workerManager.execute({ id: 'running', type: 'execute', payload: {} }).catch(() => {});
+    workerManager.execute({ id: 'low', type: 'execute', payload: {}, priority: TaskPriority.LOW, onSchedule }).catch(() => {});
+    expect(onSchedule).toHaveBeenLastCalledWith({ effectivePriority: TaskPriority.LOW, waitingFor: 'worker' });
+    
+    vi.advanceTimersByTime(1000);
+    expect(onSchedule).toHaveBeenLastCalledWith({ effectivePriority: TaskPriority.NORMAL, waitingFor: 'worker' });
+    vi.advanceTimersByTime(1000);
+    expect(onSchedule).toHaveBeenLastCalledWith({ effectivePriority: TaskPriority.HIGH, waitingFor: 'worker' });
+    
+    // Aging stops at HIGH
+    expect(vi.getTimerCount()).toBe(0);
+    
+    workerManager.terminate();
+    vi.useRealTimers();
+  });
+  
+  it('should limit the tasks of one source that run at once', () => {
+    workerManager = new WorkerManager('/mock-worker-path.js', 4, { maxTasksPerSource: 2 });
+    workerManager.initialize();
+    
+    // @ts-expect-error - Access private property for testing
+    workerManager.workers.forEach(w => w.busy = false);
+    
+    const onSchedule = vi.fn();
+    for (const id of ['a', 'b', 'c']) {
+      workerManager.execute({ id, type: 'execute', payload: {}, source: 'plugin', onSchedule }).catch(() => {});
+    }
+    workerManager.execute({ id: 'd', type: 'execute', payload: {} }).catch(() => {});
+    
+    // @ts-expect-error - Access private property for testing
+    const runningWorkers = workerManager.workers.filter(w => w.taskId);
+    expect(runningWorkers.map(w => w.taskId).sort()).toEqual(['a', 'b', 'd']);
+    expect(onSchedule).toHaveBeenCalledWith({ effectivePriority: TaskPriority.NORMAL, waitingFor: 'quota' });
+    
+    // The waiting task runs once another task of its source ends
+    const worker = runningWorkers.find(w => w.taskId === 'a');
+    // @ts-expect-error - Access private method for testing
+    workerManager.handleWorkerMessage({ data: { type: 'result', id: 'a', result: 0 }, target: worker.worker } as MessageEvent);
+    // @ts-expect-error - Access private property for testing
+    expect(workerManager.workers.map(w => w.taskId).filter(Boolean).sort()).toEqual(['b', 'c', 'd']);
+  });
+  
   it('should report resource usage', () => {
     workerManager.initialize();
     
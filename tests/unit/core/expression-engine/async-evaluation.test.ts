@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpressionEngine, defineFunction } from '@/core/expression-engine';
+import { ExpressionValue } from '@/core/expression-engine/types';
+import { CancelToken } from '@/core/computation/types';
+
+describe('asynchronous evaluation', () => {
+  let engine: ExpressionEngine;
+  let started: string[];
+  let pending: Array<() => void>;
+
+  // An asynchronous function whose calls settle once released, recording when they start
+  const deferred = (name: string, parameters: string[], fn: (...args: ExpressionValue[]) => ExpressionValue) =>
+    defineFunction((...args) => {
+      started.push(`${name}(${args.join(', ')})`);
+      return new Promise(resolve => pending.push(() => resolve(fn(...args))));
+    }, parameters, { type: 'any', returns: 'any', async: true });
+
+  // Release pending calls until the evaluation settles
+  const settle = async <T>(promise: Promise<T>): Promise<T> => {
+    let done = false;
+    promise.finally(() => { done = true; });
+    while (!done) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      pending.splice(0).forEach(release => release());
+    }
+    return promise;
+  };
+
+  beforeEach(() => {
+    started = [];
+    pending = [];
+    engine = new ExpressionEngine({
+      context: {
+        functions: {
+          slowSquare: deferred('slowSquare', ['n'], n => Number(n) ** 2),
+          slowGcd: deferred('slowGcd', ['a', 'b'], (a, b) => {
+            let [x, y] = [Number(a), Number(b)];
+            while (y) [x, y] = [y, x % y];
+            return x;
+          }),
+          slowPrime: deferred('slowPrime', ['n'], n => Number(n) > 1 && [2, 3, 5, 7, 11, 13].includes(Number(n)))
+        }
+      }
+    });
+  });
+
+  it('should await intermediate values', async () => {
+    expect(await settle(engine.evaluateAsync('slowSquare(10) + 1'))).toEqual({ value: 101 });
+    expect(await settle(engine.evaluateAsync('slowPrime(slowGcd(26, 39))'))).toEqual({ value: true });
+    expect(await settle(engine.evaluateAsync('slowSquare([1, 2, 3]) * 2'))).toEqual({ value: [2, 8, 18] });
+    expect(await settle(engine.evaluateAsync('slowPrime(4) ? 1 : slowSquare(3)'))).toEqual({ value: 9 });
+  });
+
+  it('should evaluate independent sub-trees concurrently', async () => {
+    const result = engine.evaluateAsync('slowSquare(2) + slowSquare(3) * slowGcd(8, 12)');
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(started).toEqual(['slowSquare(2)', 'slowSquare(3)', 'slowGcd(8, 12)']);
+
+    expect(await settle(result)).toEqual({ value: 40 });
+  });
+
+  it('should await asynchronous calls in binders and user-defined functions', async () => {
+    engine.evaluate('f(n) = slowSquare(n) + n');
+
+    expect(await settle(engine.evaluateAsync('sum(k, 1, 4, slowSquare(k))'))).toEqual({ value: 30 });
+    expect(await settle(engine.evaluateAsync('count(p, 1..10, slowPrime(p))'))).toEqual({ value: 4 });
+    expect(await settle(engine.evaluateAsync('seq(k, 1, 3, f(k))'))).toEqual({ value: [2, 6, 12] });
+    expect(await settle(engine.evaluateAsync('f([1, 2])'))).toEqual({ value: [2, 6] });
+
+    started = [];
+    expect(await settle(engine.evaluateAsync('any(k, 1, 10, slowPrime(k))'))).toEqual({ value: true });
+    expect(started).toEqual(['slowPrime(1)', 'slowPrime(2)']);
+  });
+
+  it('should evaluate synchronous expressions as before, report errors and keep assignments', async () => {
+    expect(await engine.evaluateAsync('sqrt(16) + 2^10')).toEqual({ value: 1028 });
+    expect((await settle(engine.evaluateAsync('slowSquare(2) + y'))).error).toBe('Unknown variable: y');
+    expect((await settle(engine.evaluateAsync('sum(k, 1, slowSquare(1.5), k)'))).error).toBe('The bounds of sum must be integers');
+
+    expect(await settle(engine.evaluateAsync('y = slowSquare(5) - 1'))).toEqual({ value: 24 });
+    expect(engine.evaluate('y + 1').value).toBe(25);
+  });
+
+  it('should stop as soon as it is cancelled', async () => {
+    const cancelToken = new CancelToken();
+    const result = engine.evaluateAsync('slowSquare(slowSquare(2))', { cancelToken });
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    cancelToken.cancel('Stopped by the user');
+
+    // The pending call is abandoned without being released
+    expect(await result).toEqual({ value: null, error: 'Stopped by the user' });
+    expect(started).toEqual(['slowSquare(2)']);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpressionEngine } from '@/core/expression-engine';
+import { AutoCompletionProvider } from '@/core/expression-engine/auto-completion';
+
+describe('AutoCompletionProvider', () => {
+  let provider: AutoCompletionProvider;
+
+  // Suggestion texts for an expression with the cursor at its end
+  const suggest = (expression: string): string[] =>
+    provider.getSuggestions(expression, expression.length).map(suggestion => suggestion.text);
+
+  beforeEach(() => {
+    provider = new AutoCompletionProvider();
+  });
+
+  describe('getCompletionContext', () => {
+    it('should tell operands from operators', () => {
+      expect(provider.getCompletionContext('', 0).expects).toBe('anything');
+      expect(provider.getCompletionContext('2 + ', 4).expects).toBe('operand');
+      expect(provider.getCompletionContext('2 + si', 6)).toMatchObject({ prefix: 'si', expects: 'operand' });
+      expect(provider.getCompletionContext('(x + 1) ', 8).expects).toBe('operator');
+      expect(provider.getCompletionContext('5 km in ', 8).expects).toBe('unit');
+    });
+
+    it('should find the function call and argument around the cursor', () => {
+      expect(provider.getCompletionContext('gcd(12, ', 8).call).toEqual({ name: 'gcd', argumentIndex: 1 });
+      expect(provider.getCompletionContext('sum(k, 1, [1, 2], sqrt(', 23).call).toEqual({ name: 'sqrt', argumentIndex: 0 });
+      expect(provider.getCompletionContext('sum(k, 1, [1, 2], ', 18).call).toEqual({ name: 'sum', argumentIndex: 3 });
+      expect(provider.getCompletionContext('gcd(4, 6) + ', 12).call).toBeUndefined();
+    });
+  });
+
+  describe('getSuggestions', () => {
+    it('should suggest operands after an operator and operators after a value', () => {
+      const operands = provider.getSuggestions('2 + ', 4);
+      expect(operands.length).toBeGreaterThan(0);
+      expect(operands.every(suggestion => ['function', 'variable', 'constant'].includes(suggestion.type))).toBe(true);
+
+      const operators = provider.getSuggestions('(x + 1) ', 8);
+      expect(operators.every(suggestion => ['operator', 'unit'].includes(suggestion.type))).toBe(true);
+    });
+
+    it('should suggest operands inside an argument list and after a comma', () => {
+      expect(suggest('gcd(')).toContain('pi');
+      expect(suggest('gcd(12, ')).not.toContain('+');
+      expect(suggest('gcd(12, flo')).toEqual(['floor(']);
+    });
+
+    it('should only suggest units after a conversion keyword', () => {
+      const units = provider.getSuggestions('5 km in ', 8);
+
+      expect(units.every(suggestion => suggestion.type === 'unit')).toBe(true);
+      expect(units.map(suggestion => suggestion.text)).toContain('m');
+    });
+
+    it('should rank exact, then prefix, then fuzzy matches', () => {
+      expect(suggest('sqt')).toEqual(['sqrt(', 'sqrtmod(']);
+      expect(suggest('dfac')).toEqual(['doubleFactorial(']);
+      expect(suggest('ln').slice(0, 1)).toEqual(['ln(']);
+      expect(suggest('xyz')).toEqual([]);
+    });
+
+    it('should rank frequently used names first among equal matches', () => {
+      expect(suggest('si').indexOf('sinh(')).toBeGreaterThan(suggest('si').indexOf('sin('));
+
+      provider.recordUsage('sinh');
+      provider.recordUsage('sinh');
+
+      expect(suggest('si')[0]).toBe('sinh(');
+    });
+  });
+
+  describe('getSignatureHelp', () => {
+    it('should give the signature and the argument being typed', () => {
+      expect(provider.getSignatureHelp('primes(1, ', 10)).toEqual({
+        name: 'primes',
+        parameters: ['from', 'to'],
+        argumentIndex: 1,
+        description: 'List of the primes between two bounds'
+      });
+      expect(provider.getSignatureHelp('primes(1, 10) + ', 16)).toBeNull();
+      expect(provider.getSignatureHelp('unknown(', 8)).toBeNull();
+    });
+
+    it('should include user-defined functions', () => {
+      const engine = new ExpressionEngine();
+      engine.evaluate('hyp(a, b) = sqrt(a^2 + b^2)');
+
+      expect(engine.getSignatureHelp('hyp(3, ', 7)).toMatchObject({ parameters: ['a', 'b'], argumentIndex: 1 });
+    });
+  });
+
+  describe('plugin methods', () => {
+    it('should suggest the methods of enabled plugins with their declared parameters', () => {
+      provider.setPluginMethods([{
+        name: 'Number Theory',
+        methods: {
+          totient: { parameters: [{ name: 'n', type: 'number' }], returns: 'number' },
+          jacobi: {
+            parameters: [{ name: 'a', type: 'number' }, { name: 'n', type: 'number' }],
+            returns: 'number',
+            description: 'Jacobi symbol (a/n)'
+          }
+        }
+      }]);
+
+      expect(provider.getSuggestions('tot', 3)).toEqual([{
+        text: 'totient(',
+        displayText: 'totient(n)',
+        type: 'function',
+        description: 'From the Number Theory plugin',
+        parameters: ['n']
+      }]);
+      expect(provider.getSuggestions('jac', 3)[0].description).toBe('Jacobi symbol (a/n)');
+      expect(provider.getSignatureHelp('jacobi(2, ', 10)?.parameters).toEqual(['a', 'n']);
+
+      provider.setPluginMethods([]);
+      expect(provider.getSuggestions('tot', 3)).toEqual([]);
+    });
+  });
+
+  it('should rank names used in evaluated expressions higher', () => {
+    const engine = new ExpressionEngine();
+
+    engine.evaluate('cosh(0)');
+
+    expect(engine.getSuggestions('co', 2)[0].text).toBe('cosh(');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpressionEngine, isQuantity } from '@/core/expression-engine';
+
+describe('compiled expressions', () => {
+  let engine: ExpressionEngine;
+
+  beforeEach(() => {
+    engine = new ExpressionEngine();
+  });
+
+  it('should evaluate like the tree walker for every argument', () => {
+    const expressions = [
+      'x^3 - 2*x + sin(x) * exp(-x)',
+      'x > 0 && x < 2 ? sqrt(x) : -x',
+      'floor(x / 2) % 3 + abs(-x)',
+      '-x^2 + gcd(round(x), 4)'
+    ];
+
+    for (const expression of expressions) {
+      const compiled = engine.compile(expression, ['x']);
+
+      for (const x of [-2, -0.5, 0, 1, 2.5, 7]) {
+        engine.evaluate(`x = ${x}`);
+        expect(compiled.evaluate(x)).toEqual(engine.evaluate(expression).value);
+      }
+    }
+  });
+
+  it('should bind parameters to argument slots in order', () => {
+    const compiled = engine.compile('a * 10 + b', ['a', 'b']);
+
+    expect(compiled.parameters).toEqual(['a', 'b']);
+    expect(compiled.evaluate(1, 2)).toBe(12);
+    expect(compiled.evaluate(3, 4)).toBe(34);
+    expect(compiled.evaluate([1, 2], 5)).toEqual([15, 25]);
+    expect(() => compiled.evaluate(1)).toThrow('Expected 2 argument(s) but got 1');
+  });
+
+  it('should fold constant sub-expressions and read session variables when evaluated', () => {
+    engine.evaluate('a = 3');
+    const compiled = engine.compile('x * sum(k, 1, 4, k) + 2 * pi + a', ['x']);
+
+    expect(compiled.evaluate(1)).toBeCloseTo(13 + 2 * Math.PI);
+
+    engine.evaluate('a = 4');
+    expect(compiled.evaluate(1)).toBeCloseTo(14 + 2 * Math.PI);
+  });
+
+  it('should compile user-defined functions, including recursive ones', () => {
+    engine.evaluate('fact(n) = n <= 1 ? 1 : n * fact(n - 1)');
+    engine.evaluate('g(t) = t^2 + 1');
+    const compiled = engine.compile('fact(x) + g(x) + seq(k, 1, 2, g(k))', ['x']);
+
+    expect(compiled.evaluate(5)).toEqual([148, 151]);
+  });
+
+  it('should evaluate the other nodes with the parameters as local variables', () => {
+    expect(engine.compile('diff(x^3, x)', ['x']).evaluate(2)).toBe(12);
+    expect(engine.compile('2^x mod 7', ['x']).evaluate(100)).toBe(2);
+    expect(engine.compile('{x, 1, x}', ['x']).evaluate(3)).toEqual([1, 3]);
+    expect(isQuantity(engine.compile('x m in cm', ['x']).evaluate(2))).toBe(true);
+
+    engine.setPrecision('high');
+    expect(engine.compile('x / 3 + 1', ['x']).evaluate(2n)).toEqual(engine.evaluate('2 / 3 + 1').value);
+  });
+
+  it('should throw the errors of the evaluation', () => {
+    const compiled = engine.compile('1 / x + y', ['x']);
+
+    expect(() => compiled.evaluate(0)).toThrow('Division by zero');
+    expect(() => compiled.evaluate(1)).toThrow('Unknown variable: y');
+
+    engine.evaluate('y = 1');
+    expect(compiled.evaluate(1)).toBe(2);
+
+    expect(() => engine.compile('sin(1, 2)', [])).toThrow('Function sin expects 1 argument(s) but got 2');
+  });
+});
@@ -0,0 +1,501 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpressionEngine, defineFunction, formatExpressionValue } from '@/core/expression-engine';
+
+describe('ExpressionEngine', () => {
+  let engine: ExpressionEngine;
+
+  beforeEach(() => {
+    engine = new ExpressionEngine();
+  });
+
+  describe('session scope', () => {
+    it('should store assigned variables for later expressions', () => {
+      expect(engine.evaluate('x = 42').value).toBe(42);
+      expect(engine.evaluate('x * 2').value).toBe(84);
+      expect(engine.getScope().variables).toEqual({ x: 42 });
+    });
+
+    it('should call user-defined functions', () => {
+      engine.evaluate('f(n) = n^2 + 1');
+
+      expect(engine.evaluate('f(3)').value).toBe(10);
+      expect(engine.evaluate('f(f(1))').value).toBe(5);
+    });
+
+    it('should let parameters shadow session variables', () => {
+      engine.evaluate('n = 100');
+      engine.evaluate('f(n) = n + 1');
+
+      expect(engine.evaluate('f(1)').value).toBe(2);
+      expect(engine.evaluate('n').value).toBe(100);
+    });
+
+    it('should resolve free variables in function bodies at call time', () => {
+      engine.evaluate('k = 2');
+      engine.evaluate('scale(x) = k * x');
+      engine.evaluate('k = 3');
+
+      expect(engine.evaluate('scale(5)').value).toBe(15);
+    });
+
+    it('should report arity mismatches', () => {
+      engine.evaluate('f(a, b) = a + b');
+
+      expect(engine.evaluate('f(1)').error).toBe('Function f expects 2 argument(s) but got 1');
+    });
+
+    it('should stop runaway recursion', () => {
+      engine.evaluate('r(n) = r(n - 1)');
+
+      expect(engine.evaluate('r(1)').error).toBe('Maximum call depth exceeded in r');
+    });
+
+    it('should protect built-in constants and functions', () => {
+      expect(engine.evaluate('pi = 3').error).toBe('Cannot reassign constant: pi');
+      expect(engine.evaluate('sin(x) = x').error).toBe('Cannot redefine built-in function: sin');
+    });
+
+    it('should keep the scope when the context is updated', () => {
+      engine.evaluate('x = 5');
+      engine.updateContext({ variables: { y: 1 } });
+
+      expect(engine.evaluate('x + y').value).toBe(6);
+    });
+
+    it('should clear the scope', () => {
+      engine.evaluate('x = 5');
+      engine.clearScope();
+
+      expect(engine.evaluate('x').error).toBe('Unknown variable: x');
+    });
+  });
+
+  describe('auto-completion of user definitions', () => {
+    it('should suggest user-defined variables and functions', () => {
+      engine.evaluate('radius = 3');
+      engine.evaluate('area(r) = pi * r^2');
+
+      const variables = engine.getSuggestions('rad', 3);
+      expect(variables.map(s => s.text)).toContain('radius');
+
+      const functions = engine.getSuggestions('are', 3);
+      expect(functions).toContainEqual(expect.objectContaining({
+        text: 'area(',
+        displayText: 'area(r)',
+        type: 'function'
+      }));
+    });
+
+    it('should drop suggestions when the scope is cleared', () => {
+      engine.evaluate('radius = 3');
+      engine.clearScope();
+
+      expect(engine.getSuggestions('rad', 3)).toEqual([]);
+    });
+  });
+
+  describe('boolean predicates', () => {
+    it('should evaluate comparisons combined with logical operators', () => {
+      expect(engine.evaluate('isPrime(7) && 7 > 3').value).toBe(true);
+      expect(engine.evaluate('isPrime(8) || 2 >= 3').value).toBe(false);
+      expect(engine.evaluate('!(1 == 2)').value).toBe(true);
+    });
+
+    it('should short-circuit logical operators', () => {
+      expect(engine.evaluate('1 > 2 && undefinedName').value).toBe(false);
+      expect(engine.evaluate('1 < 2 || undefinedName').value).toBe(true);
+    });
+
+    it('should evaluate only the selected branch of a conditional', () => {
+      expect(engine.evaluate('2 > 1 ? 10 : undefinedName').value).toBe(10);
+      expect(engine.evaluate('2 < 1 ? undefinedName : 20').value).toBe(20);
+    });
+
+    it('should allow recursive definitions guarded by a conditional', () => {
+      engine.evaluate('fact(n) = n <= 1 ? 1 : n * fact(n - 1)');
+
+      expect(engine.evaluate('fact(5)').value).toBe(120);
+    });
+  });
+
+  describe('mathematical notation', () => {
+    it('should evaluate powers right to left', () => {
+      expect(engine.evaluate('2^3^2').value).toBe(512);
+      expect(engine.evaluate('-2^2').value).toBe(-4);
+      expect(engine.evaluate('2^-1').value).toBe(0.5);
+    });
+
+    it('should evaluate implicit multiplication', () => {
+      engine.evaluate('x = 4');
+
+      expect(engine.evaluate('2pi').value).toBeCloseTo(2 * Math.PI);
+      expect(engine.evaluate('3(x+1)').value).toBe(15);
+      expect(engine.evaluate('2x^2').value).toBe(32);
+    });
+
+    it('should evaluate factorials', () => {
+      expect(engine.evaluate('5!').value).toBe(120);
+      expect(engine.evaluate('7!!').value).toBe(105);
+      expect(engine.evaluate('3!!').value).toBe(3);
+      expect(engine.evaluate('3!! + 1').value).toBe(4);
+      expect(engine.evaluate('(-1)!!').value).toBe(1);
+      expect(engine.evaluate('2.5!').error).toBe('Factorial is only defined for non-negative integers');
+    });
+  });
+
+  describe('lists, ranges and sets', () => {
+    it('should evaluate list literals', () => {
+      expect(engine.evaluate('[1, 2 + 3, 2^3]').value).toEqual([1, 5, 8]);
+    });
+
+    it('should evaluate ranges', () => {
+      expect(engine.evaluate('1..5').value).toEqual([1, 2, 3, 4, 5]);
+      expect(engine.evaluate('1..10 step 3').value).toEqual([1, 4, 7, 10]);
+      expect(engine.evaluate('5..1').value).toEqual([5, 4, 3, 2, 1]);
+      expect(engine.evaluate('0..1 step 0.25').value).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    });
+
+    it('should report invalid ranges', () => {
+      expect(engine.evaluate('1..5 step 0').error).toBe('Range step cannot be zero');
+      expect(engine.evaluate('1..5 step -1').error).toBe('Range step -1 does not lead from 1 to 5');
+      expect(engine.evaluate('1..10000000').error).toContain('Range is too large');
+    });
+
+    it('should deduplicate and order set literals', () => {
+      expect(engine.evaluate('{5, 2, 3, 2}').value).toEqual([2, 3, 5]);
+    });
+
+    it('should apply functions element-wise', () => {
+      expect(engine.evaluate('isPrime(1..7)').value).toEqual([false, true, true, false, true, false, true]);
+      expect(engine.evaluate('gcd([4, 6, 9], 3)').value).toEqual([1, 3, 3]);
+    });
+
+    it('should apply operators element-wise', () => {
+      expect(engine.evaluate('(1..4)^2').value).toEqual([1, 4, 9, 16]);
+      expect(engine.evaluate('[1, 2] + [10, 20]').value).toEqual([11, 22]);
+      expect(engine.evaluate('-[1, 2]').value).toEqual([-1, -2]);
+      expect(engine.evaluate('[3, 4]!').value).toEqual([6, 24]);
+    });
+
+    it('should apply user-defined functions element-wise', () => {
+      engine.evaluate('sign(x) = x < 0 ? -1 : 1');
+
+      expect(engine.evaluate('sign([-2, 3])').value).toEqual([-1, 1]);
+    });
+
+    it('should pass lists whole to list functions', () => {
+      expect(engine.evaluate('length(1..50)').value).toBe(50);
+    });
+
+    it('should reject lists of different lengths', () => {
+      expect(engine.evaluate('[1, 2] + [1, 2, 3]').error).toBe('Cannot combine lists of different lengths: 2 and 3');
+    });
+  });
+
+  describe('numeric precision', () => {
+    it('should keep floating point arithmetic in standard precision', () => {
+      const engine = new ExpressionEngine();
+
+      expect(engine.evaluate('1/3').value).toBeCloseTo(1 / 3);
+      expect(engine.evaluate('0.1 + 0.2 == 0.3').value).toBe(false);
+    });
+
+    it('should compute exact integers and rationals in high precision', () => {
+      const engine = new ExpressionEngine({ precision: 'high' });
+
+      expect(engine.evaluate('30!').value).toBe(265252859812191058636308480000000n);
+      expect(engine.evaluate('2^64 + 1').value).toBe(18446744073709551617n);
+      expect(formatExpressionValue(engine.evaluate('1/3 + 1/6').value)).toBe('1/2');
+      expect(engine.evaluate('isPrime(2^61 - 1)').value).toBe(true);
+      expect(engine.evaluate('1/2 + 0.25').value).toBe(0.75);
+      expect(engine.evaluate('sqrt(16)').value).toBe(4n);
+      expect(engine.evaluate('gcd(2^40, 6^20)').value).toBe(2n ** 20n);
+    });
+
+    it('should treat decimal literals exactly in maximum precision', () => {
+      const engine = new ExpressionEngine({ precision: 'maximum' });
+
+      expect(engine.evaluate('0.1 + 0.2 == 0.3').value).toBe(true);
+      expect(formatExpressionValue(engine.evaluate('0..1 step 0.25').value)).toBe('[0, 1/4, 1/2, 3/4, 1]');
+    });
+
+    it('should compare equal numbers across representations', () => {
+      const engine = new ExpressionEngine({ precision: 'high' });
+
+      expect(engine.evaluate('2 == 2.0').value).toBe(true);
+      expect(engine.evaluate('{2, 2.0, 1}').value).toEqual([1n, 2n]);
+    });
+
+    it('should switch precision for later evaluations', () => {
+      const engine = new ExpressionEngine();
+      engine.setPrecision('high');
+
+      expect(engine.getPrecision()).toBe('high');
+      expect(engine.evaluate('2^70').value).toBe(2n ** 70n);
+    });
+  });
+
+  describe('base conversion', () => {
+    it('should evaluate integer literals in other bases', () => {
+      expect(engine.evaluate('0xff + 0b1 + 0o7 + 36#z').value).toBe(298);
+      expect(engine.evaluate('0b102').error).toBe("Invalid digit '2' in base 2 literal 0b102");
+    });
+
+    it('should write results in any base from 2 to 36', () => {
+      expect(engine.evaluate('255 to base 16').value).toBe('0xff');
+      expect(engine.evaluate('toBase(-10, 2)').value).toBe('-0b1010');
+      expect(engine.evaluate('toBase(1295, 36)').value).toBe('36#zz');
+      expect(engine.evaluate('[7, 8] in base 8').value).toEqual(['0o7', '0o10']);
+      expect(engine.evaluate('toBase(2.5, 2)').error).toBe('Only integers can be written in base 2');
+      expect(engine.evaluate('toBase(5, 40)').error).toBe('The base of toBase must be an integer from 2 to 36');
+    });
+
+    it('should convert large values exactly in high precision', () => {
+      const engine = new ExpressionEngine({ precision: 'high' });
+
+      expect(engine.evaluate('2^100 to base 16').value).toBe(`0x1${'0'.repeat(25)}`);
+      expect(engine.evaluate(String(engine.evaluate('3^50 to base 7').value)).value).toBe(3n ** 50n);
+    });
+
+    it('should keep the to keyword for unit conversions', () => {
+      expect(formatExpressionValue(engine.evaluate('2 h to min').value)).toBe('120 min');
+      expect(engine.parse('sin(255 to base 16)').errors[0].message).toBe('The first argument of sin must be a number, not a string');
+    });
+  });
+
+  describe('complex numbers', () => {
+    let engine: ExpressionEngine;
+
+    beforeEach(() => {
+      engine = new ExpressionEngine();
+    });
+
+    const evaluateText = (expression: string): string => formatExpressionValue(engine.evaluate(expression).value);
+
+    it('should provide the imaginary unit', () => {
+      expect(evaluateText('i^2')).toBe('-1');
+      expect(evaluateText('3 + 4i')).toBe('3 + 4i');
+      expect(evaluateText('(1 + 2i) * (3 - i)')).toBe('5 + 5i');
+      expect(evaluateText('(2 + i) / i')).toBe('1 - 2i');
+    });
+
+    it('should take square roots and logarithms of negative numbers', () => {
+      expect(evaluateText('sqrt(-1)')).toBe('i');
+      expect(evaluateText('sqrt(-4)')).toBe('2i');
+      expect(engine.evaluate('ln(-1)').value).toEqual({ type: 'complex', re: 0, im: Math.PI });
+    });
+
+    it('should evaluate complex-aware elementary functions', () => {
+      const rootOfUnity = engine.evaluate('exp(2pi i / 3)^3').value as { re: number; im: number };
+      expect(rootOfUnity.re).toBeCloseTo(1);
+      expect(rootOfUnity.im).toBeCloseTo(0);
+
+      const value = engine.evaluate('sin(i)').value as { re: number; im: number };
+      expect(value.re).toBe(0);
+      expect(value.im).toBeCloseTo(Math.sinh(1));
+    });
+
+    it('should provide re, im, arg and conj', () => {
+      expect(engine.evaluate('re(3 - 4i)').value).toBe(3);
+      expect(engine.evaluate('im(3 - 4i)').value).toBe(-4);
+      expect(engine.evaluate('abs(3 - 4i)').value).toBe(5);
+      expect(engine.evaluate('arg(i)').value).toBeCloseTo(Math.PI / 2);
+      expect(engine.evaluate('arg(-2)').value).toBeCloseTo(Math.PI);
+      expect(evaluateText('conj(3 - 4i)')).toBe('3 + 4i');
+      expect(evaluateText('(2 + 3i) * conj(2 + 3i)')).toBe('13');
+    });
+
+    it('should keep Gaussian integer powers exact', () => {
+      expect(evaluateText('(1 + i)^8')).toBe('16');
+      expect(evaluateText('round((1.2 + 2.7i) * 2)')).toBe('2 + 5i');
+    });
+
+    it('should take principal roots of negative bases', () => {
+      const root = engine.evaluate('(-8)^(1/3)').value as { re: number; im: number };
+      expect(root.re).toBeCloseTo(1);
+      expect(root.im).toBeCloseTo(Math.sqrt(3));
+    });
+
+    it('should reject ordering complex numbers', () => {
+      expect(engine.evaluate('i < 1').error).toBe('Complex numbers cannot be ordered');
+      expect(engine.evaluate('i == 1').value).toBe(false);
+    });
+
+    it('should not allow reassigning the imaginary unit', () => {
+      expect(engine.evaluate('i = 2').error).toBe('Cannot reassign constant: i');
+    });
+  });
+
+  describe('symbolic differentiation', () => {
+    let engine: ExpressionEngine;
+
+    beforeEach(() => {
+      engine = new ExpressionEngine();
+    });
+
+    it('should differentiate with diff', () => {
+      expect(engine.evaluate('diff(x^3*sin(x), x)').value).toBe('3 * x^2 * sin(x) + x^3 * cos(x)');
+      expect(engine.evaluate('diff(x^4, x, 3)').value).toBe('24 * x');
+    });
+
+    it('should simplify with simplify', () => {
+      expect(engine.evaluate('simplify(x + x + 1 - 1)').value).toBe('2 * x');
+    });
+
+    it('should evaluate derivatives at the argument inside user-defined functions', () => {
+      engine.evaluate('slope(x) = diff(x^3, x)');
+
+      expect(engine.evaluate('slope(2)').value).toBe(12);
+    });
+
+    it('should differentiate through user-defined functions', () => {
+      engine.evaluate('f(x) = x^2');
+
+      expect(engine.evaluate('diff(f(x) + x, x)').value).toBe('2 * x + 1');
+    });
+
+    it('should report invalid diff arguments', () => {
+      expect(engine.evaluate('diff(x^2, 2)').error).toBe('The second argument of diff must be a variable');
+      expect(engine.evaluate('diff(x^2, x, 0)').error).toBe('The order of diff must be an integer from 1 to 20');
+      expect(engine.evaluate('diff(x, y) = 1').error).toBe('Cannot redefine built-in function: diff');
+    });
+
+    it('should expose simplify and differentiate', () => {
+      expect(engine.simplify('x*2 + 3*x').expression).toBe('5 * x');
+      expect(engine.differentiate('sin(x)^2', 'x').expression).toBe('2 * sin(x) * cos(x)');
+      expect(engine.simplify('x +').error).toBeDefined();
+      expect(engine.differentiate('floor(x)', 'x').error).toBe('Cannot differentiate function: floor');
+    });
+  });
+
+  describe('binder functions', () => {
+    it('should sum and multiply over integer bounds', () => {
+      expect(engine.evaluate('sum(k, 1, 100, k^2)').value).toBe(338350);
+      expect(engine.evaluate('prod(k, 1, 5, k)').value).toBe(120);
+      expect(engine.evaluate('sum(k, 1, 0, k)').value).toBe(0);
+      expect(engine.evaluate('prod(k, 1, 0, k)').value).toBe(1);
+    });
+
+    it('should run over lists, sets and ranges', () => {
+      expect(engine.evaluate('primes(1, 20)').value).toEqual([2, 3, 5, 7, 11, 13, 17, 19]);
+      expect(engine.evaluate('prod(p, primes(1, 50), 1 - 1/p^2)').value).toBeCloseTo(6 / Math.PI ** 2, 2);
+      expect(engine.evaluate('seq(x, 1..4, x * 10)').value).toEqual([10, 20, 30, 40]);
+      expect(engine.evaluate('count(n, 1..100, isPrime(n))').value).toBe(25);
+      expect(engine.evaluate('sum(v, [[1, 2], [3, 4]], v)').value).toEqual([4, 6]);
+    });
+
+    it('should stop any and all at the first deciding value', () => {
+      expect(engine.evaluate('any(k, 1, 10, k > 5)').value).toBe(true);
+      expect(engine.evaluate('all(k, 1, 10, k > 5)').value).toBe(false);
+      expect(engine.evaluate('any(k, 1, 10^12, k^2 > 50)').value).toBe(true);
+      expect(engine.evaluate('all(k, 1, 10^12, k < 3)').value).toBe(false);
+    });
+
+    it('should shadow variables with the dummy variable only inside the body', () => {
+      engine.evaluate('k = 7');
+      engine.evaluate('harmonic(n) = sum(k, 1, n, 1/k)');
+
+      expect(engine.evaluate('sum(k, 1, k, k)').value).toBe(28);
+      expect(engine.evaluate('harmonic(4)').value).toBeCloseTo(25 / 12);
+      expect(engine.evaluate('sum(i, 1, 3, sum(j, 1, i, i * j))').value).toBe(25);
+      expect(engine.evaluate('k').value).toBe(7);
+    });
+
+    it('should stay exact in high precision', () => {
+      const engine = new ExpressionEngine({ precision: 'high' });
+
+      expect(formatExpressionValue(engine.evaluate('sum(k, 1, 10, 1/k)').value)).toBe('7381/2520');
+      expect(engine.evaluate('prod(k, 1, 30, k)').value).toBe(265252859812191058636308480000000n);
+      expect(engine.evaluate('primes(10, 20)').value).toEqual([11n, 13n, 17n, 19n]);
+    });
+
+    it('should report invalid binder arguments', () => {
+      expect(engine.evaluate('sum(k, 1)').error).toBe('Function sum expects 3 or 4 argument(s) but got 2');
+      expect(engine.evaluate('sum(2, 1, 10, k)').error).toBe('The first argument of sum must be a variable');
+      expect(engine.evaluate('prod(k, 1, 2.5, k)').error).toBe('The bounds of prod must be integers');
+      expect(engine.evaluate('seq(k, 1, 1e7, k)').error).toBe('The bounds of seq span too many values (10000000, maximum 1000000)');
+      expect(engine.evaluate('sum(k, 0, 10^12, k)').error).toBe('The bounds of sum span too many values (1000000000001, maximum 1000000)');
+      expect(engine.evaluate('seq(k, 5, k)').error).toBe('The second argument of seq must be a list, set or range');
+      expect(engine.evaluate('sum(a, b) = a + b').error).toBe('Cannot redefine built-in function: sum');
+    });
+  });
+
+  describe('LaTeX input', () => {
+    let engine: ExpressionEngine;
+
+    beforeEach(() => {
+      engine = new ExpressionEngine();
+    });
+
+    it('should evaluate input starting with a backslash command as LaTeX', () => {
+      expect(engine.evaluate('\\frac{10(10+1)}{2}').value).toBe(55);
+      expect(engine.evaluate('\\sqrt[3]{27} \\cdot 2').value).toBeCloseTo(6);
+    });
+
+    it('should share the session scope with plain input', () => {
+      engine.evaluate('r = 2');
+
+      expect(engine.evaluate('\\pi r^2').value).toBeCloseTo(4 * Math.PI);
+    });
+
+    it('should report errors with positions in the LaTeX source', () => {
+      const result = engine.parse('\\frac{1}{2');
+
+      expect(result.errors[0].position).toBe(10);
+      expect(engine.evaluate('\\frac{1}{2').error).toBe("Expected '}'");
+    });
+  });
+
+  describe('syntax errors', () => {
+    it('should report calls to functions that are not defined yet until they are defined', () => {
+      expect(engine.evaluate('area(2)').error).toBe('Unknown function: area');
+
+      engine.evaluate('area(r) = pi r^2');
+
+      expect(engine.evaluate('area(2)').value).toBeCloseTo(4 * Math.PI);
+      expect(engine.evaluate('area(2, 3)').error).toBe('Function area expects 1 argument(s) but got 2');
+
+      engine.clearScope();
+
+      expect(engine.evaluate('area(2)').error).toBe('Unknown function: area');
+    });
+
+    it('should check argument counts and types before evaluation', () => {
+      expect(engine.parse('gcd(4) + length(5)').errors.map(error => error.message)).toEqual([
+        'Function gcd expects 2 argument(s) but got 1',
+        'The first argument of length must be a list, not a number'
+      ]);
+      expect(engine.evaluate('sin(1, 2)').error).toBe('Function sin expects 1 argument(s) but got 2');
+      expect(engine.parse('\\sqrt{1 > 2}').errors[0].message).toBe('The first argument of sqrt must be a number, not a boolean');
+    });
+
+    it('should check calls to functions of the evaluation context against their signatures', () => {
+      const custom = new ExpressionEngine({
+        context: {
+          functions: {
+            clamp: defineFunction((x, low, high) => Math.min(Math.max(Number(x), Number(low)), Number(high)), ['x', 'low', 'high'])
+          }
+        }
+      });
+
+      expect(custom.evaluate('clamp(12, 0, 10)').value).toBe(10);
+      expect(custom.evaluate('clamp([-1, 5], 0, 10)').value).toEqual([0, 5]);
+      expect(custom.evaluate('clamp(1, 2)').error).toBe('Function clamp expects 3 argument(s) but got 2');
+    });
+
+    it('should underline each error at its own tokens', () => {
+      const tokens = engine.highlightSyntax('sinn(1) + (2 +');
+      const underlined = tokens.filter(token => token.style === 'expression-error');
+
+      expect(underlined.map(token => [token.value, token.error?.message])).toEqual([
+        ['sinn', 'Unknown function: sinn'],
+        ['2', "Expected ')'"],
+        ['+', 'Unexpected end of expression']
+      ]);
+      expect(underlined[2].start).toBe(13);
+      expect(engine.renderHighlightedHtml('2 + * 3')).toContain(
+        `<span class="expression-error" title="Missing operand before '*'">*</span>`
+      );
+    });
+  });
+});
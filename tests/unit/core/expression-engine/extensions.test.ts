@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpressionEngine, defineFunction, printExpression, toLatex } from '@/core/expression-engine';
+import { ExpressionExtension, ExpressionValue, TokenType } from '@/core/expression-engine/types';
+
+interface Modulus {
+  modulus: number;
+}
+
+interface Residue {
+  residue: number;
+  modulus: number;
+}
+
+const isModulus = (value: ExpressionValue): value is Modulus =>
+  typeof value === 'object' && value !== null && 'modulus' in value && !('residue' in value);
+
+const isResidue = (value: ExpressionValue): value is Residue =>
+  typeof value === 'object' && value !== null && 'residue' in value;
+
+const residue = (value: number, modulus: number): Residue => ({
+  residue: ((value % modulus) + modulus) % modulus,
+  modulus
+});
+
+// Combine residues, or a residue and a number, with an arithmetic operation
+const combine = (operation: (a: number, b: number) => number) => (left: ExpressionValue, right: ExpressionValue) => {
+  const modulus = isResidue(left) ? left.modulus : (right as Residue).modulus;
+  const valueOf = (value: ExpressionValue) => (isResidue(value) ? value.residue : Number(value));
+  return residue(operation(valueOf(left), valueOf(right)), modulus);
+};
+
+// A modular-arithmetic plugin: a (mod n) reduces a, and a ≡ b (mod n) compares residues
+const modular: ExpressionExtension = {
+  operators: [
+    { symbol: 'mod', fixity: 'prefix', precedence: 9.5, evaluate: n => ({ modulus: Number(n) }) },
+    {
+      symbol: '≡',
+      fixity: 'infix',
+      precedence: 4.5,
+      evaluate: (a, b) => {
+        const { modulus } = isResidue(b) ? b : (a as Residue);
+        return combine((x, y) => x - y)(a, b).residue === 0 && modulus > 0;
+      }
+    }
+  ],
+  literals: [
+    {
+      name: 'residue',
+      pattern: /⟨\d+\|\d+⟩/,
+      parse: text => {
+        const [value, modulus] = text.slice(1, -1).split('|').map(Number);
+        return residue(value, modulus);
+      }
+    }
+  ],
+  valueTypes: [
+    {
+      name: 'modulus',
+      is: isModulus,
+      format: value => `(mod ${(value as Modulus).modulus})`,
+      operators: {
+        '*': (left, right) => {
+          const [value, { modulus }] = isModulus(right) ? [left, right] : [right, left as Modulus];
+          return residue(Number(value), modulus);
+        }
+      }
+    },
+    {
+      name: 'residue',
+      is: isResidue,
+      format: value => `${(value as Residue).residue} (mod ${(value as Residue).modulus})`,
+      operators: {
+        '+': combine((a, b) => a + b),
+        '-': combine((a, b) => a - b),
+        '*': combine((a, b) => a * b)
+      }
+    }
+  ]
+};
+
+describe('expression extensions', () => {
+  let engine: ExpressionEngine;
+
+  const value = (expression: string) => {
+    const result = engine.evaluate(expression);
+    expect(result.error).toBeUndefined();
+    return result.value;
+  };
+
+  const print = (expression: string) => printExpression(engine.parse(expression).ast!);
+
+  beforeEach(() => {
+    engine = new ExpressionEngine();
+    engine.registerExtension('modular', modular);
+  });
+
+  it('should evaluate congruences written with operators of a plugin', () => {
+    expect(value('17 ≡ 5 (mod 6)')).toBe(true);
+    expect(value('17 ≡ 4 (mod 6)')).toBe(false);
+
+    value('a = 38');
+    value('b = 3');
+    value('n = 7');
+    expect(value('a ≡ b (mod n)')).toBe(true);
+    expect(value('a + 1 ≡ b + 1 (mod n) && 2 < 3')).toBe(true);
+
+    // The prefix mod of the plugin leaves the mod of the grammar working
+    expect(value('a mod n')).toBe(3);
+    expect(value('mod(n) { a * 2 }')).toBe(6);
+  });
+
+  it('should combine and format values of extension types', () => {
+    expect(value('3 (mod 7) * 5')).toEqual({ residue: 1, modulus: 7 });
+    expect(engine.formatValue(value('3 (mod 7) * 5 + 6'))).toBe('0 (mod 7)');
+    expect(engine.formatValue(value('[1, 2, 3] (mod 2)'))).toBe('[1 (mod 2), 0 (mod 2), 1 (mod 2)]');
+    expect(engine.formatValue(value('mod 5'))).toBe('(mod 5)');
+  });
+
+  it('should read literals in syntaxes added by a plugin', () => {
+    expect(engine.formatValue(value('⟨3|7⟩ + ⟨5|7⟩'))).toBe('1 (mod 7)');
+    expect(engine.highlightSyntax('⟨3|7⟩ * 2').map(token => token.type)).toContain(TokenType.Literal);
+    expect(print('⟨3|7⟩*2')).toBe('⟨3|7⟩ * 2');
+  });
+
+  it('should parse operators at their precedence and associativity', () => {
+    engine.registerExtension('towers', {
+      operators: [
+        { symbol: '↑', fixity: 'infix', precedence: 10.5, associativity: 'right', evaluate: (a, b) => Number(a) ** Number(b) },
+        { symbol: '⊕', fixity: 'infix', precedence: 7.5, evaluate: (a, b) => Number(a) * 10 + Number(b) },
+        { symbol: '°', fixity: 'postfix', precedence: 11.5, evaluate: degrees => (Number(degrees) * Math.PI) / 180 }
+      ]
+    });
+
+    expect(value('2 ↑ 3 ↑ 2')).toBe(512);
+    expect(value('-2 ↑ 2')).toBe(-4);
+    expect(value('1 ⊕ 2 ⊕ 3')).toBe(123);
+    expect(value('1 + 2 ⊕ 3 * 2')).toBe(27);
+    expect(value('2 * 90°')).toBeCloseTo(Math.PI);
+    expect(value('[1, 2] ↑ 2')).toEqual([1, 4]);
+
+    expect(print('(2 ↑ 3) ↑ 2')).toBe('(2 ↑ 3) ↑ 2');
+    expect(print('2 ↑ (3 ↑ 2)')).toBe('2 ↑ 3 ↑ 2');
+    expect(print('(1 + 2) ⊕ 3')).toBe('(1 + 2) ⊕ 3');
+    expect(print('mod (n + 1)')).toBe('mod (n + 1)');
+    expect(toLatex(engine.parse('17 ≡ 5 * mod 6').ast!)).toBe('17 ≡ 5 \\cdot \\operatorname{mod} 6');
+  });
+
+  it('should evaluate extension operators asynchronously and leave their types unchecked', async () => {
+    expect(await engine.evaluateAsync('17 ≡ 5 (mod 6)')).toEqual({ value: true });
+    expect(engine.parse('length(17 ≡ 5 (mod 6))').errors).toEqual([]);
+  });
+
+  it('should call and type-check the functions of plugins', () => {
+    engine.registerExtension('number-theory', {
+      functions: {
+        totient: defineFunction(n => {
+          let count = 0;
+          for (let k = 1; k <= Number(n); k++) {
+            let [a, b] = [k, Number(n)];
+            while (b) [a, b] = [b, a % b];
+            count += a === 1 ? 1 : 0;
+          }
+          return count;
+        }, ['n'])
+      }
+    });
+
+    expect(engine.parse('totient(10) + 1').errors).toEqual([]);
+    expect(value('totient([9, 10])')).toEqual([6, 4]);
+    expect(engine.parse('totient(10, 2)').errors[0].message).toBe('Function totient expects 1 argument(s) but got 2');
+    expect(engine.parse('totient(1 > 2)').errors[0].message)
+      .toBe('The first argument of totient must be a number, not a boolean');
+    expect(engine.evaluate('totient(n) = n').error).toBe('Cannot redefine built-in function: totient');
+
+    expect(() => engine.registerExtension('clash', { functions: { totient: defineFunction(n => n, ['n']) } }))
+      .toThrow('Function totient is already defined');
+    engine.unregisterExtension('number-theory');
+    expect(engine.parse('totient(10)').errors[0].message).toBe('Unknown function: totient');
+  });
+
+  it('should reject operators that clash with the grammar or other plugins', () => {
+    const operator = (symbol: string, precedence = 5.5) =>
+      ({ operators: [{ symbol, fixity: 'infix' as const, precedence, evaluate: () => 0 }] });
+
+    expect(() => engine.registerExtension('clash', operator('+'))).toThrow('Cannot redefine the built-in operator +');
+    expect(() => engine.registerExtension('clash', operator('in'))).toThrow('Cannot redefine the built-in operator in');
+    expect(() => engine.registerExtension('clash', operator('a b'))).toThrow("Invalid operator symbol: 'a b'");
+    expect(() => engine.registerExtension('clash', operator('⊗', 12))).toThrow('The precedence of ⊗ must be from 0 to below 12');
+    expect(() => engine.registerExtension('clash', operator('≡'))).toThrow('The infix operator ≡ is already defined');
+    expect(() => engine.registerExtension('clash', { literals: modular.literals })).toThrow('Literal residue is already defined');
+    expect(engine.getExtensionNames()).toEqual(['modular']);
+
+    // A plugin may replace its own definitions
+    engine.registerExtension('modular', { ...modular, operators: [operator('≡', 4.5).operators[0]] });
+    expect(value('1 ≡ 2')).toBe(0);
+  });
+
+  it('should remove the syntax of unregistered extensions', () => {
+    expect(engine.unregisterExtension('modular')).toBe(true);
+    expect(engine.unregisterExtension('modular')).toBe(false);
+
+    expect(engine.evaluate('17 ≡ 5').error).toBeDefined();
+    expect(engine.evaluate('⟨3|7⟩').error).toBeDefined();
+  });
+});
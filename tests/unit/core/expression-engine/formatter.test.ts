@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatExpressionValue,
+  formatNumber,
+  formatComplex,
+  toStoredValue,
+  formatStoredValue,
+  toNumericList
+} from '@/core/expression-engine/formatter';
+import { ValueFormatOptions } from '@/core/expression-engine/types';
+import { ExpressionEngine } from '@/core/expression-engine';
+import { createRational } from '@/core/expression-engine/numeric';
+import { createComplex } from '@/core/expression-engine/complex';
+
+describe('formatter', () => {
+  describe('formatExpressionValue', () => {
+    it('should format scalars', () => {
+      expect(formatExpressionValue(42)).toBe('42');
+      expect(formatExpressionValue(true)).toBe('true');
+    });
+
+    it('should format nested lists', () => {
+      expect(formatExpressionValue([1, [2, 3]])).toBe('[1, [2, 3]]');
+    });
+
+    it('should format exact integers and rationals', () => {
+      expect(formatExpressionValue(2n ** 70n)).toBe('1180591620717411303424');
+      expect(formatExpressionValue(createRational(-1n, 3n))).toBe('-1/3');
+    });
+  });
+
+  describe('toNumericList', () => {
+    it('should return numeric lists unchanged', () => {
+      expect(toNumericList([1, 2, 3])).toEqual([1, 2, 3]);
+    });
+
+    it('should chart booleans as 1 and 0', () => {
+      expect(toNumericList([true, false])).toEqual([1, 0]);
+    });
+
+    it('should chart exact values as floats', () => {
+      expect(toNumericList([1n, createRational(1n, 2n)])).toEqual([1, 0.5]);
+    });
+
+    it('should reject scalars, empty and mixed lists', () => {
+      expect(toNumericList(3)).toBeNull();
+      expect(toNumericList([])).toBeNull();
+      expect(toNumericList([1, 'a'])).toBeNull();
+    });
+  });
+
+  describe('formatNumber', () => {
+    const options = (overrides: Partial<ValueFormatOptions> = {}): ValueFormatOptions => ({
+      numberFormat: 'decimal',
+      decimalPlaces: 4,
+      useGrouping: true,
+      ...overrides
+    });
+
+    it('should format decimals with grouping and limited places', () => {
+      expect(formatNumber(1234567.891234, options())).toBe('1,234,567.8912');
+      expect(formatNumber(0.5, options({ useGrouping: false }))).toBe('0.5');
+      expect(formatNumber(2n ** 70n, options())).toBe('1,180,591,620,717,411,303,424');
+      expect(formatNumber(createRational(1n, 3n), options())).toBe('0.3333');
+    });
+
+    it('should switch to scientific notation for tiny decimals', () => {
+      expect(formatNumber(0.00001234, options())).toBe('1.234e-5');
+    });
+
+    it('should format scientific and engineering notation', () => {
+      expect(formatNumber(123456, options({ numberFormat: 'scientific' }))).toBe('1.2346e5');
+      expect(formatNumber(123456, options({ numberFormat: 'engineering' }))).toBe('123.456e3');
+      expect(formatNumber(-0.0042, options({ numberFormat: 'engineering' }))).toBe('-4.2e-3');
+      expect(formatNumber(10n ** 30n + 5n * 10n ** 25n, options({ numberFormat: 'scientific' }))).toBe('1.0001e30');
+    });
+
+    it('should display floats as fractions in fraction format', () => {
+      const fraction = options({ numberFormat: 'fraction' });
+
+      expect(formatNumber(1 / 3 + 1 / 6, fraction)).toBe('1/2');
+      expect(formatNumber(0.1 + 0.2, fraction)).toBe('3/10');
+      expect(formatNumber(-22 / 7, fraction)).toBe('-22/7');
+      expect(formatNumber(createRational(5n, 12n), fraction)).toBe('5/12');
+      expect(formatNumber(Math.PI, fraction)).toBe('3.1416');
+    });
+  });
+
+  describe('stored values', () => {
+    const fraction = { numberFormat: 'fraction', decimalPlaces: 10, useGrouping: true } as const;
+
+    it('should format stored numbers with the display settings in effect', () => {
+      const stored = toStoredValue([0.5, createRational(1n, 3n), 2n, 12345678901234567890n]);
+
+      // Stored values are plain data
+      expect(JSON.parse(JSON.stringify(stored))).toEqual(stored);
+      expect(formatStoredValue(stored, fraction)).toBe('[1/2, 1/3, 2, 12,345,678,901,234,567,890]');
+      expect(formatStoredValue(toStoredValue(1e21), { ...fraction, numberFormat: 'scientific' })).toBe('1e21');
+    });
+
+    it('should keep values other than numbers as they were shown', () => {
+      const engine = new ExpressionEngine();
+      const scientific = { ...fraction, numberFormat: 'scientific' } as const;
+      const shown = (expression: string, options: ValueFormatOptions) =>
+        formatStoredValue(engine.storeValue(engine.evaluate(expression).value), options);
+
+      expect(shown('toBase(1295, 36)', scientific)).toBe('36#zz');
+      expect(shown('diff(x^3, x)', scientific)).toBe('3 * x^2');
+      expect(formatStoredValue(toStoredValue('2024-01-01'), fraction)).toBe('2024-01-01');
+      expect(formatStoredValue(toStoredValue('x + 0.5'), fraction)).toBe('x + 0.5');
+
+      // Values of extension types keep the text their type formats them with
+      const residue = { residue: 2, modulus: 7 };
+      const residues = {
+        name: 'residue',
+        is: (value: unknown) => value === residue,
+        format: () => '2 (mod 7)'
+      };
+      expect(formatStoredValue(toStoredValue([residue as never, 0.5], [residues]), scientific))
+        .toBe('[2 (mod 7), 5e-1]');
+    });
+  });
+
+  describe('formatComplex', () => {
+    const options: ValueFormatOptions = { numberFormat: 'decimal', decimalPlaces: 4, useGrouping: true };
+
+    it('should format rectangular form', () => {
+      expect(formatComplex(createComplex(3, -4))).toBe('3 - 4i');
+      expect(formatComplex(createComplex(0, -1))).toBe('-i');
+      expect(formatComplex(createComplex(0.5, 1 / 3), options)).toBe('0.5 + 0.3333i');
+    });
+
+    it('should format polar form', () => {
+      expect(formatComplex(createComplex(0, 2), { ...options, complexFormat: 'polar' })).toBe('2∠1.5708');
+    });
+
+    it('should reformat complex numbers in stored results', () => {
+      const polar: ValueFormatOptions = { ...options, complexFormat: 'polar' };
+
+      const stored = toStoredValue([createComplex(3, 4), createComplex(0, -1), 2n]);
+
+      expect(formatStoredValue(stored, polar)).toBe('[5∠0.9273, 1∠-1.5708, 2]');
+      expect(formatStoredValue(toStoredValue(createComplex(0.5, -2.25)), { ...options, numberFormat: 'fraction' }))
+        .toBe('1/2 - 9/4i');
+    });
+  });
+});
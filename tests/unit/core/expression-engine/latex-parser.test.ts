@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { LatexParser, isLatexInput } from '@/core/expression-engine/latex-parser';
+import { Parser } from '@/core/expression-engine/parser';
+import { printExpression } from '@/core/expression-engine/printer';
+import { toLatex } from '@/core/expression-engine/serializer';
+import { ASTNode } from '@/core/expression-engine/types';
+
+// Parse LaTeX and print the resulting tree in expression syntax
+const read = (source: string): string => {
+  const result = new LatexParser().parse(source);
+  expect(result.errors).toEqual([]);
+  return printExpression(result.ast as ASTNode);
+};
+
+const errorsOf = (source: string) => new LatexParser().parse(source).errors;
+
+describe('LatexParser', () => {
+  describe('isLatexInput', () => {
+    it('should detect input starting with a backslash command', () => {
+      expect(isLatexInput('\\frac{1}{2}')).toBe(true);
+      expect(isLatexInput('  \\sqrt{2}')).toBe(true);
+      expect(isLatexInput('1 + \\pi')).toBe(false);
+      expect(isLatexInput('sqrt(2)')).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read fractions and roots', () => {
+      expect(read('\\frac{n(n+1)}{2}')).toBe('n * (n + 1) / 2');
+      expect(read('\\frac12 + \\dfrac{a}{b}')).toBe('1 / 2 + a / b');
+      expect(read('\\sqrt{x^2 + 1}')).toBe('sqrt(x^2 + 1)');
+      expect(read('\\sqrt[3]{x}')).toBe('x^(1 / 3)');
+      expect(read('\\binom{n}{k}')).toBe('n! / (k! * (n - k)!)');
+    });
+
+    it('should read powers with single-token and grouped exponents', () => {
+      expect(read('x^2y + 2^{10}')).toBe('x^2 * y + 2^10');
+      expect(read('e^{i\\pi} + 1')).toBe('e^(i * pi) + 1');
+      expect(read('\\left(\\frac{a}{b}\\right)^{-2}')).toBe('(a / b)^(-2)');
+    });
+
+    it('should multiply juxtaposed factors', () => {
+      expect(read('\\pi r^2')).toBe('pi * r^2');
+      expect(read('\\alpha\\beta \\cdot 2')).toBe('alpha * beta * 2');
+      expect(read('\\lfloor x \\rfloor \\lceil y \\rceil')).toBe('floor(x) * ceil(y)');
+    });
+
+    it('should apply named functions with and without parentheses', () => {
+      expect(read('\\sin x \\cos x')).toBe('sin(x) * cos(x)');
+      expect(read('\\sin 2x + 1')).toBe('sin(2 * x) + 1');
+      expect(read('\\sin^2 x + \\cos^{2}(x)')).toBe('sin(x)^2 + cos(x)^2');
+      expect(read('\\tan^{-1} x')).toBe('atan(x)');
+      expect(read('\\log_2 8 + \\log_{b} x')).toBe('log2(8) + ln(x) / ln(b)');
+      expect(read('\\operatorname{isPrime}(p) + \\left|x\\right|')).toBe('isPrime(p) + abs(x)');
+      expect(read('\\frac{d}{dx} x^3')).toBe('diff(x^3, x)');
+      expect(read('\\frac{d^{2}}{dx^{2}}\\left(\\sin x\\right)')).toBe('diff(sin(x), x, 2)');
+    });
+
+    it('should read subscripted identifiers, relations and definitions', () => {
+      expect(read('x_1 + \\theta_{\\mathrm{max}}')).toBe('x1 + theta_max');
+      expect(read('a \\leq b \\land b \\neq c')).toBe('a <= b && b != c');
+      expect(read('x = \\frac{1}{2}')).toBe('x = 1 / 2');
+      expect(read('f(x, y) = x^{y}')).toBe('f(x, y) = x^y');
+      expect(read('\\left\\{1, 2\\right\\} = \\{1, 2\\}')).toBe('{1, 2} == {1, 2}');
+    });
+
+    it('should read back the LaTeX serializer output', () => {
+      const parser = new Parser();
+
+      for (const expression of ['(a + b) / (c - d)', 'sqrt(2) * x^(n + 1)', '-x^2 + 3 * sin(x)', 'abs(x - 1) <= 2']) {
+        const ast = parser.parse(expression).ast as ASTNode;
+        expect(read(toLatex(ast))).toBe(printExpression(ast));
+      }
+    });
+
+    it('should report errors at their position in the LaTeX source', () => {
+      expect(errorsOf('\\frac{1}{2')).toEqual([{ message: "Expected '}'", position: 10, end: 10 }]);
+      expect(errorsOf('\\sqrt{x} + \\foo{y}')[0]).toEqual({ message: 'Unsupported LaTeX command: \\foo', position: 11, end: 15 });
+      expect(errorsOf('x^{2}^{3}')[0].position).toBe(5);
+      expect(errorsOf('x^23')[0].position).toBe(3);
+      expect(errorsOf('\\sin x \\cdot')[0]).toEqual({ message: 'Unexpected end of expression', position: 12, end: 12 });
+    });
+  });
+});
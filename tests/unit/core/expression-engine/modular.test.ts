@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpressionEngine, printExpression, toLatex } from '@/core/expression-engine';
+import { chineseRemainder, modInverse, modSqrt } from '@/core/expression-engine/modular';
+import { TokenType } from '@/core/expression-engine/types';
+
+describe('modular arithmetic', () => {
+  let engine: ExpressionEngine;
+
+  const value = (expression: string) => {
+    const result = engine.evaluate(expression);
+    expect(result.error).toBeUndefined();
+    return result.value;
+  };
+
+  const error = (expression: string) => engine.evaluate(expression).error;
+
+  const print = (expression: string) => printExpression(engine.parse(expression).ast!);
+
+  beforeEach(() => {
+    engine = new ExpressionEngine();
+  });
+
+  it('should reduce every operation of a mod expression', () => {
+    expect(value('2^100 mod 7')).toBe(2);
+    expect(value('3 + 4 mod 5')).toBe(2);
+    expect(value('2^-1 mod 7')).toBe(4);
+    expect(value('2^(3 + 4) mod 5')).toBe(3);
+    expect(value('-3 mod 5')).toBe(2);
+    expect(value('[1, 2, 3]^2 mod 5')).toEqual([1, 4, 4]);
+    expect(value('sum(k, 1, 100, k^3) mod 11')).toBe(1);
+
+    value('n = 6');
+    expect(value('17 mod n + 1')).toBe(3);
+  });
+
+  it('should evaluate the body of a mod block in Z/nZ', () => {
+    expect(value('mod(7) { 2^100 + 3 / 2 }')).toBe(0);
+    expect(value('mod(7) { 10 == 3 }')).toBe(true);
+    expect(value('mod(7) { 10 != 3 }')).toBe(false);
+    expect(value('mod(13) { sum(k, 1, 12, 1 / k) }')).toBe(0);
+    expect(engine.runScript('mod(13) {\n  let a = 5\n  a^-1 * 2\n}').value).toBe(3);
+  });
+
+  it('should keep integer results as BigInts in high precision', () => {
+    engine.setPrecision('high');
+
+    expect(value('2^1000 mod 1000000007')).toBe(688423210n);
+    expect(value('modpow(2, 10^30, 10^9 + 7)')).toBe(value('2^(10^30) mod (10^9 + 7)'));
+  });
+
+  it('should provide modpow, modinv, sqrtmod and crt', () => {
+    expect(value('modpow(3, 200, 1000000007)')).toBe(136318165);
+    expect(value('modinv(3, 7)')).toBe(5);
+    expect(value('sqrtmod(10, 13)')).toBe(6);
+    expect(value('sqrtmod(0, 13)')).toBe(0);
+    expect(value('crt([2, 3, 2], [3, 5, 7])')).toBe(23);
+    expect(value('crt([1, 3], [4, 6])')).toBe(9);
+
+    expect(modInverse(17n, 3120n)).toBe(2753n);
+    expect(modSqrt(2n, 7n)).toBe(3n);
+    expect(chineseRemainder([3n, 5n], [6n, 10n])).toEqual([15n, 30n]);
+  });
+
+  it('should report non-invertible elements and invalid arguments', () => {
+    expect(error('modinv(4, 10)')).toBe('4 is not invertible modulo 10: gcd(4, 10) = 2');
+    expect(error('mod(10) { 3 / 4 }')).toBe('4 is not invertible modulo 10: gcd(4, 10) = 2');
+    expect(error('2^-1 mod 8')).toBe('2 is not invertible modulo 8: gcd(2, 8) = 2');
+    expect(error('sqrtmod(5, 13)')).toBe('5 is not a square modulo 13');
+    expect(error('sqrtmod(4, 15)')).toBe('sqrtmod needs a prime modulus, not 15');
+    expect(error('crt([1, 2], [4, 6])')).toBe('x ≡ 2 (mod 6) contradicts the congruences before it');
+    expect(error('crt([1, 2], [3])')).toBe('crt expects non-empty lists of residues and moduli of the same length');
+    expect(error('1.5 mod 7')).toBe('Modular arithmetic needs integers but got 1.5');
+    expect(error('5 mod 0')).toBe('The modulus must be a positive integer, not 0');
+  });
+
+  it('should read mod as a word operator, which plugins cannot redefine', () => {
+    const operators = (expression: string) => engine.highlightSyntax(expression)
+      .filter(token => token.type === TokenType.Operator)
+      .map(token => token.value);
+
+    expect(operators('a mod (n + 1)')).toEqual(['mod', '+']);
+    expect(operators('mod(7) { 3 }')).toEqual(['mod']);
+    expect(value('10 mod (2 + 1)')).toBe(1);
+    expect(() => engine.registerExtension('clash', {
+      operators: [{ symbol: 'mod', fixity: 'infix', precedence: 5.5, evaluate: () => 0 }]
+    })).toThrow('Cannot redefine the built-in operator mod');
+  });
+
+  it('should report mod blocks without a body', () => {
+    expect(engine.parse('mod(7)').errors[0].message).toBe("Expected '{' to open the body of 'mod'");
+    expect(engine.parse('mod(7) { }').errors[0].message).toBe("Expected a single expression in the body of 'mod'");
+  });
+
+  it('should print and serialize mod expressions', () => {
+    expect(print('(2^100)mod 7')).toBe('2^100 mod 7');
+    expect(print('mod(7) { 3 / 2 }')).toBe('3 / 2 mod 7');
+    expect(print('(a ? b : c) mod n')).toBe('a ? b : c mod n');
+    expect(print('a ? b : (c mod n)')).toBe('a ? b : (c mod n)');
+    expect(toLatex(engine.parse('2^100 mod 7').ast!)).toBe('2^{100} \\bmod 7');
+  });
+
+  it('should evaluate mod expressions asynchronously', async () => {
+    expect(await engine.evaluateAsync('2^100 mod 7')).toEqual({ value: 2 });
+    expect(await engine.evaluateAsync('mod(7) { seq(k, 1, 3, 1 / k) }')).toEqual({ value: [1, 4, 5] });
+  });
+});
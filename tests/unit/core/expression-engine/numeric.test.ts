@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRational,
+  parseNumberLiteral,
+  add,
+  divide,
+  modulo,
+  power,
+  compare,
+  floor,
+  round,
+  sqrt,
+  toFloat,
+  integerSqrt,
+  isProbablePrime,
+  approximateFraction,
+  validateBaseLiteral,
+  formatBaseLiteral
+} from '@/core/expression-engine/numeric';
+
+describe('numeric tower', () => {
+  describe('parseNumberLiteral', () => {
+    it('should parse every literal as a float in standard precision', () => {
+      expect(parseNumberLiteral('42', 'standard')).toBe(42);
+      expect(parseNumberLiteral('0.5', 'standard')).toBe(0.5);
+    });
+
+    it('should parse integer literals exactly in high precision', () => {
+      expect(parseNumberLiteral('42', 'high')).toBe(42n);
+      expect(parseNumberLiteral('1e20', 'high')).toBe(100000000000000000000n);
+      expect(parseNumberLiteral('2.50e1', 'high')).toBe(25n);
+      expect(parseNumberLiteral('0.1', 'high')).toBe(0.1);
+    });
+
+    it('should parse decimal literals as rationals in maximum precision', () => {
+      expect(parseNumberLiteral('0.1', 'maximum')).toEqual(createRational(1n, 10n));
+      expect(parseNumberLiteral('1.5e-3', 'maximum')).toEqual(createRational(3n, 2000n));
+    });
+
+    it('should parse integer literals in other bases', () => {
+      expect(parseNumberLiteral('0xff', 'standard')).toBe(255);
+      expect(parseNumberLiteral('0b1010', 'standard')).toBe(10);
+      expect(parseNumberLiteral('0o17', 'standard')).toBe(15);
+      expect(parseNumberLiteral('36#zz', 'standard')).toBe(1295);
+      expect(parseNumberLiteral('0xFFFFFFFFFFFFFFFFFF', 'high')).toBe(2n ** 72n - 1n);
+      expect(() => parseNumberLiteral('0b102', 'standard')).toThrow("Invalid digit '2' in base 2 literal 0b102");
+    });
+  });
+
+  describe('base literals', () => {
+    it('should validate the base and digits', () => {
+      expect(validateBaseLiteral('0x1e5')).toBeNull();
+      expect(validateBaseLiteral('1e5')).toBeNull();
+      expect(validateBaseLiteral('16#fg')).toBe("Invalid digit 'g' in base 16 literal 16#fg");
+      expect(validateBaseLiteral('37#z')).toBe('The base of 37#z must be from 2 to 36');
+    });
+
+    it('should write integers with the prefix of their base', () => {
+      expect(formatBaseLiteral(255n, 16)).toBe('0xff');
+      expect(formatBaseLiteral(-5n, 2)).toBe('-0b101');
+      expect(formatBaseLiteral(1295n, 36)).toBe('36#zz');
+      expect(formatBaseLiteral(42n, 10)).toBe('42');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should keep exact values reduced', () => {
+      expect(createRational(6n, -4n)).toEqual({ type: 'rational', numerator: -3n, denominator: 2n });
+      expect(createRational(8n, 4n)).toBe(2n);
+      expect(add(createRational(1n, 2n), createRational(1n, 2n))).toBe(1n);
+    });
+
+    it('should promote to the higher level of the two operands', () => {
+      expect(add(1n, createRational(1n, 3n))).toEqual(createRational(4n, 3n));
+      expect(add(1n, 0.5)).toBe(1.5);
+    });
+
+    it('should divide integers exactly', () => {
+      expect(divide(1n, 3n)).toEqual(createRational(1n, 3n));
+      expect(() => divide(1n, 0n)).toThrow('Division by zero');
+    });
+
+    it('should take the sign of the dividend for remainders', () => {
+      expect(modulo(-7n, 3n)).toBe(-1n);
+      expect(modulo(createRational(7n, 2n), 1n)).toEqual(createRational(1n, 2n));
+    });
+
+    it('should raise exact values to integer powers exactly', () => {
+      expect(power(2n, 100n)).toBe(2n ** 100n);
+      expect(power(2n, -2n)).toEqual(createRational(1n, 4n));
+      expect(power(4n, 0.5)).toBe(2);
+      expect(() => power(10n, 10000000n)).toThrow('would exceed');
+    });
+
+    it('should compare across levels', () => {
+      expect(compare(createRational(1n, 3n), 0.3)).toBe(1);
+      expect(compare(1n, 1)).toBe(0);
+      expect(compare(NaN, 1)).toBeNaN();
+    });
+  });
+
+  describe('functions', () => {
+    it('should round rationals exactly', () => {
+      expect(floor(createRational(-7n, 2n))).toBe(-4n);
+      expect(round(createRational(5n, 2n))).toBe(3n);
+    });
+
+    it('should take exact square roots of perfect squares', () => {
+      expect(sqrt(createRational(9n, 4n))).toEqual(createRational(3n, 2n));
+      expect(sqrt(2n)).toBeCloseTo(Math.SQRT2);
+      expect(integerSqrt(10n ** 40n + 1n)).toBe(10n ** 20n);
+    });
+
+    it('should convert huge rationals to floats', () => {
+      expect(toFloat(createRational(10n ** 400n + 1n, 3n * 10n ** 400n))).toBeCloseTo(1 / 3);
+    });
+
+    it('should test large primes', () => {
+      expect(isProbablePrime(2n ** 61n - 1n)).toBe(true);
+      expect(isProbablePrime(2n ** 61n + 1n)).toBe(false);
+      expect(isProbablePrime(3215031751n)).toBe(false);
+    });
+  });
+
+  describe('approximateFraction', () => {
+    it('should recover simple fractions from floats', () => {
+      expect(approximateFraction(0.75)).toEqual(createRational(3n, 4n));
+      expect(approximateFraction(1 / 7)).toEqual(createRational(1n, 7n));
+      expect(approximateFraction(-2.5)).toEqual(createRational(-5n, 2n));
+      expect(approximateFraction(42)).toBe(42n);
+    });
+
+    it('should respect the denominator limit', () => {
+      expect(approximateFraction(Math.PI, 1000)).toEqual(createRational(355n, 113n));
+    });
+  });
+});
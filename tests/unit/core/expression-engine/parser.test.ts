@@ -0,0 +1,367 @@
+import { describe, it, expect } from 'vitest';
+import { Parser, applyQuickFix } from '@/core/expression-engine/parser';
+import {
+  NodeType,
+  AssignmentNode,
+  FunctionDefinitionNode,
+  FunctionCallNode,
+  BinaryOperationNode,
+  ConditionalNode,
+  UnaryOperationNode,
+  PostfixOperationNode,
+  ListNode,
+  SetNode,
+  RangeNode,
+  ErrorNode
+} from '@/core/expression-engine/types';
+
+describe('Parser', () => {
+  const parser = new Parser();
+
+  describe('assignments and function definitions', () => {
+    it('should parse a variable assignment', () => {
+      const result = parser.parse('x = 42');
+
+      expect(result.errors).toEqual([]);
+      const ast = result.ast as AssignmentNode;
+      expect(ast.type).toBe(NodeType.Assignment);
+      expect(ast.name).toBe('x');
+      expect(ast.value).toEqual({ type: NodeType.Number, value: '42' });
+    });
+
+    it('should parse a function definition', () => {
+      const result = parser.parse('f(n) = n^2 + 1');
+
+      expect(result.errors).toEqual([]);
+      const ast = result.ast as FunctionDefinitionNode;
+      expect(ast.type).toBe(NodeType.FunctionDefinition);
+      expect(ast.name).toBe('f');
+      expect(ast.parameters).toEqual(['n']);
+      expect(ast.body.type).toBe(NodeType.BinaryOperation);
+    });
+
+    it('should parse a definition with several parameters', () => {
+      const ast = parser.parse('g(a, b) = a * b').ast as FunctionDefinitionNode;
+
+      expect(ast.parameters).toEqual(['a', 'b']);
+    });
+
+    it('should keep treating calls without "=" as function calls', () => {
+      const ast = parser.parse('f(2)').ast as FunctionCallNode;
+
+      expect(ast.type).toBe(NodeType.FunctionCall);
+      expect(ast.arguments).toHaveLength(1);
+    });
+
+    it('should report duplicate parameters', () => {
+      const result = parser.parse('h(x, x) = x');
+
+      expect(result.ast?.type).toBe(NodeType.FunctionDefinition);
+      expect(result.errors[0].message).toContain("Duplicate parameter 'x'");
+    });
+
+    it('should reject assignment to a non-variable target', () => {
+      const result = parser.parse('2 = x');
+
+      expect(result.errors[0].message).toBe('Unexpected token: =');
+    });
+  });
+
+  describe('comparison and logical operators', () => {
+    it('should bind comparisons tighter than logical AND', () => {
+      const result = parser.parse('isPrime(7) && 7 > 3');
+
+      expect(result.errors).toEqual([]);
+      const ast = result.ast as BinaryOperationNode;
+      expect(ast.operator).toBe('&&');
+      expect(ast.left.type).toBe(NodeType.FunctionCall);
+      expect((ast.right as BinaryOperationNode).operator).toBe('>');
+    });
+
+    it('should bind AND tighter than OR', () => {
+      const ast = parser.parse('a || b && c').ast as BinaryOperationNode;
+
+      expect(ast.operator).toBe('||');
+      expect((ast.right as BinaryOperationNode).operator).toBe('&&');
+    });
+
+    it('should bind arithmetic tighter than comparison and comparison tighter than equality', () => {
+      const ast = parser.parse('x + 1 < 5 == y >= 2').ast as BinaryOperationNode;
+
+      expect(ast.operator).toBe('==');
+      const left = ast.left as BinaryOperationNode;
+      expect(left.operator).toBe('<');
+      expect((left.left as BinaryOperationNode).operator).toBe('+');
+      expect((ast.right as BinaryOperationNode).operator).toBe('>=');
+    });
+
+    it('should parse prefix logical NOT', () => {
+      const ast = parser.parse('!x').ast as UnaryOperationNode;
+
+      expect(ast.type).toBe(NodeType.UnaryOperation);
+      expect(ast.operator).toBe('!');
+    });
+
+    it('should parse a right-associative conditional', () => {
+      const ast = parser.parse('x < 0 ? -1 : x > 0 ? 1 : 0').ast as ConditionalNode;
+
+      expect(ast.type).toBe(NodeType.Conditional);
+      expect((ast.condition as BinaryOperationNode).operator).toBe('<');
+      expect(ast.alternate.type).toBe(NodeType.Conditional);
+    });
+
+    it('should report a conditional without an alternate', () => {
+      const result = parser.parse('x ? 1');
+
+      expect((result.ast as ConditionalNode).alternate.type).toBe(NodeType.Error);
+      expect(result.errors[0]).toEqual({ message: "Expected ':' in conditional expression", position: 5, end: 5 });
+    });
+  });
+
+  describe('mathematical notation', () => {
+    it('should parse exponentiation as right-associative', () => {
+      const ast = parser.parse('2^3^2').ast as BinaryOperationNode;
+
+      expect(ast.operator).toBe('^');
+      expect(ast.left).toEqual({ type: NodeType.Number, value: '2' });
+      expect((ast.right as BinaryOperationNode).operator).toBe('^');
+    });
+
+    it('should read integer literals in other bases and base conversions', () => {
+      expect(parser.parse('0xff + 0b101 * 36#zz').errors).toEqual([]);
+      expect(parser.parse('0x1e5').ast).toEqual({ type: NodeType.Number, value: '0x1e5' });
+
+      const conversion = parser.parse('a + 1 to base 16');
+      const call = conversion.ast as FunctionCallNode;
+
+      expect(call.name).toBe('toBase');
+      expect((call.arguments[0] as BinaryOperationNode).operator).toBe('+');
+      expect(call.arguments[1]).toEqual({ type: NodeType.Number, value: '16' });
+      expect(conversion.ranges?.get(call)).toEqual({ start: 0, end: 16 });
+      expect(parser.parse('5 km to m').ast?.type).toBe(NodeType.Conversion);
+    });
+
+    it('should report digits outside the base of a literal', () => {
+      const result = parser.parse('0b102 + 1');
+
+      expect(result.errors).toEqual([{ message: "Invalid digit '2' in base 2 literal 0b102", position: 0, end: 5 }]);
+      expect((result.ast as BinaryOperationNode).left.type).toBe(NodeType.Error);
+    });
+
+    it('should bind exponentiation tighter than unary minus', () => {
+      const ast = parser.parse('-2^2').ast as UnaryOperationNode;
+
+      expect(ast.operator).toBe('-');
+      expect((ast.argument as BinaryOperationNode).operator).toBe('^');
+    });
+
+    it('should allow a signed exponent', () => {
+      const ast = parser.parse('2^-1').ast as BinaryOperationNode;
+
+      expect(ast.right.type).toBe(NodeType.UnaryOperation);
+    });
+
+    it.each(['2pi', '3(x+1)', '(a)(b)', '2sin(x)', 'x y'])('should parse %s as implicit multiplication', input => {
+      const result = parser.parse(input);
+
+      expect(result.errors).toEqual([]);
+      expect((result.ast as BinaryOperationNode).operator).toBe('*');
+    });
+
+    it('should give implicit multiplication the precedence of explicit multiplication', () => {
+      const ast = parser.parse('2x^2 + 1').ast as BinaryOperationNode;
+
+      expect(ast.operator).toBe('+');
+      const product = ast.left as BinaryOperationNode;
+      expect(product.operator).toBe('*');
+      expect((product.right as BinaryOperationNode).operator).toBe('^');
+    });
+
+    it('should report juxtaposed numbers as ambiguous at the second number', () => {
+      const result = parser.parse('x + 2 3');
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].position).toBe(6);
+      expect(result.errors[0].message).toContain('Ambiguous implicit multiplication');
+      expect(result.errors[0].fixes).toEqual([{ title: "Insert '*'", start: 6, end: 6, replacement: '*' }]);
+    });
+
+    it('should parse postfix factorial and double factorial', () => {
+      const factorial = parser.parse('n!').ast as PostfixOperationNode;
+      expect(factorial.type).toBe(NodeType.PostfixOperation);
+      expect(factorial.operator).toBe('!');
+
+      const doubleFactorial = parser.parse('7!!').ast as PostfixOperationNode;
+      expect(doubleFactorial.operator).toBe('!!');
+    });
+
+    it('should bind factorial tighter than exponentiation', () => {
+      const ast = parser.parse('2^3!').ast as BinaryOperationNode;
+
+      expect(ast.operator).toBe('^');
+      expect(ast.right.type).toBe(NodeType.PostfixOperation);
+    });
+
+    it('should still read "!=" as inequality', () => {
+      const ast = parser.parse('n!=3').ast as BinaryOperationNode;
+
+      expect(ast.operator).toBe('!=');
+    });
+
+    it('should report a missing operand at the end of the input', () => {
+      const result = parser.parse('2^');
+
+      expect(result.errors).toEqual([{
+        message: 'Unexpected end of expression',
+        position: 2,
+        end: 2,
+        fixes: [{ title: "Remove '^'", start: 1, end: 2, replacement: '' }]
+      }]);
+    });
+  });
+
+  describe('lists, ranges and sets', () => {
+    it('should parse a list literal', () => {
+      const ast = parser.parse('[1, 2, 3]').ast as ListNode;
+
+      expect(ast.type).toBe(NodeType.List);
+      expect(ast.elements).toHaveLength(3);
+    });
+
+    it('should parse empty literals', () => {
+      expect((parser.parse('[]').ast as ListNode).elements).toEqual([]);
+      expect((parser.parse('{}').ast as SetNode).elements).toEqual([]);
+    });
+
+    it('should parse a set literal', () => {
+      const ast = parser.parse('{2, 3, 5}').ast as SetNode;
+
+      expect(ast.type).toBe(NodeType.Set);
+      expect(ast.elements).toHaveLength(3);
+    });
+
+    it('should parse a range with and without a step', () => {
+      const range = parser.parse('1..100').ast as RangeNode;
+      expect(range.type).toBe(NodeType.Range);
+      expect(range.start).toEqual({ type: NodeType.Number, value: '1' });
+      expect(range.end).toEqual({ type: NodeType.Number, value: '100' });
+      expect(range.step).toBeUndefined();
+
+      const stepped = parser.parse('1..100 step 3').ast as RangeNode;
+      expect(stepped.step).toEqual({ type: NodeType.Number, value: '3' });
+    });
+
+    it('should bind arithmetic tighter than ranges', () => {
+      const ast = parser.parse('n..2n + 1').ast as RangeNode;
+
+      expect((ast.end as BinaryOperationNode).operator).toBe('+');
+    });
+
+    it('should parse a range as a function argument', () => {
+      const ast = parser.parse('isPrime(1..50)').ast as FunctionCallNode;
+
+      expect(ast.arguments[0].type).toBe(NodeType.Range);
+    });
+
+    it('should report an unterminated list', () => {
+      const result = parser.parse('[1, 2');
+
+      expect(result.errors).toEqual([{
+        message: "Expected ',' or ']' to close '['",
+        position: 5,
+        end: 5,
+        fixes: [{ title: "Insert ']'", start: 5, end: 5, replacement: ']' }]
+      }]);
+    });
+
+    it('should reject keywords as variables', () => {
+      expect(parser.parse('step + 1').errors[0].message).toBe('Unexpected keyword: step');
+      expect(parser.parse('step = 1').errors[0].message).toBe("Cannot assign to keyword 'step'");
+    });
+  });
+
+  describe('error recovery', () => {
+    it('should report every error and keep a partial tree', () => {
+      const result = parser.parse('(1 + ) * [2, 3');
+      const ast = result.ast as BinaryOperationNode;
+
+      expect(result.errors).toEqual([
+        {
+          message: "Missing operand before ')'",
+          position: 5,
+          end: 6,
+          fixes: [{ title: "Remove '+'", start: 3, end: 4, replacement: '' }]
+        },
+        {
+          message: "Expected ',' or ']' to close '['",
+          position: 14,
+          end: 14,
+          fixes: [{ title: "Insert ']'", start: 14, end: 14, replacement: ']' }]
+        }
+      ]);
+      expect(ast.operator).toBe('*');
+      expect((ast.left as BinaryOperationNode).right).toEqual({ type: NodeType.Error, message: "Missing operand before ')'" });
+      expect((ast.right as ListNode).elements).toHaveLength(2);
+    });
+
+    it('should drop unmatched closing brackets and read mismatched ones as the expected bracket', () => {
+      const unmatched = parser.parse('1 + 2) * 3');
+
+      expect(unmatched.errors).toEqual([{
+        message: "Unmatched ')'",
+        position: 5,
+        end: 6,
+        fixes: [{ title: "Remove ')'", start: 5, end: 6, replacement: '' }]
+      }]);
+      expect((unmatched.ast as BinaryOperationNode).operator).toBe('+');
+
+      const mismatched = parser.parse('gcd(4, 6]');
+
+      expect(mismatched.errors).toEqual([{
+        message: "Expected ')' to close '(' but found ']'",
+        position: 8,
+        end: 9,
+        fixes: [{ title: "Replace ']' with ')'", start: 8, end: 9, replacement: ')' }]
+      }]);
+      expect((mismatched.ast as FunctionCallNode).arguments).toHaveLength(2);
+    });
+
+    it('should skip unreadable tokens up to the next argument', () => {
+      const result = parser.parse('gcd(4 : 1, 6) + ]');
+
+      expect(result.errors.map(error => [error.message, error.position, error.end])).toEqual([
+        ["Expected ',' between function arguments", 6, 9],
+        ['Unexpected end of expression', 15, 15],
+        ["Unmatched ']'", 16, 17]
+      ]);
+      expect(parser.parse('1 + )').errors.map(error => error.position)).toEqual([3, 4]);
+      expect(((result.ast as BinaryOperationNode).left as FunctionCallNode).arguments).toHaveLength(2);
+      expect((result.ast as BinaryOperationNode).right.type).toBe(NodeType.Error);
+    });
+
+    it('should resume after unexpected tokens', () => {
+      const result = parser.parse('2 = x @ + 1');
+
+      expect(result.errors.map(error => error.message)).toEqual(['Unexpected token: =', 'Unexpected token: @']);
+      expect(result.errors[0].fixes).toEqual([{ title: "Replace '=' with '=='", start: 2, end: 3, replacement: '==' }]);
+      expect(applyQuickFix('2 = x', result.errors[0].fixes![0])).toBe('2 == x');
+    });
+
+    it('should record the source ranges of calls and their arguments', () => {
+      const result = parser.parse('1 + gcd(4, (6))');
+      const call = (result.ast as BinaryOperationNode).right as FunctionCallNode;
+
+      expect(result.ranges?.get(call)).toEqual({ start: 4, end: 15 });
+      expect(call.arguments.map(argument => result.ranges?.get(argument))).toEqual([
+        { start: 8, end: 9 },
+        { start: 11, end: 14 }
+      ]);
+    });
+
+    it('should stand in for keywords used as operands with error nodes', () => {
+      const ast = parser.parse('step + 1').ast as BinaryOperationNode;
+
+      expect((ast.left as ErrorNode).message).toBe('Unexpected keyword: step');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Parser, ProgressUpdate, defineFunction } from '@/core/expression-engine';
+import { Evaluator } from '@/core/expression-engine/evaluator';
+import { ScriptParser } from '@/core/expression-engine/script-parser';
+import { withProgress, reportProgress, trackProgress, trackStep } from '@/core/expression-engine/progress';
+
+describe('progress reporting', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pass reports to the listener at most once per interval, with the time left', () => {
+    let now = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    const updates: ProgressUpdate[] = [];
+
+    withProgress(update => updates.push(update), () => {
+      now += 100;
+      reportProgress(0.25, 'Scanning');
+      now += 50;
+      reportProgress(0.4);
+      now += 50;
+      reportProgress(0.5);
+      reportProgress(0.3);
+      reportProgress(1);
+    }, 100);
+
+    expect(updates).toEqual([
+      { progress: 0.25, eta: 300, message: 'Scanning' },
+      { progress: 0.5, eta: 200, message: undefined },
+      { progress: 1, eta: 0, message: undefined }
+    ]);
+
+    // Reports outside a tracked computation are dropped
+    expect(() => reportProgress(0.5)).not.toThrow();
+  });
+
+  it('should scale the progress of nested work into its share of the enclosing work', () => {
+    const updates: number[] = [];
+
+    withProgress(({ progress }) => updates.push(progress), () => {
+      for (let step = 0; step < 4; step++) {
+        trackStep(step, 4, () => reportProgress(0.5));
+      }
+      trackProgress(0.5, 1, () => trackProgress(0.5, 1, () => reportProgress(0.5)));
+    }, 0);
+
+    expect(updates).toEqual([0, 0.125, 0.25, 0.375, 0.5, 0.625, 0.75, 0.875, 0.875]);
+  });
+
+  it('should report the progress of range scans, loops and sieves evaluated', () => {
+    const updates: ProgressUpdate[] = [];
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => now += 50);
+
+    const evaluator = new Evaluator();
+    const result = evaluator.evaluate(new Parser().parse('sum(k, 1, 4, length(primes(1, 10000 * k)))').ast!, {
+      onProgress: update => updates.push(update)
+    });
+
+    expect(result.value).toBe(1229 + 2262 + 3245 + 4203);
+    expect(updates.length).toBeGreaterThan(4);
+    expect(updates.map(({ progress }) => progress)).toEqual(updates.map(({ progress }) => progress).sort((a, b) => a - b));
+    expect(updates.every(({ progress }) => progress >= 0 && progress < 1)).toBe(true);
+    expect(updates.some(({ message }) => message === 'Sieving primes up to 40000')).toBe(true);
+    expect(updates.filter(({ progress }) => progress > 0).every(({ eta }) => eta! > 0)).toBe(true);
+  });
+
+  it('should report the steps of script loops and let functions report their own progress', () => {
+    const updates: [number, string?][] = [];
+    const evaluator = new Evaluator({
+      functions: {
+        scan: defineFunction(n => {
+          for (let i = 0; i < 2; i++) {
+            reportProgress(i / 2, 'Scanning');
+          }
+          return n;
+        }, ['n'])
+      }
+    });
+    vi.spyOn(Date, 'now').mockImplementation(() => updates.length * 1000);
+
+    const script = new ScriptParser().parse('let s = 0\nfor k in 1..2 { s = s + scan(k) }\ns').ast!;
+    const onProgress = ({ progress, message }: ProgressUpdate) => updates.push([progress, message]);
+    expect(evaluator.evaluate(script, { onProgress }).value).toBe(3);
+
+    // Each iteration reports its start, then the function reports within the iteration
+    expect(updates).toEqual([
+      [0, undefined], [0, 'Scanning'], [0.25, 'Scanning'],
+      [0.5, undefined], [0.5, 'Scanning'], [0.75, 'Scanning']
+    ]);
+
+    // Without a listener the functions run as usual
+    expect(evaluator.evaluate(new Parser().parse('scan(2)').ast!).value).toBe(2);
+  });
+});
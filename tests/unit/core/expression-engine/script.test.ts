@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpressionEngine, defineFunction } from '@/core/expression-engine';
+import { Evaluator } from '@/core/expression-engine/evaluator';
+import { CancelToken } from '@/core/computation/types';
+import { ScriptParser, locate, formatScriptError, isScriptInput } from '@/core/expression-engine/script-parser';
+import { BlockNode } from '@/core/expression-engine/types';
+
+const errorsOf = (script: string) => new ScriptParser().parse(script).errors;
+
+describe('scripts', () => {
+  let engine: ExpressionEngine;
+
+  // Run a script, failing on errors
+  const run = (script: string) => {
+    const result = engine.runScript(script);
+    expect(result.error).toBeUndefined();
+    return result.value;
+  };
+
+  beforeEach(() => {
+    engine = new ExpressionEngine();
+  });
+
+  describe('ScriptParser', () => {
+    it('should tell scripts from single expressions', () => {
+      expect(isScriptInput('let a = 2')).toBe(true);
+      expect(isScriptInput('a = 1; a + 1')).toBe(true);
+      expect(isScriptInput('f(n) = n^2\nf(3)')).toBe(true);
+      expect(isScriptInput('  for k in 1..3 { k }')).toBe(true);
+      expect(isScriptInput('lettuce + 1')).toBe(false);
+      expect(isScriptInput('sum(k, 1, 10, k)\n')).toBe(false);
+    });
+
+    it('should split statements on new lines and semicolons', () => {
+      const result = new ScriptParser().parse('let a = 1; let b = 2\n\na + b');
+      const block = result.ast as BlockNode;
+
+      expect(result.errors).toEqual([]);
+      expect(block.statements.map(statement => statement.type)).toEqual(['LET', 'LET', 'BINARY_OPERATION']);
+      expect(block.locations).toEqual([{ line: 1, column: 1 }, { line: 1, column: 12 }, { line: 3, column: 1 }]);
+    });
+
+    it('should continue expressions inside brackets and after operators', () => {
+      const block = new ScriptParser().parse('let total = 1 +\n  2\nlet pair = [1,\n  2]\nf(x) = x\n(total)').ast as BlockNode;
+
+      expect(block.statements.map(statement => statement.type)).toEqual(['LET', 'LET', 'FUNCTION_DEFINITION', 'VARIABLE']);
+    });
+
+    it('should report errors at their position in the script', () => {
+      expect(errorsOf('let x = 1\nif x > {\n}')[0]).toEqual({
+        message: 'Unexpected end of expression',
+        position: 16,
+        end: 16,
+        fixes: [{ title: "Remove '>'", start: 15, end: 16, replacement: '' }]
+      });
+      expect(errorsOf('while x < 3\n  x = x + 1')[0]).toEqual({ message: `Expected '{' to open the body of 'while'`, position: 14, end: 14 });
+      expect(errorsOf('for k 1..3 { k }')[0].message).toBe(`Expected 'variable in collection' after 'for'`);
+      expect(errorsOf('f(n) = {\n  n')[0].message).toBe(`Expected '}' to close the block opened on line 1`);
+      expect(errorsOf('let x = 1 2')[0].position).toBe(10);
+      expect(errorsOf('let if = 2')[0].message).toBe(`Cannot use keyword 'if' as a variable name`);
+      expect(errorsOf('else { 1 }')[0].message).toBe(`Unexpected 'else' without a matching 'if'`);
+      expect(errorsOf('if x = 1 { x }')[0].message).toBe(`Expected an expression but found an assignment (use '==' to compare)`);
+    });
+
+    it('should stand in for statements that fail to parse with errors located where they fail', () => {
+      const block = new ScriptParser().parse('let a = 1\n  let = 2\na').ast as BlockNode;
+
+      expect(block.statements[1]).toEqual({
+        type: 'ERROR',
+        message: `Expected 'name = value' after 'let'`,
+        location: { line: 2, column: 7 }
+      });
+      expect(new Evaluator().evaluate(block)).toEqual({
+        value: null,
+        error: `Expected 'name = value' after 'let'`,
+        location: { line: 2, column: 7 }
+      });
+    });
+
+    it('should ignore line comments', () => {
+      expect(errorsOf('// the answer\nlet x = 6 * 7 // exactly\nx')).toEqual([]);
+    });
+
+    it('should locate positions and format located errors', () => {
+      expect(locate('ab\ncd', 4)).toEqual({ line: 2, column: 2 });
+      expect(formatScriptError('Unknown variable: y', { line: 3, column: 5 })).toBe('Line 3, column 5: Unknown variable: y');
+    });
+  });
+
+  describe('runScript', () => {
+    it('should return the value of the last statement', () => {
+      expect(run('let a = 3\nlet b = 4\nsqrt(a^2 + b^2)')).toBe(5);
+      expect(run('')).toBeNull();
+    });
+
+    it('should run loops and conditionals', () => {
+      expect(run(`
+        let total = 0
+        for k in 1..10 {
+          if k % 2 == 0 { total = total + k } else if k == 5 { total = total + 100 }
+        }
+        total
+      `)).toBe(130);
+
+      expect(run('let n = 27; let steps = 0\nwhile n != 1 {\n  n = n % 2 == 0 ? n / 2 : 3n + 1\n  steps = steps + 1\n}\nsteps')).toBe(111);
+    });
+
+    it('should keep let declarations local to their block', () => {
+      expect(run('let x = 1\nif x > 0 { let x = 2 }\nx')).toBe(1);
+      expect(run('let x = 1\nif x > 0 { x = 2 }\nx')).toBe(2);
+      expect(engine.getScope().variables).toEqual({});
+      expect(engine.evaluate('x').error).toBe('Unknown variable: x');
+    });
+
+    it('should define reusable functions with block bodies in the session scope', () => {
+      run(`
+        // Euler's totient by trial division
+        phi(n) = {
+          let result = n
+          let m = n
+          for p in primes(2, n) {
+            if m % p == 0 {
+              result = result - result / p
+              while m % p == 0 { m = m / p }
+            }
+            if m == 1 { return result }
+          }
+          result
+        }
+        count = 10
+      `);
+
+      expect(engine.evaluate('phi(36)').value).toBe(12);
+      expect(engine.evaluate('seq(n, 1, 6, phi(n))').value).toEqual([1, 1, 2, 2, 4, 2]);
+      expect(engine.getScope().variables).toEqual({ count: 10 });
+      expect(engine.getSuggestions('ph', 2).map(suggestion => suggestion.text)).toContain('phi(');
+    });
+
+    it('should let functions assign to their parameters and return early', () => {
+      run('gcd2(a, b) = {\n  while b != 0 { let t = b; b = a % b; a = t }\n  return a\n}');
+
+      expect(engine.evaluate('gcd2(84, 36)').value).toBe(12);
+      expect(run('return 1\n2')).toBe(1);
+    });
+
+    it('should stop at the next loop iteration or function call once cancelled', () => {
+      const cancelToken = new CancelToken();
+      let ticks = 0;
+      const evaluator = new Evaluator({
+        functions: {
+          // Cancels the evaluation from inside, as another thread would through shared memory
+          tick: defineFunction(k => {
+            if (++ticks === 3) {
+              cancelToken.cancel('Stopped by the user');
+            }
+            return k;
+          }, ['k'])
+        }
+      });
+      const parse = (script: string) => new ScriptParser().parse(script).ast!;
+
+      expect(evaluator.evaluate(parse('let s = 0\nfor k in 1..100 { s = s + tick(k) }\ns'), { cancelToken }))
+        .toMatchObject({ value: null, error: 'Stopped by the user' });
+      expect(ticks).toBe(3);
+
+      expect(evaluator.evaluate(parse('sum(k, 1, 100, tick(k))'), { cancelToken }).error).toBe('Stopped by the user');
+      expect(evaluator.evaluate(parse('f(n) = n\nf(1)'), { cancelToken }).error).toBe('Stopped by the user');
+      expect(evaluator.evaluate(parse('sum(k, 1, 100, k)')).value).toBe(5050);
+    });
+
+    it('should report the line and column of errors', () => {
+      expect(engine.runScript('let a = 1\nlet b = a +\n')).toMatchObject({
+        error: 'Unexpected end of expression',
+        location: { line: 2, column: 12 }
+      });
+
+      expect(engine.runScript('let a = 1\nfor k in 1..3 {\n  a = a + y\n}')).toEqual({
+        value: null,
+        error: 'Unknown variable: y',
+        location: { line: 3, column: 3 }
+      });
+
+      expect(engine.runScript('for k in 5 { k }')).toMatchObject({
+        error: 'A for loop must run over a list, set or range',
+        location: { line: 1, column: 1 }
+      });
+    });
+
+    it('should locate errors inside function bodies at the failing statement', () => {
+      run('f(n) = {\n  let m = n\n  m / q\n}');
+
+      expect(engine.runScript('1 + f(2)').location).toEqual({ line: 3, column: 3 });
+    });
+
+    it('should not differentiate functions with block bodies', () => {
+      run('f(x) = {\n  x^2\n}');
+
+      expect(engine.differentiate('f(x)', 'x').error).toBe('Cannot expand function f: its body is a script block');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { Parser } from '@/core/expression-engine/parser';
+import { toLatex, toMathML } from '@/core/expression-engine/serializer';
+import { ASTNode } from '@/core/expression-engine/types';
+
+const parse = (expression: string): ASTNode => {
+  const result = new Parser().parse(expression);
+  expect(result.errors).toEqual([]);
+  return result.ast as ASTNode;
+};
+
+const latex = (expression: string): string => toLatex(parse(expression));
+
+// MathML content without the enclosing <math> element
+const mathml = (expression: string): string =>
+  toMathML(parse(expression)).replace(/^<math[^>]*>|<\/math>$/g, '');
+
+describe('serializer', () => {
+  describe('toLatex', () => {
+    it('should render fractions, powers and roots', () => {
+      expect(latex('n * (n + 1) / 2')).toBe('\\frac{n \\cdot \\left(n + 1\\right)}{2}');
+      expect(latex('x^(n + 1)')).toBe('x^{n + 1}');
+      expect(latex('(a / b)^2')).toBe('\\left(\\frac{a}{b}\\right)^{2}');
+      expect(latex('sqrt(x^2 + 1)')).toBe('\\sqrt{x^{2} + 1}');
+      expect(latex('2 * x^2 - 3 * sin(x)')).toBe('2 x^{2} - 3 \\sin\\left(x\\right)');
+    });
+
+    it('should parenthesise operands only where precedence requires it', () => {
+      expect(latex('a - (b - c)')).toBe('a - \\left(b - c\\right)');
+      expect(latex('-x^2')).toBe('-x^{2}');
+      expect(latex('(-x)^2')).toBe('\\left(-x\\right)^{2}');
+      expect(latex('(n!)!')).toBe('\\left(n!\\right)!');
+    });
+
+    it('should typeset function calls and identifiers conventionally', () => {
+      expect(latex('asin(x) + ln(x) + gcd(a, b)')).toBe('\\arcsin\\left(x\\right) + \\ln\\left(x\\right) + \\gcd\\left(a, b\\right)');
+      expect(latex('abs(x) + floor(y)')).toBe('\\left|x\\right| + \\left\\lfloor y\\right\\rfloor');
+      expect(latex('log2(x) + isPrime(p)')).toBe('\\log_{2}\\left(x\\right) + \\operatorname{isPrime}\\left(p\\right)');
+      expect(latex('2 * pi * r + x1 + theta_max')).toBe('2 \\pi \\cdot r + x_{1} + \\theta_{\\mathrm{max}}');
+      expect(latex('diff(x^3, x, 2)')).toBe('\\frac{d^{2}}{dx^{2}}\\left(x^{3}\\right)');
+    });
+
+    it('should render the remaining node types', () => {
+      expect(latex('1.5e-3')).toBe('1.5 \\times 10^{-3}');
+      expect(latex('x <= 1 && y != 2')).toBe('x \\leq 1 \\land y \\neq 2');
+      expect(latex('f(x) = x > 0 ? x : -x'))
+        .toBe('f\\left(x\\right) = \\begin{cases} x & \\text{if } x > 0 \\\\ -x & \\text{otherwise} \\end{cases}');
+      expect(latex('[1, 2] + {3}')).toBe('\\left[1, 2\\right] + \\left\\{3\\right\\}');
+      expect(latex('1..10 step 2')).toBe('1 \\ldots 10 \\text{ step } 2');
+    });
+
+    it('should draw bounded sums and products as big operators', () => {
+      expect(latex('sum(k, 1, n, k^2)')).toBe('\\sum_{k=1}^{n} k^{2}');
+      expect(latex('2 * prod(k, 1, n, 1 - 1 / k)')).toBe('2 \\left(\\prod_{k=1}^{n} \\left(1 - \\frac{1}{k}\\right)\\right)');
+      expect(latex('sum(p, primes(1, 50), p)')).toBe('\\operatorname{sum}\\left(p, \\operatorname{primes}\\left(1, 50\\right), p\\right)');
+    });
+
+    it('should write literals in other bases with the base as a subscript', () => {
+      expect(latex('0x1e5 + 36#zz')).toBe('\\mathrm{1e5}_{16} + \\mathrm{zz}_{36}');
+      expect(mathml('0b101')).toBe('<msub><mn>101</mn><mn>2</mn></msub>');
+    });
+  });
+
+  describe('toMathML', () => {
+    it('should wrap the formula in a math element', () => {
+      expect(toMathML(parse('x'))).toBe('<math xmlns="http://www.w3.org/1998/Math/MathML"><mi>x</mi></math>');
+      expect(toMathML(parse('x'), 'block')).toContain('display="block"');
+    });
+
+    it('should render fractions, powers and roots', () => {
+      expect(mathml('(n + 1) / 2')).toBe('<mfrac><mrow><mi>n</mi><mo>+</mo><mn>1</mn></mrow><mn>2</mn></mfrac>');
+      expect(mathml('x^2')).toBe('<msup><mi>x</mi><mn>2</mn></msup>');
+      expect(mathml('sqrt(x)')).toBe('<msqrt><mi>x</mi></msqrt>');
+      expect(mathml('(a - b)^2'))
+        .toBe('<msup><mrow><mo>(</mo><mrow><mi>a</mi><mo>−</mo><mi>b</mi></mrow><mo>)</mo></mrow><mn>2</mn></msup>');
+    });
+
+    it('should mark function application and implicit products', () => {
+      expect(mathml('sin(x)')).toBe('<mrow><mi>sin</mi><mo>&#x2061;</mo><mrow><mo>(</mo><mi>x</mi><mo>)</mo></mrow></mrow>');
+      expect(mathml('2 * pi')).toBe('<mrow><mn>2</mn><mo>&#x2062;</mo><mi>π</mi></mrow>');
+      expect(mathml('a * b')).toBe('<mrow><mi>a</mi><mo>⋅</mo><mi>b</mi></mrow>');
+    });
+
+    it('should draw bounded sums as big operators', () => {
+      expect(mathml('sum(k, 1, n, k)'))
+        .toBe('<mrow><munderover><mo>∑</mo><mrow><mi>k</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover><mi>k</mi></mrow>');
+    });
+
+    it('should escape markup characters in operators', () => {
+      expect(mathml('a < b')).toBe('<mrow><mi>a</mi><mo>&lt;</mo><mi>b</mi></mrow>');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { Parser } from '@/core/expression-engine/parser';
+import { printExpression } from '@/core/expression-engine/printer';
+import { differentiate, simplify } from '@/core/expression-engine/symbolic';
+import { ASTNode, FunctionDefinitionNode } from '@/core/expression-engine/types';
+
+const parse = (expression: string): ASTNode => {
+  const result = new Parser().parse(expression);
+  expect(result.errors).toEqual([]);
+  return result.ast as ASTNode;
+};
+
+const diff = (expression: string, variable: string = 'x', order: number = 1): string =>
+  printExpression(differentiate(parse(expression), variable, order));
+
+const simplified = (expression: string): string => printExpression(simplify(parse(expression)));
+
+describe('symbolic', () => {
+  describe('printExpression', () => {
+    it('should print with minimal parentheses', () => {
+      expect(printExpression(parse('(a + b) * c - (d - e)'))).toBe('(a + b) * c - (d - e)');
+      expect(printExpression(parse('2^3^2'))).toBe('2^3^2');
+      expect(printExpression(parse('(2^3)^2'))).toBe('(2^3)^2');
+      expect(printExpression(parse('-x^2'))).toBe('-x^2');
+      expect(printExpression(parse('(-x)^2'))).toBe('(-x)^2');
+      expect(printExpression(parse('f(x) = x > 0 ? sin(x) : -x'))).toBe('f(x) = x > 0 ? sin(x) : -x');
+    });
+
+    it('should print text that parses back to the same tree', () => {
+      for (const expression of ['a - (b - c)', 'a / (b * c)', '(n!)!', '[1, 2..5 step 2, {3}]', '!(a && b) || c']) {
+        const ast = parse(expression);
+        expect(parse(printExpression(ast))).toEqual(ast);
+      }
+    });
+  });
+
+  describe('differentiate', () => {
+    it('should apply the product and power rules', () => {
+      expect(diff('x^3*sin(x)')).toBe('3 * x^2 * sin(x) + x^3 * cos(x)');
+      expect(diff('a*x^2 + b*x + c')).toBe('2 * a * x + b');
+    });
+
+    it('should apply the quotient rule', () => {
+      expect(diff('sin(x)/x')).toBe('(cos(x) * x - sin(x)) / x^2');
+      expect(diff('1/x')).toBe('-1 / x^2');
+    });
+
+    it('should apply the chain rule', () => {
+      expect(diff('cos(2*x)')).toBe('-2 * sin(2 * x)');
+      expect(diff('ln(x^2 + 1)')).toBe('2 * x / (x^2 + 1)');
+      expect(diff('exp(-x^2)')).toBe('-2 * exp(-x^2) * x');
+    });
+
+    it('should differentiate exponentials', () => {
+      expect(diff('e^x')).toBe('e^x');
+      expect(diff('2^x')).toBe('2^x * ln(2)');
+      expect(diff('x^x')).toBe('x^x * (ln(x) + 1)');
+    });
+
+    it('should take higher derivatives', () => {
+      expect(diff('x^4', 'x', 2)).toBe('12 * x^2');
+      expect(diff('sin(t)', 't', 4)).toBe('sin(t)');
+    });
+
+    it('should expand user-defined functions', () => {
+      const definition = parse('f(t) = t^2 + t') as FunctionDefinitionNode;
+      const result = differentiate(parse('f(3*x)'), 'x', 1, { functions: { f: definition } });
+
+      expect(printExpression(result)).toBe('18 * x + 3');
+    });
+
+    it('should reject functions without a known derivative', () => {
+      expect(() => diff('floor(x)')).toThrow('Cannot differentiate function: floor');
+      expect(() => diff('x % 2')).toThrow('Cannot differentiate operator: %');
+    });
+  });
+
+  describe('simplify', () => {
+    it('should fold constants exactly', () => {
+      expect(simplified('2*3 + 4/6')).toBe('20 / 3');
+      expect(simplified('2^10 - 1')).toBe('1023');
+    });
+
+    it('should remove identities', () => {
+      expect(simplified('x*1 + 0 - 0*y')).toBe('x');
+      expect(simplified('x^1 + y^0')).toBe('x + 1');
+      expect(simplified('-(-x)')).toBe('x');
+      expect(simplified('ln(exp(x))')).toBe('x');
+    });
+
+    it('should collect like terms and factors', () => {
+      expect(simplified('x + x + 2*y - y')).toBe('2 * x + y');
+      expect(simplified('x*y - y*x')).toBe('0');
+      expect(simplified('x*x*x/x')).toBe('x^2');
+      expect(simplified('(x + 1)*(x + 1)')).toBe('(x + 1)^2');
+      expect(simplified('x/2 + x/3')).toBe('5 * x / 6');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { Parser } from '@/core/expression-engine/parser';
+import { Evaluator } from '@/core/expression-engine/evaluator';
+import { checkTypes, arityOf, describeArity } from '@/core/expression-engine/type-checker';
+import { FunctionSignature } from '@/core/expression-engine/types';
+
+describe('checkTypes', () => {
+  const parser = new Parser();
+  const signatures = new Evaluator().getFunctionSignatures();
+
+  // Errors in the calls of an expression, checked against the given signatures
+  const check = (expression: string, known: Record<string, FunctionSignature> = signatures) => {
+    const { ast, ranges } = parser.parse(expression);
+    return checkTypes(ast!, known, ranges);
+  };
+
+  const messages = (expression: string) => check(expression).map(error => error.message);
+
+  it('should report wrong argument counts over the whole call', () => {
+    expect(check('1 + gcd(4)')).toEqual([
+      { message: 'Function gcd expects 2 argument(s) but got 1', position: 4, end: 10 }
+    ]);
+    expect(messages('sin(1, 2)')).toEqual(['Function sin expects 1 argument(s) but got 2']);
+    expect(messages('sum(k, 1)')).toEqual(['Function sum expects 3 or 4 argument(s) but got 2']);
+    expect(messages('diff(x^2)')).toEqual(['Function diff expects 2 or 3 argument(s) but got 1']);
+  });
+
+  it('should report unknown functions with the closest known name as a quick fix', () => {
+    expect(check('sqr(2)')).toEqual([{
+      message: 'Unknown function: sqr',
+      position: 0,
+      end: 3,
+      fixes: [{ title: "Did you mean 'sqrt'?", start: 0, end: 3, replacement: 'sqrt' }]
+    }]);
+    expect(check('foo(1)')[0].fixes).toBeUndefined();
+  });
+
+  it('should report arguments of the wrong type at the argument', () => {
+    expect(check('length(5)')).toEqual([
+      { message: 'The first argument of length must be a list, not a number', position: 7, end: 8 }
+    ]);
+    expect(messages('sin(1 > 2)')).toEqual(['The first argument of sin must be a number, not a boolean']);
+    expect(messages('gcd(4, isPrime(7))')).toEqual(['The second argument of gcd must be a number, not a boolean']);
+    expect(messages('sum(2, 1, 10, k)')).toEqual(['The first argument of sum must be a variable']);
+    expect(messages('diff(x^2, 2)')).toEqual(['The second argument of diff must be a variable']);
+  });
+
+  it('should infer the types of nested calls and operations', () => {
+    expect(messages('length(primes(1, 10)) + length(1..5) + length([1, 2] * 2)')).toEqual([]);
+    expect(messages('length(sqrt([1, 4]))')).toEqual([]);
+    expect(messages('length(sqrt(4) + 1)')).toEqual(['The first argument of length must be a list, not a number']);
+    expect(messages('sin(x) + length(y) + sin(seq(k, 1, 3, k))')).toEqual([]);
+    expect(messages('simplify(x + x) + diff(sin(x), x, 2)')).toEqual([]);
+  });
+
+  it('should accept any number of variadic arguments of their declared type', () => {
+    const known: Record<string, FunctionSignature> = {
+      max: { parameters: [{ name: 'x', type: 'number' }], variadic: 'number', returns: 'number' }
+    };
+
+    expect(arityOf(known.max)).toEqual({ min: 1, max: Infinity });
+    expect(check('max(1, 2, 3)', known)).toEqual([]);
+    expect(check('max()', known)[0].message).toBe('Function max expects at least 1 argument(s) but got 0');
+    expect(check('max(1, 2 < 3)', known)[0].message).toBe('The second argument of max must be a number, not a boolean');
+  });
+
+  it('should let definitions call themselves and functions defined later', () => {
+    expect(check('f(n) = n <= 1 ? 1 : n * f(n - 1) + g(n)', {})).toEqual([]);
+    expect(check('f(n) = f(n, 1)', {})[0].message).toBe('Function f expects 1 argument(s) but got 2');
+  });
+
+  it('should describe arities', () => {
+    expect(describeArity({ min: 2, max: 2 })).toBe('2');
+    expect(describeArity({ min: 3, max: 4 })).toBe('3 or 4');
+    expect(describeArity({ min: 1, max: 3 })).toBe('1 to 3');
+    expect(describeArity({ min: 0, max: Infinity })).toBe('at least 0');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpressionEngine, formatExpressionValue } from '@/core/expression-engine';
+import { AutoCompletionProvider } from '@/core/expression-engine/auto-completion';
+import { findUnit, convertQuantity, formatUnits } from '@/core/expression-engine/units';
+
+describe('units', () => {
+  let engine: ExpressionEngine;
+
+  // Evaluate and format the result, failing on evaluation errors
+  const evaluateText = (expression: string): string => {
+    const result = engine.evaluate(expression);
+    expect(result.error).toBeUndefined();
+    return formatExpressionValue(result.value);
+  };
+
+  beforeEach(() => {
+    engine = new ExpressionEngine();
+  });
+
+  describe('catalogue', () => {
+    it('should find units with and without SI prefixes', () => {
+      expect(findUnit('N')?.quantity).toBe('force');
+      expect(findUnit('km')).toMatchObject({ name: 'kilometre', factor: 1000 });
+      expect(findUnit('kg')?.factor).toBe(1);
+      expect(findUnit('min')?.factor).toBe(60);
+      expect(findUnit('kmin')).toBeUndefined();
+      expect(findUnit('x')).toBeUndefined();
+    });
+
+    it('should format units with negative exponents after a slash', () => {
+      expect(formatUnits({ kg: 1, m: 1, s: -2 })).toBe('kg*m/s^2');
+      expect(formatUnits({ J: 1, mol: -1, K: -1 })).toBe('J/(mol*K)');
+      expect(formatUnits({ s: -1 })).toBe('s^-1');
+    });
+
+    it('should convert between units of the same dimension', () => {
+      expect(convertQuantity({ type: 'quantity', value: 1, units: { mi: 1 } }, { km: 1 }).value).toBeCloseTo(1.609344);
+      expect(() => convertQuantity(1, { m: 1 })).toThrow('Cannot convert a dimensionless number to m');
+    });
+  });
+
+  describe('quantities', () => {
+    it('should multiply and divide units', () => {
+      expect(evaluateText('3 m / 2 s')).toBe('1.5 m/s');
+      expect(evaluateText('2 m * 3 m')).toBe('6 m^2');
+      expect(evaluateText('5 kg * 9.81 m/s^2')).toBe('49.050000000000004 kg*m/s^2');
+      expect(evaluateText('sqrt(16 m^2)')).toBe('4 m');
+    });
+
+    it('should add quantities in the units of the left operand', () => {
+      expect(evaluateText('1 m + 20 cm')).toBe('1.2 m');
+      expect(evaluateText('1 h - 30 min')).toBe('0.5 h');
+      expect(engine.evaluate('2 km > 1500 m').value).toBe(true);
+      expect(engine.evaluate('1 m == 100 cm').value).toBe(true);
+    });
+
+    it('should collapse dimensionless results to plain numbers', () => {
+      expect(engine.evaluate('3 km / 1 m').value).toBe(3000);
+      expect(engine.evaluate('sin(90 deg)').value).toBeCloseTo(1);
+    });
+
+    it('should let variables shadow units', () => {
+      engine.evaluate('m = 4');
+
+      expect(engine.evaluate('3 m').value).toBe(12);
+      expect(evaluateText('3 s in ms')).toBe('3000 ms');
+    });
+
+    it('should keep exact magnitudes in high precision', () => {
+      const engine = new ExpressionEngine({ precision: 'high' });
+
+      expect(formatExpressionValue(engine.evaluate('1 m / 3 s').value)).toBe('1/3 m/s');
+    });
+  });
+
+  describe('conversion', () => {
+    it('should convert with in and to', () => {
+      expect(evaluateText('5 kg * 9.81 m/s^2 in N')).toBe('49.050000000000004 N');
+      expect(evaluateText('100 km/h to m/s')).toBe('27.77777777777778 m/s');
+      expect(evaluateText('2 h in min')).toBe('120 min');
+      expect(evaluateText('[1, 2] km in m')).toBe('[1000 m, 2000 m]');
+    });
+
+    it('should read names in the target as units even when variables shadow them', () => {
+      engine.evaluate('m = 4');
+
+      expect(evaluateText('250 cm in m')).toBe('2.5 m');
+    });
+
+    it('should parse conversions below every other operator', () => {
+      const result = engine.parse('x > 0 ? 1 km : 2 km in m');
+
+      expect(result.errors).toEqual([]);
+      expect(result.ast?.type).toBe('CONVERSION');
+    });
+  });
+
+  describe('dimension checking', () => {
+    it('should report mismatched dimensions through the evaluation error', () => {
+      expect(engine.evaluate('1 m + 1 s').error).toBe('Dimension mismatch: cannot add m and s');
+      expect(engine.evaluate('3 kg - 2').error).toBe('Dimension mismatch: cannot subtract kg and a dimensionless number');
+      expect(engine.evaluate('5 m in kg').error).toBe('Cannot convert m to kg: the dimensions differ');
+      expect(engine.evaluate('2 ^ (1 m)').error).toBe('Exponents must be dimensionless, not m');
+      expect(engine.evaluate('ln(3 m)').error).toBe('Expected a dimensionless number but got a quantity in m');
+      expect(engine.evaluate('sqrt(2 m)').error).toBe('Cannot raise a quantity in m to the power 0.5');
+      expect(engine.evaluate('5 in foo').error).toBe('Unknown unit: foo');
+    });
+
+    it('should treat quantities of different dimensions as unequal', () => {
+      expect(engine.evaluate('1 m == 1 s').value).toBe(false);
+      expect(engine.evaluate('1 m < 1 s').error).toBe('Dimension mismatch: cannot compare m and s');
+    });
+  });
+
+  describe('auto-completion', () => {
+    it('should suggest units after a number', () => {
+      const provider = new AutoCompletionProvider();
+      const expression = '5 k';
+      const tokens = engine.parse(expression).tokens;
+      const suggestions = provider.getSuggestions(expression, expression.length, tokens);
+
+      expect(suggestions.map(suggestion => suggestion.text)).toContain('km');
+      expect(suggestions.find(suggestion => suggestion.text === 'kWh')).toMatchObject({
+        type: 'unit',
+        description: 'Kilowatt-hour (energy)'
+      });
+    });
+  });
+});
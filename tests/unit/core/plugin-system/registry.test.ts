@@ -1,6 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PluginRegistry } from '../../../../src/core/plugin-system/registry';
-import { PluginManifest } from '../../../../src/core/plugin-system/types';
+import { PluginManifest, PluginMethodContext } from '../../../../src/core/plugin-system/types';
 
 describe('PluginRegistry', () => {
   let registry: PluginRegistry;
@@ -115,6 +115,46 @@ describe('PluginRegistry', () => {
     expect(plugins[0].id).toBe(anotherManifest.id);
   });
   
+  it('should pair the methods declared for expressions with proxied or minified implementations', () => {
+    registry.register({
+      ...sampleManifest,
+      methods: {
+        totient: { parameters: [{ name: 'n', type: 'number' }], returns: 'number' },
+        jacobi: {
+          parameters: [{ name: 'a', type: 'number' }, { name: 'n', type: 'number' }],
+          returns: 'number'
+        },
+        missing: { parameters: [], returns: 'number' }
+      }
+    });
+    
+    // Methods served by a proxy, as for sandboxed plugins, with minified parameter names
+    const calls: unknown[][] = [];
+    const methods = new Proxy({} as Record<string, (...args: unknown[]) => unknown>, {
+      get: (_target, name) => name === 'missing' ? undefined : function (this: PluginMethodContext, e: unknown, t: unknown) {
+        calls.push([name, e, t]);
+        this.reportProgress(1, `Computing ${String(name)}`);
+        return e;
+      }
+    });
+    registry.updatePlugin(sampleManifest.id, {
+      initialize: async () => ({ success: true }),
+      cleanup: async () => ({ success: true }),
+      methods
+    }, 'initialized');
+    
+    const declared = registry.getExpressionMethods(sampleManifest.id);
+    
+    expect(declared.map(method => method.name)).toEqual(['totient', 'jacobi']);
+    expect(declared[1].signature.parameters.map(parameter => parameter.name)).toEqual(['a', 'n']);
+    const reportProgress = vi.fn();
+    expect(declared[1].implementation({ reportProgress }, 2, 7)).toBe(2);
+    expect(calls).toEqual([['jacobi', 2, 7]]);
+    expect(reportProgress).toHaveBeenCalledWith(1, 'Computing jacobi');
+    
+    expect(registry.getExpressionMethods('non.existent.plugin')).toEqual([]);
+  });
+  
   it('should unregister a plugin', () => {
     registry.register(sampleManifest);
     registry.unregisterPlugin(sampleManifest.id);
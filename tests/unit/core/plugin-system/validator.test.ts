@@ -153,6 +153,26 @@ describe('Manifest Validator', () => {
     }).toThrow(/Invalid permission/);
   });
   
+  it('should reject manifests with incomplete method signatures', () => {
+    const validMethods: PluginManifest = {
+      ...validManifest,
+      methods: {
+        totient: { parameters: [{ name: 'n', type: 'number' }], returns: 'number' }
+      }
+    };
+    const invalidManifest: PluginManifest = {
+      ...validManifest,
+      methods: {
+        totient: { parameters: [{ type: 'number' } as { name: string; type: 'number' }], returns: 'number' }
+      }
+    };
+    
+    expect(() => validateManifest(validMethods)).not.toThrow();
+    expect(() => {
+      validateManifest(invalidManifest);
+    }).toThrow(/parameter at index 0 of method totient/);
+  });
+  
   it('should reject manifests with invalid resource levels', () => {
     const invalidManifest: PluginManifest = {
       ...validManifest,
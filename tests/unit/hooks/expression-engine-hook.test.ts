@@ -0,0 +1,113 @@
+/**
+ * Expression Engine Hook Tests
+ *
+ * Tests for the methods plugins add to expressions through the expression engine hook
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useExpressionEngine } from '../../../src/hooks/useExpressionEngine';
+import { Parser } from '../../../src/core/expression-engine';
+import { pluginRegistry } from '../../../src/core/plugin-system/registry';
+import { PluginManifest, PluginMethodContext } from '../../../src/core/plugin-system/types';
+import { ProgressUpdate } from '../../../src/core/expression-engine/types';
+
+vi.mock('../../../src/core/plugin-system/service', () => ({
+  getPluginApiService: vi.fn(() => ({
+    getEventApi: vi.fn(() => ({
+      subscribe: vi.fn().mockReturnValue(() => {}),
+      publish: vi.fn()
+    }))
+  }))
+}));
+
+describe('useExpressionEngine', () => {
+  const manifest: PluginManifest = {
+    id: 'org.example.number-theory',
+    name: 'Number Theory',
+    version: '1.0.0',
+    compatibility: {
+      mathJs: '^1.0.0',
+      dashboard: '^1.0.0'
+    },
+    author: {
+      name: 'Test Author'
+    },
+    license: 'MIT',
+    description: 'Number theory methods',
+    entryPoint: './index.js',
+    methods: {
+      totient: { parameters: [{ name: 'n', type: 'number' }], returns: 'number' },
+      sieve: { parameters: [{ name: 'n', type: 'number' }], returns: 'number' }
+    }
+  };
+
+  beforeEach(() => {
+    // Methods of sandboxed plugins answer with promises
+    pluginRegistry.register(manifest);
+    pluginRegistry.updatePlugin(manifest.id, {
+      initialize: async () => ({ success: true }),
+      cleanup: async () => ({ success: true }),
+      methods: {
+        totient: async (n: unknown) => {
+          let count = 0;
+          for (let k = 1; k <= Number(n); k++) {
+            let [a, b] = [k, Number(n)];
+            while (b) [a, b] = [b, a % b];
+            count += a === 1 ? 1 : 0;
+          }
+          return count;
+        },
+        // Reports its progress as it counts the primes up to n
+        sieve: async function (this: PluginMethodContext, n: unknown) {
+          const composite = new Uint8Array(Number(n) + 1);
+          let count = 0;
+          for (let k = 2; k <= Number(n); k++) {
+            this.reportProgress(k / Number(n), `Sieving primes up to ${n}`);
+            if (!composite[k]) {
+              count++;
+              for (let multiple = k * k; multiple <= Number(n); multiple += k) composite[multiple] = 1;
+            }
+          }
+          return count;
+        }
+      }
+    }, 'initialized');
+    pluginRegistry.enablePlugin(manifest.id);
+  });
+
+  afterEach(() => {
+    pluginRegistry.unregisterPlugin(manifest.id);
+    vi.restoreAllMocks();
+  });
+
+  it('should await the methods of plugins and evaluate their calls on the main thread', async () => {
+    const { result } = renderHook(() => useExpressionEngine());
+
+    await expect(result.current.evaluateExpression('totient(10) + 1')).resolves.toBe(5);
+    await expect(result.current.evaluateExpression('totient([9, 10])')).resolves.toEqual([6, 4]);
+
+    // Workers know nothing of plugins, so calls to their methods stay on the main thread
+    const { usesExtensions, extensions } = result.current;
+    const parser = new Parser(extensions);
+    expect(usesExtensions(parser.parse('2 * totient(10)'))).toBe(true);
+    expect(usesExtensions(parser.parse('2 * gcd(4, 6)'))).toBe(false);
+  });
+
+  it('should pass the progress reported by the methods of plugins to the listener', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const { result } = renderHook(() => useExpressionEngine());
+    const updates: ProgressUpdate[] = [];
+
+    await expect(result.current.evaluateExpression('sieve(100) + 1', update => updates.push(update))).resolves.toBe(26);
+
+    // Throttled, the reports reach the listener at the start and at the end
+    expect(updates.map(({ progress, message }) => [progress, message])).toEqual([
+      [0.02, 'Sieving primes up to 100'],
+      [1, 'Sieving primes up to 100']
+    ]);
+
+    // Reports without a listener are dropped
+    await expect(result.current.evaluateExpression('sieve(10)')).resolves.toBe(4);
+  });
+});